@@ -1,11 +1,24 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { ChefHat, ShoppingCart, Settings, RefreshCw, CalendarDays, FileText, Archive, ChevronDown, Calendar as CalendarIcon, ClipboardList, LogOut, Cpu, Share2, MessageSquareHeart } from 'lucide-react';
-import { WeeklyPlan, UserPreferences, GroceryItem, PreferenceProfile, MealHistoryEntry, DayPlan, Schedule, MealTransfer } from './types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ChefHat, ShoppingCart, Settings, RefreshCw, X, CalendarDays, FileText, Archive, ChevronDown, Calendar as CalendarIcon, ClipboardList, LogOut, Cpu, Share2, MessageSquareHeart, Package, Bot, AlertTriangle } from 'lucide-react';
+import { WeeklyPlan, UserPreferences, GroceryItem, PreferenceProfile, MealHistoryEntry, DayPlan, Schedule, MealTransfer, NutritionInfo, PantryItem, ScheduledDay, MealAlternative, AssistantMessage, PlanEdit } from './types';
 import { DEFAULT_PREFERENCES, DEFAULT_PROFILE_TEMPLATES } from './constants';
-import { generateWeeklyPlan, generateGroceryList, regenerateSingleMeal, smartEditMeals, generateGroceryListFromSchedule } from './services/geminiService';
+import { generateWeeklyPlan, generateGroceryList, regenerateSingleMeal, suggestMealAlternatives, smartEditMeals, generateGroceryListFromSchedule, estimatePantryUsage, askPlanningAssistant } from './services/geminiService';
+import { applyPantryUsage, getRecipePantryUsage } from './services/pantry';
+import { getHouseholdPortions } from './services/household';
+import { consolidateGroceryItems, mergeGroceryLists } from './services/groceryNormalizer';
+import { getDishTags, validateWeeklyPlan, repairPlanViolations, PlanSlot } from './services/mealValidator';
+import { getActiveObservances, getPlanWeekStart } from './services/observances';
+import { DEFAULT_PLAN_DAYS, MAX_PLAN_DAYS, MIN_PLAN_DAYS, clampPlanDays, formatPlanRange } from './services/planHorizon';
+import { generateOfflineWeeklyPlan, regenerateOfflineMeal, suggestOfflineAlternatives } from './services/offlinePlanner';
+import { getAlternativesWeek, getRejectedAlternatives, rejectAlternatives } from './services/mealAlternatives';
+import { applyEditsToPlan, applyEditsToSchedule, getAssistantDays } from './services/planningAssistant';
+import { getMealKeys, getMealSlotLabel, getMealSlots, getPlannedSlots, hasMeals } from './services/mealSlots';
+import { AIInvalidKeyError, AIModelNotFoundError, AIQuotaExceededError, AISafetyBlockError, AITimeoutError, isAbortError } from './services/aiProvider';
+import { getNutritionForDishes, getDayMeals, getDayNutrition, sumNutrition, scaleTargets } from './services/nutritionService';
 import { useAuth } from './contexts/AuthContext';
 import { useSettings } from './contexts/SettingsContext';
 import * as supabaseService from './services/supabaseService';
+import { SyncFailure, discardFailedChanges, retryFailedChanges, startSync, subscribeToSync, subscribeToSyncFailures } from './services/syncQueue';
 import PreferencesModal from './components/PreferencesModal';
 import GroceryList from './components/GroceryList';
 import MealCard from './components/MealCard';
@@ -18,11 +31,18 @@ import SettingsModal from './components/SettingsModal';
 import UserMenu from './components/UserMenu';
 import ShareModal from './components/ShareModal';
 import FeedbackModal from './components/FeedbackModal';
+import RecipeModal from './components/RecipeModal';
+import NutritionSummary from './components/NutritionSummary';
+import PantryView from './components/PantryView';
+import PlanningAssistant from './components/PlanningAssistant';
 import { format, addDays, parseISO, startOfWeek, endOfWeek } from 'date-fns';
 
+// Set once the "no AI provider" hint has been closed
+const AI_HINT_DISMISSED_KEY = 'qookcommander_ai_hint_dismissed';
+
 function App() {
   const { user, loading: authLoading, signOut, isConfigured } = useAuth();
-  const { apiKey, modelName, isAuthenticated: hasApiKey } = useSettings();
+  const { aiConfig, isAuthenticated: hasApiKey } = useSettings();
   const [skipAuth, setSkipAuth] = useState(false);
 
   const [profiles, setProfiles] = useState<PreferenceProfile[]>([]);
@@ -43,21 +63,32 @@ function App() {
   const [shareModalData, setShareModalData] = useState<{ isOpen: boolean; type: 'plan' | 'grocery'; data: any; dateRange: string }>({ isOpen: false, type: 'plan', data: null, dateRange: '' });
   const [loadedWeekRange, setLoadedWeekRange] = useState<string>('');
   const [isFeedbackOpen, setIsFeedbackOpen] = useState(false);
+  const [isAssistantOpen, setIsAssistantOpen] = useState(false);
+  const [recipeMealName, setRecipeMealName] = useState<string | null>(null);
+  const [nutrition, setNutrition] = useState<Record<string, NutritionInfo>>({}); // Estimates keyed by meal name
+  const nutritionRequestedRef = useRef<Set<string>>(new Set()); // Asked once per session, even if estimation failed
+  const [pantryItems, setPantryItems] = useState<PantryItem[]>([]);
+  const [dishTags, setDishTags] = useState<Record<string, string[]>>({}); // AI ingredient groups keyed by meal name
+  const dishTagsRequestedRef = useRef<Set<string>>(new Set());
 
   const [loading, setLoading] = useState(false);
+  const [streamedDays, setStreamedDays] = useState<(DayPlan | undefined)[]>([]); // Days received so far while a plan streams in, by plan position
+  const [planStartDate, setPlanStartDate] = useState(getPlanWeekStart); // First day of the next plan (YYYY-MM-DD)
+  const [planDays, setPlanDays] = useState(DEFAULT_PLAN_DAYS); // Length of the next plan
+  const planAbortRef = useRef<AbortController | null>(null);
+  const groceryAbortRef = useRef<AbortController | null>(null);
   const [groceryLoading, setGroceryLoading] = useState(false);
   const [regenLoading, setRegenLoading] = useState(false);
   const [dataLoading, setDataLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'plan' | 'calendar' | 'grocery'>('plan');
+  const [aiHintDismissed, setAiHintDismissed] = useState(() => localStorage.getItem(AI_HINT_DISMISSED_KEY) === 'true');
+  const [syncFailures, setSyncFailures] = useState<SyncFailure[]>([]); // Changes Supabase would not take
+  const [activeTab, setActiveTab] = useState<'plan' | 'calendar' | 'grocery' | 'pantry'>('plan');
   const [showLanding, setShowLanding] = useState(false); // Allow logged-in users to view landing page
 
   // Get user ID (or 'local' for offline mode)
   const userId = user?.id || 'local';
   const isAuthenticated = !!user || skipAuth;
 
-  // AI Config object
-  const aiConfig = { apiKey, modelName };
-
   // Load initial data
   useEffect(() => {
     const loadData = async () => {
@@ -140,6 +171,10 @@ function App() {
         const loadedHistory = await supabaseService.getMealHistory(userId);
         setMealHistory(loadedHistory);
 
+        // Load pantry
+        const loadedPantry = await supabaseService.getPantryItems(userId);
+        setPantryItems(loadedPantry);
+
       } catch (error) {
         console.error('Error loading data:', error);
       } finally {
@@ -161,6 +196,33 @@ function App() {
     return () => subscription.unsubscribe();
   }, [isAuthenticated, userId, skipAuth]);
 
+  // Sync with Supabase in the background and reload whatever changed on another device
+  useEffect(() => {
+    if (!isAuthenticated || skipAuth) return;
+
+    const stopSync = startSync(userId);
+    const unsubscribe = subscribeToSync(async (changed) => {
+      try {
+        if (changed.includes('profiles')) setProfiles(await supabaseService.getPreferenceProfiles(userId));
+        if (changed.includes('plan')) setWeeklyPlan(await supabaseService.getCurrentPlan(userId));
+        if (changed.includes('schedule')) setSchedule(await supabaseService.getSchedule(userId));
+        if (changed.includes('meal_history')) setMealHistory(await supabaseService.getMealHistory(userId));
+        if (changed.includes('pantry')) setPantryItems(await supabaseService.getPantryItems(userId));
+      } catch (error) {
+        console.error('Error reloading synced data:', error);
+      }
+    });
+
+    const unsubscribeFailures = subscribeToSyncFailures(userId, setSyncFailures);
+
+    return () => {
+      unsubscribe();
+      unsubscribeFailures();
+      stopSync();
+      setSyncFailures([]);
+    };
+  }, [isAuthenticated, userId, skipAuth]);
+
   // Save current profile ID to localStorage and Supabase
   useEffect(() => {
     localStorage.setItem('cookcommander_current_profile_id', currentProfileId);
@@ -170,30 +232,87 @@ function App() {
     }
   }, [currentProfileId, isAuthenticated, userId, skipAuth]);
 
+  const getActivePreferences = useCallback(() => {
+    return profiles.find(p => p.id === currentProfileId) || profiles[0] || DEFAULT_PREFERENCES;
+  }, [profiles, currentProfileId]);
+
   // Update meal history from schedule (for offline compatibility)
   useEffect(() => {
     if (skipAuth || !user) {
       const history: MealHistoryEntry[] = [];
+      const slots = getMealSlots(getActivePreferences());
       Object.entries(schedule).forEach(([date, plan]) => {
         const dayPlan = plan as DayPlan;
-        if (dayPlan.breakfast) history.push({ date, type: 'Breakfast', mealName: dayPlan.breakfast });
-        if (dayPlan.lunch) history.push({ date, type: 'Lunch', mealName: dayPlan.lunch });
-        if (dayPlan.dinner) history.push({ date, type: 'Dinner', mealName: dayPlan.dinner });
+        getMealKeys(dayPlan).forEach(slot => {
+          if (dayPlan[slot]) history.push({ date, type: getMealSlotLabel(slot, slots), mealName: dayPlan[slot] });
+        });
       });
       setMealHistory(history);
     }
-  }, [schedule, skipAuth, user]);
+  }, [schedule, skipAuth, user, getActivePreferences]);
+
+  // Fetch nutrition estimates (cached per dish) for meals not looked up yet
+  const handleEstimateNutrition = useCallback(async (meals: string[]) => {
+    if (!hasApiKey) return;
+    const missing = [...new Set(meals.map(m => m.trim()))]
+      .filter(m => m && !nutritionRequestedRef.current.has(m));
+    if (missing.length === 0) return;
+
+    missing.forEach(m => nutritionRequestedRef.current.add(m));
+    try {
+      const estimates = await getNutritionForDishes(missing, aiConfig);
+      setNutrition(prev => ({ ...prev, ...estimates }));
+    } catch (error) {
+      console.error('Nutrition estimation failed:', error);
+    }
+  }, [hasApiKey, aiConfig]);
 
-  // Show settings modal if not configured
   useEffect(() => {
-    if (isAuthenticated && !hasApiKey) {
-      setIsSettingsOpen(true);
+    if (weeklyPlan) handleEstimateNutrition(weeklyPlan.days.flatMap(getDayMeals));
+  }, [weeklyPlan, handleEstimateNutrition]);
+
+  // Fetch AI ingredient classifications (cached per dish) so the validator can catch what its keywords miss
+  const handleClassifyDishes = useCallback(async (meals: string[]) => {
+    if (!hasApiKey) return;
+    const missing = [...new Set(meals.map(m => m.trim()))]
+      .filter(m => m && !dishTagsRequestedRef.current.has(m));
+    if (missing.length === 0) return;
+
+    missing.forEach(m => dishTagsRequestedRef.current.add(m));
+    try {
+      const tags = await getDishTags(missing, aiConfig);
+      setDishTags(prev => ({ ...prev, ...tags }));
+    } catch (error) {
+      console.error('Dish classification failed:', error);
     }
-  }, [isAuthenticated, hasApiKey]);
+  }, [hasApiKey, aiConfig]);
 
-  const getActivePreferences = useCallback(() => {
-    return profiles.find(p => p.id === currentProfileId) || profiles[0] || DEFAULT_PREFERENCES;
-  }, [profiles, currentProfileId]);
+  useEffect(() => {
+    if (weeklyPlan) handleClassifyDishes(weeklyPlan.days.flatMap(getDayMeals));
+  }, [weeklyPlan, handleClassifyDishes]);
+
+  // Streamed days sit at their plan position, so later chunks can arrive before a repaired one
+  const streamedCount = streamedDays.filter(Boolean).length;
+
+  const planViolations = useMemo(
+    () => (weeklyPlan ? validateWeeklyPlan(weeklyPlan, getActivePreferences(), dishTags) : []),
+    [weeklyPlan, getActivePreferences, dishTags]
+  );
+
+  // Regenerates meals that break allergies, dislikes or dietary types (only the given slots, if any).
+  // A cancel passes the AbortError on, so the caller can drop the plan.
+  const repairViolations = async (plan: WeeklyPlan, prefs: UserPreferences, slots?: PlanSlot[], signal?: AbortSignal): Promise<WeeklyPlan> => {
+    if (!hasApiKey) return plan;
+    try {
+      const { plan: repairedPlan } = await repairPlanViolations(plan, prefs, aiConfig, slots, signal);
+      return repairedPlan;
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) throw error;
+      // Keep the unrepaired plan; its violations stay flagged on the cards
+      console.error('Automatic meal repair failed:', error);
+      return plan;
+    }
+  };
 
   const handleSaveProfile = async (updatedProfile: PreferenceProfile) => {
     try {
@@ -258,7 +377,7 @@ function App() {
         }
       }
 
-      setWeeklyPlan({ days });
+      setWeeklyPlan({ days, startDate: startDateStr });
       setActiveTab('plan');
     } catch (error) {
       console.error('Failed to load week:', error);
@@ -266,21 +385,56 @@ function App() {
     }
   }, [userId]);
 
-  const handleGeneratePlan = async () => {
-    if (!hasApiKey) {
-      setIsSettingsOpen(true);
-      return;
-    }
-
+  // `useFirst` lists ingredients on hand (e.g. from a pantry photo) that the plan should use up first
+  const handleGeneratePlan = async (request: { startDate?: string; dayCount?: number; useFirst?: string[] } = {}) => {
+    const startDate = request.startDate || planStartDate;
+    const dayCount = request.dayCount || planDays;
+    const useFirst = request.useFirst || [];
+    const controller = new AbortController();
+    planAbortRef.current = controller;
+    setStreamedDays([]);
     setLoading(true);
     try {
       const prefs = getActivePreferences();
 
+      // No AI provider configured: build a rule-based plan from the profile instead
+      if (!hasApiKey) {
+        const plan = generateOfflineWeeklyPlan(prefs, { startDate, dayCount, useFirst });
+        await supabaseService.savePlan(plan, userId, currentProfileId);
+
+        setWeeklyPlan(plan);
+        setGroceryList([]);
+        setLoadedWeekRange('');
+        setActiveTab('plan');
+        setLoading(false);
+        return;
+      }
+
       // Fetch learning summary from last 3 months of accepted meals
       const learningSummary = await supabaseService.getMealLearningSummary(userId, 3);
 
-      // Generate plan with learning context
-      const plan = await generateWeeklyPlan(prefs, aiConfig, learningSummary);
+      // Generate plan with learning context, rendering each day as it streams in
+      const generatedPlan = await generateWeeklyPlan(prefs, aiConfig, learningSummary, {
+        signal: controller.signal,
+        onDay: (day, index) => {
+          if (controller.signal.aborted) return;
+          setStreamedDays(prev => {
+            const next = [...prev];
+            next[index] = day;
+            return next;
+          });
+        },
+        // A chunk failed validation: drop its days from the preview until the repaired ones arrive
+        onChunkReset: (start, count) => {
+          if (controller.signal.aborted) return;
+          setStreamedDays(prev => prev.map((day, index) => (index >= start && index < start + count ? undefined : day)));
+        }
+      }, startDate, dayCount, useFirst);
+      if (controller.signal.aborted) return;
+
+      // Replace only the meals that slipped past allergies, dislikes or dietary type
+      const plan = await repairViolations(generatedPlan, prefs, undefined, controller.signal);
+      if (controller.signal.aborted) return;
 
       // Save to Supabase
       await supabaseService.savePlan(plan, userId, currentProfileId);
@@ -296,25 +450,70 @@ function App() {
       setGroceryLoading(false);
 
     } catch (error: any) {
+      // Cancelled by the user, keep whatever plan was showing before
+      if (controller.signal.aborted || isAbortError(error)) return;
+
       console.error("Plan Generation Error", error);
       const errorMessage = error?.message || 'Unknown error';
-      if (errorMessage.includes('API Key') || errorMessage.includes('API key')) {
-        alert(`API Key Error: ${errorMessage}`);
+      if (error instanceof AIInvalidKeyError || error instanceof AIModelNotFoundError) {
+        alert(`AI Settings Error: ${errorMessage}`);
         setIsSettingsOpen(true);
+      } else if (error instanceof AIQuotaExceededError) {
+        // Retries are already exhausted, so offer the rule-based planner instead
+        if (confirm(`${errorMessage}\n\nBuild this week's plan from your profile without AI instead?`)) {
+          const plan = generateOfflineWeeklyPlan(getActivePreferences(), { startDate, dayCount, useFirst });
+          await supabaseService.savePlan(plan, userId, currentProfileId);
+          setWeeklyPlan(plan);
+          setGroceryList([]);
+          setLoadedWeekRange('');
+          setActiveTab('plan');
+        }
+      } else if (error instanceof AISafetyBlockError) {
+        alert(`${errorMessage}\n\nCheck the special instructions in your preferences for anything that could be misread.`);
+      } else if (error instanceof AITimeoutError) {
+        alert(`${errorMessage} Your connection or the AI service may be slow right now.`);
       } else {
         alert(`Failed to generate plan: ${errorMessage}`);
       }
       setLoading(false);
+    } finally {
+      // A cancelled run must not clear the state of a newer one
+      if (planAbortRef.current === controller) {
+        planAbortRef.current = null;
+        setStreamedDays([]);
+      }
     }
   };
 
-  const handleRegenerateMeal = async (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner') => {
+  // From a fridge/pantry photo: plan the next few days, starting today, around what was found
+  const handlePlanWithIngredients = (ingredients: string[], dayCount: number) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    setPlanStartDate(today);
+    setPlanDays(dayCount);
+    setIsPreferencesOpen(false);
+    setActiveTab('plan');
+    handleGeneratePlan({ startDate: today, dayCount, useFirst: ingredients });
+  };
+
+  const handleCancelGeneration = () => {
+    planAbortRef.current?.abort();
+    planAbortRef.current = null;
+    setStreamedDays([]);
+    setLoading(false);
+  };
+
+  const handleRegenerateMeal = async (dayIndex: number, mealType: string) => {
     if (!weeklyPlan) return;
     setRegenLoading(true);
     try {
-      const newMeal = await regenerateSingleMeal(weeklyPlan, dayIndex, mealType, getActivePreferences(), aiConfig);
-      const updatedPlan = { ...weeklyPlan };
+      const prefs = getActivePreferences();
+      const rejectedReasons = (planViolations[dayIndex]?.[mealType] || []).map(v => v.reason);
+      const newMeal = hasApiKey
+        ? await regenerateSingleMeal(weeklyPlan, dayIndex, mealType, prefs, aiConfig, rejectedReasons)
+        : regenerateOfflineMeal(weeklyPlan, dayIndex, mealType, prefs);
+      let updatedPlan = { ...weeklyPlan };
       updatedPlan.days[dayIndex][mealType] = newMeal;
+      updatedPlan = await repairViolations(updatedPlan, prefs, [{ dayIndex, mealType }]);
       setWeeklyPlan(updatedPlan);
 
       // Save updated plan
@@ -326,12 +525,40 @@ function App() {
     }
   };
 
+  // Ranked replacements for one slot, leaving out dishes turned down that week
+  const loadMealAlternatives = async (plan: WeeklyPlan, dayIndex: number, mealType: string): Promise<MealAlternative[]> => {
+    const prefs = getActivePreferences();
+    const excluded = getRejectedAlternatives(currentProfileId, getAlternativesWeek(plan.days[dayIndex]));
+    return hasApiKey
+      ? await suggestMealAlternatives(plan, dayIndex, mealType, prefs, aiConfig, excluded, pantryItems)
+      : suggestOfflineAlternatives(plan, dayIndex, mealType, prefs, excluded, pantryItems);
+  };
+
+  // The Monday-to-Sunday week around a calendar day, so suggestions avoid that week's meals
+  const getScheduleWeek = (dateKey: string): WeeklyPlan => {
+    const weekStart = startOfWeek(parseISO(dateKey), { weekStartsOn: 1 });
+    const days = Array.from({ length: 7 }, (_, i) => {
+      const date = format(addDays(weekStart, i), 'yyyy-MM-dd');
+      return { ...(schedule[date] || { day: date, breakfast: '', lunch: '', dinner: '' }), date };
+    });
+    return { days, startDate: days[0].date };
+  };
+
+  // Every list is consolidated (canonical units, merged duplicates, pack sizes) before it is shown
+  const showGroceryList = (items: GroceryItem[]) => setGroceryList(consolidateGroceryItems(items));
+
   const handleUpdateGroceryList = async (plan: WeeklyPlan, prefs: UserPreferences) => {
+    // A newer plan supersedes any grocery list still being generated
+    groceryAbortRef.current?.abort();
+    const controller = new AbortController();
+    groceryAbortRef.current = controller;
     try {
-      const groceries = await generateGroceryList(plan, prefs, aiConfig);
-      setGroceryList(groceries);
+      const groceries = await generateGroceryList(plan, prefs, aiConfig, controller.signal);
+      if (!controller.signal.aborted) showGroceryList(groceries);
     } catch (e) {
-      console.error(e);
+      if (!isAbortError(e)) console.error(e);
+    } finally {
+      if (groceryAbortRef.current === controller) groceryAbortRef.current = null;
     }
   };
 
@@ -353,22 +580,23 @@ function App() {
       // Save current schedule to history for revert
       setScheduleHistory(prev => [...prev.slice(-4), { ...schedule }]); // Keep last 5 states
 
-      await supabaseService.archivePlanToSchedule(weeklyPlan, dateStr, userId);
+      // Meals landing on festival or fasting days come back adapted to that day's rules
+      const archivedPlan = await supabaseService.archivePlanToSchedule(weeklyPlan, dateStr, userId, getActivePreferences());
 
       // Update local state with overwrite logic
       const newSchedule = { ...schedule };
-      weeklyPlan.days.forEach((day, idx) => {
+      archivedPlan.days.forEach((day, idx) => {
         const currentDate = addDays(startDate, idx);
         const dateKey = format(currentDate, 'yyyy-MM-dd');
         const existing = schedule[dateKey];
 
         if (overwrite) {
           // Overwrite regardless of existing meals
-          newSchedule[dateKey] = { ...day, day: dateKey };
+          newSchedule[dateKey] = { ...day, day: dateKey, date: dateKey };
         } else {
           // Only fill if no existing meals
-          if (!existing || (!existing.breakfast && !existing.lunch && !existing.dinner)) {
-            newSchedule[dateKey] = { ...day, day: dateKey };
+          if (!hasMeals(existing)) {
+            newSchedule[dateKey] = { ...day, day: dateKey, date: dateKey };
           }
         }
       });
@@ -410,7 +638,7 @@ function App() {
     setGroceryList(newList);
   };
 
-  const handleGenerateGroceryFromWeek = async (meals: { date: string; breakfast: string; lunch: string; dinner: string }[]) => {
+  const handleGenerateGroceryFromWeek = async (meals: ScheduledDay[]) => {
     if (!hasApiKey) {
       setIsSettingsOpen(true);
       return;
@@ -419,8 +647,8 @@ function App() {
     setGroceryLoading(true);
     try {
       const prefs = getActivePreferences();
-      const list = await generateGroceryListFromSchedule(meals, prefs, aiConfig);
-      setGroceryList(list);
+      const list = await generateGroceryListFromSchedule(meals, prefs, aiConfig, pantryItems);
+      showGroceryList(list);
       setActiveTab('grocery');
     } catch (error: any) {
       console.error('Grocery generation error:', error);
@@ -437,18 +665,46 @@ function App() {
 
   const handleSmartEditConfirm = async (updates: Record<string, string>) => {
     if (!smartEditData || !weeklyPlan) return;
-    const updatedPlan = { ...weeklyPlan };
+    let updatedPlan = { ...weeklyPlan };
     Object.entries(updates).forEach(([type, meal]) => {
       updatedPlan.days[smartEditData.index][type] = meal;
     });
+    const editedSlots = Object.keys(updates).map(mealType => ({ dayIndex: smartEditData.index, mealType }));
+    updatedPlan = await repairViolations(updatedPlan, getActivePreferences(), editedSlots);
     setWeeklyPlan(updatedPlan);
 
     // Save updated plan
     await supabaseService.savePlan(updatedPlan, userId, currentProfileId);
   };
 
+  const handleAskAssistant = async (message: string, history: AssistantMessage[]) => {
+    const prefs = getActivePreferences();
+    const days = getAssistantDays(weeklyPlan, schedule, getPlannedSlots(prefs));
+    return await askPlanningAssistant(message, history, days, prefs, aiConfig, pantryItems);
+  };
+
+  // Apply reviewed assistant edits through the same save paths as manual edits
+  const handleApplyAssistantEdits = async (edits: PlanEdit[]) => {
+    const planEdits = edits.filter(e => e.target === 'plan');
+    if (weeklyPlan && planEdits.length > 0) {
+      let updatedPlan = applyEditsToPlan(weeklyPlan, planEdits);
+      const editedSlots = planEdits.map(e => ({ dayIndex: e.dayIndex!, mealType: e.mealType }));
+      updatedPlan = await repairViolations(updatedPlan, getActivePreferences(), editedSlots);
+      setWeeklyPlan(updatedPlan);
+      await supabaseService.savePlan(updatedPlan, userId, currentProfileId);
+    }
+
+    const changedDays = applyEditsToSchedule(schedule, edits);
+    if (Object.keys(changedDays).length > 0) {
+      setSchedule(prev => ({ ...prev, ...changedDays }));
+      for (const [dateKey, dayPlan] of Object.entries(changedDays)) {
+        await supabaseService.saveScheduledMeal(dateKey, dayPlan, userId);
+      }
+    }
+  };
+
   // Handle inline meal edits in weekly planner
-  const handleMealUpdate = async (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner', newValue: string) => {
+  const handleMealUpdate = async (dayIndex: number, mealType: string, newValue: string) => {
     if (!weeklyPlan) return;
     const updatedPlan = { ...weeklyPlan };
     updatedPlan.days[dayIndex][mealType] = newValue;
@@ -457,7 +713,7 @@ function App() {
   };
 
   // Handle inline meal edits in schedule/calendar
-  const handleScheduleMealUpdate = async (dateKey: string, mealType: 'breakfast' | 'lunch' | 'dinner', newValue: string) => {
+  const handleScheduleMealUpdate = async (dateKey: string, mealType: string, newValue: string) => {
     const newSchedule = { ...schedule };
     if (!newSchedule[dateKey]) {
       newSchedule[dateKey] = { day: dateKey, breakfast: '', lunch: '', dinner: '' };
@@ -467,6 +723,56 @@ function App() {
     await supabaseService.saveScheduledMeal(dateKey, newSchedule[dateKey], userId);
   };
 
+  const handleSavePantryItems = async (items: PantryItem[]) => {
+    const saved = await supabaseService.savePantryItems(items, userId);
+    setPantryItems(prev => {
+      const savedIds = new Set(items.map(i => i.id));
+      return [...prev.filter(i => !savedIds.has(i.id)), ...saved].sort((a, b) => a.name.localeCompare(b.name));
+    });
+  };
+
+  const handleDeletePantryItem = async (itemId: string) => {
+    await supabaseService.deletePantryItem(itemId, userId);
+    setPantryItems(prev => prev.filter(i => i.id !== itemId));
+  };
+
+  // Mark a scheduled day as cooked and deduct the ingredients it used from the pantry:
+  // estimated by the AI, or without an AI provider, read from the day's saved recipes
+  const handleMarkDayCooked = async (dateKey: string) => {
+    const dayPlan = schedule[dateKey];
+    if (!dayPlan || dayPlan.cookedAt) return;
+
+    try {
+      let nothingDeducted = false;
+      if (pantryItems.some(i => i.quantity > 0)) {
+        const meals = getDayMeals(dayPlan);
+        const usage = hasApiKey
+          ? await estimatePantryUsage(meals, pantryItems, getActivePreferences(), aiConfig)
+          : getRecipePantryUsage(
+            await Promise.all(meals.map(meal => supabaseService.getRecipesForMeal(meal, userId))),
+            pantryItems,
+            getHouseholdPortions(getActivePreferences())
+          );
+        const updated = applyPantryUsage(pantryItems, usage);
+        if (updated.length > 0) {
+          await handleSavePantryItems(updated);
+        }
+        nothingDeducted = !hasApiKey && updated.length === 0;
+      }
+
+      const cookedDay = { ...dayPlan, cookedAt: new Date().toISOString() };
+      setSchedule(prev => ({ ...prev, [dateKey]: cookedDay }));
+      await supabaseService.saveScheduledMeal(dateKey, cookedDay, userId);
+
+      if (nothingDeducted) {
+        alert("Marked as cooked, but nothing was taken out of the pantry: none of this day's saved recipes use your pantry items. Update quantities in the Pantry tab, or configure an AI provider to estimate usage.");
+      }
+    } catch (error: any) {
+      console.error('Mark cooked error:', error);
+      alert(`Failed to update pantry: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
   const handleTransferConfirm = async (targetDate: string, targetType: string, action: 'copy' | 'move') => {
     if (!transferData) return;
 
@@ -478,14 +784,14 @@ function App() {
     newSchedule[targetDate] = { ...existingTarget };
 
     // Perform Copy
-    newSchedule[targetDate][targetType.toLowerCase()] = transferData.sourceMealName;
+    newSchedule[targetDate][targetType] = transferData.sourceMealName;
 
     // Perform Move (Delete source)
     if (action === 'move') {
       const existingSource = newSchedule[sourceKey];
       if (existingSource) {
         newSchedule[sourceKey] = { ...existingSource };
-        newSchedule[sourceKey][transferData.sourceMealType.toLowerCase()] = '';
+        newSchedule[sourceKey][transferData.sourceMealType] = '';
       }
     }
 
@@ -598,6 +904,15 @@ function App() {
               <Settings className="w-5 h-5" />
             </button>
 
+            {/* Planning Assistant */}
+            <button
+              onClick={() => (hasApiKey ? setIsAssistantOpen(true) : setIsSettingsOpen(true))}
+              className="p-2.5 text-gray-600 hover:bg-gray-100 rounded-lg min-h-[44px] min-w-[44px] flex items-center justify-center"
+              title="Planning Assistant"
+            >
+              <Bot className="w-5 h-5 text-purple-600" />
+            </button>
+
             {/* Feedback */}
             <button
               onClick={() => setIsFeedbackOpen(true)}
@@ -609,7 +924,7 @@ function App() {
 
             {/* Generate Plan Button */}
             <button
-              onClick={handleGeneratePlan}
+              onClick={() => handleGeneratePlan()}
               disabled={loading}
               className="px-4 py-2 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800 disabled:opacity-70 flex items-center gap-2 shadow-sm"
             >
@@ -631,12 +946,68 @@ function App() {
         </div>
       </header>
 
+      {/* Plans work without AI; point to Settings once rather than opening it */}
+      {!hasApiKey && !aiHintDismissed && (
+        <div className="bg-indigo-50 border-b border-indigo-100 shrink-0">
+          <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between gap-3">
+            <p className="text-sm text-indigo-800">
+              Plans are built from your profile without AI.{' '}
+              <button onClick={() => setIsSettingsOpen(true)} className="font-medium underline hover:text-indigo-900">
+                Add an AI provider
+              </button>{' '}
+              for recipes, smart edits and the planning assistant.
+            </p>
+            <button
+              onClick={() => {
+                localStorage.setItem(AI_HINT_DISMISSED_KEY, 'true');
+                setAiHintDismissed(true);
+              }}
+              className="p-1 text-indigo-400 hover:text-indigo-600 shrink-0"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Changes that could not be synced */}
+      {syncFailures.length > 0 && (
+        <div className="bg-red-50 border-b border-red-100 shrink-0">
+          <div className="max-w-7xl mx-auto px-4 py-2 flex items-center justify-between gap-3 flex-wrap">
+            <p className="text-sm text-red-800 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              {syncFailures.length === 1 ? '1 change' : `${syncFailures.length} changes`} could not be saved to your account: {syncFailures[0].error}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => retryFailedChanges(userId).catch(err => console.error('Error retrying sync:', err))}
+                className="px-3 py-1.5 text-sm font-medium text-red-700 bg-white border border-red-200 rounded-lg hover:bg-red-100"
+              >
+                Retry
+              </button>
+              <button
+                onClick={() => {
+                  if (confirm('Discard these changes and keep what is saved in your account?')) {
+                    discardFailedChanges(userId).catch(err => console.error('Error discarding changes:', err));
+                  }
+                }}
+                className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Mobile Tabs */}
       <div className="bg-white border-b border-gray-200 px-4 flex gap-4 overflow-x-auto sm:hidden shrink-0">
         {[
           { id: 'plan', label: 'Plan', icon: ClipboardList },
           { id: 'calendar', label: 'Calendar', icon: CalendarIcon },
-          { id: 'grocery', label: 'Grocery', icon: ShoppingCart }
+          { id: 'grocery', label: 'Grocery', icon: ShoppingCart },
+          { id: 'pantry', label: 'Pantry', icon: Package }
         ].map(tab => (
           <button
             key={tab.id}
@@ -658,7 +1029,8 @@ function App() {
             {[
               { id: 'plan', label: 'Weekly Planner', icon: ClipboardList },
               { id: 'calendar', label: 'Schedule & History', icon: CalendarIcon },
-              { id: 'grocery', label: 'Grocery List', icon: ShoppingCart }
+              { id: 'grocery', label: 'Grocery List', icon: ShoppingCart },
+              { id: 'pantry', label: 'Pantry', icon: Package }
             ].map(tab => (
               <button
                 key={tab.id}
@@ -673,14 +1045,44 @@ function App() {
 
           {/* PLANNER TAB */}
           <div className={`${activeTab === 'plan' ? 'block' : 'hidden'}`}>
-            <div className="flex justify-between items-center mb-6">
-              <h2 className="text-xl font-bold text-gray-800">Current Draft</h2>
+            <div className="flex justify-between items-center mb-6 gap-3 flex-wrap">
+              <div className="flex items-center gap-4 flex-wrap">
+                <h2 className="text-xl font-bold text-gray-800">Current Draft</h2>
+                {/* Range for the next Generate / Regenerate */}
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <label className="flex items-center gap-1.5">
+                    From
+                    <input
+                      type="date"
+                      value={planStartDate}
+                      onChange={(e) => e.target.value && setPlanStartDate(e.target.value)}
+                      disabled={loading}
+                      className="px-2 py-1 border border-gray-200 rounded-lg bg-white text-gray-800 focus:ring-2 focus:ring-orange-500 outline-none"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1.5">
+                    for
+                    <input
+                      type="number"
+                      min={MIN_PLAN_DAYS}
+                      max={MAX_PLAN_DAYS}
+                      value={planDays}
+                      onChange={(e) => setPlanDays(clampPlanDays(Number(e.target.value)))}
+                      disabled={loading}
+                      className="w-16 px-2 py-1 border border-gray-200 rounded-lg bg-white text-gray-800 focus:ring-2 focus:ring-orange-500 outline-none"
+                    />
+                    days
+                  </label>
+                </div>
+              </div>
               {weeklyPlan && (
                 <div className="flex gap-2">
                   <button
                     onClick={() => {
-                      // Use loaded week range if available, otherwise calculate current week
-                      let dateRangeStr = loadedWeekRange;
+                      // Use the plan's own dates, then the loaded week range, otherwise the current week
+                      let dateRangeStr = weeklyPlan.startDate
+                        ? formatPlanRange(weeklyPlan.startDate, weeklyPlan.days.length)
+                        : loadedWeekRange;
                       if (!dateRangeStr) {
                         const today = new Date();
                         const weekStart = startOfWeek(today, { weekStartsOn: 1 });
@@ -709,9 +1111,9 @@ function App() {
               <div className="text-center py-20 bg-white rounded-2xl border-2 border-dashed border-gray-200 shadow-sm max-w-2xl mx-auto">
                 <ChefHat className="w-16 h-16 text-gray-300 mx-auto mb-4" />
                 <h3 className="text-xl font-bold text-gray-900 mb-2">Ready to plan?</h3>
-                <p className="text-gray-500 mb-8">Generate a new weekly meal plan based on your <strong>{activeProfileName}</strong> profile.</p>
+                <p className="text-gray-500 mb-8">Generate a meal plan for {formatPlanRange(planStartDate, planDays)} based on your <strong>{activeProfileName}</strong> profile.</p>
                 <button
-                  onClick={handleGeneratePlan}
+                  onClick={() => handleGeneratePlan()}
                   className="px-8 py-3 bg-orange-600 text-white rounded-xl hover:bg-orange-700 font-bold shadow-lg hover:shadow-xl transition-all"
                 >
                   Generate Plan
@@ -719,15 +1121,61 @@ function App() {
               </div>
             )}
 
-            {loading && (
+            {loading && streamedCount === 0 && (
               <div className="text-center py-20">
                 <RefreshCw className="w-12 h-12 text-orange-500 animate-spin mx-auto mb-4" />
                 <p className="text-gray-600 font-medium">Creating your meal plan in ~30 seconds...</p>
                 <p className="text-sm text-gray-400 mt-2">AI is thinking about seasonal ingredients and your preferences</p>
+                <button
+                  onClick={handleCancelGeneration}
+                  className="mt-6 px-4 py-2 text-sm font-medium text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 inline-flex items-center gap-2"
+                >
+                  <X className="w-4 h-4" /> Cancel
+                </button>
               </div>
             )}
 
-            {weeklyPlan && (
+            {loading && streamedCount > 0 && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between bg-orange-50 border border-orange-100 rounded-xl px-4 py-3">
+                  <p className="text-sm font-medium text-orange-800 flex items-center gap-2">
+                    <RefreshCw className="w-4 h-4 animate-spin" />
+                    {streamedCount} of {planDays} days ready...
+                  </p>
+                  <button
+                    onClick={handleCancelGeneration}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-600 bg-white border border-gray-200 rounded-lg hover:bg-gray-50 flex items-center gap-1.5"
+                  >
+                    <X className="w-4 h-4" /> Cancel
+                  </button>
+                </div>
+                <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {streamedDays.map((day, index) => day && (
+                    <MealCard
+                      key={`${day.day}-${index}`}
+                      dayPlan={day}
+                      dayIndex={index}
+                      onRegenerate={() => { }}
+                      onSmartEdit={() => { }}
+                      mealSlots={getPlannedSlots(getActivePreferences())}
+                      isLoading={true}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {weeklyPlan && !loading && weeklyPlan.days.some(day => getDayMeals(day).some(meal => nutrition[meal.trim()])) && (
+              <div className="mb-6">
+                <NutritionSummary
+                  label="Week total"
+                  totals={sumNutrition(weeklyPlan.days.map(day => getDayNutrition(day, nutrition)))}
+                  targets={scaleTargets(getActivePreferences().nutritionTargets, weeklyPlan.days.length)}
+                />
+              </div>
+            )}
+
+            {weeklyPlan && !loading && (
               <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {weeklyPlan.days.map((day, index) => (
                   <MealCard
@@ -737,6 +1185,13 @@ function App() {
                     onRegenerate={handleRegenerateMeal}
                     onSmartEdit={(plan, idx) => setSmartEditData({ dayPlan: plan, index: idx })}
                     onMealUpdate={handleMealUpdate}
+                    onViewRecipe={setRecipeMealName}
+                    onSuggestAlternatives={(idx, mealType) => loadMealAlternatives(weeklyPlan, idx, mealType)}
+                    onRejectAlternatives={(idx, meals) => rejectAlternatives(currentProfileId, getAlternativesWeek(weeklyPlan.days[idx]), meals)}
+                    nutrition={nutrition}
+                    nutritionTargets={getActivePreferences().nutritionTargets}
+                    violations={planViolations[index]}
+                    mealSlots={getPlannedSlots(getActivePreferences())}
                     isLoading={regenLoading}
                   />
                 ))}
@@ -755,6 +1210,18 @@ function App() {
               onRevert={handleRevertSchedule}
               canRevert={scheduleHistory.length > 0}
               onLoadWeek={handleLoadWeek}
+              onViewRecipe={setRecipeMealName}
+              onSuggestAlternatives={(dateKey, mealType) => {
+                const week = getScheduleWeek(dateKey);
+                return loadMealAlternatives(week, week.days.findIndex(d => d.date === dateKey), mealType);
+              }}
+              onRejectAlternatives={(dateKey, meals) => rejectAlternatives(currentProfileId, getAlternativesWeek({ date: dateKey }), meals)}
+              nutrition={nutrition}
+              nutritionTargets={getActivePreferences().nutritionTargets}
+              onEstimateNutrition={handleEstimateNutrition}
+              onMarkCooked={handleMarkDayCooked}
+              observances={getActiveObservances(getActivePreferences())}
+              mealSlots={getMealSlots(getActivePreferences())}
             />
           </div>
 
@@ -772,9 +1239,25 @@ function App() {
               schedule={schedule}
               onGenerateFromDates={handleGenerateGroceryFromWeek}
               loading={groceryLoading}
-              onLoadSavedList={(items) => setGroceryList(items)}
+              onLoadSavedList={showGroceryList}
+              onMergeSavedList={(items) => setGroceryList(prev => mergeGroceryLists(prev, items))}
               userId={userId}
               onShare={(items, range) => setShareModalData({ isOpen: true, type: 'grocery', data: items, dateRange: range })}
+              aiConfig={aiConfig}
+              pantryItems={pantryItems}
+              onRestockPantry={handleSavePantryItems}
+            />
+          </div>
+
+          {/* PANTRY TAB */}
+          <div className={`${activeTab === 'pantry' ? 'block' : 'hidden'}`}>
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-bold text-gray-800">Pantry</h2>
+            </div>
+            <PantryView
+              items={pantryItems}
+              onSave={handleSavePantryItems}
+              onDelete={handleDeletePantryItem}
             />
           </div>
 
@@ -790,14 +1273,23 @@ function App() {
           onSaveProfile={handleSaveProfile}
           onSwitchProfile={setCurrentProfileId}
           onDeleteProfile={handleDeleteProfile}
+          onPlanWithIngredients={handlePlanWithIngredients}
           onClose={() => setIsPreferencesOpen(false)}
         />
       )}
 
+      {recipeMealName && (
+        <RecipeModal
+          mealName={recipeMealName}
+          preferences={getActivePreferences()}
+          userId={userId}
+          onClose={() => setRecipeMealName(null)}
+        />
+      )}
+
       {isSettingsOpen && (
         <SettingsModal
           onClose={() => setIsSettingsOpen(false)}
-          canClose={hasApiKey}
         />
       )}
 
@@ -816,6 +1308,7 @@ function App() {
           transfer={transferData}
           onConfirm={handleTransferConfirm}
           onClose={() => setTransferData(null)}
+          mealSlots={getMealSlots(getActivePreferences())}
         />
       )}
 
@@ -824,7 +1317,8 @@ function App() {
           onConfirm={handleArchiveConfirm}
           onClose={() => setShowArchiveModal(false)}
           schedule={schedule}
-          daysCount={weeklyPlan?.days.length || 7}
+          daysCount={weeklyPlan?.days.length || DEFAULT_PLAN_DAYS}
+          defaultStartDate={weeklyPlan?.startDate}
         />
       )}
 
@@ -835,6 +1329,19 @@ function App() {
           type={shareModalData.type}
           data={shareModalData.data}
           dateRange={shareModalData.dateRange}
+          mealSlots={getPlannedSlots(getActivePreferences())}
+        />
+      )}
+
+      {isAssistantOpen && (
+        <PlanningAssistant
+          profileId={currentProfileId}
+          plan={weeklyPlan}
+          schedule={schedule}
+          slots={getMealSlots(getActivePreferences())}
+          onAsk={handleAskAssistant}
+          onApply={handleApplyAssistantEdits}
+          onClose={() => setIsAssistantOpen(false)}
         />
       )}
 
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { subDays } from 'date-fns';
+import { AIUsageEntry } from '../types';
+import * as supabaseService from '../services/supabaseService';
+import { UsageSummary, formatCost, summarizeUsageByDay, summarizeUsageByFeature, summarizeUsageTotal } from '../services/aiUsage';
+
+interface Props {
+    userId: string;
+}
+
+const RANGE_DAYS = 30;
+
+const formatTokens = (tokens: number): string =>
+    tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const SummaryRow: React.FC<{ summary: UsageSummary }> = ({ summary }) => (
+    <div className="flex items-center gap-2 text-xs py-1">
+        <span className="flex-1 truncate text-gray-700">{summary.label}</span>
+        <span className="w-14 text-right text-gray-500">
+            {summary.calls}{summary.failures > 0 && <span className="text-red-500"> ({summary.failures}✗)</span>}
+        </span>
+        <span className="w-16 text-right text-gray-500">{formatTokens(summary.promptTokens + summary.responseTokens)}</span>
+        <span className="w-16 text-right font-medium text-gray-800">
+            {formatCost(summary.cost)}{summary.unpricedCalls > 0 && '*'}
+        </span>
+    </div>
+);
+
+const AIUsagePanel: React.FC<Props> = ({ userId }) => {
+    const [entries, setEntries] = useState<AIUsageEntry[] | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        supabaseService.getAIUsage(userId, subDays(new Date(), RANGE_DAYS))
+            .then(data => { if (!cancelled) setEntries(data); })
+            .catch(error => {
+                console.error('Failed to load AI usage:', error);
+                if (!cancelled) setEntries([]);
+            });
+        return () => { cancelled = true; };
+    }, [userId]);
+
+    if (!entries) {
+        return (
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+                <Loader2 className="w-3 h-3 animate-spin" /> Loading usage...
+            </div>
+        );
+    }
+
+    if (entries.length === 0) {
+        return <p className="text-xs text-gray-500">No AI calls in the last {RANGE_DAYS} days.</p>;
+    }
+
+    const total = summarizeUsageTotal(entries);
+    const byDay = summarizeUsageByDay(entries);
+    const byFeature = summarizeUsageByFeature(entries);
+    const hasUnpriced = total.unpricedCalls > 0;
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-gray-50 rounded-lg p-2">
+                    <div className="text-lg font-semibold text-gray-800">{total.calls}</div>
+                    <div className="text-[11px] text-gray-500">calls</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-2">
+                    <div className="text-lg font-semibold text-gray-800">{formatTokens(total.promptTokens + total.responseTokens)}</div>
+                    <div className="text-[11px] text-gray-500">tokens</div>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-2">
+                    <div className="text-lg font-semibold text-gray-800">{formatCost(total.cost)}</div>
+                    <div className="text-[11px] text-gray-500">est. cost</div>
+                </div>
+            </div>
+
+            <div>
+                <div className="flex items-center gap-2 text-[11px] font-medium text-gray-400 uppercase border-b border-gray-100 pb-1">
+                    <span className="flex-1">By feature</span>
+                    <span className="w-14 text-right">Calls</span>
+                    <span className="w-16 text-right">Tokens</span>
+                    <span className="w-16 text-right">Cost</span>
+                </div>
+                {byFeature.map(summary => <SummaryRow key={summary.key} summary={summary} />)}
+            </div>
+
+            <div>
+                <div className="flex items-center gap-2 text-[11px] font-medium text-gray-400 uppercase border-b border-gray-100 pb-1">
+                    <span className="flex-1">By day</span>
+                    <span className="w-14 text-right">Calls</span>
+                    <span className="w-16 text-right">Tokens</span>
+                    <span className="w-16 text-right">Cost</span>
+                </div>
+                <div className="max-h-48 overflow-y-auto">
+                    {byDay.map(summary => <SummaryRow key={summary.key} summary={summary} />)}
+                </div>
+            </div>
+
+            <p className="text-[11px] text-gray-400">
+                Last {RANGE_DAYS} days, estimated from list prices; your provider's bill is authoritative.
+                {hasUnpriced && ' * Includes calls to models without a known price.'}
+            </p>
+        </div>
+    );
+};
+
+export default AIUsagePanel;
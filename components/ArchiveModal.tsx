@@ -2,16 +2,18 @@ import React, { useState, useEffect } from 'react';
 import { X, Calendar as CalendarIcon, Save, AlertTriangle, RotateCcw } from 'lucide-react';
 import { format, addDays, parseISO } from 'date-fns';
 import { Schedule, DayPlan } from '../types';
+import { hasMeals } from '../services/mealSlots';
 
 interface Props {
   onConfirm: (startDate: string, overwrite: boolean) => void;
   onClose: () => void;
   schedule?: Schedule;
   daysCount?: number;
+  defaultStartDate?: string; // The plan's own first day, when it was generated for specific dates
 }
 
-const ArchiveModal: React.FC<Props> = ({ onConfirm, onClose, schedule = {}, daysCount = 7 }) => {
-  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+const ArchiveModal: React.FC<Props> = ({ onConfirm, onClose, schedule = {}, daysCount = 7, defaultStartDate }) => {
+  const [date, setDate] = useState(defaultStartDate || format(new Date(), 'yyyy-MM-dd'));
   const [overwrite, setOverwrite] = useState(true);
   const [existingDates, setExistingDates] = useState<string[]>([]);
 
@@ -25,7 +27,7 @@ const ArchiveModal: React.FC<Props> = ({ onConfirm, onClose, schedule = {}, days
       const currentDate = addDays(startDate, i);
       const dateKey = format(currentDate, 'yyyy-MM-dd');
       const existing = schedule[dateKey];
-      if (existing && (existing.breakfast || existing.lunch || existing.dinner)) {
+      if (hasMeals(existing)) {
         datesWithMeals.push(format(currentDate, 'MMM d'));
       }
     }
@@ -59,7 +61,7 @@ const ArchiveModal: React.FC<Props> = ({ onConfirm, onClose, schedule = {}, days
         {/* Body */}
         <div className="p-6 space-y-4">
           <p className="text-sm text-gray-600">
-            Select the start date for this week's meal plan. The meals will be saved to your schedule starting from this date.
+            Select the start date for this {daysCount}-day meal plan. The meals will be saved to your schedule starting from this date.
           </p>
 
           <div>
@@ -72,6 +74,12 @@ const ArchiveModal: React.FC<Props> = ({ onConfirm, onClose, schedule = {}, days
               onChange={(e) => setDate(e.target.value)}
               className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:ring-2 focus:ring-green-500 outline-none font-medium text-gray-800"
             />
+            {!isNaN(parseISO(date).getTime()) && (
+              <p className="text-xs text-gray-500 mt-1.5">
+                Fills {format(parseISO(date), 'EEE, MMM d')} to {format(addDays(parseISO(date), daysCount - 1), 'EEE, MMM d')}
+                {defaultStartDate && date !== defaultStartDate && ' (the plan was made for different dates)'}
+              </p>
+            )}
           </div>
 
           {/* Conflict Warning */}
@@ -1,25 +1,50 @@
-import React, { useState } from 'react';
-import { Schedule, MealTransfer } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Schedule, MealTransfer, NutritionInfo, DayPlan, Observance, MealSlot, ScheduledDay, MealAlternative } from '../types';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, addMonths, subMonths, isToday, startOfWeek, endOfWeek, addDays } from 'date-fns';
-import { ChevronLeft, ChevronRight, Sun, Moon, CloudSun, ArrowRightLeft, ShoppingCart, Loader2, X, CheckSquare, Pencil, Check, AlertCircle, RotateCcw, ClipboardList } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Sun, Moon, CloudSun, Cookie, ArrowRightLeft, ShoppingCart, Loader2, X, CheckSquare, Pencil, Check, AlertCircle, RotateCcw, ClipboardList, BookOpen, CookingPot, Sparkles, ListOrdered } from 'lucide-react';
+import NutritionSummary from './NutritionSummary';
+import MealAlternativesPicker from './MealAlternativesPicker';
+import { getDayMeals, getDayNutrition, sumNutrition, scaleTargets } from '../services/nutritionService';
+import { getObservancesOn, getObservanceRules, describeObservanceRules, getUncoveredObservances } from '../services/observances';
+import { DEFAULT_MEAL_SLOTS, getDaySlots, hasMeals } from '../services/mealSlots';
+
+// Icon, text and dot colour per default slot; added slots share the last entry
+const SLOT_STYLES: Record<string, { icon: React.ElementType; colorClass: string; dotClass: string }> = {
+    breakfast: { icon: Sun, colorClass: 'text-amber-600', dotClass: 'bg-amber-400' },
+    lunch: { icon: CloudSun, colorClass: 'text-orange-600', dotClass: 'bg-orange-500' },
+    dinner: { icon: Moon, colorClass: 'text-indigo-600', dotClass: 'bg-indigo-600' },
+    other: { icon: Cookie, colorClass: 'text-emerald-600', dotClass: 'bg-emerald-500' },
+};
+const getSlotStyle = (slotId: string) => SLOT_STYLES[slotId] || SLOT_STYLES.other;
 
 interface Props {
     schedule: Schedule;
     onInitiateTransfer: (transfer: MealTransfer) => void;
-    onGenerateGroceryFromWeek?: (meals: { date: string; breakfast: string; lunch: string; dinner: string }[]) => Promise<void>;
+    onGenerateGroceryFromWeek?: (meals: ScheduledDay[]) => Promise<void>;
     groceryLoading?: boolean;
-    onMealUpdate?: (dateKey: string, mealType: 'breakfast' | 'lunch' | 'dinner', newValue: string) => void;
+    onMealUpdate?: (dateKey: string, mealType: string, newValue: string) => void;
     onRevert?: () => void;
     canRevert?: boolean;
     onLoadWeek?: (date: Date) => void;
+    onViewRecipe?: (mealName: string) => void;
+    onSuggestAlternatives?: (dateKey: string, mealType: string) => Promise<MealAlternative[]>;
+    onRejectAlternatives?: (dateKey: string, meals: string[]) => void;
+    nutrition?: Record<string, NutritionInfo>; // Estimates keyed by meal name
+    nutritionTargets?: Partial<NutritionInfo>; // Daily targets
+    onEstimateNutrition?: (meals: string[]) => void;
+    onMarkCooked?: (dateKey: string) => Promise<void>; // Deducts the day's ingredients from the pantry
+    observances?: Observance[]; // Festivals and fasts the household keeps
+    mealSlots?: MealSlot[]; // The profile's meal slots, in display order
 }
 
-const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerateGroceryFromWeek, groceryLoading, onMealUpdate, onRevert, canRevert, onLoadWeek }) => {
+const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerateGroceryFromWeek, groceryLoading, onMealUpdate, onRevert, canRevert, onLoadWeek, onViewRecipe, onSuggestAlternatives, onRejectAlternatives, nutrition, nutritionTargets, onEstimateNutrition, onMarkCooked, observances = [], mealSlots = DEFAULT_MEAL_SLOTS }) => {
     const [currentMonth, setCurrentMonth] = useState(new Date());
     const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
     const [selectedDates, setSelectedDates] = useState<Set<string>>(new Set());
     const [isMultiSelectMode, setIsMultiSelectMode] = useState(false);
-    const [editingMeal, setEditingMeal] = useState<{ type: 'breakfast' | 'lunch' | 'dinner'; value: string } | null>(null);
+    const [editingMeal, setEditingMeal] = useState<{ type: string; value: string } | null>(null);
+    const [alternativesFor, setAlternativesFor] = useState<string | null>(null); // Slot id with the picker open
+    const [markingCooked, setMarkingCooked] = useState(false);
 
     const days = eachDayOfInterval({
         start: startOfMonth(currentMonth),
@@ -48,6 +73,7 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
             setSelectedDates(new Set());
             setIsMultiSelectMode(false);
             setEditingMeal(null);
+            setAlternativesFor(null);
         }
     };
 
@@ -69,7 +95,7 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
     const handleMultiSelectGrocery = () => {
         if (!onGenerateGroceryFromWeek || selectedDates.size === 0) return;
 
-        const meals: { date: string; breakfast: string; lunch: string; dinner: string }[] = [];
+        const meals: ScheduledDay[] = [];
         const sortedDates = Array.from(selectedDates).sort();
 
         // Track which days have meals and which don't
@@ -78,20 +104,14 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
 
         sortedDates.forEach((dateKey: string) => {
             const plan = schedule[dateKey];
-            const hasMeal = plan?.breakfast || plan?.lunch || plan?.dinner;
 
-            if (hasMeal) {
+            if (hasMeals(plan)) {
                 daysWithMeals.push(format(new Date(dateKey), 'MMM d'));
             } else {
                 daysWithoutMeals.push(format(new Date(dateKey), 'MMM d'));
             }
 
-            meals.push({
-                date: dateKey,
-                breakfast: plan?.breakfast || '',
-                lunch: plan?.lunch || '',
-                dinner: plan?.dinner || ''
-            });
+            if (plan) meals.push({ ...plan, date: dateKey });
         });
 
         // Check if no days have meals
@@ -108,29 +128,23 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
             if (!proceed) return;
         }
 
-        onGenerateGroceryFromWeek(meals.filter(m => m.breakfast || m.lunch || m.dinner));
+        onGenerateGroceryFromWeek(meals.filter(m => hasMeals(m)));
     };
 
     const handleGenerateWeekGrocery = () => {
         if (!selectedDate || !onGenerateGroceryFromWeek) return;
 
         const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 });
-        const weekDays: { date: string; breakfast: string; lunch: string; dinner: string }[] = [];
+        const weekDays: ScheduledDay[] = [];
 
         for (let i = 0; i < 7; i++) {
             const day = addDays(weekStart, i);
             const dateKey = format(day, 'yyyy-MM-dd');
             const plan = schedule[dateKey];
-            weekDays.push({
-                date: dateKey,
-                breakfast: plan?.breakfast || '',
-                lunch: plan?.lunch || '',
-                dinner: plan?.dinner || ''
-            });
+            if (hasMeals(plan)) weekDays.push({ ...plan, date: dateKey });
         }
 
-        const hasMeals = weekDays.some(d => d.breakfast || d.lunch || d.dinner);
-        if (!hasMeals) {
+        if (weekDays.length === 0) {
             alert('No meals scheduled for this week. Please add meals first.');
             return;
         }
@@ -139,7 +153,7 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
     };
 
     // Inline editing handlers
-    const startEditing = (type: 'breakfast' | 'lunch' | 'dinner', currentValue: string) => {
+    const startEditing = (type: string, currentValue: string) => {
         setEditingMeal({ type, value: currentValue || '' });
     };
 
@@ -154,7 +168,33 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
         setEditingMeal(null);
     };
 
+    const handleMarkCooked = async () => {
+        if (!selectedDate || !onMarkCooked) return;
+        setMarkingCooked(true);
+        try {
+            await onMarkCooked(format(selectedDate, 'yyyy-MM-dd'));
+        } finally {
+            setMarkingCooked(false);
+        }
+    };
+
     const selectedPlan = selectedDate && !isMultiSelectMode ? getDayPlan(selectedDate) : null;
+    // Followed festivals with no built-in dates for this month
+    const uncoveredObservances = getUncoveredObservances(format(endOfMonth(currentMonth), 'yyyy-MM-dd'), observances);
+    const selectedDayObservances = selectedDate ? getObservancesOn(format(selectedDate, 'yyyy-MM-dd'), observances) : [];
+
+    // Planned days of the selected week, for weekly nutrition totals
+    const selectedWeekPlans: DayPlan[] = selectedDate
+        ? Array.from({ length: 7 }, (_, i) => getDayPlan(addDays(startOfWeek(selectedDate, { weekStartsOn: 1 }), i)))
+            .filter((plan): plan is DayPlan => !!plan && getDayMeals(plan).length > 0)
+        : [];
+    const selectedWeekMeals = selectedWeekPlans.flatMap(getDayMeals);
+    const hasNutrition = (plans: DayPlan[]) => !!nutrition && plans.some(plan => getDayMeals(plan).some(meal => nutrition[meal.trim()]));
+
+    useEffect(() => {
+        if (onEstimateNutrition && selectedWeekMeals.length > 0) onEstimateNutrition(selectedWeekMeals);
+        // Re-run only when the set of meals changes
+    }, [selectedWeekMeals.join('|'), onEstimateNutrition]);
 
     const getWeekRange = () => {
         if (!selectedDate) return '';
@@ -201,6 +241,13 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                     </div>
                 </div>
 
+                {uncoveredObservances.length > 0 && (
+                    <div className="px-4 py-2 bg-amber-50 border-b border-amber-100 text-xs text-amber-800 flex items-center gap-2">
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        No built-in dates for {uncoveredObservances.map(o => o.name).join(', ')} this far ahead. Add them as your own observances in Preferences.
+                    </div>
+                )}
+
                 {/* Multi-select controls - mobile friendly */}
                 <div className="px-4 py-2 bg-gray-50 border-b text-xs text-gray-500 flex items-center justify-between flex-wrap gap-2">
                     <div className="flex items-center gap-2">
@@ -230,9 +277,6 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                         {days.map((day) => {
                             const plan = getDayPlan(day);
                             const dateKey = format(day, 'yyyy-MM-dd');
-                            const hasBreakfast = plan?.breakfast && plan.breakfast.trim() !== '';
-                            const hasLunch = plan?.lunch && plan.lunch.trim() !== '';
-                            const hasDinner = plan?.dinner && plan.dinner.trim() !== '';
 
                             const isSingleSelected = selectedDate && isSameDay(day, selectedDate) && !isMultiSelectMode;
                             const isMultiSelected = selectedDates.has(dateKey);
@@ -255,20 +299,17 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                                     <span className={`text-lg font-bold ${isSingleSelected || isMultiSelected ? 'text-white' : ''}`}>
                                         {format(day, 'd')}
                                     </span>
+                                    {getObservancesOn(format(day, 'yyyy-MM-dd'), observances).length > 0 && (
+                                        <Sparkles className={`w-2.5 h-2.5 ${isSingleSelected || isMultiSelected ? 'text-white' : 'text-rose-500'}`} />
+                                    )}
                                     {/* Meal indicator dots */}
                                     <div className="flex gap-0.5 mt-1">
-                                        <span className={`w-1.5 h-1.5 rounded-full ${hasBreakfast
-                                            ? isSingleSelected || isMultiSelected ? 'bg-white' : 'bg-amber-400'
-                                            : 'bg-gray-300'
-                                            }`} title="Breakfast" />
-                                        <span className={`w-1.5 h-1.5 rounded-full ${hasLunch
-                                            ? isSingleSelected || isMultiSelected ? 'bg-white' : 'bg-orange-400'
-                                            : 'bg-gray-300'
-                                            }`} title="Lunch" />
-                                        <span className={`w-1.5 h-1.5 rounded-full ${hasDinner
-                                            ? isSingleSelected || isMultiSelected ? 'bg-white' : 'bg-indigo-400'
-                                            : 'bg-gray-300'
-                                            }`} title="Dinner" />
+                                        {getDaySlots(plan, mealSlots).map(slot => (
+                                            <span key={slot.id} className={`w-1.5 h-1.5 rounded-full ${plan?.[slot.id]?.trim()
+                                                ? isSingleSelected || isMultiSelected ? 'bg-white' : getSlotStyle(slot.id).dotClass
+                                                : 'bg-gray-300'
+                                                }`} title={slot.label} />
+                                        ))}
                                     </div>
                                 </button>
                             );
@@ -295,9 +336,6 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                     {days.map((day) => {
                         const plan = getDayPlan(day);
                         const dateKey = format(day, 'yyyy-MM-dd');
-                        const hasBreakfast = plan?.breakfast && plan.breakfast.trim() !== '';
-                        const hasLunch = plan?.lunch && plan.lunch.trim() !== '';
-                        const hasDinner = plan?.dinner && plan.dinner.trim() !== '';
 
                         const isSingleSelected = selectedDate && isSameDay(day, selectedDate) && !isMultiSelectMode;
                         const isMultiSelected = selectedDates.has(dateKey);
@@ -318,17 +356,16 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                                 <span className={`text-xs font-medium w-6 h-6 flex items-center justify-center rounded-full ${isCurrent ? 'bg-indigo-600 text-white' : 'text-gray-700'}`}>
                                     {format(day, 'd')}
                                 </span>
+                                {getObservancesOn(dateKey, observances).map(o => (
+                                    <span key={o.id} className="w-full text-left text-[10px] leading-tight text-rose-600 truncate" title={describeObservanceRules(o.rules)}>
+                                        {o.name}
+                                    </span>
+                                ))}
 
                                 <div className="flex flex-wrap gap-1 mt-auto w-full">
-                                    {hasBreakfast && (
-                                        <div className="h-2 w-2 rounded-full bg-amber-400" title={`Breakfast: ${plan.breakfast}`} />
-                                    )}
-                                    {hasLunch && (
-                                        <div className="h-2 w-2 rounded-full bg-orange-500" title={`Lunch: ${plan.lunch}`} />
-                                    )}
-                                    {hasDinner && (
-                                        <div className="h-2 w-2 rounded-full bg-indigo-600" title={`Dinner: ${plan.dinner}`} />
-                                    )}
+                                    {getDaySlots(plan, mealSlots).filter(slot => plan?.[slot.id]?.trim()).map(slot => (
+                                        <div key={slot.id} className={`h-2 w-2 rounded-full ${getSlotStyle(slot.id).dotClass}`} title={`${slot.label}: ${plan?.[slot.id]}`} />
+                                    ))}
                                 </div>
                             </button>
                         );
@@ -336,10 +373,10 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                 </div>
 
                 {/* Legend */}
-                <div className="p-3 bg-gray-50 border-t flex gap-4 text-xs text-gray-500 justify-center">
-                    <div className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-amber-400" /> Breakfast</div>
-                    <div className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-orange-500" /> Lunch</div>
-                    <div className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-indigo-600" /> Dinner</div>
+                <div className="p-3 bg-gray-50 border-t flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 justify-center">
+                    {mealSlots.map(slot => (
+                        <div key={slot.id} className="flex items-center gap-1"><div className={`w-2 h-2 rounded-full ${getSlotStyle(slot.id).dotClass}`} /> {slot.label}</div>
+                    ))}
                 </div>
             </div>
 
@@ -421,11 +458,20 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                                 <p className="text-gray-400 text-sm text-center mt-10">Tap a date to view meals</p>
                             ) : (
                                 <>
-                                    {(['breakfast', 'lunch', 'dinner'] as const).map(type => {
+                                    {selectedDayObservances.length > 0 && (
+                                        <div className="px-3 py-2 bg-rose-50 border border-rose-100 rounded-xl text-sm text-rose-800">
+                                            <div className="flex items-center gap-1.5 font-semibold">
+                                                <Sparkles className="w-4 h-4" /> {selectedDayObservances.map(o => o.name).join(' + ')}
+                                            </div>
+                                            <p className="text-xs mt-0.5">{describeObservanceRules(getObservanceRules(selectedDayObservances))}</p>
+                                            {selectedDayObservances.filter(o => o.notes).map(o => (
+                                                <p key={o.id} className="text-xs text-rose-600 mt-0.5">{o.notes}</p>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {getDaySlots(selectedPlan || undefined, mealSlots).map(({ id: type, label }) => {
                                         const meal = selectedPlan?.[type] || '';
-                                        const Icon = type === 'breakfast' ? Sun : type === 'lunch' ? CloudSun : Moon;
-                                        const colorClass = type === 'breakfast' ? 'text-amber-600' : type === 'lunch' ? 'text-orange-600' : 'text-indigo-600';
-                                        const label = type.charAt(0).toUpperCase() + type.slice(1);
+                                        const { icon: Icon, colorClass } = getSlotStyle(type);
                                         const isEditing = editingMeal?.type === type;
 
                                         return (
@@ -435,6 +481,15 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                                                         <Icon className="w-4 h-4" /> {label}
                                                     </div>
                                                     <div className="flex items-center gap-1">
+                                                        {onViewRecipe && meal && !isEditing && (
+                                                            <button
+                                                                onClick={() => onViewRecipe(meal)}
+                                                                className="text-gray-300 hover:text-orange-600 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                                title="View recipe"
+                                                            >
+                                                                <BookOpen className="w-4 h-4" />
+                                                            </button>
+                                                        )}
                                                         {onMealUpdate && !isEditing && (
                                                             <button
                                                                 onClick={() => startEditing(type, meal)}
@@ -444,11 +499,20 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                                                                 <Pencil className="w-4 h-4" />
                                                             </button>
                                                         )}
+                                                        {onSuggestAlternatives && onMealUpdate && !isEditing && (
+                                                            <button
+                                                                onClick={() => setAlternativesFor(alternativesFor === type ? null : type)}
+                                                                className="text-gray-300 hover:text-blue-600 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                                title="Show alternatives"
+                                                            >
+                                                                <ListOrdered className="w-4 h-4" />
+                                                            </button>
+                                                        )}
                                                         {meal && (
                                                             <button
                                                                 onClick={() => onInitiateTransfer({
                                                                     sourceDate: format(selectedDate!, 'yyyy-MM-dd'),
-                                                                    sourceMealType: label as 'Breakfast' | 'Lunch' | 'Dinner',
+                                                                    sourceMealType: type,
                                                                     sourceMealName: meal
                                                                 })}
                                                                 className="text-gray-300 hover:text-indigo-600 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -494,9 +558,54 @@ const CalendarView: React.FC<Props> = ({ schedule, onInitiateTransfer, onGenerat
                                                 ) : (
                                                     <p className="text-gray-400 text-sm italic">No meal planned</p>
                                                 )}
+                                                {alternativesFor === type && onSuggestAlternatives && onMealUpdate && !isEditing && (
+                                                    <MealAlternativesPicker
+                                                        mealLabel={label}
+                                                        onLoad={() => onSuggestAlternatives(format(selectedDate!, 'yyyy-MM-dd'), type)}
+                                                        onPick={(newMeal) => {
+                                                            onMealUpdate(format(selectedDate!, 'yyyy-MM-dd'), type, newMeal);
+                                                            setAlternativesFor(null);
+                                                        }}
+                                                        onReject={(meals) => onRejectAlternatives?.(format(selectedDate!, 'yyyy-MM-dd'), meals)}
+                                                        onClose={() => setAlternativesFor(null)}
+                                                    />
+                                                )}
                                             </div>
                                         );
                                     })}
+
+                                    {onMarkCooked && selectedPlan && getDayMeals(selectedPlan).length > 0 && (
+                                        selectedPlan.cookedAt ? (
+                                            <div className="flex items-center gap-2 px-3 py-2 bg-green-50 text-green-700 text-sm rounded-xl border border-green-100">
+                                                <Check className="w-4 h-4" /> Cooked {format(new Date(selectedPlan.cookedAt), 'MMM d, h:mm a')}
+                                            </div>
+                                        ) : (
+                                            <button
+                                                onClick={handleMarkCooked}
+                                                disabled={markingCooked}
+                                                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-orange-700 bg-orange-50 border border-orange-100 rounded-xl hover:bg-orange-100 disabled:opacity-50 transition-colors"
+                                                title="Deduct this day's ingredients from the pantry"
+                                            >
+                                                {markingCooked ? <Loader2 className="w-4 h-4 animate-spin" /> : <CookingPot className="w-4 h-4" />}
+                                                Mark as cooked
+                                            </button>
+                                        )
+                                    )}
+
+                                    {nutrition && selectedPlan && hasNutrition([selectedPlan]) && (
+                                        <NutritionSummary
+                                            label="Day total"
+                                            totals={getDayNutrition(selectedPlan, nutrition)}
+                                            targets={nutritionTargets}
+                                        />
+                                    )}
+                                    {nutrition && hasNutrition(selectedWeekPlans) && (
+                                        <NutritionSummary
+                                            label={`Week total (${selectedWeekPlans.length} days)`}
+                                            totals={sumNutrition(selectedWeekPlans.map(plan => getDayNutrition(plan, nutrition)))}
+                                            targets={scaleTargets(nutritionTargets, selectedWeekPlans.length)}
+                                        />
+                                    )}
                                 </>
                             )}
                         </div>
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import { GlossaryEntry } from '../types';
+
+interface Props {
+    entries: GlossaryEntry[];
+    onSave: (entry: GlossaryEntry, translation: string) => Promise<void>;
+    onRetranslate: (entry: GlossaryEntry) => Promise<void>;
+}
+
+const GlossaryEditor: React.FC<Props> = ({ entries, onSave, onRetranslate }) => {
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+    const [savingId, setSavingId] = useState<string | null>(null);
+
+    const run = async (entryId: string, action: () => Promise<void>) => {
+        setSavingId(entryId);
+        try {
+            await action();
+            setDrafts(prev => {
+                const { [entryId]: _, ...rest } = prev;
+                return rest;
+            });
+        } catch (error: any) {
+            alert(`Failed to update translation: ${error?.message || 'Unknown error'}`);
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    if (entries.length === 0) {
+        return <p className="text-xs text-gray-500">No saved translations on this card yet.</p>;
+    }
+
+    return (
+        <div className="space-y-1.5">
+            <p className="text-xs text-gray-500">Corrections are saved and reused every time you share.</p>
+            {entries.map(entry => {
+                const draft = drafts[entry.id] ?? entry.translation;
+                const changed = draft.trim() !== entry.translation && draft.trim() !== '';
+                return (
+                    <div key={entry.id} className="flex items-center gap-2 text-sm">
+                        <span className="w-2/5 truncate text-gray-600" title={entry.source}>{entry.source}</span>
+                        <input
+                            type="text"
+                            value={draft}
+                            onChange={(e) => setDrafts(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                            onKeyDown={(e) => e.key === 'Enter' && changed && run(entry.id, () => onSave(entry, draft.trim()))}
+                            className={`flex-1 min-w-0 px-2 py-1 border rounded-lg text-sm focus:ring-2 focus:ring-purple-500 outline-none ${entry.corrected ? 'border-purple-200 bg-purple-50' : 'border-gray-200'}`}
+                        />
+                        {changed ? (
+                            <button
+                                onClick={() => run(entry.id, () => onSave(entry, draft.trim()))}
+                                disabled={savingId === entry.id}
+                                className="p-1.5 text-green-600 hover:bg-green-50 rounded-lg disabled:opacity-50"
+                                title="Save correction"
+                            >
+                                <Check className="w-4 h-4" />
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => run(entry.id, () => onRetranslate(entry))}
+                                disabled={savingId === entry.id}
+                                className="p-1.5 text-gray-400 hover:text-purple-600 hover:bg-purple-50 rounded-lg disabled:opacity-50"
+                                title="Forget and translate again"
+                            >
+                                <RotateCcw className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default GlossaryEditor;
@@ -1,19 +1,28 @@
 import React, { useState, useEffect } from 'react';
-import { GroceryItem, Schedule, SavedGroceryList } from '../types';
-import { CheckSquare, Share2, Calendar, Loader2, ShoppingCart, Save, Clock, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { GroceryItem, GroceryPrice, PantryItem, Schedule, SavedGroceryList, ScannedReceipt, ScheduledDay } from '../types';
+import { CheckSquare, Share2, Calendar, Loader2, ShoppingCart, Save, Clock, Trash2, ChevronDown, ChevronUp, Receipt, ListPlus } from 'lucide-react';
 import { format, addDays, parseISO, startOfWeek, endOfWeek } from 'date-fns';
 import * as supabaseService from '../services/supabaseService';
+import { hasMeals } from '../services/mealSlots';
+import { AIConfig, isAIConfigured } from '../services/aiProvider';
+import { extractReceiptItems } from '../services/geminiService';
+import { formatUnitPrice, getLatestPrice, markReceiptItemsBought, restockPantry, toGroceryPrices } from '../services/receipts';
+import ReceiptImportModal from './ReceiptImportModal';
 
 interface Props {
   items: GroceryItem[];
   onToggle: (index: number) => void;
   schedule?: Schedule;
-  onGenerateFromDates?: (meals: { date: string; breakfast: string; lunch: string; dinner: string }[]) => Promise<void>;
+  onGenerateFromDates?: (meals: ScheduledDay[]) => Promise<void>;
   loading?: boolean;
   onLoadSavedList?: (items: GroceryItem[]) => void;
+  onMergeSavedList?: (items: GroceryItem[]) => void; // Adds a saved list to the current one
   userId?: string;
   currentDateRange?: string;
   onShare?: (items: GroceryItem[], dateRange: string) => void;
+  aiConfig?: AIConfig; // Enables receipt scanning
+  pantryItems?: PantryItem[];
+  onRestockPantry?: (items: PantryItem[]) => Promise<void>;
 }
 
 const GroceryList: React.FC<Props> = ({
@@ -23,9 +32,13 @@ const GroceryList: React.FC<Props> = ({
   onGenerateFromDates,
   loading,
   onLoadSavedList,
+  onMergeSavedList,
   userId = 'local',
   currentDateRange,
-  onShare
+  onShare,
+  aiConfig,
+  pantryItems = [],
+  onRestockPantry
 }) => {
   const categories = Array.from(new Set(items.map(i => i.category)));
 
@@ -39,10 +52,13 @@ const GroceryList: React.FC<Props> = ({
   const [showHistory, setShowHistory] = useState(false);
   const [savedLists, setSavedLists] = useState<SavedGroceryList[]>([]);
   const [saving, setSaving] = useState(false);
+  const [prices, setPrices] = useState<GroceryPrice[]>([]);
+  const [showReceiptImport, setShowReceiptImport] = useState(false);
 
-  // Load history on mount
+  // Load history and prices on mount
   useEffect(() => {
     loadHistory();
+    loadPrices();
   }, [userId]);
 
   const loadHistory = async () => {
@@ -50,6 +66,36 @@ const GroceryList: React.FC<Props> = ({
     setSavedLists(history);
   };
 
+  const loadPrices = async () => {
+    setPrices(await supabaseService.getGroceryPrices(userId));
+  };
+
+  // Tick off the bought items in the latest saved list, record prices and optionally restock the pantry
+  const handleImportReceipt = async (receipt: ScannedReceipt, restock: boolean) => {
+    const latest = savedLists[0];
+    if (latest) {
+      const updatedItems = markReceiptItemsBought(latest.items, receipt.items);
+      await supabaseService.updateGroceryListItems(latest.id, updatedItems, userId);
+      // Show the ticks when the list on screen is that saved list
+      const isShown = items.length === latest.items.length && items.every((item, i) => item.item === latest.items[i].item);
+      if (isShown && onLoadSavedList) onLoadSavedList(updatedItems);
+    }
+
+    await supabaseService.saveGroceryPrices(toGroceryPrices(receipt, receipt.items, latest?.items || []), userId);
+
+    let skipped: string[] = [];
+    if (restock && onRestockPantry) {
+      const restocked = restockPantry(pantryItems, receipt.items);
+      if (restocked.items.length > 0) await onRestockPantry(restocked.items);
+      skipped = restocked.skipped;
+    }
+
+    await Promise.all([loadHistory(), loadPrices()]);
+    if (skipped.length > 0) {
+      alert(`Receipt saved. These were not added to the pantry because their units differ from your stock: ${skipped.join(', ')}`);
+    }
+  };
+
   const handleShare = () => {
     if (onShare) {
       const range = currentDateRange || `${format(parseISO(startDate), 'MMM d')} - ${format(parseISO(endDate), 'MMM d, yyyy')}`;
@@ -95,6 +141,14 @@ const GroceryList: React.FC<Props> = ({
     setShowHistory(false);
   };
 
+  const handleMergeList = (list: SavedGroceryList, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onMergeSavedList) {
+      onMergeSavedList(list.items);
+    }
+    setShowHistory(false);
+  };
+
   const handleDeleteList = async (listId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (!confirm('Delete this saved list?')) return;
@@ -120,23 +174,17 @@ const GroceryList: React.FC<Props> = ({
     }
 
     // Collect meals for the date range
-    const meals: { date: string; breakfast: string; lunch: string; dinner: string }[] = [];
+    const meals: ScheduledDay[] = [];
     let current = start;
     while (current <= end) {
       const dateKey = format(current, 'yyyy-MM-dd');
       const dayPlan = schedule[dateKey];
-      meals.push({
-        date: dateKey,
-        breakfast: dayPlan?.breakfast || '',
-        lunch: dayPlan?.lunch || '',
-        dinner: dayPlan?.dinner || ''
-      });
+      if (hasMeals(dayPlan)) meals.push({ ...dayPlan, date: dateKey });
       current = addDays(current, 1);
     }
 
     // Check if there are any meals in this range
-    const hasMeals = meals.some(d => d.breakfast || d.lunch || d.dinner);
-    if (!hasMeals) {
+    if (meals.length === 0) {
       alert('No meals scheduled for this date range. Please add meals to the calendar first.');
       return;
     }
@@ -233,6 +281,20 @@ const GroceryList: React.FC<Props> = ({
         </div>
       )}
 
+      {/* Receipt Import */}
+      {aiConfig && isAIConfigured(aiConfig) && (
+        <button
+          onClick={() => setShowReceiptImport(true)}
+          className="w-full p-4 bg-white rounded-xl shadow-sm border border-gray-200 flex items-center gap-3 text-left hover:bg-orange-50 transition-colors"
+        >
+          <Receipt className="w-5 h-5 text-orange-600" />
+          <div>
+            <p className="font-medium text-gray-700">Scan Receipt</p>
+            <p className="text-xs text-gray-500">Tick off what you bought from a bill photo or PDF and save the prices</p>
+          </div>
+        </button>
+      )}
+
       {/* Saved Lists History */}
       {savedLists.length > 0 && (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
@@ -260,12 +322,23 @@ const GroceryList: React.FC<Props> = ({
                     <p className="font-medium text-sm text-gray-800">{list.dateRange}</p>
                     <p className="text-xs text-gray-500">{list.items.length} items • {format(new Date(list.createdAt), 'MMM d, h:mm a')}</p>
                   </div>
-                  <button
-                    onClick={(e) => handleDeleteList(list.id, e)}
-                    className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  <div className="flex items-center gap-1">
+                    {onMergeSavedList && items.length > 0 && (
+                      <button
+                        onClick={(e) => handleMergeList(list, e)}
+                        className="p-1 text-gray-400 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Add to current list"
+                      >
+                        <ListPlus className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={(e) => handleDeleteList(list.id, e)}
+                      className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -313,6 +386,7 @@ const GroceryList: React.FC<Props> = ({
                 <ul className="space-y-2">
                   {items.map((item, idx) => {
                     if (item.category !== category) return null;
+                    const lastPrice = getLatestPrice(item.item, prices);
                     return (
                       <li key={idx} className="flex items-center gap-3 p-2 hover:bg-gray-50 rounded-lg transition-colors cursor-pointer" onClick={() => onToggle(idx)}>
                         <div className={`w-5 h-5 rounded border flex items-center justify-center ${item.checked ? 'bg-orange-500 border-orange-500' : 'border-gray-300'}`}>
@@ -321,6 +395,11 @@ const GroceryList: React.FC<Props> = ({
                         <div className={item.checked ? 'opacity-50 line-through' : ''}>
                           <span className="font-medium text-gray-800">{item.item}</span>
                           <span className="text-gray-500 text-sm ml-2">- {item.quantity}</span>
+                          {lastPrice && (
+                            <span className="text-xs text-gray-400 ml-2" title={`Paid ₹${lastPrice.price} for ${lastPrice.quantity} ${lastPrice.unit} on ${lastPrice.purchasedOn}`}>
+                              (last {formatUnitPrice(lastPrice)})
+                            </span>
+                          )}
                         </div>
                       </li>
                     );
@@ -331,6 +410,16 @@ const GroceryList: React.FC<Props> = ({
           </div>
         </div>
       )}
+
+      {showReceiptImport && aiConfig && (
+        <ReceiptImportModal
+          list={savedLists[0]}
+          onScan={(document) => extractReceiptItems(document, (savedLists[0]?.items || []).map(i => i.item), aiConfig)}
+          onImport={handleImportReceipt}
+          canRestock={!!onRestockPantry}
+          onClose={() => setShowReceiptImport(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,127 @@
+import React from 'react';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { HouseholdMember, AgeGroup, SpiceTolerance } from '../types';
+import { AGE_GROUP_OPTIONS, DIETARY_TYPE_OPTIONS, SPICE_TOLERANCE_OPTIONS } from '../constants';
+import { createHouseholdMember, getHouseholdPortions } from '../services/household';
+
+interface Props {
+    members: HouseholdMember[];
+    onChange: (members: HouseholdMember[]) => void;
+}
+
+const HouseholdMembersEditor: React.FC<Props> = ({ members, onChange }) => {
+    const updateMember = (id: string, changes: Partial<HouseholdMember>) => {
+        onChange(members.map(m => (m.id === id ? { ...m, ...changes } : m)));
+    };
+
+    const toggleDietaryType = (member: HouseholdMember, value: string) => {
+        const selected = member.dietaryTypes.includes(value);
+        if (selected && member.dietaryTypes.length === 1) return; // Keep at least one
+        updateMember(member.id, {
+            dietaryTypes: selected ? member.dietaryTypes.filter(v => v !== value) : [...member.dietaryTypes, value]
+        });
+    };
+
+    const totalPortions = getHouseholdPortions({ householdMembers: members });
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-bold text-gray-700 flex items-center gap-1.5">
+                    <Users className="w-4 h-4" /> Household Members
+                </label>
+                {totalPortions !== undefined && (
+                    <span className="text-xs text-gray-500">{totalPortions} adult portions per meal</span>
+                )}
+            </div>
+            <p className="text-xs text-gray-500 mb-2">Meals will suit everyone or list per-member variants; grocery quantities scale with portions.</p>
+
+            <div className="space-y-2">
+                {members.map(member => (
+                    <div key={member.id} className="p-3 bg-gray-50 border border-gray-200 rounded-xl space-y-2">
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={member.name}
+                                onChange={(e) => updateMember(member.id, { name: e.target.value })}
+                                className="flex-1 min-w-0 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+                                placeholder="Name"
+                            />
+                            <select
+                                value={member.ageGroup}
+                                onChange={(e) => {
+                                    const ageGroup = e.target.value as AgeGroup;
+                                    const portionFactor = AGE_GROUP_OPTIONS.find(a => a.value === ageGroup)?.portionFactor ?? member.portionFactor;
+                                    updateMember(member.id, { ageGroup, portionFactor });
+                                }}
+                                className="px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm"
+                            >
+                                {AGE_GROUP_OPTIONS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+                            </select>
+                            <button
+                                onClick={() => onChange(members.filter(m => m.id !== member.id))}
+                                className="p-1.5 text-gray-400 hover:text-red-500"
+                                title="Remove member"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+
+                        <div className="flex flex-wrap gap-1.5">
+                            {DIETARY_TYPE_OPTIONS.map(opt => (
+                                <button
+                                    key={opt.value}
+                                    type="button"
+                                    onClick={() => toggleDietaryType(member, opt.value)}
+                                    className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${member.dietaryTypes.includes(opt.value) ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-100'}`}
+                                >
+                                    {opt.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                            <input
+                                type="text"
+                                defaultValue={member.allergies.join(', ')}
+                                onBlur={(e) => updateMember(member.id, { allergies: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })}
+                                className="col-span-2 sm:col-span-1 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+                                placeholder="Allergies (comma separated)"
+                            />
+                            <select
+                                value={member.spiceTolerance}
+                                onChange={(e) => updateMember(member.id, { spiceTolerance: e.target.value as SpiceTolerance })}
+                                className="px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm"
+                                title="Spice tolerance"
+                            >
+                                {SPICE_TOLERANCE_OPTIONS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                            </select>
+                            <label className="flex items-center gap-1.5 text-xs text-gray-500">
+                                Portion
+                                <input
+                                    type="number"
+                                    min={0.1}
+                                    max={3}
+                                    step={0.1}
+                                    value={member.portionFactor}
+                                    onChange={(e) => updateMember(member.id, { portionFactor: Number(e.target.value) || 0 })}
+                                    className="w-16 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm"
+                                />
+                                x
+                            </label>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <button
+                onClick={() => onChange([...members, createHouseholdMember()])}
+                className="mt-2 px-3 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 flex items-center gap-1.5"
+            >
+                <Plus className="w-4 h-4" /> Add member
+            </button>
+        </div>
+    );
+};
+
+export default HouseholdMembersEditor;
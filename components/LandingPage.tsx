@@ -244,7 +244,7 @@ const LandingPage: React.FC<LandingPageProps> = ({
                                 <div className="text-center max-w-3xl mx-auto mb-16 relative z-10">
                                     <div className="w-12 h-12 bg-orange-500 rounded-xl flex items-center justify-center mx-auto mb-6 text-2xl font-bold text-white">2</div>
                                     <h3 className="text-3xl md:text-4xl font-bold mb-4">Your Perfect Weekly Plan</h3>
-                                    <p className="text-gray-300 text-lg">AI-crafted menus that optimize ingredients and minimize waste. Available in English and Hindi.</p>
+                                    <p className="text-gray-300 text-lg">AI-crafted menus that optimize ingredients and minimize waste. Available in English, Hindi, Hinglish, Marathi, Tamil, Bengali and Kannada.</p>
                                 </div>
 
                                 <div className="relative h-[400px] md:h-[600px] w-full flex justify-center items-start perspective-1000">
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, X, ThumbsDown, ListOrdered } from 'lucide-react';
+import { AlternativeTag, MealAlternative } from '../types';
+import { ALTERNATIVE_TAG_LABELS } from '../services/mealAlternatives';
+
+const TAG_CLASSES: Record<AlternativeTag, string> = {
+  seasonal: 'bg-green-50 text-green-700',
+  leftover: 'bg-amber-50 text-amber-700',
+  quick: 'bg-blue-50 text-blue-700',
+  variety: 'bg-purple-50 text-purple-700',
+  favourite: 'bg-rose-50 text-rose-700',
+};
+
+interface Props {
+  mealLabel: string; // Slot label, e.g. "Lunch"
+  onLoad: () => Promise<MealAlternative[]>; // Skips dishes rejected this week
+  onPick: (meal: string) => void;
+  onReject: (meals: string[]) => void; // Remembered so they are not offered again this week
+  onClose: () => void;
+}
+
+const MealAlternativesPicker: React.FC<Props> = ({ mealLabel, onLoad, onPick, onReject, onClose }) => {
+  const [alternatives, setAlternatives] = useState<MealAlternative[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setAlternatives(await onLoad());
+    } catch (e: any) {
+      setError(e?.message || 'Could not load suggestions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Load once when opened; later loads come from the buttons
+  useEffect(() => {
+    load();
+  }, []);
+
+  const rejectOne = (meal: string) => {
+    onReject([meal]);
+    setAlternatives(prev => prev.filter(a => a.meal !== meal));
+  };
+
+  const rejectAll = () => {
+    onReject(alternatives.map(a => a.meal));
+    load();
+  };
+
+  return (
+    <div className="mt-2 border border-blue-100 bg-blue-50/40 rounded-lg p-2 space-y-1.5">
+      <div className="flex items-center justify-between text-[11px] font-semibold text-blue-700">
+        <span className="flex items-center gap-1"><ListOrdered className="w-3 h-3" /> {mealLabel} alternatives</span>
+        <button onClick={onClose} className="p-0.5 text-gray-400 hover:text-gray-600" title="Close">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-gray-500 py-2">
+          <Loader2 className="w-3 h-3 animate-spin" /> Finding alternatives...
+        </div>
+      ) : error ? (
+        <div className="text-xs text-red-600 py-1">
+          {error}{' '}
+          <button onClick={load} className="font-semibold underline">Retry</button>
+        </div>
+      ) : alternatives.length === 0 ? (
+        <p className="text-xs text-gray-500 py-1">No more suggestions this week. Edit the meal by hand instead.</p>
+      ) : (
+        <>
+          {alternatives.map((alt, idx) => (
+            <div key={alt.meal} className="flex items-start gap-2 bg-white border border-gray-100 rounded-lg p-2 hover:border-blue-300">
+              <button onClick={() => onPick(alt.meal)} className="flex-1 min-w-0 text-left" title="Use this meal">
+                <div className="text-sm text-gray-800">
+                  <span className="text-gray-400 mr-1">{idx + 1}.</span>{alt.meal}
+                </div>
+                <div className="flex items-center gap-1.5 mt-0.5">
+                  <span className={`px-1.5 py-px rounded text-[10px] font-medium ${TAG_CLASSES[alt.tag] || TAG_CLASSES.variety}`}>
+                    {ALTERNATIVE_TAG_LABELS[alt.tag] || alt.tag}
+                  </span>
+                  <span className="text-[11px] text-gray-500">{alt.reason}</span>
+                </div>
+              </button>
+              <button
+                onClick={() => rejectOne(alt.meal)}
+                className="p-1 text-gray-300 hover:text-red-500"
+                title="Not this one (won't be suggested again this week)"
+              >
+                <ThumbsDown className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          <button onClick={rejectAll} className="text-[11px] font-medium text-blue-700 hover:underline">
+            None of these, show others
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MealAlternativesPicker;
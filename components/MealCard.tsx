@@ -1,22 +1,42 @@
 import React, { useState } from 'react';
-import { DayPlan } from '../types';
-import { RefreshCw, Sun, CloudSun, Moon, MessageSquarePlus, Pencil, Check, X } from 'lucide-react';
+import { DayPlan, NutritionInfo, DayViolations, MealSlot, MealAlternative } from '../types';
+import { RefreshCw, Sun, CloudSun, Moon, Cookie, MessageSquarePlus, Pencil, Check, X, BookOpen, ShieldAlert, ListOrdered } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import NutritionSummary from './NutritionSummary';
+import MealAlternativesPicker from './MealAlternativesPicker';
+import { getDayMeals, getDayNutrition } from '../services/nutritionService';
+import { DEFAULT_MEAL_SLOTS, getDaySlots } from '../services/mealSlots';
+
+// Icon and colour per default slot; added slots share the last entry
+const SLOT_STYLES: Record<string, { icon: React.ElementType; colorClass: string }> = {
+  breakfast: { icon: Sun, colorClass: 'text-amber-600' },
+  lunch: { icon: CloudSun, colorClass: 'text-orange-600' },
+  dinner: { icon: Moon, colorClass: 'text-indigo-600' },
+  other: { icon: Cookie, colorClass: 'text-emerald-600' },
+};
 
 interface Props {
   dayPlan: DayPlan;
   dayIndex: number;
-  onRegenerate: (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner') => void;
+  onRegenerate: (dayIndex: number, mealType: string) => void;
   onSmartEdit: (dayPlan: DayPlan, dayIndex: number) => void;
-  onMealUpdate?: (dayIndex: number, mealType: 'breakfast' | 'lunch' | 'dinner', newValue: string) => void;
+  onMealUpdate?: (dayIndex: number, mealType: string, newValue: string) => void;
+  onViewRecipe?: (mealName: string) => void;
+  onSuggestAlternatives?: (dayIndex: number, mealType: string) => Promise<MealAlternative[]>;
+  onRejectAlternatives?: (dayIndex: number, meals: string[]) => void;
+  nutrition?: Record<string, NutritionInfo>; // Estimates keyed by meal name
+  nutritionTargets?: Partial<NutritionInfo>; // Daily targets
+  violations?: DayViolations; // Allergy, dislike and diet problems found by mealValidator
+  mealSlots?: MealSlot[]; // The profile's planned slots, in display order
   isLoading: boolean;
 }
 
-const MealCard: React.FC<Props> = ({ dayPlan, dayIndex, onRegenerate, onSmartEdit, onMealUpdate, isLoading }) => {
-  const [editingMeal, setEditingMeal] = useState<'breakfast' | 'lunch' | 'dinner' | null>(null);
+const MealCard: React.FC<Props> = ({ dayPlan, dayIndex, onRegenerate, onSmartEdit, onMealUpdate, onViewRecipe, onSuggestAlternatives, onRejectAlternatives, nutrition, nutritionTargets, violations, mealSlots = DEFAULT_MEAL_SLOTS, isLoading }) => {
+  const [editingMeal, setEditingMeal] = useState<string | null>(null);
   const [editValue, setEditValue] = useState('');
+  const [alternativesFor, setAlternativesFor] = useState<string | null>(null); // Slot id with the picker open
 
-  const startEditing = (mealType: 'breakfast' | 'lunch' | 'dinner') => {
+  const startEditing = (mealType: string) => {
     setEditingMeal(mealType);
     setEditValue(dayPlan[mealType] || '');
   };
@@ -34,22 +54,30 @@ const MealCard: React.FC<Props> = ({ dayPlan, dayIndex, onRegenerate, onSmartEdi
     setEditValue('');
   };
 
-  const renderMealSection = (
-    type: 'breakfast' | 'lunch' | 'dinner',
-    Icon: React.ElementType,
-    colorClass: string,
-    label: string
-  ) => {
+  const renderMealSection = (slot: MealSlot, isFirst: boolean) => {
+    const type = slot.id;
+    const { icon: Icon, colorClass } = SLOT_STYLES[type] || SLOT_STYLES.other;
     const isEditing = editingMeal === type;
     const mealContent = dayPlan[type];
+    const mealNutrition = mealContent ? nutrition?.[mealContent.trim()] : undefined;
+    const mealViolations = violations?.[type] || [];
 
     return (
-      <div className={`group ${type !== 'breakfast' ? 'pt-2 border-t border-dashed border-gray-200' : ''}`}>
+      <div key={type} className={`group ${!isFirst ? 'pt-2 border-t border-dashed border-gray-200' : ''}`}>
         <div className="flex justify-between items-start">
           <div className={`flex items-center gap-2 text-xs font-semibold ${colorClass} mb-1`}>
-            <Icon className="w-3 h-3" /> {label}
+            <Icon className="w-3 h-3" /> {slot.label.toUpperCase()}
           </div>
           <div className="flex items-center gap-1">
+            {onViewRecipe && mealContent && !isEditing && (
+              <button
+                onClick={() => onViewRecipe(mealContent)}
+                className="opacity-0 group-hover:opacity-100 transition-opacity p-1 text-gray-400 hover:text-orange-600"
+                title="View recipe"
+              >
+                <BookOpen className="w-3 h-3" />
+              </button>
+            )}
             {onMealUpdate && !isEditing && (
               <button
                 onClick={() => startEditing(type)}
@@ -59,6 +87,15 @@ const MealCard: React.FC<Props> = ({ dayPlan, dayIndex, onRegenerate, onSmartEdi
                 <Pencil className="w-3 h-3" />
               </button>
             )}
+            {onSuggestAlternatives && !isEditing && (
+              <button
+                onClick={() => setAlternativesFor(alternativesFor === type ? null : type)}
+                className="opacity-0 group-hover:opacity-100 transition-opacity p-1 text-gray-400 hover:text-blue-600"
+                title="Show alternatives"
+              >
+                <ListOrdered className="w-3 h-3" />
+              </button>
+            )}
             <button
               onClick={() => onRegenerate(dayIndex, type)}
               disabled={isLoading || isEditing}
@@ -103,6 +140,37 @@ const MealCard: React.FC<Props> = ({ dayPlan, dayIndex, onRegenerate, onSmartEdi
             <ReactMarkdown>{mealContent}</ReactMarkdown>
           </div>
         )}
+        {alternativesFor === type && onSuggestAlternatives && !isEditing && (
+          <MealAlternativesPicker
+            mealLabel={slot.label}
+            onLoad={() => onSuggestAlternatives(dayIndex, type)}
+            onPick={(meal) => {
+              onMealUpdate?.(dayIndex, type, meal);
+              setAlternativesFor(null);
+            }}
+            onReject={(meals) => onRejectAlternatives?.(dayIndex, meals)}
+            onClose={() => setAlternativesFor(null)}
+          />
+        )}
+        {mealViolations.length > 0 && !isEditing && (
+          <div className="mt-1.5 flex items-start gap-1.5 px-2 py-1.5 bg-red-50 border border-red-100 rounded-lg text-[11px] text-red-700">
+            <ShieldAlert className="w-3.5 h-3.5 shrink-0 mt-px" />
+            <span className="flex-1">{mealViolations.map(v => v.reason).join('; ')}</span>
+            <button
+              onClick={() => onRegenerate(dayIndex, type)}
+              disabled={isLoading}
+              className="font-semibold underline hover:text-red-900 disabled:opacity-50"
+              title="Replace this meal with one that fits the profile"
+            >
+              Fix
+            </button>
+          </div>
+        )}
+        {mealNutrition && !isEditing && (
+          <div className="text-[11px] text-gray-400 mt-1">
+            ~{Math.round(mealNutrition.calories)} kcal · P {Math.round(mealNutrition.protein)}g · C {Math.round(mealNutrition.carbs)}g
+          </div>
+        )}
       </div>
     );
   };
@@ -120,10 +188,14 @@ const MealCard: React.FC<Props> = ({ dayPlan, dayIndex, onRegenerate, onSmartEdi
       </div>
 
       <div className="p-4 space-y-4">
-        {renderMealSection('breakfast', Sun, 'text-amber-600', 'BREAKFAST')}
-        {renderMealSection('lunch', CloudSun, 'text-orange-600', 'LUNCH')}
-        {renderMealSection('dinner', Moon, 'text-indigo-600', 'DINNER')}
+        {getDaySlots(dayPlan, mealSlots).map((slot, idx) => renderMealSection(slot, idx === 0))}
       </div>
+
+      {nutrition && getDayMeals(dayPlan).some(meal => nutrition[meal.trim()]) && (
+        <div className="px-4 py-2 border-t border-gray-100 bg-gray-50">
+          <NutritionSummary totals={getDayNutrition(dayPlan, nutrition)} targets={nutritionTargets} compact />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Utensils } from 'lucide-react';
+import { MealSlot } from '../types';
+import { SUGGESTED_MEAL_SLOTS, createMealSlot, isDefaultSlot } from '../services/mealSlots';
+
+interface Props {
+    slots: MealSlot[];
+    mealsToPrepare?: string[];
+    onChange: (changes: { mealSlots?: MealSlot[]; mealsToPrepare?: string[] }) => void;
+}
+
+const MealSlotsEditor: React.FC<Props> = ({ slots, mealsToPrepare, onChange }) => {
+    const [newLabel, setNewLabel] = useState('');
+
+    // An empty list means every slot is prepared
+    const isPrepared = (id: string) => !mealsToPrepare?.length || mealsToPrepare.includes(id);
+
+    const togglePrepared = (id: string) => {
+        const current = mealsToPrepare?.length ? mealsToPrepare : slots.map(s => s.id);
+        onChange({ mealsToPrepare: current.includes(id) ? current.filter(m => m !== id) : [...current, id] });
+    };
+
+    const updateSlot = (id: string, changes: Partial<MealSlot>) => {
+        onChange({ mealSlots: slots.map(s => (s.id === id ? { ...s, ...changes } : s)) });
+    };
+
+    const addSlot = (slot: MealSlot) => {
+        onChange({
+            mealSlots: [...slots, slot],
+            ...(mealsToPrepare?.length ? { mealsToPrepare: [...mealsToPrepare, slot.id] } : {}),
+        });
+    };
+
+    const removeSlot = (id: string) => {
+        onChange({
+            mealSlots: slots.filter(s => s.id !== id),
+            ...(mealsToPrepare?.length ? { mealsToPrepare: mealsToPrepare.filter(m => m !== id) } : {}),
+        });
+    };
+
+    const handleAdd = () => {
+        if (!newLabel.trim()) return;
+        addSlot(createMealSlot(newLabel, slots));
+        setNewLabel('');
+    };
+
+    const suggestions = SUGGESTED_MEAL_SLOTS.filter(s => !slots.some(existing => existing.id === s.id));
+
+    return (
+        <div>
+            <label className="block text-sm font-bold text-gray-700 mb-1 flex items-center gap-1.5">
+                <Utensils className="w-4 h-4" /> Meals to Prepare
+            </label>
+            <p className="text-xs text-gray-500 mb-2">Tick the meals your cook makes each day. Added meals get their own tab for dish ideas.</p>
+
+            <div className="space-y-1.5">
+                {slots.map(slot => (
+                    <div key={slot.id} className="flex items-start gap-2 p-2 rounded-lg border border-gray-100 hover:bg-gray-50">
+                        <input
+                            type="checkbox"
+                            checked={isPrepared(slot.id)}
+                            onChange={() => togglePrepared(slot.id)}
+                            className="mt-2 w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                        />
+                        <div className="flex-1 min-w-0 space-y-1.5">
+                            <input
+                                type="text"
+                                value={slot.label}
+                                onChange={(e) => updateSlot(slot.id, { label: e.target.value })}
+                                className="w-full px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm font-medium focus:ring-2 focus:ring-indigo-500"
+                                placeholder="Meal name"
+                            />
+                            {!isDefaultSlot(slot.id) && (
+                                <input
+                                    type="text"
+                                    value={slot.notes || ''}
+                                    onChange={(e) => updateSlot(slot.id, { notes: e.target.value })}
+                                    className="w-full px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-xs focus:ring-2 focus:ring-indigo-500"
+                                    placeholder="Notes for the planner (e.g., packed for school, eaten cold)"
+                                />
+                            )}
+                        </div>
+                        {!isDefaultSlot(slot.id) && (
+                            <button
+                                onClick={() => removeSlot(slot.id)}
+                                className="p-1.5 text-gray-400 hover:text-red-500"
+                                title="Remove meal"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {suggestions.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                    {suggestions.map(suggestion => (
+                        <button
+                            key={suggestion.id}
+                            type="button"
+                            onClick={() => addSlot(suggestion)}
+                            className="px-3 py-1 rounded-lg text-xs font-medium bg-white border border-gray-200 text-gray-700 hover:bg-gray-100 flex items-center gap-1"
+                        >
+                            <Plus className="w-3 h-3" /> {suggestion.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex gap-2 mt-2">
+                <input
+                    type="text"
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    placeholder="Add a meal (e.g., Mid-morning Fruit)"
+                />
+                <button
+                    onClick={handleAdd}
+                    disabled={!newLabel.trim()}
+                    className="px-3 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+                >
+                    <Plus className="w-4 h-4" /> Add
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default MealSlotsEditor;
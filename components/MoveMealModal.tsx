@@ -1,15 +1,17 @@
 import React, { useState } from 'react';
-import { MealTransfer } from '../types';
+import { MealSlot, MealTransfer } from '../types';
 import { format, addDays } from 'date-fns';
 import { ArrowRight, Copy, Move, X } from 'lucide-react';
+import { DEFAULT_MEAL_SLOTS, getMealSlotLabel } from '../services/mealSlots';
 
 interface Props {
   transfer: MealTransfer;
   onConfirm: (targetDate: string, targetType: string, action: 'copy' | 'move') => void;
   onClose: () => void;
+  mealSlots?: MealSlot[]; // Slots the meal can go to
 }
 
-const MoveMealModal: React.FC<Props> = ({ transfer, onConfirm, onClose }) => {
+const MoveMealModal: React.FC<Props> = ({ transfer, onConfirm, onClose, mealSlots = DEFAULT_MEAL_SLOTS }) => {
   // Default to same day if moving type, or tomorrow if moving date
   const [targetDate, setTargetDate] = useState(transfer.sourceDate);
   const [targetType, setTargetType] = useState(transfer.sourceMealType);
@@ -29,7 +31,7 @@ const MoveMealModal: React.FC<Props> = ({ transfer, onConfirm, onClose }) => {
         </div>
 
         <div className="bg-orange-50 p-3 rounded-lg border border-orange-100 mb-6">
-            <span className="text-xs font-bold text-orange-400 uppercase">{transfer.sourceMealType}</span>
+            <span className="text-xs font-bold text-orange-400 uppercase">{getMealSlotLabel(transfer.sourceMealType, mealSlots)}</span>
             <p className="font-medium text-gray-800">{transfer.sourceMealName}</p>
             <p className="text-xs text-gray-500 mt-1">{format(new Date(transfer.sourceDate), 'EEE, MMM d')}</p>
         </div>
@@ -70,9 +72,9 @@ const MoveMealModal: React.FC<Props> = ({ transfer, onConfirm, onClose }) => {
                     onChange={(e) => setTargetType(e.target.value)}
                     className="w-full p-2 border rounded-lg bg-white"
                 >
-                    <option value="Breakfast">Breakfast</option>
-                    <option value="Lunch">Lunch</option>
-                    <option value="Dinner">Dinner</option>
+                    {mealSlots.map(slot => (
+                        <option key={slot.id} value={slot.id}>{slot.label}</option>
+                    ))}
                 </select>
             </div>
         </div>
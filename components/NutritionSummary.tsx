@@ -0,0 +1,54 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { NutritionInfo } from '../types';
+import { NUTRIENTS, isOffTarget } from '../services/nutritionService';
+
+interface Props {
+  totals: NutritionInfo;
+  targets?: Partial<NutritionInfo>; // Already scaled to the period shown
+  label?: string;
+  compact?: boolean;
+}
+
+const NutritionSummary: React.FC<Props> = ({ totals, targets, label, compact = false }) => {
+  if (compact) {
+    return (
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-gray-500">
+        {NUTRIENTS.map(({ key, label: name, unit }) => (
+          <span key={key} className={isOffTarget(key, totals[key], targets?.[key]) ? 'text-red-600 font-semibold' : ''}>
+            {name} {Math.round(totals[key])}{unit === 'g' ? 'g' : ` ${unit}`}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-gray-100 rounded-xl p-3 shadow-sm">
+      {label && (
+        <div className="flex items-center gap-1.5 text-xs font-bold uppercase text-gray-500 mb-2">
+          <Activity className="w-3.5 h-3.5 text-emerald-600" /> {label}
+          <span className="font-normal normal-case text-gray-400">(estimated, per person)</span>
+        </div>
+      )}
+      <div className="grid grid-cols-5 gap-2">
+        {NUTRIENTS.map(({ key, label: name, unit }) => {
+          const target = targets?.[key];
+          const offTarget = isOffTarget(key, totals[key], target);
+          return (
+            <div key={key} className={`rounded-lg px-2 py-1.5 text-center ${offTarget ? 'bg-red-50' : 'bg-gray-50'}`}>
+              <div className={`text-sm font-bold ${offTarget ? 'text-red-700' : 'text-gray-800'}`}>
+                {Math.round(totals[key])}
+                <span className="text-[10px] font-medium text-gray-500 ml-0.5">{unit}</span>
+              </div>
+              <div className="text-[10px] text-gray-500">{name}</div>
+              {target ? <div className="text-[10px] text-gray-400">target {Math.round(target)}</div> : null}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NutritionSummary;
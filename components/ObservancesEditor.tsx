@@ -0,0 +1,121 @@
+import React from 'react';
+import { Plus, Trash2, Sparkles } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Observance, ObservanceRule } from '../types';
+import { OBSERVANCE_RULE_OPTIONS } from '../constants';
+import { BUILT_IN_CALENDAR_END, createObservance, describeObservanceRules, getBuiltInObservances, getNextObservanceDate } from '../services/observances';
+
+interface Props {
+    followed: string[];
+    custom: Observance[];
+    onChange: (changes: { followedObservances?: string[]; customObservances?: Observance[] }) => void;
+}
+
+const ObservancesEditor: React.FC<Props> = ({ followed, custom, onChange }) => {
+    const toggleFollowed = (id: string) => {
+        onChange({ followedObservances: followed.includes(id) ? followed.filter(f => f !== id) : [...followed, id] });
+    };
+
+    const updateCustom = (id: string, changes: Partial<Observance>) => {
+        onChange({ customObservances: custom.map(o => (o.id === id ? { ...o, ...changes } : o)) });
+    };
+
+    const toggleRule = (observance: Observance, rule: ObservanceRule) => {
+        const selected = observance.rules.includes(rule);
+        updateCustom(observance.id, { rules: selected ? observance.rules.filter(r => r !== rule) : [...observance.rules, rule] });
+    };
+
+    // "2026-11-01, 2026-11-15" -> sorted valid dates
+    const parseDates = (value: string): string[] =>
+        [...new Set(value.split(/[\s,]+/).filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d) && !isNaN(parseISO(d).getTime())))].sort();
+
+    return (
+        <div>
+            <label className="block text-sm font-bold text-gray-700 mb-1 flex items-center gap-1.5">
+                <Sparkles className="w-4 h-4" /> Festivals & Fasts
+            </label>
+            <p className="text-xs text-gray-500 mb-2">Plans follow the food rules of the days you observe. Dates can differ by region; add your own below.</p>
+
+            <div className="space-y-1.5">
+                {getBuiltInObservances().map(observance => {
+                    const next = getNextObservanceDate(observance);
+                    return (
+                        <label key={observance.id} className="flex items-start gap-2 p-2 rounded-lg border border-gray-100 hover:bg-gray-50 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={followed.includes(observance.id)}
+                                onChange={() => toggleFollowed(observance.id)}
+                                className="mt-0.5 rounded text-indigo-600"
+                            />
+                            <div className="flex-1 min-w-0">
+                                <div className="flex justify-between gap-2 text-sm text-gray-800">
+                                    <span className="font-medium">{observance.name}</span>
+                                    {next
+                                        ? <span className="text-xs text-gray-400 shrink-0">next {format(parseISO(next), 'MMM d')}</span>
+                                        : <span className="text-xs text-amber-600 shrink-0">no dates yet</span>}
+                                </div>
+                                <p className="text-xs text-gray-500">{describeObservanceRules(observance.rules)}</p>
+                            </div>
+                        </label>
+                    );
+                })}
+            </div>
+            <p className="text-xs text-gray-400 mt-1.5">
+                Built-in festival dates run to {format(parseISO(BUILT_IN_CALENDAR_END), 'MMMM yyyy')}; Ekadashi is worked out for any date. Add later festival days as your own below.
+            </p>
+
+            {custom.length > 0 && (
+                <div className="space-y-2 mt-3">
+                    {custom.map(observance => (
+                        <div key={observance.id} className="p-3 bg-gray-50 border border-gray-200 rounded-xl space-y-2">
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={observance.name}
+                                    onChange={(e) => updateCustom(observance.id, { name: e.target.value })}
+                                    className="flex-1 min-w-0 px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+                                    placeholder="Name (e.g., Thursday fast)"
+                                />
+                                <button
+                                    onClick={() => onChange({ customObservances: custom.filter(o => o.id !== observance.id) })}
+                                    className="p-1.5 text-gray-400 hover:text-red-500"
+                                    title="Remove observance"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                            <input
+                                type="text"
+                                defaultValue={observance.dates.join(', ')}
+                                onBlur={(e) => updateCustom(observance.id, { dates: parseDates(e.target.value) })}
+                                className="w-full px-3 py-1.5 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+                                placeholder="Dates: 2026-11-05, 2026-11-12"
+                            />
+                            <div className="flex flex-wrap gap-1.5">
+                                {OBSERVANCE_RULE_OPTIONS.map(opt => (
+                                    <button
+                                        key={opt.value}
+                                        type="button"
+                                        onClick={() => toggleRule(observance, opt.value)}
+                                        className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${observance.rules.includes(opt.value) ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-100'}`}
+                                    >
+                                        {opt.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <button
+                onClick={() => onChange({ customObservances: [...custom, createObservance()] })}
+                className="mt-2 px-3 py-2 text-sm font-medium text-indigo-600 bg-indigo-50 rounded-lg hover:bg-indigo-100 flex items-center gap-1.5"
+            >
+                <Plus className="w-4 h-4" /> Add your own
+            </button>
+        </div>
+    );
+};
+
+export default ObservancesEditor;
@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { Camera, X, Upload, Loader2, Plus, CalendarPlus, Trash2 } from 'lucide-react';
+import { DetectedIngredient } from '../types';
+import { AIImageInput } from '../services/aiProvider';
+import { readImageFile, toImageSrc } from '../services/imageInput';
+import { PANTRY_UNITS } from '../services/pantry';
+
+const PLAN_DAY_OPTIONS = [2, 3, 4, 5];
+
+interface Props {
+  onDetect: (image: AIImageInput) => Promise<DetectedIngredient[]>;
+  onAddToStaples: (names: string[]) => void;
+  onPlanWithIngredients?: (ingredients: string[], dayCount: number) => void; // e.g. "Tomato (about 0.5 kg)"
+  onClose: () => void;
+}
+
+interface ReviewRow extends DetectedIngredient {
+  selected: boolean;
+}
+
+const PantryPhotoModal: React.FC<Props> = ({ onDetect, onAddToStaples, onPlanWithIngredients, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [image, setImage] = useState<AIImageInput | null>(null);
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [planDays, setPlanDays] = useState(3);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setRows(null);
+    setLoading(true);
+    try {
+      const photo = await readImageFile(file);
+      setImage(photo);
+      const detected = await onDetect(photo);
+      setRows(detected.map(item => ({ ...item, selected: true })));
+    } catch (e: any) {
+      console.error(e);
+      setError(e?.message || 'Could not read the photo. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev && prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const selectedRows = (rows || []).filter(r => r.selected && r.name.trim());
+  const selectedNames = selectedRows.map(r => r.name.trim());
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-emerald-600 to-teal-600 p-6 flex justify-between items-center text-white">
+          <div className="flex items-center gap-2">
+            <Camera className="w-5 h-5" />
+            <h2 className="text-xl font-bold">Scan Fridge or Pantry</h2>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white/20 rounded-full transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-600">
+            Take or upload a photo of your fridge or shelves. Check what was found, then add it to your pantry staples or plan the next few days around it.
+          </p>
+
+          {/* Hidden inputs: one opens the camera on phones, the other the file picker */}
+          <input
+            ref={cameraInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => cameraInputRef.current?.click()}
+              disabled={loading}
+              className="flex-1 py-2.5 bg-emerald-600 text-white text-sm font-semibold rounded-xl hover:bg-emerald-700 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              <Camera className="w-4 h-4" /> Take Photo
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
+              className="flex-1 py-2.5 bg-gray-100 text-gray-700 text-sm font-semibold rounded-xl hover:bg-gray-200 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              <Upload className="w-4 h-4" /> Upload
+            </button>
+          </div>
+
+          {image && (
+            <img src={toImageSrc(image)} alt="Fridge or pantry" className="w-full max-h-48 object-cover rounded-xl border border-gray-100" />
+          )}
+
+          {loading && (
+            <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 animate-spin" /> Looking for ingredients...
+            </div>
+          )}
+
+          {error && (
+            <div className="px-3 py-2 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700">{error}</div>
+          )}
+
+          {rows && !loading && (
+            rows.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-2">No ingredients found. Try a closer, well-lit photo.</p>
+            ) : (
+              <div>
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 block">
+                  Found {rows.length} item(s) - untick or correct anything wrong
+                </label>
+                <div className="space-y-1.5">
+                  {rows.map((row, idx) => (
+                    <div key={idx} className={`flex items-center gap-2 p-2 rounded-lg border ${row.selected ? 'border-gray-200 bg-white' : 'border-gray-100 bg-gray-50 opacity-60'}`}>
+                      <input
+                        type="checkbox"
+                        checked={row.selected}
+                        onChange={() => updateRow(idx, { selected: !row.selected })}
+                        className="w-4 h-4 text-emerald-600 rounded focus:ring-emerald-500"
+                      />
+                      <input
+                        type="text"
+                        value={row.name}
+                        onChange={(e) => updateRow(idx, { name: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 rounded focus:ring-2 focus:ring-emerald-500"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={row.quantity}
+                        onChange={(e) => updateRow(idx, { quantity: Number(e.target.value) })}
+                        className="w-16 px-2 py-1 text-sm border border-gray-200 rounded focus:ring-2 focus:ring-emerald-500"
+                      />
+                      <select
+                        value={row.unit}
+                        onChange={(e) => updateRow(idx, { unit: e.target.value })}
+                        className="px-1 py-1 text-sm border border-gray-200 rounded bg-white"
+                      >
+                        {[...new Set([...PANTRY_UNITS, row.unit])].map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                      </select>
+                      <button
+                        onClick={() => setRows(prev => prev && prev.filter((_, i) => i !== idx))}
+                        className="p-1 text-gray-400 hover:text-red-500"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Footer */}
+        {rows && rows.length > 0 && !loading && (
+          <div className="p-4 bg-gray-50 border-t border-gray-100 space-y-2">
+            <button
+              onClick={() => { onAddToStaples(selectedNames); onClose(); }}
+              disabled={selectedNames.length === 0}
+              className="w-full py-2.5 bg-white border border-gray-200 text-gray-800 text-sm font-semibold rounded-xl hover:bg-gray-100 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              <Plus className="w-4 h-4" /> Add {selectedNames.length} to Pantry Staples
+            </button>
+            {onPlanWithIngredients && (
+              <div className="flex gap-2">
+                <select
+                  value={planDays}
+                  onChange={(e) => setPlanDays(Number(e.target.value))}
+                  className="px-2 py-2 text-sm border border-gray-200 rounded-xl bg-white"
+                >
+                  {PLAN_DAY_OPTIONS.map(days => <option key={days} value={days}>{days} days</option>)}
+                </select>
+                <button
+                  onClick={() => {
+                    onPlanWithIngredients(selectedRows.map(r => `${r.name.trim()} (about ${r.quantity} ${r.unit})`), planDays);
+                    onClose();
+                  }}
+                  disabled={selectedNames.length === 0}
+                  className="flex-1 py-2.5 bg-emerald-600 text-white text-sm font-bold rounded-xl hover:bg-emerald-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  <CalendarPlus className="w-4 h-4" /> Plan from today using these first
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PantryPhotoModal;
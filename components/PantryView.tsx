@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Package, Plus, Trash2, AlertTriangle, Minus } from 'lucide-react';
+import { PantryItem } from '../types';
+import { PANTRY_CATEGORIES, PANTRY_UNITS, getExpiryStatus } from '../services/pantry';
+
+interface Props {
+  items: PantryItem[];
+  onSave: (items: PantryItem[]) => Promise<void>;
+  onDelete: (itemId: string) => Promise<void>;
+}
+
+const EMPTY_DRAFT = { name: '', quantity: '', unit: 'kg', category: 'Grains', expiresOn: '' };
+
+const PantryView: React.FC<Props> = ({ items, onSave, onDelete }) => {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const categories = PANTRY_CATEGORIES.filter(c => items.some(i => (i.category || 'Others') === c));
+  const expiringCount = items.filter(i => i.quantity > 0 && getExpiryStatus(i) !== 'ok').length;
+
+  const handleAdd = async () => {
+    const quantity = Number(draft.quantity);
+    if (!draft.name.trim() || !(quantity >= 0)) return;
+
+    setSaving(true);
+    try {
+      await onSave([{
+        id: `new_${Date.now()}`,
+        name: draft.name.trim(),
+        quantity,
+        unit: draft.unit,
+        category: draft.category,
+        expiresOn: draft.expiresOn || undefined,
+        updatedAt: new Date().toISOString()
+      }]);
+      setDraft({ ...EMPTY_DRAFT, unit: draft.unit, category: draft.category });
+    } catch (error: any) {
+      alert(`Failed to add item: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleQuantityChange = async (item: PantryItem, quantity: number) => {
+    try {
+      await onSave([{ ...item, quantity: Math.max(0, Math.round(quantity * 100) / 100) }]);
+    } catch (error: any) {
+      alert(`Failed to update item: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async (item: PantryItem) => {
+    if (!confirm(`Remove "${item.name}" from the pantry?`)) return;
+    try {
+      await onDelete(item.id);
+    } catch (error: any) {
+      alert(`Failed to delete item: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  // Step size that suits the unit: 0.25 kg, 50 g, 1 piece...
+  const getStep = (unit: string) => (unit === 'g' || unit === 'ml' ? 50 : unit === 'kg' || unit === 'L' ? 0.25 : 1);
+
+  return (
+    <div className="space-y-6">
+      {/* Add Item */}
+      <div className="bg-white rounded-2xl border border-gray-200 p-4 shadow-sm">
+        <h3 className="text-sm font-bold text-gray-700 mb-3 flex items-center gap-2">
+          <Plus className="w-4 h-4" /> Add to Pantry
+        </h3>
+        <div className="grid grid-cols-2 sm:grid-cols-6 gap-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Item (e.g., Atta)"
+            className="col-span-2 px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 outline-none"
+          />
+          <input
+            type="number"
+            min={0}
+            value={draft.quantity}
+            onChange={(e) => setDraft({ ...draft, quantity: e.target.value })}
+            placeholder="Qty"
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 outline-none"
+          />
+          <select
+            value={draft.unit}
+            onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+            className="px-2 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+          >
+            {PANTRY_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+          <select
+            value={draft.category}
+            onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+            className="px-2 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+          >
+            {PANTRY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <input
+            type="date"
+            value={draft.expiresOn}
+            onChange={(e) => setDraft({ ...draft, expiresOn: e.target.value })}
+            title="Expiry date (optional)"
+            className="px-2 py-2 border border-gray-200 rounded-lg text-sm"
+          />
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={saving || !draft.name.trim() || draft.quantity === ''}
+          className="mt-3 px-4 py-2 bg-orange-600 text-white rounded-lg text-sm font-medium hover:bg-orange-700 disabled:opacity-50"
+        >
+          Add Item
+        </button>
+      </div>
+
+      {expiringCount > 0 && (
+        <div className="bg-amber-50 text-amber-800 p-3 rounded-lg text-sm border border-amber-200 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          {expiringCount} item{expiringCount > 1 ? 's' : ''} expired or expiring soon. Plan meals to use them first.
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-2xl border-2 border-dashed border-gray-200">
+          <Package className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-500">Your pantry is empty. Add what you have in stock so grocery lists only include what's missing.</p>
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {categories.map(category => (
+            <div key={category} className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+              <div className="bg-gray-50 px-4 py-2 border-b text-xs font-bold uppercase text-gray-500">{category}</div>
+              <ul className="divide-y divide-gray-100">
+                {items.filter(i => (i.category || 'Others') === category).map(item => {
+                  const expiry = getExpiryStatus(item);
+                  const step = getStep(item.unit);
+                  return (
+                    <li key={item.id} className={`flex items-center gap-3 px-4 py-2 ${item.quantity === 0 ? 'opacity-50' : ''}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-800 truncate">{item.name}</p>
+                        {item.expiresOn && (
+                          <p className={`text-xs ${expiry === 'expired' ? 'text-red-600' : expiry === 'soon' ? 'text-amber-600' : 'text-gray-400'}`}>
+                            {expiry === 'expired' ? 'Expired' : 'Expires'} {item.expiresOn}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => handleQuantityChange(item, item.quantity - step)}
+                          disabled={item.quantity <= 0}
+                          className="p-1 rounded-md border border-gray-200 hover:bg-gray-50 disabled:opacity-40"
+                          title="Decrease"
+                        >
+                          <Minus className="w-3 h-3" />
+                        </button>
+                        <span className="text-sm text-gray-700 w-20 text-center">{item.quantity} {item.unit}</span>
+                        <button
+                          onClick={() => handleQuantityChange(item, item.quantity + step)}
+                          className="p-1 rounded-md border border-gray-200 hover:bg-gray-50"
+                          title="Increase"
+                        >
+                          <Plus className="w-3 h-3" />
+                        </button>
+                      </div>
+                      <button onClick={() => handleDelete(item)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PantryView;
@@ -0,0 +1,266 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bot, X, Send, Loader2, Trash2, Check, ArrowRight } from 'lucide-react';
+import { AssistantMessage, MealSlot, PlanEdit, Schedule, WeeklyPlan } from '../types';
+import { getMealSlotLabel } from '../services/mealSlots';
+import {
+  clearAssistantChat,
+  createAssistantMessage,
+  describeEditDay,
+  getAssistantChat,
+  isEditStale,
+  saveAssistantChat,
+} from '../services/planningAssistant';
+
+const EXAMPLE_PROMPTS = [
+  'Guests on Saturday, make dinner special',
+  "We're out of paneer till Thursday",
+  'Lighter dinners for the rest of the week',
+];
+
+interface Props {
+  profileId: string; // Each profile keeps its own conversation
+  plan: WeeklyPlan | null;
+  schedule: Schedule;
+  slots: MealSlot[];
+  onAsk: (message: string, history: AssistantMessage[]) => Promise<{ reply: string; edits: PlanEdit[] }>;
+  onApply: (edits: PlanEdit[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const PlanningAssistant: React.FC<Props> = ({ profileId, plan, schedule, slots, onAsk, onApply, onClose }) => {
+  const [messages, setMessages] = useState<AssistantMessage[]>(() => getAssistantChat(profileId));
+  const [input, setInput] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+  // Unticked edits per message, by index
+  const [unselected, setUnselected] = useState<Record<string, number[]>>({});
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setMessages(getAssistantChat(profileId));
+    setUnselected({});
+  }, [profileId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, loading]);
+
+  const updateMessages = (update: (prev: AssistantMessage[]) => AssistantMessage[]) => {
+    setMessages(prev => {
+      const next = update(prev);
+      saveAssistantChat(profileId, next);
+      return next;
+    });
+  };
+
+  const handleSend = async (text: string = input) => {
+    const message = text.trim();
+    if (!message || loading) return;
+    const history = messages;
+    updateMessages(prev => [...prev, createAssistantMessage('user', message)]);
+    setInput('');
+    setLoading(true);
+    try {
+      const { reply, edits } = await onAsk(message, history);
+      updateMessages(prev => [...prev, createAssistantMessage('assistant', reply, edits)]);
+    } catch (e: any) {
+      console.error(e);
+      updateMessages(prev => [...prev, createAssistantMessage('assistant', `Sorry, something went wrong: ${e?.message || 'Unknown error'}`)]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setEditsStatus = (messageId: string, editsStatus: AssistantMessage['editsStatus']) => {
+    updateMessages(prev => prev.map(m => (m.id === messageId ? { ...m, editsStatus } : m)));
+  };
+
+  const toggleEdit = (messageId: string, index: number) => {
+    setUnselected(prev => {
+      const current = prev[messageId] || [];
+      return { ...prev, [messageId]: current.includes(index) ? current.filter(i => i !== index) : [...current, index] };
+    });
+  };
+
+  const handleApply = async (message: AssistantMessage) => {
+    const edits = (message.edits || []).filter((edit, i) =>
+      !(unselected[message.id] || []).includes(i) && !isEditStale(edit, plan, schedule));
+    if (edits.length === 0) return;
+    setApplyingId(message.id);
+    try {
+      await onApply(edits);
+      setEditsStatus(message.id, 'applied');
+    } catch (e: any) {
+      console.error(e);
+      alert(`Failed to apply changes: ${e?.message || 'Unknown error'}`);
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
+  const handleClear = () => {
+    if (!confirm('Clear this conversation?')) return;
+    clearAssistantChat(profileId);
+    setMessages([]);
+    setUnselected({});
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md h-full shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 p-4 flex justify-between items-center text-white shrink-0">
+          <div className="flex items-center gap-2">
+            <Bot className="w-5 h-5" />
+            <h2 className="text-lg font-bold">Planning Assistant</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            {messages.length > 0 && (
+              <button onClick={handleClear} className="p-1.5 hover:bg-white/20 rounded-full transition-colors" title="Clear conversation">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 hover:bg-white/20 rounded-full transition-colors">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {/* Conversation */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-gray-50">
+          {messages.length === 0 && !loading && (
+            <div className="text-sm text-gray-600 space-y-3">
+              <p>
+                Tell me what is changing this week and I will suggest edits to your draft plan and calendar.
+                You review every change before it is saved.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {EXAMPLE_PROMPTS.map(example => (
+                  <button
+                    key={example}
+                    onClick={() => handleSend(example)}
+                    className="px-3 py-1.5 bg-white border border-indigo-100 text-indigo-700 rounded-full text-xs hover:bg-indigo-50"
+                  >
+                    {example}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[90%] rounded-2xl px-3 py-2 text-sm ${message.role === 'user'
+                ? 'bg-indigo-600 text-white rounded-br-sm'
+                : 'bg-white border border-gray-100 text-gray-800 rounded-bl-sm shadow-sm'
+                }`}
+              >
+                <p className="whitespace-pre-wrap">{message.text}</p>
+
+                {/* Proposed changes */}
+                {message.edits && message.edits.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-gray-100 space-y-1.5">
+                    {message.edits.map((edit, i) => {
+                      const stale = message.editsStatus === 'pending' && isEditStale(edit, plan, schedule);
+                      const selected = !(unselected[message.id] || []).includes(i) && !stale;
+                      return (
+                        <label
+                          key={i}
+                          className={`flex items-start gap-2 p-2 rounded-lg border text-xs ${selected ? 'border-indigo-100 bg-indigo-50/50' : 'border-gray-100 bg-gray-50 opacity-60'}`}
+                        >
+                          {message.editsStatus === 'pending' && (
+                            <input
+                              type="checkbox"
+                              checked={selected}
+                              disabled={stale}
+                              onChange={() => toggleEdit(message.id, i)}
+                              className="mt-0.5 w-3.5 h-3.5 text-indigo-600 rounded focus:ring-indigo-500"
+                            />
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="font-semibold text-gray-500">
+                              {edit.target === 'plan' ? 'Draft' : 'Calendar'} · {describeEditDay(edit, plan)} · {getMealSlotLabel(edit.mealType, slots)}
+                            </div>
+                            <div className="flex items-center gap-1.5 flex-wrap mt-0.5">
+                              <span className="line-through text-red-500">{edit.before || 'empty'}</span>
+                              <ArrowRight className="w-3 h-3 text-gray-400 shrink-0" />
+                              <span className="text-green-700 font-medium">{edit.after}</span>
+                            </div>
+                            {edit.reason && <div className="text-gray-400 mt-0.5">{edit.reason}</div>}
+                            {stale && <div className="text-amber-600 mt-0.5">Changed since this was suggested</div>}
+                          </div>
+                        </label>
+                      );
+                    })}
+
+                    {message.editsStatus === 'pending' ? (
+                      <div className="flex gap-2 pt-1">
+                        <button
+                          onClick={() => handleApply(message)}
+                          disabled={applyingId !== null}
+                          className="flex-1 py-1.5 bg-gray-900 text-white rounded-lg text-xs font-bold hover:bg-gray-800 disabled:opacity-50 flex items-center justify-center gap-1"
+                        >
+                          {applyingId === message.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                          Apply selected
+                        </button>
+                        <button
+                          onClick={() => setEditsStatus(message.id, 'dismissed')}
+                          disabled={applyingId !== null}
+                          className="px-3 py-1.5 bg-gray-100 text-gray-600 rounded-lg text-xs font-medium hover:bg-gray-200 disabled:opacity-50"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="text-[11px] text-gray-400 pt-1">
+                        {message.editsStatus === 'applied' ? 'Applied' : 'Dismissed'}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+
+          {loading && (
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <Loader2 className="w-3 h-3 animate-spin" /> Thinking...
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {/* Input */}
+        <div className="p-3 border-t border-gray-100 bg-white shrink-0">
+          <div className="relative">
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              placeholder='e.g., "Guests on Saturday, make dinner special"'
+              className="w-full p-3 pr-12 bg-white border-2 border-indigo-100 rounded-xl focus:border-indigo-500 focus:ring-0 outline-none resize-none text-sm text-gray-700 placeholder-gray-400"
+              rows={2}
+            />
+            <button
+              onClick={() => handleSend()}
+              disabled={loading || !input.trim()}
+              className="absolute bottom-3 right-3 p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlanningAssistant;
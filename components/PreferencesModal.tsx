@@ -1,9 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import { UserPreferences, PreferenceProfile, MealHistoryEntry } from '../types';
-import { parsePreferencesFromText, optimizePreferencesFromHistory, getLearningSuggestions, LearningSuggestions } from '../services/geminiService';
+import { parsePreferencesFromText, optimizePreferencesFromHistory, getLearningSuggestions, LearningSuggestions, buildWeeklyPlanPrompt, detectIngredientsFromPhoto } from '../services/geminiService';
 import { useSettings } from '../contexts/SettingsContext';
-import { X, Wand2, Save, History, Plus, User, Coffee, Sun, Moon, AlertCircle, Check, ThumbsUp, ThumbsDown, Trash2, ChevronDown, ChevronUp, Sparkles, Globe } from 'lucide-react';
-import { QUICK_COOK_INSTRUCTION_OPTIONS } from '../constants';
+import { isAIConfigured } from '../services/aiProvider';
+import { X, Wand2, Save, History, Plus, User, Coffee, Sun, Moon, Cookie, AlertCircle, Check, ThumbsUp, ThumbsDown, Trash2, ChevronDown, ChevronUp, Sparkles, Globe, Code, Copy, Camera } from 'lucide-react';
+import { QUICK_COOK_INSTRUCTION_OPTIONS, DIETARY_TYPE_OPTIONS } from '../constants';
+import { NUTRIENTS } from '../services/nutritionService';
+import { LANGUAGES, getLanguage } from '../services/languages';
+import HouseholdMembersEditor from './HouseholdMembersEditor';
+import ObservancesEditor from './ObservancesEditor';
+import MealSlotsEditor from './MealSlotsEditor';
+import PantryPhotoModal from './PantryPhotoModal';
+import { getMealSlots, getSlotPreferences, setSlotPreferences } from '../services/mealSlots';
 
 interface Props {
     profiles: PreferenceProfile[];
@@ -12,12 +20,12 @@ interface Props {
     onSaveProfile: (profile: PreferenceProfile) => void;
     onSwitchProfile: (id: string) => void;
     onDeleteProfile?: (id: string) => void;
+    onPlanWithIngredients?: (ingredients: string[], dayCount: number) => void; // Ingredients found in a pantry photo
     onClose: () => void;
 }
 
-const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history, onSaveProfile, onSwitchProfile, onDeleteProfile, onClose }) => {
-    const { apiKey, modelName } = useSettings();
-    const aiConfig = { apiKey, modelName };
+const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history, onSaveProfile, onSwitchProfile, onDeleteProfile, onPlanWithIngredients, onClose }) => {
+    const { aiConfig } = useSettings();
 
     const currentProfile = profiles.find(p => p.id === currentProfileId) || profiles[0];
 
@@ -26,12 +34,15 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
     const [rawText, setRawText] = useState('');
     const [isAnalyzing, setIsAnalyzing] = useState(false);
     const [isOptimizing, setIsOptimizing] = useState(false);
-    const [activeTab, setActiveTab] = useState<'general' | 'breakfast' | 'lunch' | 'dinner'>('general');
+    const [activeTab, setActiveTab] = useState<string>('general'); // 'general' or a meal slot id
     const [learningSuggestions, setLearningSuggestions] = useState<LearningSuggestions | null>(null);
     const [showLearningModal, setShowLearningModal] = useState(false);
     const [mobileProfilesExpanded, setMobileProfilesExpanded] = useState(false);
     const [showAiImportPopup, setShowAiImportPopup] = useState(false);
     const [newMealItem, setNewMealItem] = useState('');
+    const [showPromptPreview, setShowPromptPreview] = useState(false);
+    const [showPantryPhoto, setShowPantryPhoto] = useState(false);
+    const [newStaple, setNewStaple] = useState('');
 
     // Lock body scroll when modal is open
     useEffect(() => {
@@ -195,7 +206,16 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
         onClose();
     }
 
-    const TabButton = ({ id, label, icon: Icon }: { id: typeof activeTab, label: string, icon: any }) => (
+    // Rendered from the unsaved edits, for debugging prompt changes
+    const promptPreview = showPromptPreview ? buildWeeklyPlanPrompt(localPrefs) : null;
+
+    const mealSlots = getMealSlots(localPrefs);
+    const activeSlot = mealSlots.find(s => s.id === activeTab);
+    const activeSlotPrefs = activeSlot ? getSlotPreferences(localPrefs, activeSlot) : [];
+    const updateActiveSlotPrefs = (items: string[]) => setLocalPrefs(prev => setSlotPreferences(prev, activeTab, items));
+    const slotIcons: Record<string, any> = { breakfast: Coffee, lunch: Sun, dinner: Moon };
+
+    const TabButton = ({ id, label, icon: Icon }: { id: string, label: string, icon: any }) => (
         <button
             onClick={() => setActiveTab(id)}
             className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg transition-all ${activeTab === id ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-50'
@@ -385,9 +405,9 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
                         {/* Tab Navigation */}
                         <div className="px-3 pt-3 sm:px-6 sm:pt-6 flex gap-2 overflow-x-auto shrink-0 border-b border-gray-100 pb-1">
                             <TabButton id="general" label="General" icon={AlertCircle} />
-                            <TabButton id="breakfast" label="Breakfast" icon={Coffee} />
-                            <TabButton id="lunch" label="Lunch" icon={Sun} />
-                            <TabButton id="dinner" label="Dinner" icon={Moon} />
+                            {mealSlots.map(slot => (
+                                <TabButton key={slot.id} id={slot.id} label={slot.label} icon={slotIcons[slot.id] || Cookie} />
+                            ))}
                         </div>
 
                         {/* Tab Content */}
@@ -396,62 +416,41 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
                                 {activeTab === 'general' && (
                                     <div className="space-y-5 animate-in fade-in duration-200">
                                         {/* Language Toggle */}
-                                        <div className="flex items-center justify-between p-3 bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-xl">
+                                        <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 rounded-xl">
                                             <div className="flex items-center gap-2">
                                                 <Globe className="w-4 h-4 text-blue-600" />
                                                 <span className="text-sm font-bold text-blue-800">Menu & Grocery Language</span>
                                             </div>
-                                            <div className="flex gap-1">
-                                                {(['English', 'Hindi'] as const).map((lang) => (
+                                            <div className="flex flex-wrap gap-1">
+                                                {LANGUAGES.map((lang) => (
                                                     <button
-                                                        key={lang}
+                                                        key={lang.id}
                                                         type="button"
-                                                        onClick={() => setLocalPrefs(prev => ({ ...prev, language: lang }))}
-                                                        className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${(localPrefs.language ?? 'English') === lang
+                                                        onClick={() => setLocalPrefs(prev => ({ ...prev, language: lang.id }))}
+                                                        title={lang.label}
+                                                        className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${getLanguage(localPrefs.language).id === lang.id
                                                                 ? 'bg-blue-600 text-white'
                                                                 : 'bg-white text-blue-700 hover:bg-blue-100'
                                                             }`}
                                                     >
-                                                        {lang === 'Hindi' ? 'हिंदी' : lang}
+                                                        {lang.nativeName}
                                                     </button>
                                                 ))}
                                             </div>
                                         </div>
 
                                         {/* Meals to Prepare */}
-                                        <div>
-                                            <label className="block text-sm font-bold text-gray-700 mb-2">Meals to Prepare</label>
-                                            <div className="flex flex-wrap gap-2">
-                                                {(['breakfast', 'lunch', 'dinner'] as const).map((meal) => (
-                                                    <label key={meal} className="flex items-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl cursor-pointer hover:bg-gray-100 transition-colors">
-                                                        <input
-                                                            type="checkbox"
-                                                            checked={localPrefs.mealsToPrepare?.includes(meal) ?? true}
-                                                            onChange={(e) => {
-                                                                const current = localPrefs.mealsToPrepare ?? ['breakfast', 'lunch', 'dinner'];
-                                                                if (e.target.checked) {
-                                                                    setLocalPrefs(prev => ({ ...prev, mealsToPrepare: [...current, meal] }));
-                                                                } else {
-                                                                    setLocalPrefs(prev => ({ ...prev, mealsToPrepare: current.filter(m => m !== meal) }));
-                                                                }
-                                                            }}
-                                                            className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
-                                                        />
-                                                        <span className="text-sm font-medium capitalize text-gray-700">{meal}</span>
-                                                    </label>
-                                                ))}
-                                            </div>
-                                        </div>
+                                        <MealSlotsEditor
+                                            slots={mealSlots}
+                                            mealsToPrepare={localPrefs.mealsToPrepare}
+                                            onChange={(changes) => setLocalPrefs(prev => ({ ...prev, ...changes }))}
+                                        />
 
                                         {/* Food Preference - Multi-select */}
                                         <div>
                                             <label className="block text-sm font-bold text-gray-700 mb-2">Food Preference (Multi-select)</label>
                                             <div className="flex flex-wrap gap-2 mb-2">
-                                                {[
-                                                    { value: 'Vegetarian', label: 'Veg' },
-                                                    { value: 'Vegetarian (with Eggs)', label: 'Veg + Eggs' },
-                                                    { value: 'Non-Vegetarian', label: 'Non-Veg' }
-                                                ].map((opt) => {
+                                                {DIETARY_TYPE_OPTIONS.map((opt) => {
                                                     const selected = localPrefs.dietaryTypes?.includes(opt.value) ?? (opt.value === 'Vegetarian');
                                                     return (
                                                         <button
@@ -543,6 +542,52 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
                                             </div>
                                         </div>
 
+                                        {/* Pantry Staples */}
+                                        <div>
+                                            <div className="flex items-center justify-between mb-2">
+                                                <label className="block text-sm font-bold text-gray-700">Pantry Staples ({localPrefs.pantryStaples.length})</label>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setShowPantryPhoto(true)}
+                                                    disabled={!isAIConfigured(aiConfig)}
+                                                    className="px-3 py-1.5 text-xs font-medium text-emerald-700 bg-emerald-50 rounded-lg hover:bg-emerald-100 disabled:opacity-50 flex items-center gap-1.5"
+                                                    title="Find ingredients in a photo of your fridge or shelves"
+                                                >
+                                                    <Camera className="w-3.5 h-3.5" /> Scan photo
+                                                </button>
+                                            </div>
+                                            <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto border border-gray-200 rounded-xl p-2 bg-gray-50 mb-2">
+                                                {localPrefs.pantryStaples.map((item, idx) => (
+                                                    <span key={idx} className="flex items-center gap-1 pl-2.5 pr-1 py-1 bg-white border border-gray-100 rounded-lg text-sm text-gray-800">
+                                                        {item}
+                                                        <button onClick={() => setLocalPrefs(prev => ({ ...prev, pantryStaples: prev.pantryStaples.filter((_, i) => i !== idx) }))} className="p-0.5 text-gray-400 hover:text-red-500"><X className="w-3 h-3" /></button>
+                                                    </span>
+                                                ))}
+                                                {localPrefs.pantryStaples.length === 0 && <p className="w-full text-center text-gray-400 text-xs py-2">No pantry staples added</p>}
+                                            </div>
+                                            <div className="flex gap-2">
+                                                <input
+                                                    type="text"
+                                                    value={newStaple}
+                                                    onChange={(e) => setNewStaple(e.target.value)}
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter' && newStaple.trim()) {
+                                                            setLocalPrefs(prev => ({ ...prev, pantryStaples: Array.from(new Set([...prev.pantryStaples, newStaple.trim()])) }));
+                                                            setNewStaple('');
+                                                        }
+                                                    }}
+                                                    className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+                                                    placeholder="Add staple (e.g., Atta, Basmati Rice)..."
+                                                />
+                                                <button onClick={() => {
+                                                    if (newStaple.trim()) {
+                                                        setLocalPrefs(prev => ({ ...prev, pantryStaples: Array.from(new Set([...prev.pantryStaples, newStaple.trim()])) }));
+                                                        setNewStaple('');
+                                                    }
+                                                }} className="px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"><Plus className="w-4 h-4" /></button>
+                                            </div>
+                                        </div>
+
                                         {/* Quick Cook Instructions (Toggles - Unticked by default) */}
                                         <div>
                                             <label className="block text-sm font-bold text-gray-700 mb-2">Quick Cook Guidelines</label>
@@ -568,6 +613,43 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
                                             </div>
                                         </div>
 
+                                        {/* Household Members */}
+                                        <HouseholdMembersEditor
+                                            members={localPrefs.householdMembers ?? []}
+                                            onChange={(householdMembers) => setLocalPrefs(prev => ({ ...prev, householdMembers }))}
+                                        />
+
+                                        {/* Festivals & Fasts */}
+                                        <ObservancesEditor
+                                            followed={localPrefs.followedObservances ?? []}
+                                            custom={localPrefs.customObservances ?? []}
+                                            onChange={(changes) => setLocalPrefs(prev => ({ ...prev, ...changes }))}
+                                        />
+
+                                        {/* Nutrition Targets (optional, per person per day) */}
+                                        <div>
+                                            <label className="block text-sm font-bold text-gray-700 mb-1">Daily Nutrition Targets</label>
+                                            <p className="text-xs text-gray-500 mb-2">Optional, per person. Plans aim for these; carbs and fat are treated as limits.</p>
+                                            <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                                                {NUTRIENTS.map(({ key, label, unit }) => (
+                                                    <div key={key}>
+                                                        <label className="block text-xs text-gray-500 mb-1">{label} ({unit})</label>
+                                                        <input
+                                                            type="number"
+                                                            min={0}
+                                                            value={localPrefs.nutritionTargets?.[key] ?? ''}
+                                                            onChange={(e) => {
+                                                                const value = e.target.value ? Number(e.target.value) : undefined;
+                                                                setLocalPrefs(prev => ({ ...prev, nutritionTargets: { ...prev.nutritionTargets, [key]: value } }));
+                                                            }}
+                                                            className="w-full px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+                                                            placeholder="-"
+                                                        />
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+
                                         {/* Special Instructions - Editable Checkbox List */}
                                         <div>
                                             <label className="block text-sm font-bold text-gray-700 mb-2">Custom Instructions for Cook</label>
@@ -607,47 +689,65 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
                                                 }} className="px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"><Plus className="w-4 h-4" /></button>
                                             </div>
                                         </div>
+
+                                        {/* Prompt Preview (debugging) */}
+                                        <div className="border-t border-gray-100 pt-4">
+                                            <button
+                                                type="button"
+                                                onClick={() => setShowPromptPreview(!showPromptPreview)}
+                                                className="text-xs font-medium text-gray-500 hover:text-gray-700 flex items-center gap-1.5"
+                                            >
+                                                <Code className="w-3.5 h-3.5" /> Preview plan prompt
+                                                {showPromptPreview ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+                                            </button>
+                                            {promptPreview && (
+                                                <div className="mt-2">
+                                                    <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                                                        <span>Template <code className="px-1 bg-gray-100 rounded">{promptPreview.templateId}</code> v{promptPreview.version}</span>
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => navigator.clipboard.writeText(promptPreview.prompt)}
+                                                            className="flex items-center gap-1 hover:text-gray-700"
+                                                        >
+                                                            <Copy className="w-3 h-3" /> Copy
+                                                        </button>
+                                                    </div>
+                                                    <pre className="max-h-72 overflow-auto p-3 bg-gray-900 text-gray-100 text-xs rounded-xl whitespace-pre-wrap">{promptPreview.prompt}</pre>
+                                                    <p className="text-xs text-gray-400 mt-1">Uses your unsaved changes. Meal history is added when a plan is generated.</p>
+                                                </div>
+                                            )}
+                                        </div>
                                     </div>
                                 )}
 
-                                {(activeTab === 'breakfast' || activeTab === 'lunch' || activeTab === 'dinner') && (
+                                {activeSlot && (
                                     <div className="space-y-3 animate-in fade-in duration-200">
                                         <div className="flex items-center justify-between">
-                                            <label className="block text-sm font-bold text-gray-700 capitalize">{activeTab} Preferences</label>
-                                            <span className="text-xs text-gray-400">{localPrefs[`${activeTab}Preferences`].length} items</span>
+                                            <label className="block text-sm font-bold text-gray-700">{activeSlot.label} Preferences</label>
+                                            <span className="text-xs text-gray-400">{activeSlotPrefs.length} items</span>
                                         </div>
 
                                         {/* Checkbox List */}
                                         <div className="space-y-1 max-h-[45vh] overflow-y-auto border border-gray-200 rounded-xl p-2 bg-gray-50">
-                                            {localPrefs[`${activeTab}Preferences`].map((item, idx) => (
+                                            {activeSlotPrefs.map((item, idx) => (
                                                 <div key={idx} className="flex items-center gap-2 p-2 bg-white rounded-lg border border-gray-100 hover:border-indigo-200 group">
                                                     <input
                                                         type="checkbox"
                                                         checked={true}
-                                                        onChange={() => {
-                                                            const key = `${activeTab}Preferences` as keyof UserPreferences;
-                                                            const current = [...(localPrefs[key] as string[])];
-                                                            current.splice(idx, 1);
-                                                            setLocalPrefs(prev => ({ ...prev, [key]: current }));
-                                                        }}
+                                                        onChange={() => updateActiveSlotPrefs(activeSlotPrefs.filter((_, i) => i !== idx))}
                                                         className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
                                                     />
                                                     <span className="flex-1 text-sm text-gray-800">{item}</span>
                                                     <button
-                                                        onClick={() => {
-                                                            const key = `${activeTab}Preferences` as keyof UserPreferences;
-                                                            const current = [...(localPrefs[key] as string[])];
-                                                            current.splice(idx, 1);
-                                                            setLocalPrefs(prev => ({ ...prev, [key]: current }));
-                                                        }}
+                                                        onClick={() => updateActiveSlotPrefs(activeSlotPrefs.filter((_, i) => i !== idx))}
                                                         className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity sm:opacity-100"
                                                     >
                                                         <Trash2 className="w-3 h-3" />
                                                     </button>
                                                 </div>
                                             ))}
-                                            {localPrefs[`${activeTab}Preferences`].length === 0 && (
-                                                <p className="text-center text-gray-400 text-sm py-4">No {activeTab} preferences yet. Add some below!</p>
+                                            {activeSlotPrefs.length === 0 && (
+                                                <p className="text-center text-gray-400 text-sm py-4">No {activeSlot.label.toLowerCase()} preferences yet. Add some below!</p>
                                             )}
                                         </div>
 
@@ -659,25 +759,17 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
                                                 onChange={(e) => setNewMealItem(e.target.value)}
                                                 onKeyDown={(e) => {
                                                     if (e.key === 'Enter' && newMealItem.trim()) {
-                                                        const key = `${activeTab}Preferences` as keyof UserPreferences;
-                                                        setLocalPrefs(prev => ({
-                                                            ...prev,
-                                                            [key]: [...(prev[key] as string[]), newMealItem.trim()]
-                                                        }));
+                                                        updateActiveSlotPrefs([...activeSlotPrefs, newMealItem.trim()]);
                                                         setNewMealItem('');
                                                     }
                                                 }}
                                                 className="flex-1 px-3 py-2 bg-white border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
-                                                placeholder={`Add new ${activeTab} item...`}
+                                                placeholder={`Add new ${activeSlot.label.toLowerCase()} item...`}
                                             />
                                             <button
                                                 onClick={() => {
                                                     if (newMealItem.trim()) {
-                                                        const key = `${activeTab}Preferences` as keyof UserPreferences;
-                                                        setLocalPrefs(prev => ({
-                                                            ...prev,
-                                                            [key]: [...(prev[key] as string[]), newMealItem.trim()]
-                                                        }));
+                                                        updateActiveSlotPrefs([...activeSlotPrefs, newMealItem.trim()]);
                                                         setNewMealItem('');
                                                     }
                                                 }}
@@ -705,6 +797,15 @@ const PreferencesModal: React.FC<Props> = ({ profiles, currentProfileId, history
                     </div>
                 </div>
 
+                {showPantryPhoto && (
+                    <PantryPhotoModal
+                        onDetect={(image) => detectIngredientsFromPhoto(image, aiConfig)}
+                        onAddToStaples={(names) => setLocalPrefs(prev => ({ ...prev, pantryStaples: Array.from(new Set([...prev.pantryStaples, ...names])) }))}
+                        onPlanWithIngredients={onPlanWithIngredients}
+                        onClose={() => setShowPantryPhoto(false)}
+                    />
+                )}
+
                 {/* Learning Insights Modal */}
                 {showLearningModal && learningSuggestions && (
                     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-2 sm:p-4" style={{ minHeight: '100dvh' }}>
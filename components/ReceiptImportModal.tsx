@@ -0,0 +1,254 @@
+import React, { useRef, useState } from 'react';
+import { Receipt, X, Upload, Camera, Loader2, Check, Trash2 } from 'lucide-react';
+import { ReceiptLineItem, SavedGroceryList, ScannedReceipt } from '../types';
+import { AIImageInput } from '../services/aiProvider';
+import { readReceiptFile, toImageSrc } from '../services/imageInput';
+import { PANTRY_UNITS } from '../services/pantry';
+import { findListItem } from '../services/receipts';
+
+interface Props {
+  list?: SavedGroceryList; // Most recent saved list; its items are ticked off
+  onScan: (document: AIImageInput) => Promise<ScannedReceipt>;
+  onImport: (receipt: ScannedReceipt, restock: boolean) => Promise<void>; // Only the lines the user kept
+  canRestock: boolean;
+  onClose: () => void;
+}
+
+interface ReviewRow extends ReceiptLineItem {
+  selected: boolean;
+}
+
+const ReceiptImportModal: React.FC<Props> = ({ list, onScan, onImport, canRestock, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const [bill, setBill] = useState<AIImageInput | null>(null);
+  const [receipt, setReceipt] = useState<ScannedReceipt | null>(null);
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [restock, setRestock] = useState(canRestock);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const listItems = list?.items || [];
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setRows(null);
+    setLoading(true);
+    try {
+      const scan = await readReceiptFile(file);
+      setBill(scan);
+      const scanned = await onScan(scan);
+      setReceipt(scanned);
+      setRows(scanned.items.map(line => ({ ...line, listItem: findListItem(line, listItems)?.item || '', selected: true })));
+    } catch (e: any) {
+      console.error(e);
+      setError(e?.message || 'Could not read the bill. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateRow = (index: number, changes: Partial<ReviewRow>) => {
+    setRows(prev => prev && prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const selectedRows = (rows || []).filter(r => r.selected && r.name.trim());
+  const matchedCount = selectedRows.filter(r => r.listItem).length;
+  const total = selectedRows.reduce((sum, r) => sum + (r.price || 0), 0);
+
+  const handleImport = async () => {
+    if (!receipt) return;
+    setSaving(true);
+    try {
+      const items = selectedRows.map(({ selected, ...line }) => ({ ...line, name: line.name.trim() }));
+      await onImport({ ...receipt, items }, restock);
+      onClose();
+    } catch (e: any) {
+      console.error(e);
+      setError(e?.message || 'Could not save the receipt.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-orange-500 to-amber-500 p-6 flex justify-between items-center text-white">
+          <div className="flex items-center gap-2">
+            <Receipt className="w-5 h-5" />
+            <h2 className="text-xl font-bold">Scan Receipt</h2>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-white/20 rounded-full transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-600">
+            Take a photo of a paper bill or upload the PDF of an online order.
+            {list
+              ? <> Items you bought are ticked off in <span className="font-medium">{list.dateRange}</span> and their prices are saved.</>
+              : ' Save a grocery list first to tick off what you bought; prices are saved either way.'}
+          </p>
+
+          {/* Hidden inputs: one opens the camera on phones, the other the file picker */}
+          <input
+            ref={cameraInputRef}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,application/pdf"
+            className="hidden"
+            onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => cameraInputRef.current?.click()}
+              disabled={loading || saving}
+              className="flex-1 py-2.5 bg-orange-500 text-white text-sm font-semibold rounded-xl hover:bg-orange-600 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              <Camera className="w-4 h-4" /> Take Photo
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading || saving}
+              className="flex-1 py-2.5 bg-gray-100 text-gray-700 text-sm font-semibold rounded-xl hover:bg-gray-200 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              <Upload className="w-4 h-4" /> Upload Photo or PDF
+            </button>
+          </div>
+
+          {bill && bill.mimeType.startsWith('image/') && (
+            <img src={toImageSrc(bill)} alt="Receipt" className="w-full max-h-48 object-contain rounded-xl border border-gray-100 bg-gray-50" />
+          )}
+
+          {loading && (
+            <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 animate-spin" /> Reading the bill...
+            </div>
+          )}
+
+          {error && (
+            <div className="px-3 py-2 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700">{error}</div>
+          )}
+
+          {rows && !loading && (
+            rows.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-2">No grocery items found on this bill.</p>
+            ) : (
+              <div>
+                <label className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2 block">
+                  {receipt?.store || 'Bill'}{receipt?.purchasedOn ? `, ${receipt.purchasedOn}` : ''} - {rows.length} line(s), untick or correct anything wrong
+                </label>
+                <div className="space-y-1.5">
+                  {rows.map((row, idx) => (
+                    <div key={idx} className={`p-2 rounded-lg border space-y-1.5 ${row.selected ? 'border-gray-200 bg-white' : 'border-gray-100 bg-gray-50 opacity-60'}`}>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={row.selected}
+                          onChange={() => updateRow(idx, { selected: !row.selected })}
+                          className="w-4 h-4 text-orange-500 rounded focus:ring-orange-500"
+                        />
+                        <input
+                          type="text"
+                          value={row.name}
+                          onChange={(e) => updateRow(idx, { name: e.target.value })}
+                          className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-200 rounded focus:ring-2 focus:ring-orange-500"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={row.quantity}
+                          onChange={(e) => updateRow(idx, { quantity: Number(e.target.value) })}
+                          className="w-16 px-2 py-1 text-sm border border-gray-200 rounded focus:ring-2 focus:ring-orange-500"
+                        />
+                        <select
+                          value={row.unit}
+                          onChange={(e) => updateRow(idx, { unit: e.target.value })}
+                          className="px-1 py-1 text-sm border border-gray-200 rounded bg-white"
+                        >
+                          {[...new Set([...PANTRY_UNITS, row.unit])].map(unit => <option key={unit} value={unit}>{unit}</option>)}
+                        </select>
+                        <span className="text-sm text-gray-400">₹</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={row.price}
+                          onChange={(e) => updateRow(idx, { price: Number(e.target.value) })}
+                          className="w-20 px-2 py-1 text-sm border border-gray-200 rounded focus:ring-2 focus:ring-orange-500"
+                        />
+                        <button
+                          onClick={() => setRows(prev => prev && prev.filter((_, i) => i !== idx))}
+                          className="p-1 text-gray-400 hover:text-red-500"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      {listItems.length > 0 && (
+                        <div className="flex items-center gap-2 pl-6 text-xs text-gray-500">
+                          <span>Bought for</span>
+                          <select
+                            value={row.listItem || ''}
+                            onChange={(e) => updateRow(idx, { listItem: e.target.value })}
+                            className={`flex-1 min-w-0 px-1 py-0.5 border rounded bg-white ${row.listItem ? 'border-green-200 text-green-700' : 'border-gray-200'}`}
+                          >
+                            <option value="">Not on the list</option>
+                            {listItems.map(item => <option key={item.item} value={item.item}>{item.item} ({item.quantity})</option>)}
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        {/* Footer */}
+        {rows && rows.length > 0 && !loading && (
+          <div className="p-4 bg-gray-50 border-t border-gray-100 space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              {canRestock ? (
+                <label className="flex items-center gap-2 text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={restock}
+                    onChange={() => setRestock(!restock)}
+                    className="w-4 h-4 text-orange-500 rounded focus:ring-orange-500"
+                  />
+                  Add to pantry stock
+                </label>
+              ) : <span />}
+              <span className="font-semibold text-gray-800">Total ₹{Math.round(total * 100) / 100}</span>
+            </div>
+            <button
+              onClick={handleImport}
+              disabled={selectedRows.length === 0 || saving}
+              className="w-full py-2.5 bg-orange-500 text-white text-sm font-bold rounded-xl hover:bg-orange-600 disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+              {list ? `Mark ${matchedCount} bought and save prices` : 'Save prices'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptImportModal;
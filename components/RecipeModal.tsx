@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { X, BookOpen, Clock, Users, Minus, Plus, RefreshCw, Lightbulb } from 'lucide-react';
+import { Recipe, UserPreferences } from '../types';
+import { generateRecipe } from '../services/geminiService';
+import { isAbortError } from '../services/aiProvider';
+import { useSettings } from '../contexts/SettingsContext';
+import * as supabaseService from '../services/supabaseService';
+import { getHouseholdPortions } from '../services/household';
+
+interface Props {
+  mealName: string;
+  preferences: UserPreferences;
+  userId: string;
+  onClose: () => void;
+}
+
+const DEFAULT_SERVINGS = 4;
+// Lets the serving count settle before generating, so rapid +/- clicks make one request
+const GENERATE_DELAY_MS = 600;
+
+const RecipeModal: React.FC<Props> = ({ mealName, preferences, userId, onClose }) => {
+  const { aiConfig, isAuthenticated: hasAIAccess } = useSettings();
+  const householdPortions = getHouseholdPortions(preferences);
+  const [servings, setServings] = useState(householdPortions ? Math.max(1, Math.round(householdPortions)) : DEFAULT_SERVINGS);
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const requestRef = useRef<AbortController | null>(null); // Load or regenerate in progress; a newer one cancels it
+
+  const startRequest = () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    return controller;
+  };
+
+  const createRecipe = useCallback(async (count: number, signal: AbortSignal): Promise<Recipe> => {
+    const generated = await generateRecipe(mealName, count, preferences, aiConfig, signal);
+    return supabaseService.saveRecipe(generated, userId);
+  }, [mealName, preferences, aiConfig, userId]);
+
+  // Load the saved recipe for this serving count, generating one if none exists
+  useEffect(() => {
+    const controller = startRequest();
+
+    const load = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const saved = await supabaseService.getRecipe(mealName, servings, userId);
+        if (controller.signal.aborted) return;
+        if (saved) {
+          setRecipe(saved);
+        } else if (hasAIAccess) {
+          await new Promise(resolve => setTimeout(resolve, GENERATE_DELAY_MS));
+          if (controller.signal.aborted) return;
+          const created = await createRecipe(servings, controller.signal);
+          if (!controller.signal.aborted) setRecipe(created);
+        } else {
+          setRecipe(null);
+          setError('Configure an AI provider in Settings to generate recipes.');
+        }
+      } catch (e: any) {
+        if (!controller.signal.aborted && !isAbortError(e)) setError(e?.message || 'Failed to load recipe');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [mealName, servings, userId, hasAIAccess, createRecipe]);
+
+  const handleRegenerate = async () => {
+    const controller = startRequest();
+    setLoading(true);
+    setError('');
+    try {
+      const created = await createRecipe(servings, controller.signal);
+      if (!controller.signal.aborted) setRecipe(created);
+    } catch (e: any) {
+      if (!controller.signal.aborted && !isAbortError(e)) setError(e?.message || 'Failed to generate recipe');
+    } finally {
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  };
+
+  // Stop any request still running when the modal closes
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Lock body scroll when modal is open
+  useEffect(() => {
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.body.style.overflow = '';
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-2 sm:p-4 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden max-h-[95vh] sm:max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-100 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-2 min-w-0">
+            <div className="bg-orange-100 p-1.5 rounded-lg text-orange-700 shrink-0">
+              <BookOpen className="w-5 h-5" />
+            </div>
+            <h3 className="font-bold text-gray-800 truncate">{mealName}</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors p-1">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Controls */}
+        <div className="px-6 py-3 border-b border-gray-100 flex items-center justify-between gap-3 shrink-0">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Users className="w-4 h-4" />
+            <button
+              onClick={() => setServings(Math.max(1, servings - 1))}
+              disabled={servings <= 1}
+              className="p-1 rounded-md border border-gray-200 hover:bg-gray-50 disabled:opacity-40"
+              title="Fewer servings"
+            >
+              <Minus className="w-3 h-3" />
+            </button>
+            <span className="font-medium w-20 text-center">{servings} servings</span>
+            <button
+              onClick={() => setServings(Math.min(20, servings + 1))}
+              disabled={servings >= 20}
+              className="p-1 rounded-md border border-gray-200 hover:bg-gray-50 disabled:opacity-40"
+              title="More servings"
+            >
+              <Plus className="w-3 h-3" />
+            </button>
+          </div>
+          {hasAIAccess && (
+            <button
+              onClick={handleRegenerate}
+              disabled={loading}
+              className="text-xs flex items-center gap-1 text-indigo-600 bg-indigo-50 px-2 py-1 rounded-full hover:bg-indigo-100 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} /> Regenerate
+            </button>
+          )}
+        </div>
+
+        {/* Body */}
+        <div className="p-6 space-y-6 flex-1 overflow-y-auto overscroll-contain">
+          {loading && (
+            <div className="text-center py-10">
+              <RefreshCw className="w-8 h-8 text-orange-500 animate-spin mx-auto mb-3" />
+              <p className="text-sm text-gray-500">Preparing recipe...</p>
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="bg-amber-50 text-amber-800 p-3 rounded-lg text-sm border border-amber-200">
+              {error}
+            </div>
+          )}
+
+          {!loading && recipe && (
+            <>
+              <div className="flex gap-4 text-sm text-gray-600">
+                <span className="flex items-center gap-1.5">
+                  <Clock className="w-4 h-4 text-gray-400" /> Prep {recipe.prepTimeMinutes} min
+                </span>
+                <span className="flex items-center gap-1.5">
+                  <Clock className="w-4 h-4 text-gray-400" /> Cook {recipe.cookTimeMinutes} min
+                </span>
+              </div>
+
+              <div>
+                <h4 className="text-xs font-bold uppercase text-gray-500 mb-2">Ingredients</h4>
+                <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+                  {recipe.ingredients.map((ingredient, i) => (
+                    <li key={i} className="flex justify-between gap-4 px-3 py-2 text-sm">
+                      <span className="text-gray-800">{ingredient.name}</span>
+                      <span className="text-gray-500 text-right">{ingredient.quantity}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <h4 className="text-xs font-bold uppercase text-gray-500 mb-2">Steps</h4>
+                <ol className="space-y-3">
+                  {recipe.steps.map((step, i) => (
+                    <li key={i} className="flex gap-3 text-sm text-gray-700">
+                      <span className="shrink-0 w-6 h-6 rounded-full bg-orange-100 text-orange-700 text-xs font-bold flex items-center justify-center">
+                        {i + 1}
+                      </span>
+                      <span className="leading-relaxed">{step}</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              {recipe.tips.length > 0 && (
+                <div className="bg-indigo-50 border border-indigo-100 rounded-xl p-4">
+                  <h4 className="text-xs font-bold uppercase text-indigo-700 mb-2 flex items-center gap-1.5">
+                    <Lightbulb className="w-4 h-4" /> Tips
+                  </h4>
+                  <ul className="list-disc list-inside space-y-1 text-sm text-indigo-900">
+                    {recipe.tips.map((tip, i) => (
+                      <li key={i}>{tip}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecipeModal;
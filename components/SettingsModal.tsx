@@ -1,31 +1,76 @@
 import React, { useState, useEffect } from 'react';
-import { X, Key, Save, Phone } from 'lucide-react';
+import { X, Key, Save, Phone, Cpu, ChevronDown, ChevronUp, MapPin, BarChart3 } from 'lucide-react';
 import { useSettings } from '../contexts/SettingsContext';
+import { useAuth } from '../contexts/AuthContext';
+import { AIProviderId, AIRetryOptions, AITask, AI_TASKS, DEFAULT_RETRY_OPTIONS, getAIProvider, listAIProviders } from '../services/aiProvider';
+import { PRODUCE_REGIONS } from '../services/produceData';
+import { getSeasonalContext } from '../services/seasonalContext';
+import AIUsagePanel from './AIUsagePanel';
 
 interface SettingsModalProps {
     onClose: () => void;
-    canClose: boolean;
 }
 
-export default function SettingsModal({ onClose, canClose }: SettingsModalProps) {
-    const { apiKey, setApiKey, cookName, setCookName, cookNumber, setCookNumber } = useSettings();
+export default function SettingsModal({ onClose }: SettingsModalProps) {
+    const {
+        apiKey, setApiKey, cookName, setCookName, cookNumber, setCookNumber,
+        provider, setProvider, modelName, setModelName, baseUrl, setBaseUrl, taskModels, setTaskModels,
+        retryOptions, setRetryOptions,
+        region, setRegion, isAuthenticated
+    } = useSettings();
+    const { user } = useAuth();
 
     const [localKey, setLocalKey] = useState(apiKey);
+    const [localProvider, setLocalProvider] = useState<AIProviderId>(provider);
+    const [localModel, setLocalModel] = useState(modelName);
+    const [localBaseUrl, setLocalBaseUrl] = useState(baseUrl);
+    const [localTaskModels, setLocalTaskModels] = useState<Partial<Record<AITask, string>>>(taskModels);
+    const [localRetry, setLocalRetry] = useState<AIRetryOptions>(retryOptions);
+    const [showAdvanced, setShowAdvanced] = useState(false);
     const [showKey, setShowKey] = useState(false);
+    const [showUsage, setShowUsage] = useState(false);
     const [localCookName, setLocalCookName] = useState(cookName);
     const [localCookNumber, setLocalCookNumber] = useState(cookNumber);
+    const [localRegion, setLocalRegion] = useState(region);
+    const regionPreview = getSeasonalContext(new Date(), localRegion);
 
     useEffect(() => {
         setLocalKey(apiKey);
         setLocalCookName(cookName);
         setLocalCookNumber(cookNumber);
-    }, [apiKey, cookName, cookNumber]);
+        setLocalRegion(region);
+    }, [apiKey, cookName, cookNumber, region]);
+
+    useEffect(() => {
+        setLocalProvider(provider);
+        setLocalModel(modelName);
+        setLocalBaseUrl(baseUrl);
+        setLocalTaskModels(taskModels);
+        setLocalRetry(retryOptions);
+    }, [provider, modelName, baseUrl, taskModels, retryOptions]);
+
+    const selectedProvider = getAIProvider(localProvider);
+    const canSave = !selectedProvider.requiresApiKey || !!localKey;
+
+    // Switching provider resets model/endpoint to that provider's defaults
+    const handleProviderChange = (id: AIProviderId) => {
+        setLocalProvider(id);
+        setLocalModel(getAIProvider(id).defaultModel);
+        setLocalBaseUrl('');
+        setLocalTaskModels({});
+    };
 
     const handleSave = () => {
         setApiKey(localKey);
+        setProvider(localProvider);
+        setModelName(localModel === selectedProvider.defaultModel ? '' : localModel);
+        setBaseUrl(localBaseUrl);
+        setTaskModels(localTaskModels);
+        setRetryOptions(localRetry);
         setCookName(localCookName);
         setCookNumber(localCookNumber);
-        if (canClose) onClose();
+        if (localRegion !== region) setRegion(localRegion);
+        onClose();
     };
 
     // Lock body scroll when modal is open
@@ -44,24 +89,38 @@ export default function SettingsModal({ onClose, canClose }: SettingsModalProps)
                         <Key className="w-5 h-5 text-purple-600" />
                         Settings
                     </h3>
-                    {canClose && (
-                        <button onClick={onClose} className="p-2 hover:bg-gray-200 rounded-full transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center">
-                            <X className="w-5 h-5 text-gray-500" />
-                        </button>
-                    )}
+                    <button onClick={onClose} className="p-2 hover:bg-gray-200 rounded-full transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center">
+                        <X className="w-5 h-5 text-gray-500" />
+                    </button>
                 </div>
 
                 <div className="p-4 sm:p-6 space-y-6 flex-1 overflow-y-auto overscroll-contain" style={{ WebkitOverflowScrolling: 'touch' }}>
-                    {!canClose && (
+                    {!isAuthenticated && (
                         <div className="bg-amber-50 text-amber-800 p-3 rounded-lg text-sm border border-amber-200">
-                            Please configure your Gemini API Key to continue using QookCommander.
+                            No AI provider configured. Plans will be generated offline from your profile's meal preferences; configure a provider for AI-powered plans and grocery lists.
                         </div>
                     )}
 
+                    {/* AI Provider Section */}
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                            <Cpu className="w-4 h-4" /> AI Provider
+                        </label>
+                        <select
+                            value={localProvider}
+                            onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all bg-white"
+                        >
+                            {listAIProviders().map(p => (
+                                <option key={p.id} value={p.id}>{p.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
                     {/* API Key Section */}
                     <div className="space-y-2">
                         <label className="text-sm font-medium text-gray-700 flex items-center gap-2">
-                            <Key className="w-4 h-4" /> Gemini API Key
+                            <Key className="w-4 h-4" /> {selectedProvider.label} API Key {!selectedProvider.requiresApiKey && <span className="text-xs text-gray-400 font-normal">(optional)</span>}
                         </label>
                         <div className="relative">
                             <input
@@ -80,10 +139,102 @@ export default function SettingsModal({ onClose, canClose }: SettingsModalProps)
                             </button>
                         </div>
                         <p className="text-xs text-gray-500">
-                            Your key syncs across devices when logged in. <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-purple-600 hover:underline">Get a key here</a>.
+                            Your key is stored on this device only.{localProvider === 'gemini' && <> <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-purple-600 hover:underline">Get a key here</a>.</>}
                         </p>
                     </div>
 
+                    {/* Model & Endpoint */}
+                    {localProvider !== 'mock' && (
+                        <div className="space-y-3">
+                            <div className="space-y-2">
+                                <label className="text-xs font-medium text-gray-500 uppercase">Model</label>
+                                <input
+                                    type="text"
+                                    value={localModel}
+                                    onChange={(e) => setLocalModel(e.target.value)}
+                                    placeholder={selectedProvider.defaultModel}
+                                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all"
+                                />
+                            </div>
+                            {selectedProvider.defaultBaseUrl && (
+                                <div className="space-y-2">
+                                    <label className="text-xs font-medium text-gray-500 uppercase">Base URL</label>
+                                    <input
+                                        type="url"
+                                        value={localBaseUrl}
+                                        onChange={(e) => setLocalBaseUrl(e.target.value)}
+                                        placeholder={selectedProvider.defaultBaseUrl}
+                                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-all"
+                                    />
+                                </div>
+                            )}
+
+                            <button
+                                type="button"
+                                onClick={() => setShowAdvanced(!showAdvanced)}
+                                className="text-xs text-purple-600 font-medium flex items-center gap-1 hover:underline"
+                            >
+                                {showAdvanced ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                                Model per task, retries & timeout
+                            </button>
+                            {showAdvanced && (
+                                <div className="space-y-2 bg-gray-50 rounded-xl p-3">
+                                    {AI_TASKS.map(task => (
+                                        <div key={task.id} className="flex items-center gap-2">
+                                            <span className="text-xs text-gray-600 w-40 shrink-0">{task.label}</span>
+                                            <input
+                                                type="text"
+                                                value={localTaskModels[task.id] || ''}
+                                                onChange={(e) => setLocalTaskModels(prev => ({ ...prev, [task.id]: e.target.value }))}
+                                                placeholder={localModel || selectedProvider.defaultModel}
+                                                className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none"
+                                            />
+                                        </div>
+                                    ))}
+                                    <div className="flex items-center gap-2 pt-2 border-t border-gray-200">
+                                        <span className="text-xs text-gray-600 w-40 shrink-0">Retries on busy/failed requests</span>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={5}
+                                            value={localRetry.maxRetries ?? ''}
+                                            onChange={(e) => setLocalRetry(prev => ({ ...prev, maxRetries: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                                            placeholder={String(DEFAULT_RETRY_OPTIONS.maxRetries)}
+                                            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none"
+                                        />
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-xs text-gray-600 w-40 shrink-0">Timeout (seconds)</span>
+                                        <input
+                                            type="number"
+                                            min={5}
+                                            value={localRetry.timeoutMs !== undefined ? localRetry.timeoutMs / 1000 : ''}
+                                            onChange={(e) => setLocalRetry(prev => ({ ...prev, timeoutMs: e.target.value === '' ? undefined : Number(e.target.value) * 1000 }))}
+                                            placeholder={String(DEFAULT_RETRY_OPTIONS.timeoutMs / 1000)}
+                                            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="border-t border-gray-100 my-4"></div>
+
+                    {/* AI Usage */}
+                    <div className="space-y-3">
+                        <button
+                            type="button"
+                            onClick={() => setShowUsage(!showUsage)}
+                            className="w-full font-medium text-gray-800 flex items-center gap-2"
+                        >
+                            <BarChart3 className="w-4 h-4 text-purple-600" />
+                            AI Usage & Cost
+                            {showUsage ? <ChevronUp className="w-4 h-4 ml-auto text-gray-400" /> : <ChevronDown className="w-4 h-4 ml-auto text-gray-400" />}
+                        </button>
+                        {showUsage && <AIUsagePanel userId={user?.id || 'local'} />}
+                    </div>
+
                     <div className="border-t border-gray-100 my-4"></div>
 
                     {/* Cook's Contact Section */}
@@ -109,6 +260,26 @@ export default function SettingsModal({ onClose, canClose }: SettingsModalProps)
                     </div>
 
 
+                    <div className="border-t border-gray-100 my-4"></div>
+
+                    {/* Region (seasonal produce) */}
+                    <div className="space-y-2">
+                        <h4 className="font-medium text-gray-800 flex items-center gap-2">
+                            <MapPin className="w-4 h-4 text-orange-600" />
+                            Region
+                        </h4>
+                        <select
+                            value={localRegion}
+                            onChange={(e) => setLocalRegion(e.target.value)}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-orange-500 focus:border-orange-500 outline-none"
+                        >
+                            {PRODUCE_REGIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                        </select>
+                        <p className="text-xs text-gray-400">
+                            In season now: {regionPreview.vegetables.slice(0, 6).join(', ')}...
+                        </p>
+                    </div>
+
                     <div className="border-t border-gray-100 my-4"></div>
 
                     {/* Support & Contact */}
@@ -135,7 +306,7 @@ export default function SettingsModal({ onClose, canClose }: SettingsModalProps)
                 <div className="p-4 border-t border-gray-100 safe-area-inset-bottom shrink-0">
                     <button
                         onClick={handleSave}
-                        disabled={!localKey}
+                        disabled={!canSave}
                         className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm min-h-[44px]"
                     >
                         <Save className="w-4 h-4" />
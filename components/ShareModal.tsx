@@ -1,10 +1,23 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { X, Share2, Download, Copy, Phone, Loader2, Globe, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, Share2, Download, Copy, Phone, Loader2, Globe, AlertCircle, BookOpen } from 'lucide-react';
 import html2canvas from 'html2canvas';
-import { WeeklyPlan, GroceryItem } from '../types';
+import { WeeklyPlan, GroceryItem, GlossaryEntry, MealSlot } from '../types';
 import ShareableCard from './ShareableCard';
-import { translateMealPlanToHindi, translateGroceryListToHindi, AIConfig } from '../services/geminiService';
+import GlossaryEditor from './GlossaryEditor';
+import { DEFAULT_LANGUAGE_ID, LANGUAGES, getLanguage } from '../services/languages';
+import {
+    getGlossaryEntriesFor,
+    getGroceryTerms,
+    getMissingTerms,
+    getPlanTerms,
+    localizeGroceryList,
+    localizePlan,
+    mergeGlossary,
+    translateMissingTerms
+} from '../services/translationGlossary';
+import { getGlossaryEntries, saveGlossaryEntries, deleteGlossaryEntry } from '../services/supabaseService';
 import { useSettings } from '../contexts/SettingsContext';
+import { useAuth } from '../contexts/AuthContext';
 
 interface ShareModalProps {
     isOpen: boolean;
@@ -12,82 +25,95 @@ interface ShareModalProps {
     type: 'plan' | 'grocery';
     data: WeeklyPlan | GroceryItem[];
     dateRange: string;
+    mealSlots?: MealSlot[]; // Meal rows on a plan card
 }
 
-const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, type, data, dateRange }) => {
+const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, type, data, dateRange, mealSlots }) => {
     const [loading, setLoading] = useState(false);
     const [translating, setTranslating] = useState(false);
-    const [language, setLanguage] = useState<'en' | 'hi'>('en');
-    const [translatedData, setTranslatedData] = useState<WeeklyPlan | GroceryItem[] | null>(null);
+    const [language, setLanguage] = useState<string>(DEFAULT_LANGUAGE_ID);
+    const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+    const [showGlossary, setShowGlossary] = useState(false);
     const [translationError, setTranslationError] = useState<string | null>(null);
 
-    const { apiKey, modelName } = useSettings();
-    const config: AIConfig = { apiKey, modelName };
+    const { aiConfig: config, isAuthenticated: hasAIAccess } = useSettings();
+    const { user } = useAuth();
+    const userId = user?.id || 'local';
 
     const cookName = localStorage.getItem('cook_name');
     const cookNumber = localStorage.getItem('cook_number');
 
     // Reset translation when modal opens/closes or data changes
     useEffect(() => {
-        setTranslatedData(null);
-        setLanguage('en');
+        setLanguage(DEFAULT_LANGUAGE_ID);
+        setShowGlossary(false);
         setTranslationError(null);
     }, [isOpen, data]);
 
-    // Handle language toggle with AI translation
-    const handleLanguageToggle = useCallback(async () => {
-        if (language === 'hi') {
+    // Saved translations are reused instead of asking the AI again
+    useEffect(() => {
+        if (isOpen) getGlossaryEntries(userId).then(setGlossary);
+    }, [isOpen, userId]);
+
+    const terms = !data ? [] : type === 'plan' ? getPlanTerms(data as WeeklyPlan) : getGroceryTerms(data as GroceryItem[]);
+
+    // Translate names missing from the glossary into `languageId`, save them, return the updated glossary
+    const fillGlossary = async (languageId: string, entries: GlossaryEntry[]): Promise<GlossaryEntry[]> => {
+        const fresh = await translateMissingTerms(terms, type === 'plan' ? 'dish' : 'ingredient', languageId, entries, config);
+        if (fresh.length === 0) return entries;
+        const saved = await saveGlossaryEntries(fresh, userId);
+        return mergeGlossary(entries, saved);
+    };
+
+    // Handle language change with AI translation of names the glossary lacks
+    const handleLanguageChange = async (languageId: string) => {
+        if (languageId === language) return;
+        setTranslationError(null);
+        if (getLanguage(languageId).code === 'en') {
             // Switch back to English - use original data
-            setLanguage('en');
-            setTranslatedData(null);
-            setTranslationError(null);
+            setLanguage(DEFAULT_LANGUAGE_ID);
+            setShowGlossary(false);
             return;
         }
 
-        // Check for API key before translating
-        if (!apiKey) {
-            setTranslationError('API key required for Hindi translation. Please add it in Settings.');
+        // Check for API key before translating anything new
+        if (getMissingTerms(terms, languageId, glossary).length > 0 && !hasAIAccess) {
+            setTranslationError('API key required for translation. Please add it in Settings.');
             return;
         }
 
-        // Switch to Hindi - translate
         setTranslating(true);
-        setTranslationError(null);
-
         try {
-            if (type === 'plan') {
-                const planData = data as WeeklyPlan;
-                const translated = await translateMealPlanToHindi(planData, config);
-                setTranslatedData({ days: translated.days });
-            } else {
-                const groceryData = data as GroceryItem[];
-                const itemsForTranslation = groceryData.map(item => ({
-                    item: item.item,
-                    quantity: item.quantity,
-                    category: item.category,
-                    checked: item.checked
-                }));
-                const translated = await translateGroceryListToHindi(itemsForTranslation, config);
-                setTranslatedData(translated.map((t, i) => ({
-                    ...groceryData[i],
-                    item: t.item,
-                    quantity: t.quantity,
-                    category: t.category
-                })));
-            }
-            setLanguage('hi');
+            setGlossary(await fillGlossary(languageId, glossary));
+            setLanguage(languageId);
         } catch (error: any) {
             console.error('Translation failed:', error);
             setTranslationError(error.message || 'Translation failed. Please try again.');
         } finally {
             setTranslating(false);
         }
-    }, [language, apiKey, type, data, config]);
+    };
+
+    const handleCorrectTranslation = async (entry: GlossaryEntry, translation: string) => {
+        const saved = await saveGlossaryEntries([{ ...entry, translation, corrected: true }], userId);
+        setGlossary(prev => mergeGlossary(prev, saved));
+    };
+
+    const handleRetranslate = async (entry: GlossaryEntry) => {
+        await deleteGlossaryEntry(entry.id, userId);
+        const remaining = glossary.filter(g => g.id !== entry.id);
+        setGlossary(remaining);
+        setGlossary(await fillGlossary(language, remaining));
+    };
 
     if (!isOpen) return null;
 
-    // Use translated data if available, otherwise original
-    const displayData = language === 'hi' && translatedData ? translatedData : data;
+    // Localize from the glossary; names without a translation stay in English
+    const displayData = language === DEFAULT_LANGUAGE_ID
+        ? data
+        : type === 'plan'
+            ? localizePlan(data as WeeklyPlan, language, glossary)
+            : localizeGroceryList(data as GroceryItem[], language, glossary);
 
     const generateImage = async (): Promise<Blob | null> => {
         const element = document.getElementById('share-capture-container');
@@ -223,7 +249,7 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, type, data, da
                 aria-hidden="true"
             >
                 <div id="share-capture-container">
-                    <ShareableCard type={type} data={displayData} dateRange={dateRange} forCapture={true} language={language} />
+                    <ShareableCard type={type} data={displayData} dateRange={dateRange} forCapture={true} language={language} mealSlots={mealSlots} />
                 </div>
             </div>
 
@@ -241,30 +267,37 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, type, data, da
                             Share {type === 'plan' ? 'Meal Plan' : 'Grocery List'}
                         </h3>
 
-                        {/* Language Toggle + Close Button */}
+                        {/* Language Picker + Close Button */}
                         <div className="flex items-center gap-2">
-                            <button
-                                onClick={handleLanguageToggle}
-                                disabled={translating}
+                            <label
                                 className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold transition-all ${translating
                                         ? 'bg-gray-100 text-gray-400 cursor-wait'
-                                        : language === 'hi'
+                                        : language !== DEFAULT_LANGUAGE_ID
                                             ? 'bg-orange-100 text-orange-700 border border-orange-200'
-                                            : !apiKey
+                                            : !hasAIAccess
                                                 ? 'bg-red-50 text-red-500 border border-red-200'
                                                 : 'bg-gray-100 text-gray-600 border border-gray-200 hover:bg-gray-200'
                                     }`}
-                                title={!apiKey ? 'API key required for Hindi translation' : ''}
+                                title={!hasAIAccess ? 'API key required for translation' : 'Card language'}
                             >
                                 {translating ? (
                                     <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                                ) : !apiKey ? (
+                                ) : !hasAIAccess ? (
                                     <AlertCircle className="w-3.5 h-3.5" />
                                 ) : (
                                     <Globe className="w-3.5 h-3.5" />
                                 )}
-                                {translating ? 'Translating...' : language === 'en' ? 'हिंदी में' : 'हिंदी ✓'}
-                            </button>
+                                <select
+                                    value={language}
+                                    onChange={(e) => handleLanguageChange(e.target.value)}
+                                    disabled={translating}
+                                    className="bg-transparent outline-none cursor-pointer"
+                                >
+                                    {LANGUAGES.map(lang => (
+                                        <option key={lang.id} value={lang.id}>{lang.nativeName}</option>
+                                    ))}
+                                </select>
+                            </label>
 
                             {/* Close Button */}
                             <button
@@ -285,13 +318,35 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, type, data, da
                         </div>
                     )}
 
+                    {/* Saved Translations */}
+                    {language !== DEFAULT_LANGUAGE_ID && (
+                        <div className="px-4 py-2 border-b border-gray-100 bg-white shrink-0">
+                            <button
+                                onClick={() => setShowGlossary(!showGlossary)}
+                                className="text-xs font-medium text-purple-600 hover:text-purple-700 flex items-center gap-1.5"
+                            >
+                                <BookOpen className="w-3.5 h-3.5" />
+                                {showGlossary ? 'Hide translations' : 'Edit translations'}
+                            </button>
+                            {showGlossary && (
+                                <div className="mt-2 max-h-48 overflow-y-auto">
+                                    <GlossaryEditor
+                                        entries={getGlossaryEntriesFor(terms, language, glossary)}
+                                        onSave={handleCorrectTranslation}
+                                        onRetranslate={handleRetranslate}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Scrollable Content Area */}
                     <div
                         className="flex-1 overflow-y-auto overflow-x-hidden p-3 sm:p-6 bg-gray-100 overscroll-contain"
                         style={{ WebkitOverflowScrolling: 'touch' }}
                     >
                         <div className="shadow-2xl rounded-sm overflow-visible mx-auto max-w-[500px]">
-                            <ShareableCard type={type} data={displayData} dateRange={dateRange} forCapture={false} language={language} />
+                            <ShareableCard type={type} data={displayData} dateRange={dateRange} forCapture={false} language={language} mealSlots={mealSlots} />
                         </div>
                     </div>
 
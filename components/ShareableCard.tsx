@@ -1,6 +1,8 @@
 import React from 'react';
 import { ChefHat } from 'lucide-react';
-import { WeeklyPlan, GroceryItem } from '../types';
+import { WeeklyPlan, GroceryItem, MealSlot } from '../types';
+import { getLanguage } from '../services/languages';
+import { DEFAULT_MEAL_SLOTS, getDaySlots, isDefaultSlot } from '../services/mealSlots';
 
 interface ShareableCardProps {
     type: 'plan' | 'grocery';
@@ -8,32 +10,13 @@ interface ShareableCardProps {
     dateRange: string;
     id?: string;
     forCapture?: boolean;
-    language?: 'en' | 'hi';
+    language?: string; // Language id or code from services/languages.ts
+    mealSlots?: MealSlot[]; // Rows per day; breakfast, lunch and dinner use the language's labels
 }
 
-const TRANSLATIONS = {
-    en: {
-        brandName: 'QookCommander',
-        mealPlan: 'Weekly Meal Plan',
-        groceryList: 'Grocery Shopping List',
-        dates: 'Dates',
-        breakfast: 'Breakfast',
-        lunch: 'Lunch',
-        dinner: 'Dinner',
-        footer: 'Generated by AI',
-        website: 'qook.in'
-    },
-    hi: {
-        brandName: 'QookCommander',
-        mealPlan: 'साप्ताहिक भोजन योजना',
-        groceryList: 'किराने की सूची',
-        dates: 'तारीख',
-        breakfast: 'नाश्ता',
-        lunch: 'दोपहर',
-        dinner: 'रात',
-        footer: 'AI द्वारा बनाया गया',
-        website: 'qook.in'
-    }
+const BRAND = {
+    brandName: 'QookCommander',
+    website: 'qook.in'
 };
 
 const ShareableCard: React.FC<ShareableCardProps> = ({
@@ -42,9 +25,10 @@ const ShareableCard: React.FC<ShareableCardProps> = ({
     dateRange,
     id = 'share-card',
     forCapture = false,
-    language = 'en'
+    language = 'English',
+    mealSlots = DEFAULT_MEAL_SLOTS
 }) => {
-    const t = TRANSLATIONS[language];
+    const t = { ...BRAND, ...getLanguage(language).labels };
 
     const containerClasses = forCapture
         ? "bg-white p-6 rounded-none w-[500px] text-gray-800 font-sans"
@@ -97,18 +81,14 @@ const ShareableCard: React.FC<ShareableCardProps> = ({
                                     {day.day}
                                 </h3>
                                 <div className="space-y-1 sm:space-y-1.5">
-                                    <div className="flex items-baseline gap-2">
-                                        <span className="text-[10px] sm:text-xs font-bold text-gray-400 w-14 sm:w-16 uppercase shrink-0">{t.breakfast}</span>
-                                        <span className="text-xs sm:text-sm text-gray-700 flex-1 break-words">{day.breakfast || '-'}</span>
-                                    </div>
-                                    <div className="flex items-baseline gap-2">
-                                        <span className="text-[10px] sm:text-xs font-bold text-gray-400 w-14 sm:w-16 uppercase shrink-0">{t.lunch}</span>
-                                        <span className="text-xs sm:text-sm text-gray-700 flex-1 break-words">{day.lunch || '-'}</span>
-                                    </div>
-                                    <div className="flex items-baseline gap-2">
-                                        <span className="text-[10px] sm:text-xs font-bold text-gray-400 w-14 sm:w-16 uppercase shrink-0">{t.dinner}</span>
-                                        <span className="text-xs sm:text-sm text-gray-700 flex-1 break-words">{day.dinner || '-'}</span>
-                                    </div>
+                                    {getDaySlots(day, mealSlots).map(slot => (
+                                        <div key={slot.id} className="flex items-baseline gap-2">
+                                            <span className="text-[10px] sm:text-xs font-bold text-gray-400 w-14 sm:w-16 uppercase shrink-0">
+                                                {isDefaultSlot(slot.id) ? t[slot.id] : slot.label}
+                                            </span>
+                                            <span className="text-xs sm:text-sm text-gray-700 flex-1 break-words">{day[slot.id] || '-'}</span>
+                                        </div>
+                                    ))}
                                 </div>
                             </div>
                         ))}
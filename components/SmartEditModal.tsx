@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { DayPlan, UserPreferences } from '../types';
 import { MessageSquare, X, Sparkles, Send, Check } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import { getDaySlots, getMealSlotLabel, getPlannedSlots } from '../services/mealSlots';
 
 interface Props {
   dayPlan: DayPlan;
@@ -11,11 +12,13 @@ interface Props {
   onAnalyze: (mealTypes: string[], instruction: string) => Promise<Record<string, string>>;
 }
 
-const SmartEditModal: React.FC<Props> = ({ dayPlan, onConfirm, onClose, onAnalyze }) => {
-  const [selectedTypes, setSelectedTypes] = useState<string[]>(['Lunch']);
+const SmartEditModal: React.FC<Props> = ({ dayPlan, preferences, onConfirm, onClose, onAnalyze }) => {
+  const slots = getDaySlots(dayPlan, getPlannedSlots(preferences));
+  const [selectedTypes, setSelectedTypes] = useState<string[]>(slots.some(s => s.id === 'lunch') ? ['lunch'] : [slots[0]?.id].filter(Boolean));
   const [instruction, setInstruction] = useState('');
   const [generatedOptions, setGeneratedOptions] = useState<Record<string, string> | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
 
   const toggleType = (type: string) => {
     setSelectedTypes(prev =>
@@ -28,12 +31,14 @@ const SmartEditModal: React.FC<Props> = ({ dayPlan, onConfirm, onClose, onAnalyz
     if (!instruction.trim() || selectedTypes.length === 0) return;
     setLoading(true);
     setGeneratedOptions(null);
+    setError('');
     try {
       const result = await onAnalyze(selectedTypes, instruction);
       setGeneratedOptions(result);
-    } catch (e) {
+    } catch (e: any) {
       console.error(e);
-      // Fallback manual error or handle gracefully
+      // Typed AI errors (quota, timeout, safety block, invalid response) carry a message for the user
+      setError(e?.message || 'Failed to edit meals. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -64,8 +69,8 @@ const SmartEditModal: React.FC<Props> = ({ dayPlan, onConfirm, onClose, onAnalyz
           {/* Meal Selector Pills */}
           <div className="mb-6">
             <label className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3 block">Select Meals to Edit</label>
-            <div className="flex gap-2">
-              {(['Breakfast', 'Lunch', 'Dinner'] as const).map((type) => {
+            <div className="flex flex-wrap gap-2">
+              {slots.map(({ id: type, label }) => {
                 const isSelected = selectedTypes.includes(type);
                 return (
                   <button
@@ -77,7 +82,7 @@ const SmartEditModal: React.FC<Props> = ({ dayPlan, onConfirm, onClose, onAnalyz
                       }`}
                   >
                     {isSelected && <Check className="w-3 h-3" />}
-                    {type}
+                    {label}
                   </button>
                 );
               })}
@@ -89,8 +94,8 @@ const SmartEditModal: React.FC<Props> = ({ dayPlan, onConfirm, onClose, onAnalyz
             {selectedTypes.map(type => (
               <div key={type} className="bg-gray-50 p-3 rounded-xl border border-gray-100 flex justify-between items-center">
                 <div>
-                  <span className="text-xs font-semibold text-gray-400 uppercase block">{type}</span>
-                  <span className="text-gray-800 text-sm font-medium">{dayPlan[type.toLowerCase()]}</span>
+                  <span className="text-xs font-semibold text-gray-400 uppercase block">{getMealSlotLabel(type, slots)}</span>
+                  <span className="text-gray-800 text-sm font-medium">{dayPlan[type]}</span>
                 </div>
               </div>
             ))}
@@ -118,6 +123,12 @@ const SmartEditModal: React.FC<Props> = ({ dayPlan, onConfirm, onClose, onAnalyz
             </div>
           </div>
 
+          {error && (
+            <div className="mt-6 bg-amber-50 text-amber-800 p-3 rounded-lg text-sm border border-amber-200">
+              {error}
+            </div>
+          )}
+
           {/* AI Response Area */}
           {generatedOptions && (
             <div className="mt-6 animate-in fade-in slide-in-from-bottom-4 duration-300 space-y-3">
@@ -130,7 +141,7 @@ const SmartEditModal: React.FC<Props> = ({ dayPlan, onConfirm, onClose, onAnalyz
               {Object.entries(generatedOptions).map(([key, value]) => (
                 value && (
                   <div key={key} className="bg-indigo-50 p-4 rounded-xl border border-indigo-100">
-                    <span className="text-xs font-bold text-indigo-400 uppercase mb-1 block">{key}</span>
+                    <span className="text-xs font-bold text-indigo-400 uppercase mb-1 block">{getMealSlotLabel(key, slots)}</span>
                     <div className="markdown-body text-gray-800 text-sm font-medium">
                       <ReactMarkdown>{String(value)}</ReactMarkdown>
                     </div>
@@ -1,4 +1,4 @@
-import { UserPreferences, PreferenceProfile } from './types';
+import { UserPreferences, PreferenceProfile, AgeGroup, SpiceTolerance, ObservanceRule } from './types';
 
 // Quick cook instruction options (unticked by default)
 export const QUICK_COOK_INSTRUCTION_OPTIONS = [
@@ -11,6 +11,37 @@ export const QUICK_COOK_INSTRUCTION_OPTIONS = [
   "Prefer homemade paneer if available"
 ];
 
+export const DIETARY_TYPE_OPTIONS = [
+  { value: 'Vegetarian', label: 'Veg' },
+  { value: 'Vegetarian (with Eggs)', label: 'Veg + Eggs' },
+  { value: 'Non-Vegetarian', label: 'Non-Veg' }
+];
+
+// Household member age groups with their default portion factor (1 = adult portion)
+export const AGE_GROUP_OPTIONS: { value: AgeGroup; label: string; portionFactor: number }[] = [
+  { value: 'toddler', label: 'Toddler (1-3)', portionFactor: 0.3 },
+  { value: 'child', label: 'Child (4-12)', portionFactor: 0.6 },
+  { value: 'teen', label: 'Teen (13-17)', portionFactor: 1.1 },
+  { value: 'adult', label: 'Adult', portionFactor: 1 },
+  { value: 'senior', label: 'Senior (60+)', portionFactor: 0.8 }
+];
+
+export const SPICE_TOLERANCE_OPTIONS: { value: SpiceTolerance; label: string }[] = [
+  { value: 'none', label: 'No spice' },
+  { value: 'mild', label: 'Mild' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hot', label: 'Hot' }
+];
+
+// Food rules an observance can impose, with the wording used in AI prompts
+export const OBSERVANCE_RULE_OPTIONS: { value: ObservanceRule; label: string; prompt: string }[] = [
+  { value: 'no-grains', label: 'No grains', prompt: 'no rice, wheat, pulses or regular flour; use vrat foods such as sabudana, kuttu, singhara, rajgira, samak rice, potato, makhana and sendha namak' },
+  { value: 'no-onion-garlic', label: 'No onion/garlic', prompt: 'no onion or garlic' },
+  { value: 'sattvic', label: 'Sattvic', prompt: 'sattvic: vegetarian, no onion, garlic, eggs or mushrooms, light and freshly cooked' },
+  { value: 'vegetarian', label: 'Vegetarian', prompt: 'strictly vegetarian, no meat, fish or eggs' },
+  { value: 'day-fast', label: 'Fast until evening', prompt: 'fast during the day: breakfast and lunch are only fruit, milk or water; a light dinner to break the fast' }
+];
+
 // Extracted from the provided WhatsApp chat history
 export const DEFAULT_PREFERENCES: UserPreferences = {
   dietaryType: "Vegetarian",
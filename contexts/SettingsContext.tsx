@@ -1,22 +1,39 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
 import { useAuth } from './AuthContext';
 import * as supabaseService from '../services/supabaseService';
+import { AIConfig, AIProviderId, AIRetryOptions, AITask, getAIProvider, isAIConfigured, setAIUsageListener } from '../services/aiProvider';
+import { getSavedRegionId, saveRegionId } from '../services/seasonalContext';
 
 interface SettingsContextType {
     apiKey: string;
     setApiKey: (key: string) => void;
     modelName: string;
+    setModelName: (model: string) => void;
+    provider: AIProviderId;
+    setProvider: (provider: AIProviderId) => void;
+    baseUrl: string;
+    setBaseUrl: (url: string) => void;
+    taskModels: Partial<Record<AITask, string>>;
+    setTaskModels: (models: Partial<Record<AITask, string>>) => void;
+    retryOptions: AIRetryOptions;
+    setRetryOptions: (options: AIRetryOptions) => void;
+    aiConfig: AIConfig;
     isAuthenticated: boolean;
     cookName: string;
     setCookName: (name: string) => void;
     cookNumber: string;
     setCookNumber: (number: string) => void;
+    region: string;
+    setRegion: (regionId: string) => void;
     syncSettings: () => Promise<void>;
 }
 
-// Default model - Gemini 3 Flash Preview with thinking capabilities
-const DEFAULT_MODEL = 'gemini-3-flash-preview';
 const API_KEY_STORAGE = 'qookcommander_gemini_api_key';
+const PROVIDER_STORAGE = 'qookcommander_ai_provider';
+const MODEL_STORAGE = 'qookcommander_ai_model';
+const BASE_URL_STORAGE = 'qookcommander_ai_base_url';
+const TASK_MODELS_STORAGE = 'qookcommander_ai_task_models';
+const RETRY_STORAGE = 'qookcommander_ai_retry';
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
@@ -25,20 +42,40 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     const userId = user?.id || 'local';
 
     const [apiKey, setApiKeyState] = useState('');
+    const [provider, setProviderState] = useState<AIProviderId>('gemini');
+    // Empty model/base URL means "use the provider's default"
+    const [modelOverride, setModelOverride] = useState('');
+    const [baseUrl, setBaseUrlState] = useState('');
+    const [taskModels, setTaskModelsState] = useState<Partial<Record<AITask, string>>>({});
+    const [retryOptions, setRetryOptionsState] = useState<AIRetryOptions>({});
     const [cookName, setCookNameState] = useState('');
     const [cookNumber, setCookNumberState] = useState('');
+    const [region, setRegionState] = useState(getSavedRegionId);
 
     // Sync settings from Supabase on login (cook contact only)
     const syncSettings = useCallback(async () => {
-        // API key stays local only
+        // API key and provider settings stay local only
         const storedKey = localStorage.getItem(API_KEY_STORAGE);
         if (storedKey) setApiKeyState(storedKey);
+        const storedProvider = localStorage.getItem(PROVIDER_STORAGE) as AIProviderId | null;
+        if (storedProvider) setProviderState(storedProvider);
+        setModelOverride(localStorage.getItem(MODEL_STORAGE) || '');
+        setBaseUrlState(localStorage.getItem(BASE_URL_STORAGE) || '');
+        const storedTaskModels = localStorage.getItem(TASK_MODELS_STORAGE);
+        if (storedTaskModels) setTaskModelsState(JSON.parse(storedTaskModels));
+        const storedRetry = localStorage.getItem(RETRY_STORAGE);
+        if (storedRetry) setRetryOptionsState(JSON.parse(storedRetry));
 
-        // Cook contact syncs from Supabase
+        // Cook contact and region sync from Supabase
         const settings = await supabaseService.getUserSettings(userId);
         if (settings) {
             setCookNameState(settings.cookName);
             setCookNumberState(settings.cookWhatsappNumber);
+            if (settings.region) {
+                // Prompts read the region from this device, so keep the local copy current
+                saveRegionId(settings.region);
+                setRegionState(settings.region);
+            }
         }
     }, [userId]);
 
@@ -46,12 +83,51 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
         syncSettings();
     }, [syncSettings]);
 
+    // Record every AI call in the signed-in user's usage ledger
+    useEffect(() => {
+        setAIUsageListener(entry => {
+            supabaseService.logAIUsage(entry, userId).catch(console.error);
+        });
+        return () => setAIUsageListener(null);
+    }, [userId]);
+
     // API key stays in localStorage only (not synced to Supabase)
     const setApiKey = useCallback((key: string) => {
         setApiKeyState(key);
         localStorage.setItem(API_KEY_STORAGE, key);
     }, []);
 
+    const setProvider = useCallback((id: AIProviderId) => {
+        setProviderState(id);
+        localStorage.setItem(PROVIDER_STORAGE, id);
+    }, []);
+
+    const setModelName = useCallback((model: string) => {
+        setModelOverride(model);
+        localStorage.setItem(MODEL_STORAGE, model);
+    }, []);
+
+    const setBaseUrl = useCallback((url: string) => {
+        setBaseUrlState(url);
+        localStorage.setItem(BASE_URL_STORAGE, url);
+    }, []);
+
+    const setTaskModels = useCallback((models: Partial<Record<AITask, string>>) => {
+        // Drop blank entries so they fall back to the main model
+        const cleaned = Object.fromEntries(Object.entries(models).filter(([, model]) => model?.trim()));
+        setTaskModelsState(cleaned);
+        localStorage.setItem(TASK_MODELS_STORAGE, JSON.stringify(cleaned));
+    }, []);
+
+    const setRetryOptions = useCallback((options: AIRetryOptions) => {
+        // Drop unset values so they fall back to DEFAULT_RETRY_OPTIONS
+        const cleaned = Object.fromEntries(
+            Object.entries(options).filter(([, value]) => typeof value === 'number' && value >= 0)
+        ) as AIRetryOptions;
+        setRetryOptionsState(cleaned);
+        localStorage.setItem(RETRY_STORAGE, JSON.stringify(cleaned));
+    }, []);
+
     const setCookName = useCallback((name: string) => {
         setCookNameState(name);
         supabaseService.saveUserSettings(userId, { cookName: name });
@@ -62,15 +138,43 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
         supabaseService.saveUserSettings(userId, { cookWhatsappNumber: number });
     }, [userId]);
 
+    const setRegion = useCallback((regionId: string) => {
+        setRegionState(regionId);
+        saveRegionId(regionId);
+        supabaseService.saveUserSettings(userId, { region: regionId });
+    }, [userId]);
+
+    const modelName = modelOverride || getAIProvider(provider).defaultModel;
+    const aiConfig = useMemo<AIConfig>(() => ({
+        apiKey,
+        modelName,
+        provider,
+        baseUrl: baseUrl || undefined,
+        models: taskModels,
+        retry: retryOptions
+    }), [apiKey, modelName, provider, baseUrl, taskModels, retryOptions]);
+
     const value = {
         apiKey,
         setApiKey,
-        modelName: DEFAULT_MODEL,
-        isAuthenticated: !!apiKey,
+        modelName,
+        setModelName,
+        provider,
+        setProvider,
+        baseUrl,
+        setBaseUrl,
+        taskModels,
+        setTaskModels,
+        retryOptions,
+        setRetryOptions,
+        aiConfig,
+        isAuthenticated: isAIConfigured(aiConfig),
         cookName,
         setCookName,
         cookNumber,
         setCookNumber,
+        region,
+        setRegion,
         syncSettings
     };
 
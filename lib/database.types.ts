@@ -154,7 +154,7 @@ export interface Database {
                     id: string;
                     user_id: string;
                     date: string;
-                    meal_type: 'Breakfast' | 'Lunch' | 'Dinner';
+                    meal_type: string;
                     meal_name: string;
                     rating: 'liked' | 'disliked' | null;
                     created_at: string;
@@ -163,7 +163,7 @@ export interface Database {
                     id?: string;
                     user_id: string;
                     date: string;
-                    meal_type: 'Breakfast' | 'Lunch' | 'Dinner';
+                    meal_type: string;
                     meal_name: string;
                     rating?: 'liked' | 'disliked' | null;
                     created_at?: string;
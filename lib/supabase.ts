@@ -5,7 +5,7 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
     console.warn(
-        'Supabase credentials not found. Running in offline mode with localStorage only.'
+        'Supabase credentials not found. Running in offline mode with data kept on this device only.'
     );
 }
 
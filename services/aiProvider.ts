@@ -0,0 +1,745 @@
+/**
+ * AI Provider Layer
+ * Backend-agnostic text/JSON generation used by geminiService, optionally
+ * with photos attached for multimodal models.
+ * AIConfig selects the provider (Gemini, any OpenAI-compatible endpoint such as
+ * OpenAI or a local Ollama server, or an in-process mock), its base URL and
+ * the model used for each task. Every call goes through a shared wrapper that
+ * retries transient failures with exponential backoff, enforces a timeout and
+ * turns provider errors into the typed classes below. Each attempt is reported
+ * to the usage listener for the per-user cost ledger.
+ */
+
+import { GoogleGenAI, Type, ThinkingLevel, Schema, FinishReason, GenerateContentResponse } from "@google/genai";
+import { AIUsageEntry } from "../types";
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export type AIProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// Each service function declares the kind of work it does so a different
+// model can be configured per task (e.g. a large model for planning, a small
+// one for quick edits and translation).
+export type AITask = 'planning' | 'quickEdit' | 'grocery' | 'analysis' | 'translation' | 'recipe' | 'vision';
+
+export const AI_TASKS: { id: AITask; label: string }[] = [
+  { id: 'planning', label: 'Weekly plan' },
+  { id: 'quickEdit', label: 'Regenerate & smart edit' },
+  { id: 'grocery', label: 'Grocery lists' },
+  { id: 'analysis', label: 'Preference analysis' },
+  { id: 'translation', label: 'Translation' },
+  { id: 'recipe', label: 'Recipes' },
+  { id: 'vision', label: 'Photo and receipt recognition' },
+];
+
+export interface AIConfig {
+  apiKey: string;
+  modelName: string;
+  provider?: AIProviderId; // Defaults to 'gemini'
+  baseUrl?: string; // Overrides the provider's default endpoint
+  models?: Partial<Record<AITask, string>>; // Per-task model overrides
+  retry?: AIRetryOptions; // Overrides DEFAULT_RETRY_OPTIONS
+}
+
+export interface AIRetryOptions {
+  maxRetries?: number; // Extra attempts after a transient failure (429, 5xx, network, timeout)
+  baseDelayMs?: number; // First backoff delay, doubled on every retry
+  maxDelayMs?: number;
+  timeoutMs?: number; // Per attempt; for streams, the longest wait between chunks
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<AIRetryOptions> = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000,
+  timeoutMs: 60000,
+};
+
+// ============================================================================
+// REQUEST / RESPONSE TYPES
+// ============================================================================
+
+// Provider-neutral subset of JSON Schema, translated by each adapter
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+  minItems?: number; // Arrays only
+  maxItems?: number;
+}
+
+// A photo or PDF sent along with the prompt; needs a multimodal model
+export interface AIImageInput {
+  mimeType: string; // e.g. 'image/jpeg' or 'application/pdf'
+  data: string; // Base64, without the data: URL prefix
+}
+
+export interface AIGenerateRequest {
+  task: AITask;
+  prompt: string;
+  images?: AIImageInput[];
+  schema?: ResponseSchema; // When set, the response text is JSON matching the schema
+  temperature?: number;
+  maxOutputTokens?: number;
+  thinking?: number | 'minimal'; // Thinking token budget, or minimal thinking for speed
+  signal?: AbortSignal; // Cancels the in-flight request and any pending retry
+  timeoutMs?: number; // Default timeout for this call; a timeout set in AIConfig.retry still wins
+  feature?: string; // Calling function, recorded in the usage ledger
+}
+
+export interface AITokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+}
+
+export interface AIGenerateResult {
+  text: string;
+  model: string;
+  usage?: AITokenUsage; // When the provider reports token counts
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
+  generate: (request: AIGenerateRequest, config: AIConfig) => Promise<AIGenerateResult>;
+  // Yields response text chunks as they arrive and returns the final result;
+  // providers without it fall back to generate
+  generateStream?: (request: AIGenerateRequest, config: AIConfig) => AsyncGenerator<string, AIGenerateResult>;
+}
+
+// Carries the HTTP status so callers can keep branching on `error.status`,
+// and the endpoint URL when a request reached the provider
+export class AIProviderError extends Error {
+  status?: number;
+  url?: string;
+
+  constructor(message: string, status?: number, url?: string) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = status;
+    this.url = url;
+  }
+}
+
+export class AIInvalidKeyError extends AIProviderError {
+  constructor(status?: number) {
+    super("Invalid API Key. Please check your API key in Settings.", status);
+    this.name = 'AIInvalidKeyError';
+  }
+}
+
+export class AIQuotaExceededError extends AIProviderError {
+  constructor(status?: number) {
+    super("Rate limit or quota exceeded. Please wait a moment and try again.", status);
+    this.name = 'AIQuotaExceededError';
+  }
+}
+
+export class AIModelNotFoundError extends AIProviderError {
+  model: string;
+
+  constructor(model: string, status?: number) {
+    super(`Model "${model}" not found. Check the model name in Settings.`, status);
+    this.name = 'AIModelNotFoundError';
+    this.model = model;
+  }
+}
+
+export class AISafetyBlockError extends AIProviderError {
+  reason: string;
+
+  constructor(reason: string) {
+    super(`The AI declined to answer (${reason}). Try rewording your instructions.`);
+    this.name = 'AISafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+export class AITimeoutError extends AIProviderError {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`The AI did not respond within ${Math.round(timeoutMs / 1000)} seconds. Please try again.`);
+    this.name = 'AITimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export const resolveModel = (config: AIConfig, task: AITask, provider: AIProvider): string =>
+  config.models?.[task] || config.modelName || provider.defaultModel;
+
+// fetch and the Gemini SDK both reject with an AbortError when the signal fires
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError' || /aborted/i.test(error?.message || '');
+
+// ============================================================================
+// GEMINI ADAPTER
+// ============================================================================
+
+const GEMINI_TYPES: Record<ResponseSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  ...(schema.description && { description: schema.description }),
+  ...(schema.nullable && { nullable: true }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.minItems !== undefined && { minItems: String(schema.minItems) }),
+  ...(schema.maxItems !== undefined && { maxItems: String(schema.maxItems) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+  }),
+});
+
+const toGeminiParams = (request: AIGenerateRequest, config: AIConfig) => {
+  const ai = new GoogleGenAI({
+    apiKey: config.apiKey,
+    ...(config.baseUrl && { httpOptions: { baseUrl: config.baseUrl } }),
+  });
+
+  const thinkingConfig = request.thinking === 'minimal'
+    ? { thinkingLevel: ThinkingLevel.MINIMAL }
+    : request.thinking !== undefined
+      ? { thinkingBudget: request.thinking }
+      : undefined;
+
+  const params = {
+    model: resolveModel(config, request.task, geminiProvider),
+    contents: request.images?.length
+      ? [{
+        role: 'user',
+        parts: [
+          { text: request.prompt },
+          ...request.images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } })),
+        ],
+      }]
+      : request.prompt,
+    config: {
+      ...(request.schema && {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.schema),
+      }),
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+      thinkingConfig,
+      abortSignal: request.signal,
+    },
+  };
+  return { ai, params };
+};
+
+const GEMINI_BLOCK_REASONS: string[] = [
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII, FinishReason.RECITATION,
+];
+
+// Blocked prompts come back with no text, so surface the reason instead
+const assertNotBlocked = (response: GenerateContentResponse): void => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new AISafetyBlockError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && GEMINI_BLOCK_REASONS.includes(finishReason)) throw new AISafetyBlockError(finishReason);
+};
+
+// Thinking tokens are billed as output
+const geminiUsage = (response: GenerateContentResponse): AITokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount || 0,
+    responseTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+  };
+};
+
+const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-3-flash-preview',
+  requiresApiKey: true,
+  generate: async (request, config) => {
+    const { ai, params } = toGeminiParams(request, config);
+    const response = await ai.models.generateContent(params);
+    assertNotBlocked(response);
+    return { text: response.text || '', model: params.model, usage: geminiUsage(response) };
+  },
+  generateStream: async function* (request, config) {
+    const { ai, params } = toGeminiParams(request, config);
+    const stream = await ai.models.generateContentStream(params);
+    let text = '';
+    let usage: AITokenUsage | undefined;
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      usage = geminiUsage(chunk) || usage; // Cumulative; the last chunk has the totals
+      if (!chunk.text) continue;
+      text += chunk.text;
+      yield chunk.text;
+    }
+    return { text, model: params.model, usage };
+  },
+};
+
+// ============================================================================
+// OPENAI-COMPATIBLE ADAPTER (OpenAI, Ollama, LM Studio, vLLM, ...)
+// ============================================================================
+
+const toJsonSchema = (schema: ResponseSchema): Record<string, unknown> => ({
+  type: schema.nullable ? [schema.type, 'null'] : schema.type,
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toJsonSchema(schema.items) }),
+  ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+  ...(schema.maxItems !== undefined && { maxItems: schema.maxItems }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    ),
+  }),
+});
+
+const openAIUsage = (usage: any): AITokenUsage | undefined =>
+  usage ? { promptTokens: usage.prompt_tokens || 0, responseTokens: usage.completion_tokens || 0 } : undefined;
+
+// Structured output endpoints require an object at the root, so array schemas
+// are wrapped under this key and unwrapped again before returning.
+const WRAPPED_ROOT_KEY = 'items';
+
+const createOpenAICompatibleProvider = (
+  options: Pick<AIProvider, 'id' | 'label' | 'defaultModel' | 'defaultBaseUrl' | 'requiresApiKey'>
+): AIProvider => {
+  const request = async (req: AIGenerateRequest, config: AIConfig, stream: boolean) => {
+    const baseUrl = (config.baseUrl || options.defaultBaseUrl || '').replace(/\/+$/, '');
+    const model = resolveModel(config, req.task, provider);
+    const wrapRoot = !!req.schema && req.schema.type !== 'object';
+
+    const schema = req.schema && (wrapRoot
+      ? { type: 'object' as const, properties: { [WRAPPED_ROOT_KEY]: req.schema }, required: [WRAPPED_ROOT_KEY] }
+      : req.schema);
+
+    const url = `${baseUrl}/chat/completions`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{
+          role: 'user',
+          content: req.images?.length
+            ? [
+              { type: 'text', text: req.prompt },
+              ...req.images.map(image => image.mimeType === 'application/pdf'
+                ? { type: 'file', file: { filename: 'document.pdf', file_data: `data:${image.mimeType};base64,${image.data}` } }
+                : { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }),
+            ]
+            : req.prompt,
+        }],
+        temperature: req.temperature,
+        max_tokens: req.maxOutputTokens,
+        stream,
+        ...(stream && { stream_options: { include_usage: true } }),
+        ...(schema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: toJsonSchema(schema) },
+          },
+        }),
+      }),
+      signal: req.signal,
+    });
+
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const body = await response.json();
+        message = body?.error?.message || body?.error || message;
+      } catch {
+        // Non-JSON error body, keep status text
+      }
+      throw new AIProviderError(`${options.label} request failed (${response.status}): ${message}`, response.status, url);
+    }
+    return { response, model, wrapRoot };
+  };
+
+  const unwrap = (text: string, wrapRoot: boolean): string => {
+    if (!wrapRoot || !text) return text;
+    const parsed = JSON.parse(text);
+    return JSON.stringify(parsed?.[WRAPPED_ROOT_KEY] ?? parsed);
+  };
+
+  const provider: AIProvider = {
+    ...options,
+    generate: async (req, config) => {
+      const { response, model, wrapRoot } = await request(req, config, false);
+      const data = await response.json();
+      if (data?.choices?.[0]?.finish_reason === 'content_filter') throw new AISafetyBlockError('content_filter');
+      const text: string = data?.choices?.[0]?.message?.content ?? '';
+      return { text: unwrap(text, wrapRoot), model, usage: openAIUsage(data?.usage) };
+    },
+    // Server-sent events: "data: {json}" lines terminated by "data: [DONE]".
+    // Chunks of wrapped array schemas still contain the wrapper key; the
+    // returned text is unwrapped like generate's.
+    generateStream: async function* (req, config) {
+      const { response, model, wrapRoot } = await request(req, config, true);
+      if (!response.body) throw new AIProviderError(`${options.label} returned an empty stream`);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      let usage: AITokenUsage | undefined;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!data || data === '[DONE]' || line.trim().startsWith(':')) continue;
+          const event = JSON.parse(data);
+          usage = openAIUsage(event?.usage) || usage; // Sent on the final event when include_usage is set
+          const choice = event?.choices?.[0];
+          if (choice?.finish_reason === 'content_filter') throw new AISafetyBlockError('content_filter');
+          const delta = choice?.delta?.content;
+          if (!delta) continue;
+          text += delta;
+          yield delta;
+        }
+      }
+      return { text: unwrap(text, wrapRoot), model, usage };
+    },
+  };
+  return provider;
+};
+
+const openAIProvider = createOpenAICompatibleProvider({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultModel: 'gpt-4o-mini',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: true,
+});
+
+const ollamaProvider = createOpenAICompatibleProvider({
+  id: 'ollama',
+  label: 'Ollama (local)',
+  defaultModel: 'llama3.1',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  requiresApiKey: false,
+});
+
+// ============================================================================
+// MOCK ADAPTER (deterministic, in-process)
+// ============================================================================
+
+export type MockResponder = (request: AIGenerateRequest) => unknown;
+
+const MOCK_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Builds a value that satisfies the schema; arrays named "days" get a full week
+// unless the schema fixes their length
+const fakeFromSchema = (schema: ResponseSchema, key: string, index: number): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([prop, value]) => [prop, fakeFromSchema(value, prop, index)])
+      );
+    case 'array': {
+      const length = schema.minItems ?? (key === 'days' ? MOCK_DAYS.length : 3);
+      return Array.from({ length }, (_, i) => fakeFromSchema(schema.items || { type: 'string' }, key, i));
+    }
+    case 'string':
+      if (schema.enum?.length) return schema.enum[index % schema.enum.length];
+      if (key === 'day') return MOCK_DAYS[index % MOCK_DAYS.length];
+      return `Mock ${key} ${index + 1}`;
+    case 'number':
+    case 'integer':
+      return index + 1;
+    case 'boolean':
+      return false;
+  }
+};
+
+const defaultMockResponder: MockResponder = (request) =>
+  request.schema ? fakeFromSchema(request.schema, 'root', 0) : `Mock ${request.task} response`;
+
+const MOCK_STREAM_CHUNK_SIZE = 48;
+
+export const createMockProvider = (responder: MockResponder = defaultMockResponder): AIProvider => {
+  const provider: AIProvider = {
+    id: 'mock',
+    label: 'Mock (offline testing)',
+    defaultModel: 'mock',
+    requiresApiKey: false,
+    generate: async (request, config) => {
+      const result = responder(request);
+      return {
+        text: typeof result === 'string' ? result : JSON.stringify(result),
+        model: config.models?.[request.task] || config.modelName || 'mock',
+      };
+    },
+    // Replays the full response in fixed-size chunks
+    generateStream: async function* (request, config) {
+      const result = await provider.generate(request, config);
+      for (let i = 0; i < result.text.length; i += MOCK_STREAM_CHUNK_SIZE) {
+        if (request.signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+        await new Promise(resolve => setTimeout(resolve, 0));
+        yield result.text.slice(i, i + MOCK_STREAM_CHUNK_SIZE);
+      }
+      return result;
+    },
+  };
+  return provider;
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const providers: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  ollama: ollamaProvider,
+  mock: createMockProvider(),
+};
+
+export const listAIProviders = (): AIProvider[] => Object.values(providers);
+
+export const getAIProvider = (id: AIProviderId = 'gemini'): AIProvider => providers[id] || geminiProvider;
+
+// Replace an adapter at runtime, e.g. a mock with scripted responses in tests
+export const registerAIProvider = (provider: AIProvider): void => {
+  providers[provider.id] = provider;
+};
+
+export const isAIConfigured = (config: AIConfig): boolean =>
+  !getAIProvider(config.provider).requiresApiKey || !!config.apiKey;
+
+// ============================================================================
+// RETRIES, TIMEOUTS & ERROR MAPPING
+// ============================================================================
+
+// Maps SDK/HTTP failures onto the typed error classes; already-typed errors pass through
+export const toAIError = (error: any, config: AIConfig, task: AITask): Error => {
+  if (error instanceof AIProviderError && error.name !== 'AIProviderError') return error;
+  if (isAbortError(error)) return error;
+
+  const message: string = error?.message || '';
+  const status: number | undefined = error?.status ?? error?.code;
+
+  if (status === 401 || status === 403 || /API[ _]?key/i.test(message)) {
+    return new AIInvalidKeyError(status);
+  }
+  if (status === 429 || /quota|rate.?limit|RESOURCE_EXHAUSTED/i.test(message)) {
+    return new AIQuotaExceededError(status);
+  }
+  if (/model/i.test(message) && /not found|does not exist/i.test(message)) {
+    return new AIModelNotFoundError(resolveModel(config, task, getAIProvider(config.provider)), status);
+  }
+  // Any other 404 means the request went to the wrong place, e.g. a mistyped base URL
+  if (status === 404) {
+    const where = error?.url ? ` at ${error.url}` : '';
+    return new AIProviderError(`${getAIProvider(config.provider).label} endpoint not found${where}. Check the base URL in Settings.`, status, error?.url);
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new AIProviderError("Network error. Please check your internet connection.");
+  }
+  return error instanceof Error ? error : new AIProviderError(message || String(error), status);
+};
+
+// Rate limits, server errors, dropped connections and timeouts are worth another try
+export const isRetryableAIError = (error: any): boolean => {
+  if (error instanceof AIQuotaExceededError || error instanceof AITimeoutError) return true;
+  if (error instanceof AIInvalidKeyError || error instanceof AIModelNotFoundError || error instanceof AISafetyBlockError) return false;
+  const status = error?.status;
+  return (typeof status === 'number' && status >= 500) || /network/i.test(error?.message || '');
+};
+
+const resolveRetryOptions = (request: AIGenerateRequest, config: AIConfig): Required<AIRetryOptions> => ({
+  ...DEFAULT_RETRY_OPTIONS,
+  ...(request.timeoutMs && { timeoutMs: request.timeoutMs }),
+  ...config.retry,
+});
+
+// Full jitter keeps parallel callers from retrying in lockstep
+const backoffDelay = (attempt: number, options: Required<AIRetryOptions>): number =>
+  Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+interface AttemptControl {
+  signal: AbortSignal; // Fires on caller cancellation or timeout
+  touch: () => void; // Restarts the timeout (streams call it per chunk)
+}
+
+// One attempt with its own timeout, linked to the caller's signal. Rejects as soon
+// as the signal fires, even for providers that ignore it.
+const runAttempt = async <T>(
+  callerSignal: AbortSignal | undefined,
+  timeoutMs: number,
+  run: (control: AttemptControl) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onCallerAbort = () => controller.abort();
+  callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  if (callerSignal?.aborted) controller.abort();
+
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(abortError()), { once: true });
+  });
+  aborted.catch(() => undefined);
+
+  touch();
+  try {
+    const running = run({ signal: controller.signal, touch });
+    running.catch(() => undefined); // A provider that ignores the signal may still reject later
+    return await Promise.race([running, aborted]);
+  } catch (error) {
+    if (timedOut && !callerSignal?.aborted) throw new AITimeoutError(timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+};
+
+// ============================================================================
+// USAGE REPORTING
+// ============================================================================
+
+export type AIUsageListener = (entry: Omit<AIUsageEntry, 'id' | 'createdAt'>) => void;
+
+let usageListener: AIUsageListener | null = null;
+
+// One listener (the usage ledger); pass null to stop reporting
+export const setAIUsageListener = (listener: AIUsageListener | null): void => {
+  usageListener = listener;
+};
+
+const reportUsage = (
+  request: AIGenerateRequest,
+  config: AIConfig,
+  startedAt: number,
+  outcome: { result?: AIGenerateResult; error?: Error }
+): void => {
+  if (!usageListener) return;
+  try {
+    usageListener({
+      feature: request.feature || request.task,
+      task: request.task,
+      provider: config.provider || 'gemini',
+      model: outcome.result?.model || resolveModel(config, request.task, getAIProvider(config.provider)),
+      promptTokens: outcome.result?.usage?.promptTokens || 0,
+      responseTokens: outcome.result?.usage?.responseTokens || 0,
+      latencyMs: Date.now() - startedAt,
+      success: !outcome.error,
+      ...(outcome.error && { error: outcome.error.name }),
+    });
+  } catch (listenerError) {
+    console.error('AI usage listener failed:', listenerError);
+  }
+};
+
+// Retries `run` with backoff while the failure is transient and the caller has not cancelled.
+// Every attempt, failed or not, is reported to the usage listener; cancelled ones are not,
+// so they do not count as failures.
+const withRetries = async (
+  request: AIGenerateRequest,
+  config: AIConfig,
+  run: (control: AttemptControl, attempt: number) => Promise<AIGenerateResult>,
+  canRetry: () => boolean = () => true
+): Promise<AIGenerateResult> => {
+  const options = resolveRetryOptions(request, config);
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const result = await runAttempt(request.signal, options.timeoutMs, control => run(control, attempt));
+      reportUsage(request, config, startedAt, { result });
+      return result;
+    } catch (rawError) {
+      const error = toAIError(rawError, config, request.task);
+      if (request.signal?.aborted || isAbortError(error)) throw error;
+      reportUsage(request, config, startedAt, { error });
+      if (attempt >= options.maxRetries || !isRetryableAIError(error) || !canRetry()) throw error;
+      console.warn(`AI ${request.task} request failed (attempt ${attempt + 1}), retrying:`, error.message);
+      await sleep(backoffDelay(attempt, options), request.signal);
+    }
+  }
+};
+
+export const generateAIContent = (request: AIGenerateRequest, config: AIConfig): Promise<AIGenerateResult> =>
+  withRetries(request, config, ({ signal }) =>
+    getAIProvider(config.provider).generate({ ...request, signal }, config)
+  );
+
+// Streams the response, calling onText with the accumulated text after every chunk.
+// Only retried while nothing has been streamed yet, so callers never see text twice.
+export const streamAIContent = async (
+  request: AIGenerateRequest,
+  config: AIConfig,
+  onText: (text: string) => void
+): Promise<AIGenerateResult> => {
+  const provider = getAIProvider(config.provider);
+  let text = '';
+
+  return withRetries(request, config, async ({ signal, touch }) => {
+    if (!provider.generateStream) {
+      const result = await provider.generate({ ...request, signal }, config);
+      onText(result.text);
+      return result;
+    }
+
+    const stream = provider.generateStream({ ...request, signal }, config);
+    while (true) {
+      const next = await stream.next();
+      touch();
+      if (next.done) return next.value;
+      text += next.value;
+      onText(text);
+    }
+  }, () => text === '');
+};
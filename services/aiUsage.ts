@@ -0,0 +1,119 @@
+/**
+ * AI Usage
+ * Estimated cost of recorded AI calls (see supabaseService's usage ledger) and
+ * per-day / per-feature summaries for the usage view in Settings. Prices are
+ * list prices in USD per million tokens and only an estimate of the real bill.
+ */
+
+import { format, parseISO } from 'date-fns';
+import { AIUsageEntry } from '../types';
+
+interface ModelPrice {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M response tokens (thinking included)
+}
+
+// Matched by model-name prefix, longest prefix first
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro': { input: 2.0, output: 12.0 },
+  'gemini-3-flash': { input: 0.5, output: 3.0 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.0 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10.0 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2.0, output: 8.0 },
+};
+
+// Local models cost nothing per call
+const FREE_PROVIDERS = ['ollama', 'mock'];
+
+const FEATURE_LABELS: Record<string, string> = {
+  validateApiKey: 'Key check',
+  generateWeeklyPlan: 'Weekly plan',
+  regenerateSingleMeal: 'Regenerate meal',
+  suggestMealAlternatives: 'Meal alternatives',
+  smartEditMeals: 'Smart edit',
+  askPlanningAssistant: 'Planning assistant',
+  generateGroceryList: 'Grocery list',
+  generateGroceryListFromSchedule: 'Grocery list (calendar)',
+  parsePreferencesFromText: 'Preference import',
+  optimizePreferencesFromHistory: 'Preference tuning',
+  getLearningSuggestions: 'Learning suggestions',
+  translateTerms: 'Translation',
+  generateRecipe: 'Recipe',
+  estimateNutrition: 'Nutrition estimate',
+  estimatePantryUsage: 'Pantry usage',
+  detectIngredientsFromPhoto: 'Pantry photo',
+  extractReceiptItems: 'Receipt scan',
+  classifyDishIngredients: 'Diet check',
+};
+
+export const getFeatureLabel = (feature: string): string => FEATURE_LABELS[feature] || feature;
+
+const getModelPrice = (entry: Pick<AIUsageEntry, 'provider' | 'model'>): ModelPrice | null => {
+  if (FREE_PROVIDERS.includes(entry.provider)) return { input: 0, output: 0 };
+  const model = entry.model.toLowerCase().replace(/^models\//, '');
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(p => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : null;
+};
+
+// USD, or null when the model's price is unknown
+export const estimateCost = (entry: AIUsageEntry): number | null => {
+  const price = getModelPrice(entry);
+  if (!price) return null;
+  return (entry.promptTokens * price.input + entry.responseTokens * price.output) / 1_000_000;
+};
+
+export interface UsageSummary {
+  key: string; // Day (yyyy-MM-dd) or feature name
+  label: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  responseTokens: number;
+  cost: number; // USD, for calls with a known price
+  unpricedCalls: number;
+}
+
+const summarize = (entries: AIUsageEntry[], keyOf: (entry: AIUsageEntry) => string, labelOf: (key: string) => string): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>();
+  entries.forEach(entry => {
+    const key = keyOf(entry);
+    const group = groups.get(key) || {
+      key, label: labelOf(key), calls: 0, failures: 0, promptTokens: 0, responseTokens: 0, cost: 0, unpricedCalls: 0
+    };
+    const cost = estimateCost(entry);
+    group.calls++;
+    if (!entry.success) group.failures++;
+    group.promptTokens += entry.promptTokens;
+    group.responseTokens += entry.responseTokens;
+    if (cost === null) group.unpricedCalls++;
+    else group.cost += cost;
+    groups.set(key, group);
+  });
+  return [...groups.values()];
+};
+
+// Newest day first
+export const summarizeUsageByDay = (entries: AIUsageEntry[]): UsageSummary[] =>
+  summarize(entries, e => format(parseISO(e.createdAt), 'yyyy-MM-dd'), key => format(parseISO(key), 'EEE, MMM d'))
+    .sort((a, b) => b.key.localeCompare(a.key));
+
+// Most expensive feature first, then most calls
+export const summarizeUsageByFeature = (entries: AIUsageEntry[]): UsageSummary[] =>
+  summarize(entries, e => e.feature, getFeatureLabel)
+    .sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+
+export const summarizeUsageTotal = (entries: AIUsageEntry[]): UsageSummary =>
+  summarize(entries, () => 'total', () => 'Total')[0] || {
+    key: 'total', label: 'Total', calls: 0, failures: 0, promptTokens: 0, responseTokens: 0, cost: 0, unpricedCalls: 0
+  };
+
+// "$0.0042" for small amounts, "$1.27" otherwise
+export const formatCost = (usd: number): string =>
+  usd > 0 && usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
@@ -1,96 +1,54 @@
-import { GoogleGenAI, Type, ThinkingLevel } from "@google/genai";
-import { WeeklyPlan, UserPreferences, GroceryItem, DayPlan, MealHistoryEntry } from "../types";
+import { WeeklyPlan, UserPreferences, GroceryItem, DayPlan, MealHistoryEntry, Recipe, NutritionInfo, PantryItem, PromptTemplateRef, ScheduledDay, MealAlternative, DetectedIngredient, ScannedReceipt, AssistantMessage, PlanEdit } from "../types";
 import { MealLearningSummary } from "./supabaseService";
-
-// Types for AI Configuration
-export interface AIConfig {
-  apiKey: string;
-  modelName: string;
-}
-
-// Validate API key by making a test request
-export const validateApiKey = async (apiKey: string): Promise<boolean> => {
+import { AIConfig, AIImageInput, AIInvalidKeyError, AIProviderError, ResponseSchema, generateAIContent, isAIConfigured, isAbortError, streamAIContent } from "./aiProvider";
+import { AIResponseValidationError, generateStructuredContent, validateDetectedIngredientsResponse, validateGroceryItemsResponse, validateAssistantResponse, validateMealAlternativesResponse, validateReceiptResponse, validateSmartEditResponse, validateWeeklyPlanResponse } from "./structuredOutput";
+import { getSeasonalContext } from "./seasonalContext";
+import { extractCompleteArrayItems } from "./streamingJson";
+import { buildHouseholdPromptContext, getHouseholdAllergies, getHouseholdPortions } from "./household";
+import { PANTRY_CATEGORIES, PANTRY_UNITS, PantryUsage, formatPantryForPrompt } from "./pantry";
+import { buildObservancePromptContext, getPlanWeekStart } from "./observances";
+import { formatTermMap, getLanguage } from "./languages";
+import { RenderedPrompt, renderPrompt } from "./promptTemplates";
+import { DEFAULT_PLAN_DAYS, assignPlanDates, getDayNameForDate, getPlanDates, splitPlanIntoChunks } from "./planHorizon";
+import { buildMealSlotsPromptContext, formatDayMeals, getDayDishes, getDaySlots, getMealSlotLabel, getMealSlots, getPlannedSlots } from "./mealSlots";
+import { ALTERNATIVES_COUNT } from "./mealAlternatives";
+import { ASSISTANT_HISTORY_MESSAGES, AssistantDay, AssistantResponse, formatAssistantDays, toPlanEdit } from "./planningAssistant";
+import { format, parseISO } from "date-fns";
+
+// Types for AI Configuration (provider selection lives in aiProvider)
+export type { AIConfig } from "./aiProvider";
+
+// Validate provider credentials by making a test request
+export const validateApiKey = async (config: AIConfig): Promise<boolean> => {
   try {
-    const ai = new GoogleGenAI({ apiKey });
-    await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: "Say 'OK'",
-      config: { maxOutputTokens: 10 }
-    });
+    await generateAIContent({
+      feature: 'validateApiKey',
+      task: 'quickEdit',
+      prompt: "Say 'OK'",
+      maxOutputTokens: 10
+    }, config);
     return true;
   } catch (error: any) {
     console.error("API Key validation failed:", error);
-    if (error?.message?.includes("API key") || error?.status === 401 || error?.status === 403) {
-      throw new Error("Invalid API Key. Please check your Gemini API key in Settings.");
-    }
     throw error;
   }
 };
 
-// Get current season and available vegetables based on date
-const getSeasonalContext = (): { season: string; month: string; availableVegetables: string } => {
-  const now = new Date();
-  const month = now.toLocaleString('default', { month: 'long' });
-  const monthNum = now.getMonth();
-
-  let season: string;
-  let vegetables: string;
-
-  // Northern hemisphere seasons (adjust for India's climate)
-  if (monthNum >= 2 && monthNum <= 4) {
-    season = "Spring/Summer (March-May)";
-    vegetables = "tomatoes, cucumbers, bottle gourd (lauki), ridge gourd (tori), bitter gourd (karela), okra (bhindi), brinjal, green beans, capsicum, watermelon, mango, muskmelon";
-  } else if (monthNum >= 5 && monthNum <= 8) {
-    season = "Monsoon/Rainy (June-September)";
-    vegetables = "leafy greens (spinach, fenugreek), corn, mushrooms, bottle gourd, snake gourd, ivy gourd (tindora), drumstick, turmeric leaves, colocasia (arbi), yam";
-  } else if (monthNum >= 9 && monthNum <= 10) {
-    season = "Autumn/Post-Monsoon (October-November)";
-    vegetables = "carrots, beetroot, radish, cauliflower, cabbage, peas, beans, broccoli, sweet potato, turnip, pumpkin";
-  } else {
-    season = "Winter (December-February)";
-    vegetables = "cauliflower, cabbage, peas, carrots, radish (mooli), spinach (palak), mustard greens (sarson), fenugreek (methi), green garlic, broccoli, turnip, beetroot, parsnip";
-  }
-
-  return { season, month, availableVegetables: vegetables };
-};
-
-export const generateWeeklyPlan = async (
+// Plan prompt for a profile and a run of days; also used by the prompt preview in PreferencesModal
+export const buildWeeklyPlanPrompt = (
   preferences: UserPreferences,
-  config: AIConfig,
-  learningSummary?: MealLearningSummary
-): Promise<WeeklyPlan> => {
-  if (!config.apiKey) {
-    throw new Error("API Key is missing. Please configure it in Settings.");
-  }
-
-  try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
-    const { season, month, availableVegetables } = getSeasonalContext();
-
-    const schema = {
-      type: Type.OBJECT,
-      properties: {
-        days: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              day: { type: Type.STRING },
-              breakfast: { type: Type.STRING },
-              lunch: { type: Type.STRING },
-              dinner: { type: Type.STRING },
-            },
-            required: ["day", "breakfast", "lunch", "dinner"],
-          },
-        },
-      },
-      required: ["days"],
-    };
-
-    // Build learning context section if we have history
-    let learningContext = '';
-    if (learningSummary && learningSummary.totalMealCount > 0) {
-      learningContext = `
+  learningSummary?: MealLearningSummary,
+  startDate: string = getPlanWeekStart(),
+  dayCount: number = DEFAULT_PLAN_DAYS,
+  earlierMeals: string[] = [], // Meals from earlier chunks of the same plan
+  useFirst: string[] = [] // Ingredients on hand (e.g. from a fridge photo) to cook with first
+): RenderedPrompt => {
+  const { region, season, month, availableProduce } = getSeasonalContext();
+
+  // Build learning context section if we have history
+  let learningContext = '';
+  if (learningSummary && learningSummary.totalMealCount > 0) {
+    learningContext = `
     
     ## LEARNED FROM YOUR HISTORY (${learningSummary.totalMealCount} meals from last 3 months)
     The user has accepted and enjoyed these types of meals before. Use this to understand their taste:
@@ -108,161 +66,324 @@ export const generateWeeklyPlan = async (
     - Use similar cuisines and ingredients as the patterns above
     - Introduce subtle variety while respecting learned preferences
       `;
-    }
-
-    // Check if Hindi output is requested
-    const isHindi = preferences.language === 'Hindi';
+  }
 
-    // Build language instruction based on preference
-    const languageInstruction = isHindi ? `
+  // Build language instruction based on preference
+  const language = getLanguage(preferences.language);
+  const languageInstruction = language.code !== 'en' ? `
     LANGUAGE REQUIREMENT:
-    - Output ALL meal names in HINDI DEVANAGARI script (हिंदी में)
-    - Day names MUST be in Hindi: सोमवार, मंगलवार, बुधवार, गुरुवार, शुक्रवार, शनिवार, रविवार
-    - Example meal names: "पोहा", "दाल चावल", "पनीर टिक्का मसाला", "रोटी सब्जी"
-    - Keep meal names SHORT (2-4 words in Hindi)
+    - Output ALL meal names in ${language.label.toUpperCase()} (${language.script} script, ${language.nativeName})
+    - Day names MUST be in ${language.label}: ${language.dayNames.join(', ')}
+    - Example meal names: ${Object.values(language.dishes).slice(0, 4).map(m => `"${m}"`).join(', ')}
+    - Keep meal names SHORT (2-4 words in ${language.label})
+    ${language.promptNote ? `- ${language.promptNote}` : ''}
     ` : `
     LANGUAGE REQUIREMENT:
     - Output meal names in English
-    - Day names: Monday, Tuesday, Wednesday, Thursday, Friday, Saturday, Sunday
+    - Day names: ${language.dayNames.join(', ')}
     `;
 
-    const prompt = `
-    You are a professional meal planner. Generate a weekly meal plan (7 days: ${isHindi ? 'सोमवार to रविवार' : 'Monday to Sunday'}) based on these preferences:
-    
-    Dietary Type: ${preferences.dietaryType}
-    Allergies: ${preferences.allergies.join(", ") || "None"}
-    Dislikes: ${preferences.dislikes.join(", ") || "None"}
-    Breakfast Prefs: ${preferences.breakfastPreferences.join(", ") || "Any"}
-    Lunch Prefs: ${preferences.lunchPreferences.join(", ") || "Any"}
-    Dinner Prefs: ${preferences.dinnerPreferences.join(", ") || "Any"}
-    Special Instructions: ${preferences.specialInstructions || "None"}
-    Pantry Staples: ${preferences.pantryStaples.join(", ") || "Standard Indian pantry"}
-    ${languageInstruction}
-    SEASONAL CONTEXT:
-    - Current Month: ${month}
-    - Season: ${season}
-    - Fresh vegetables available in market now: ${availableVegetables}
-    ${learningContext}
-    IMPORTANT:
-    1. Prioritize seasonal vegetables that are fresh and available now.
-    2. Ensure variety - don't repeat the same dish within the week.
-    3. Balance nutrition across meals.
-    4. Make meals practical and achievable.
-    ${learningSummary && learningSummary.totalMealCount > 0 ? '5. MATCH the style of meals from user history - they know what they like!' : ''}
-    
-    Think step by step about what makes a balanced, seasonal meal plan.
-  `;
-
-    const response = await ai.models.generateContent({
-      model: config.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
+  // Optional daily nutrition targets (e.g. carb limits for a diabetic family member)
+  const targets = preferences.nutritionTargets || {};
+  const targetLines = [
+    targets.calories && `- Calories: about ${targets.calories} kcal`,
+    targets.protein && `- Protein: at least ${targets.protein} g`,
+    targets.carbs && `- Carbohydrates: at most ${targets.carbs} g`,
+    targets.fat && `- Fat: at most ${targets.fat} g`,
+    targets.fiber && `- Fibre: at least ${targets.fiber} g`,
+  ].filter(Boolean);
+  const nutritionContext = targetLines.length > 0 ? `
+    NUTRITION TARGETS (per person, per day, across all meals):
+    ${targetLines.join('\n    ')}
+    - Choose dishes and portions so each day stays close to these targets.
+    ` : '';
+
+  const dayList = getPlanDates(startDate, dayCount)
+    .map(date => `- ${getDayNameForDate(date, language.id)} (${format(parseISO(date), 'MMM d')})`)
+    .join('\n    ');
+
+  const earlierMealsContext = earlierMeals.length > 0 ? `
+    ALREADY PLANNED FOR THE EARLIER DAYS OF THIS PLAN (do not repeat these):
+    ${earlierMeals.join(', ')}
+    ` : '';
+
+  const useFirstContext = useFirst.length > 0 ? `
+    USE THESE INGREDIENTS FIRST (already in the kitchen; build the first days' meals around them so nothing goes to waste):
+    ${useFirst.join(', ')}
+    ` : '';
+
+  return renderPrompt('weekly-plan', {
+    dayCount,
+    dayList,
+    mealSlots: buildMealSlotsPromptContext(preferences),
+    dietaryType: preferences.dietaryType,
+    allergies: getHouseholdAllergies(preferences).join(", ") || "None",
+    dislikes: preferences.dislikes.join(", ") || "None",
+    specialInstructions: preferences.specialInstructions || "None",
+    pantryStaples: preferences.pantryStaples.join(", ") || "Standard Indian pantry",
+    languageInstruction,
+    region,
+    month,
+    season,
+    availableProduce,
+    nutritionContext,
+    householdContext: buildHouseholdPromptContext(preferences),
+    observanceContext: buildObservancePromptContext(startDate, dayCount, preferences),
+    learningContext,
+    earlierMealsContext,
+    useFirstContext,
+    historyRule: learningSummary && learningSummary.totalMealCount > 0 ? '5. MATCH the style of meals from user history - they know what they like!' : '',
+  });
+};
+
+export interface PlanStreamOptions {
+  onDay?: (day: DayPlan, index: number) => void; // Called as soon as a day is complete; again with the accepted day after a repair
+  onChunkReset?: (start: number, count: number) => void; // A chunk's streamed days were rejected; its repaired days follow
+  signal?: AbortSignal;
+}
+
+export const generateWeeklyPlan = async (
+  preferences: UserPreferences,
+  config: AIConfig,
+  learningSummary?: MealLearningSummary,
+  stream?: PlanStreamOptions,
+  startDate: string = getPlanWeekStart(), // Date of the plan's first day (YYYY-MM-DD), for festival and fasting rules
+  dayCount: number = DEFAULT_PLAN_DAYS,
+  useFirst: string[] = [] // Ingredients on hand to cook with first
+): Promise<WeeklyPlan> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
+  }
+
+  try {
+    const dates = getPlanDates(startDate, dayCount);
+    const days: DayPlan[] = [];
+    const slotIds = getPlannedSlots(preferences).map(s => s.id);
+    let template: PromptTemplateRef | undefined;
+
+    // Long ranges go in chunks; each chunk sees the meals already planned so dishes don't repeat
+    for (const chunk of splitPlanIntoChunks(dayCount)) {
+      const schema: ResponseSchema = {
+        type: 'object',
+        properties: {
+          days: {
+            type: 'array',
+            minItems: chunk.count,
+            maxItems: chunk.count,
+            items: {
+              type: 'object',
+              properties: {
+                day: { type: 'string' },
+                ...Object.fromEntries(slotIds.map(id => [id, { type: 'string' }])),
+              },
+              required: ["day", ...slotIds],
+            },
+          },
+        },
+        required: ["days"],
+      };
+
+      const earlierMeals = [...new Set(days.flatMap(getDayDishes))];
+      const { prompt, templateId, version } = buildWeeklyPlanPrompt(preferences, learningSummary, dates[chunk.start], chunk.count, earlierMeals, chunk.start === 0 ? useFirst : []);
+      template = { id: templateId, version };
+
+      const request = {
+        feature: 'generateWeeklyPlan',
+        task: 'planning' as const,
+        prompt,
+        schema,
         temperature: 0.7,
-        thinkingConfig: {
-          thinkingBudget: 2048
+        thinking: 2048,
+        timeoutMs: 120000, // Up to a week with thinking; streams only time out between chunks
+        signal: stream?.signal
+      };
+
+      // Streaming mode: report each day as soon as its object is closed.
+      // Repair attempts after a rejected stream are not streamed; their days are reported once accepted.
+      let emittedDays = 0;
+      const plan = await generateStructuredContent<WeeklyPlan>(request, config, {
+        validate: validateWeeklyPlanResponse(chunk.count, preferences),
+        firstAttempt: stream?.onDay
+          ? (req) => streamAIContent(req, config, (partial) => {
+            const streamed = extractCompleteArrayItems<DayPlan>(partial, 'days');
+            for (; emittedDays < streamed.length; emittedDays++) {
+              stream.onDay!(streamed[emittedDays], chunk.start + emittedDays);
+            }
+          })
+          : undefined,
+        onRepair: () => {
+          if (emittedDays > 0) stream?.onChunkReset?.(chunk.start, chunk.count);
+          emittedDays = 0;
         }
-      },
-    });
-
-    const text = response.text;
-    if (!text) {
-      throw new Error("No response from AI. Please check your API key.");
+      });
+      // Days the stream did not report, or all of them after a repair
+      for (; stream?.onDay && emittedDays < plan.days.length; emittedDays++) {
+        stream.onDay(plan.days[emittedDays], chunk.start + emittedDays);
+      }
+      days.push(...plan.days);
     }
-    return JSON.parse(text) as WeeklyPlan;
-  } catch (error: any) {
-    console.error("Error generating plan:", error);
-    const errorMessage = error?.message || '';
-    const errorStatus = error?.status;
 
-    // API Key errors
-    if (errorMessage.includes("API key") || errorMessage.includes("API_KEY") ||
-      errorStatus === 401 || errorStatus === 403) {
-      throw new Error("Invalid API Key. Please check your Gemini API key in Settings.");
+    // Day labels come from the real dates, not from the model
+    return assignPlanDates({ days, promptTemplate: template }, startDate, preferences.language);
+  } catch (error: any) {
+    // Cancelled by the user: pass the AbortError through untouched
+    if (stream?.signal?.aborted || isAbortError(error)) {
+      throw error;
     }
 
-    // Rate limiting
-    if (errorStatus === 429 || errorMessage.includes("rate") || errorMessage.includes("quota")) {
-      throw new Error("Rate limit exceeded. Please wait a moment and try again.");
+    // Still invalid after the repair attempts: keep the typed error for the caller
+    if (error instanceof AIResponseValidationError) {
+      console.error("Plan failed validation:", error.errors);
+      throw error;
     }
 
-    // Model not found
-    if (errorMessage.includes("model") && errorMessage.includes("not found")) {
-      throw new Error(`Model "${config.modelName}" not found. Try using "gemini-3-flash-preview" in Settings.`);
-    }
+    console.error("Error generating plan:", error);
 
-    // Network errors
-    if (errorMessage.includes("network") || errorMessage.includes("fetch")) {
-      throw new Error("Network error. Please check your internet connection.");
+    // Invalid key, quota, unknown model, safety block or timeout: already typed by aiProvider
+    if (error instanceof AIProviderError) {
+      throw error;
     }
 
     // Rethrow with the original message for other errors
-    throw new Error(errorMessage || "Failed to generate meal plan. Please try again.");
+    throw new Error(error?.message || "Failed to generate meal plan. Please try again.");
   }
 };
 
 export const regenerateSingleMeal = async (
   currentPlan: WeeklyPlan,
   dayIndex: number,
-  mealType: 'breakfast' | 'lunch' | 'dinner',
+  mealType: string, // Meal slot id
   preferences: UserPreferences,
-  config: AIConfig
+  config: AIConfig,
+  rejectedReasons: string[] = [], // Why earlier suggestions for this slot were rejected
+  signal?: AbortSignal
 ): Promise<string> => {
-  if (!config.apiKey) {
+  if (!isAIConfigured(config)) {
     throw new Error("API Key is missing. Please configure it in Settings.");
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
     const day = currentPlan.days[dayIndex];
-    const { season, availableVegetables } = getSeasonalContext();
+    const { region, season, availableProduce } = getSeasonalContext();
+    const slots = getMealSlots(preferences);
+    const slotLabel = getMealSlotLabel(mealType, slots);
+    const slotNotes = slots.find(s => s.id === mealType)?.notes?.trim();
 
     // Collect all existing meals to avoid duplicates
-    const existingMeals = currentPlan.days
-      .flatMap(d => [d.breakfast, d.lunch, d.dinner])
-      .filter(m => m && m.trim() !== '')
-      .map(m => m.trim());
+    const existingMeals = currentPlan.days.flatMap(getDayDishes).map(m => m.trim());
     const uniqueExistingMeals = [...new Set(existingMeals)].join(", ");
 
-    const prompt = `
-    Regenerate the ${mealType} for Day ${dayIndex + 1}.
-    Current Plan for this day:
-    Breakfast: ${day.breakfast}
-    Lunch: ${day.lunch}
-    Dinner: ${day.dinner}
-    
-    The user wants to CHANGE the ${mealType} only.
-    Preferences:
-    Dietary: ${preferences.dietaryType}
-    Allergies: ${preferences.allergies.join(", ")}
-    Dislikes: ${preferences.dislikes.join(", ")}
-    
-    Current Season: ${season}
-    Available Vegetables: ${availableVegetables}
-    
-    IMPORTANT: Do NOT suggest any of these already planned meals (avoid duplicates):
-    ${uniqueExistingMeals}
-    
-    Output ONLY the name/description of the new meal as a plain string. Make it completely different from all existing options.
-  `;
+    const { prompt } = renderPrompt('regenerate-meal', {
+      mealType: slotLabel,
+      slotNotes: slotNotes ? ` (${slotNotes})` : '',
+      dayNumber: dayIndex + 1,
+      currentMeals: getDaySlots(day, getPlannedSlots(preferences)).map(s => `${s.label}: ${day[s.id] || 'None'}`).join('\n    '),
+      dietaryType: preferences.dietaryType,
+      allergies: getHouseholdAllergies(preferences).join(", "),
+      dislikes: preferences.dislikes.join(", "),
+      householdContext: buildHouseholdPromptContext(preferences),
+      region,
+      season,
+      availableProduce,
+      existingMeals: uniqueExistingMeals,
+      rejectedSection: rejectedReasons.length > 0 ? `
+    The current ${slotLabel} was REJECTED because: ${rejectedReasons.join('; ')}.
+    The new meal must not contain any of these ingredients, not even as a side or garnish.
+    ` : '',
+    });
 
     // Use fast model with minimal thinking for fast single meal regeneration
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        temperature: 0.9,  // Higher temperature for more variety
-        thinkingConfig: { thinkingLevel: ThinkingLevel.MINIMAL }
-      }
-    });
+    const response = await generateAIContent({
+      feature: 'regenerateSingleMeal',
+      task: 'quickEdit',
+      prompt,
+      temperature: 0.9,  // Higher temperature for more variety
+      thinking: 'minimal',
+      timeoutMs: 30000,
+      signal
+    }, config);
 
     return response.text?.trim() || "Error generating meal";
   } catch (error: any) {
     console.error("Error regenerating meal:", error);
-    if (error?.message?.includes("API key") || error?.status === 401) {
-      throw new Error("Invalid API Key. Please check your settings.");
-    }
+    throw error;
+  }
+};
+
+// Ranked replacements for one meal; `excluded` holds dishes already turned down this week
+export const suggestMealAlternatives = async (
+  currentPlan: WeeklyPlan,
+  dayIndex: number,
+  mealType: string, // Meal slot id
+  preferences: UserPreferences,
+  config: AIConfig,
+  excluded: string[] = [],
+  pantry: PantryItem[] = [],
+  signal?: AbortSignal
+): Promise<MealAlternative[]> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
+  }
+
+  try {
+    const day = currentPlan.days[dayIndex];
+    const { region, season, availableProduce } = getSeasonalContext();
+    const slots = getMealSlots(preferences);
+    const slotLabel = getMealSlotLabel(mealType, slots);
+    const slotNotes = slots.find(s => s.id === mealType)?.notes?.trim();
+    const existingMeals = [...new Set(currentPlan.days.flatMap(getDayDishes).map(m => m.trim()))];
+    const stock = formatPantryForPrompt(pantry);
+
+    const schema: ResponseSchema = {
+      type: 'array',
+      minItems: 1,
+      maxItems: ALTERNATIVES_COUNT,
+      items: {
+        type: 'object',
+        properties: {
+          meal: { type: 'string', description: "The suggested dish" },
+          reason: { type: 'string', description: "Why it is a good pick, under 10 words" },
+          tag: { type: 'string', enum: ['seasonal', 'leftover', 'quick', 'variety', 'favourite'] },
+        },
+        required: ["meal", "reason", "tag"],
+      },
+    };
+
+    const { prompt } = renderPrompt('meal-alternatives', {
+      count: ALTERNATIVES_COUNT,
+      mealType: slotLabel,
+      slotNotes: slotNotes ? ` (${slotNotes})` : '',
+      dayNumber: dayIndex + 1,
+      currentMeals: getDaySlots(day, getPlannedSlots(preferences)).map(s => `${s.label}: ${day[s.id] || 'None'}`).join('\n    '),
+      dietaryType: preferences.dietaryType,
+      allergies: getHouseholdAllergies(preferences).join(", "),
+      dislikes: preferences.dislikes.join(", "),
+      householdContext: buildHouseholdPromptContext(preferences),
+      region,
+      season,
+      availableProduce,
+      pantrySection: stock ? `IN STOCK (good for "leftover" picks):
+    ${stock.split('\n').join('\n    ')}
+    ` : '',
+      existingMeals: existingMeals.join(", "),
+      rejectedSection: excluded.length > 0 ? `
+    The user already REJECTED these suggestions this week; do not offer them again:
+    ${excluded.join(", ")}
+    ` : '',
+    });
+
+    return await generateStructuredContent<MealAlternative[]>({
+      feature: 'suggestMealAlternatives',
+      task: 'quickEdit',
+      prompt,
+      schema,
+      temperature: 0.9,  // Variety across the suggestions
+      thinking: 'minimal',
+      timeoutMs: 30000,
+      signal
+    }, config, { validate: validateMealAlternativesResponse([...existingMeals, ...excluded]) });
+  } catch (error: any) {
+    console.error("Error suggesting meal alternatives:", error);
     throw error;
   }
 };
@@ -270,270 +391,312 @@ export const regenerateSingleMeal = async (
 export const smartEditMeals = async (
   currentPlan: WeeklyPlan,
   dayIndex: number,
-  mealTypes: string[],
+  mealTypes: string[], // Meal slot ids to change
+
   instruction: string,
   preferences: UserPreferences,
-  config: AIConfig
+  config: AIConfig,
+  signal?: AbortSignal
 ): Promise<Record<string, string>> => {
-  if (!config.apiKey) {
+  if (!isAIConfigured(config)) {
     throw new Error("API Key is missing. Please configure it in Settings.");
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
     const day = currentPlan.days[dayIndex];
+    const slots = getDaySlots(day, getPlannedSlots(preferences));
 
-    const schema = {
-      type: Type.OBJECT,
-      properties: {
-        breakfast: { type: Type.STRING, nullable: true },
-        lunch: { type: Type.STRING, nullable: true },
-        dinner: { type: Type.STRING, nullable: true },
-      }
+    const schema: ResponseSchema = {
+      type: 'object',
+      properties: Object.fromEntries(slots.map(s => [s.id, { type: 'string', nullable: true }])),
     };
 
-    const prompt = `
-    Edit the meal plan for Day ${dayIndex + 1} based on this instruction: "${instruction}"
-    
-    Target Meals: ${mealTypes.join(", ")}
-    
-    Current Meals:
-    Breakfast: ${day.breakfast}
-    Lunch: ${day.lunch}
-    Dinner: ${day.dinner}
-    
-    User Preferences context: ${preferences.dietaryType}, avoid ${preferences.dislikes.join(", ")}.
-    
-    Return a JSON object with keys for only the meals that changed.
-    Example: { "lunch": "New Lunch Name" }
-  `;
-
-    // Use fast model with minimal thinking for faster responses
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.5,
-        thinkingConfig: { thinkingLevel: ThinkingLevel.MINIMAL }  // Minimal thinking for speed
-      }
+    const { prompt } = renderPrompt('smart-edit', {
+      dayNumber: dayIndex + 1,
+      instruction,
+      mealTypes: mealTypes.map(id => `${id}: ${getMealSlotLabel(id, slots)}`).join(", "),
+      currentMeals: slots.map(s => `${s.label}: ${day[s.id] || 'None'}`).join('\n    '),
+      dietaryType: preferences.dietaryType,
+      dislikes: preferences.dislikes.join(", "),
     });
 
-    return JSON.parse(response.text || "{}");
+    // Use fast model with minimal thinking for faster responses
+    const updates = await generateStructuredContent<Record<string, string | null>>({
+      feature: 'smartEditMeals',
+      task: 'quickEdit',
+      prompt,
+      schema,
+      temperature: 0.5,
+      thinking: 'minimal',  // Minimal thinking for speed
+      timeoutMs: 30000,
+      signal
+    }, config, { validate: validateSmartEditResponse(mealTypes) });
+
+    // Slots left unchanged come back as null; only the new dishes are returned
+    return Object.fromEntries(
+      Object.entries(updates).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && !!entry[1].trim())
+    );
   } catch (error: any) {
+    // Cancelled by the user: pass the AbortError through untouched
+    if (signal?.aborted || isAbortError(error)) {
+      throw error;
+    }
+
+    // Still invalid after the repair attempts: keep the typed error for the caller
+    if (error instanceof AIResponseValidationError) {
+      console.error("Smart edit failed validation:", error.errors);
+      throw error;
+    }
+
     console.error("Smart Edit Error:", error);
-    if (error?.message?.includes("API key") || error?.status === 401) {
-      throw new Error("Invalid API Key. Please check your settings.");
+
+    // Invalid key, quota, unknown model, safety block or timeout: already typed by aiProvider
+    if (error instanceof AIProviderError) {
+      throw error;
     }
-    return {};
+
+    throw new Error(error?.message || "Failed to edit meals. Please try again.");
   }
 };
 
-export const generateGroceryList = async (plan: WeeklyPlan, preferences: UserPreferences, config: AIConfig): Promise<GroceryItem[]> => {
-  if (!config.apiKey) {
+// One chat turn: a reply plus proposed meal edits on the given days, for the user to review
+export const askPlanningAssistant = async (
+  message: string,
+  history: AssistantMessage[],
+  days: AssistantDay[],
+  preferences: UserPreferences,
+  config: AIConfig,
+  pantry: PantryItem[] = [],
+  signal?: AbortSignal
+): Promise<{ reply: string; edits: PlanEdit[] }> => {
+  if (!isAIConfigured(config)) {
     throw new Error("API Key is missing. Please configure it in Settings.");
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
-    const { season, availableVegetables } = getSeasonalContext();
+    const slots = getMealSlots(preferences);
+    const stock = formatPantryForPrompt(pantry);
 
-    const schema = {
-      type: Type.ARRAY,
+    const schema: ResponseSchema = {
+      type: 'object',
+      properties: {
+        reply: { type: 'string' },
+        edits: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              day: { type: 'string', description: "Day reference from the list, e.g. P3 or 2026-10-24" },
+              mealType: { type: 'string', description: "Meal slot id" },
+              meal: { type: 'string', description: "The new dish" },
+              reason: { type: 'string', description: "Why, under 10 words" },
+            },
+            required: ["day", "mealType", "meal", "reason"],
+          },
+        },
+      },
+      required: ["reply", "edits"],
+    };
+
+    const recent = history.slice(-ASSISTANT_HISTORY_MESSAGES);
+    const { prompt } = renderPrompt('planning-assistant', {
+      today: format(new Date(), 'EEEE d MMMM yyyy'),
+      slots: slots.map(s => `${s.id}: ${s.label}${s.notes?.trim() ? ` (${s.notes.trim()})` : ''}`).join('\n    '),
+      days: formatAssistantDays(days).split('\n').join('\n    '),
+      dietaryType: preferences.dietaryType,
+      allergies: getHouseholdAllergies(preferences).join(", ") || 'None',
+      dislikes: preferences.dislikes.join(", ") || 'None',
+      householdContext: buildHouseholdPromptContext(preferences),
+      pantrySection: stock ? `IN STOCK:
+    ${stock.split('\n').join('\n    ')}
+    ` : '',
+      history: recent.length > 0
+        ? recent.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}`).join('\n    ')
+        : '(new conversation)',
+      message,
+    });
+
+    const response = await generateStructuredContent<AssistantResponse>({
+      feature: 'askPlanningAssistant',
+      task: 'quickEdit',
+      prompt,
+      schema,
+      temperature: 0.5,
+      thinking: 'minimal',
+      timeoutMs: 45000,
+      signal
+    }, config, { validate: validateAssistantResponse(days) });
+
+    const edits = response.edits
+      .map(edit => toPlanEdit(days.find(d => d.ref === edit.day)!, edit.mealType, edit.meal, edit.reason))
+      .filter((edit): edit is PlanEdit => !!edit);
+    return { reply: response.reply.trim(), edits };
+  } catch (error: any) {
+    console.error("Planning assistant error:", error);
+    throw error;
+  }
+};
+
+// Scales grocery quantities to the household's adult-equivalent portions
+const groceryPortionsLine = (preferences: UserPreferences): string => {
+  const portions = getHouseholdPortions(preferences);
+  return portions
+    ? `Household size: ${portions} adult portions per meal (${preferences.householdMembers!.length} members). Scale every quantity to this.\n`
+    : '';
+};
+
+// Current stock, so the list only covers what is actually missing
+const pantryStockSection = (pantry: PantryItem[]): string => {
+  const stock = formatPantryForPrompt(pantry);
+  return stock ? `ALREADY IN STOCK (subtract these amounts; omit items fully covered):
+    ${stock.split('\n').join('\n    ')}
+    ` : '';
+};
+
+export const generateGroceryList = async (
+  plan: WeeklyPlan,
+  preferences: UserPreferences,
+  config: AIConfig,
+  signal?: AbortSignal
+): Promise<GroceryItem[]> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
+  }
+
+  try {
+    const { region, season, availableProduce } = getSeasonalContext();
+
+    const schema: ResponseSchema = {
+      type: 'array',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-          name: { type: Type.STRING },
-          amount: { type: Type.STRING },
-          category: { type: Type.STRING },
-          checked: { type: Type.BOOLEAN },
+          item: { type: 'string', description: "Name of the grocery item" },
+          quantity: { type: 'string', description: "Amount needed" },
+          category: { type: 'string', description: "Category: Vegetables, Fruits, Dairy, Proteins, Grains, Spices, or Others" },
+          checked: { type: 'boolean', description: "Always false" },
         },
-        required: ["name", "category", "amount", "checked"],
+        required: ["item", "category", "quantity", "checked"],
       },
     };
 
-    const prompt = `
-    Generate a consolidated grocery list for this weekly meal plan.
-    Combine items where possible and organize by category.
-    
-    Plan:
-    ${JSON.stringify(plan.days)}
-    
-    Pantry Staples (Assume user has these, DO NOT include unless specified otherwise):
-    ${preferences.pantryStaples.join(", ")}
-    
-    Current Season: ${season}
-    Seasonal vegetables available: ${availableVegetables}
-    
-    Categories to use: Vegetables, Fruits, Dairy, Proteins, Grains, Spices, Others
-    
-    Return JSON array of items with realistic quantities.
-  `;
-
-    const response = await ai.models.generateContent({
-      model: config.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.3,
-        thinkingConfig: { thinkingBudget: 1024 }
-      }
+    const { prompt } = renderPrompt('grocery-list', {
+      planDays: JSON.stringify(plan.days),
+      pantryStaples: preferences.pantryStaples.join(", "),
+      region,
+      season,
+      availableProduce,
+      portionsLine: groceryPortionsLine(preferences),
     });
 
-    return JSON.parse(response.text || "[]");
+    return await generateStructuredContent<GroceryItem[]>({
+      feature: 'generateGroceryList',
+      task: 'grocery',
+      prompt,
+      schema,
+      temperature: 0.3,
+      thinking: 1024,
+      signal
+    }, config, { validate: validateGroceryItemsResponse });
   } catch (error: any) {
     console.error("Grocery Gen Error:", error);
-    if (error?.message?.includes("API key") || error?.status === 401) {
-      throw new Error("Invalid API Key. Please check your settings.");
-    }
     throw error;
   }
 };
 
 // Generate grocery list from a specific week in the schedule (for calendar view)
 export const generateGroceryListFromSchedule = async (
-  meals: { date: string; breakfast: string; lunch: string; dinner: string }[],
+  meals: ScheduledDay[],
   preferences: UserPreferences,
-  config: AIConfig
+  config: AIConfig,
+  pantry: PantryItem[] = [],
+  signal?: AbortSignal
 ): Promise<GroceryItem[]> => {
-  if (!config.apiKey) {
+  if (!isAIConfigured(config)) {
     throw new Error("API Key is missing. Please configure it in Settings.");
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
-    const { season, availableVegetables } = getSeasonalContext();
+    const { region, season, availableProduce } = getSeasonalContext();
 
-    const schema = {
-      type: Type.ARRAY,
+    const schema: ResponseSchema = {
+      type: 'array',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-          item: { type: Type.STRING, description: "Name of the grocery item" },
-          quantity: { type: Type.STRING, description: "Amount needed" },
-          category: { type: Type.STRING, description: "Category: Vegetables, Fruits, Dairy, Proteins, Grains, Spices, or Others" },
-          checked: { type: Type.BOOLEAN, description: "Always false" },
+          item: { type: 'string', description: "Name of the grocery item" },
+          quantity: { type: 'string', description: "Amount needed" },
+          category: { type: 'string', description: "Category: Vegetables, Fruits, Dairy, Proteins, Grains, Spices, or Others" },
+          checked: { type: 'boolean', description: "Always false" },
         },
         required: ["item", "category", "quantity", "checked"],
       },
     };
 
 
-    const mealsList = meals.map(m =>
-      `${m.date}: Breakfast: ${m.breakfast || 'None'}, Lunch: ${m.lunch || 'None'}, Dinner: ${m.dinner || 'None'}`
-    ).join('\n');
+    const slots = getMealSlots(preferences);
+    const mealsList = meals.map(m => `${m.date}: ${formatDayMeals(m, slots)}`).join('\n');
 
-    const prompt = `
-    Generate a consolidated grocery list for these scheduled meals.
-    Combine items where possible and organize by category.
-    
-    Scheduled Meals:
-    ${mealsList}
-    
-    Pantry Staples (Assume user has these, DO NOT include):
-    ${preferences.pantryStaples.join(", ")}
-    
-    Current Season: ${season}
-    Seasonal vegetables available: ${availableVegetables}
-    
-    Categories to use: Vegetables, Fruits, Dairy, Proteins, Grains, Spices, Others
-    
-    Return JSON array of items with realistic quantities.
-  `;
-
-    // Use fast model for grocery list generation
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.3,
-        thinkingConfig: { thinkingLevel: ThinkingLevel.MINIMAL }
-      }
+    const { prompt } = renderPrompt('grocery-list-schedule', {
+      mealsList,
+      pantryStaples: preferences.pantryStaples.join(", "),
+      pantryStock: pantryStockSection(pantry),
+      region,
+      season,
+      availableProduce,
+      portionsLine: groceryPortionsLine(preferences),
     });
 
-    return JSON.parse(response.text || "[]");
+    // Use fast model for grocery list generation
+    return await generateStructuredContent<GroceryItem[]>({
+      feature: 'generateGroceryListFromSchedule',
+      task: 'grocery',
+      prompt,
+      schema,
+      temperature: 0.3,
+      thinking: 'minimal',
+      signal
+    }, config, { validate: validateGroceryItemsResponse });
   } catch (error: any) {
     console.error("Grocery Gen from Schedule Error:", error);
-    if (error?.message?.includes("API key") || error?.status === 401) {
-      throw new Error("Invalid API Key. Please check your settings.");
-    }
     throw error;
   }
 };
 
 export const parsePreferencesFromText = async (text: string, config: AIConfig): Promise<Partial<UserPreferences>> => {
-  if (!config.apiKey) {
+  if (!isAIConfigured(config)) {
     throw new Error("API Key is missing. Please configure it in Settings.");
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
-    const { season, month, availableVegetables } = getSeasonalContext();
+    const { region, season, month, availableProduce } = getSeasonalContext();
 
-    const schema = {
-      type: Type.OBJECT,
+    const schema: ResponseSchema = {
+      type: 'object',
       properties: {
-        dietaryType: { type: Type.STRING },
-        allergies: { type: Type.ARRAY, items: { type: Type.STRING } },
-        dislikes: { type: Type.ARRAY, items: { type: Type.STRING } },
-        breakfastPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-        lunchPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-        dinnerPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-        specialInstructions: { type: Type.STRING },
-        pantryStaples: { type: Type.ARRAY, items: { type: Type.STRING } }
+        dietaryType: { type: 'string' },
+        allergies: { type: 'array', items: { type: 'string' } },
+        dislikes: { type: 'array', items: { type: 'string' } },
+        breakfastPreferences: { type: 'array', items: { type: 'string' } },
+        lunchPreferences: { type: 'array', items: { type: 'string' } },
+        dinnerPreferences: { type: 'array', items: { type: 'string' } },
+        specialInstructions: { type: 'string' },
+        pantryStaples: { type: 'array', items: { type: 'string' } }
       }
     };
 
-    const prompt = `
-    You are an expert meal planning assistant. Analyze the user's input and extract detailed culinary preferences.
-    
-    User Input: "${text}"
-    
-    CONTEXT:
-    - Current Month: ${month}
-    - Season: ${season}
-    - Seasonal vegetables available now: ${availableVegetables}
-    
-    TASK:
-    1. Extract ALL preferences mentioned or implied in the text.
-    2. For meal preferences (breakfast, lunch, dinner), suggest specific dish ideas based on:
-       - What the user mentioned
-       - Seasonal ingredients available now
-       - Common complementary dishes
-    3. If the user mentions general preferences (e.g., "healthy", "quick meals"), translate these into specific dish suggestions for EACH meal category.
-    4. Add relevant pantry staples based on the cuisine/dietary preferences mentioned.
-    5. Include any special dietary instructions or cooking preferences.
-    
-    Think carefully about:
-    - What type of cuisine does the user prefer?
-    - What seasonal dishes would complement their preferences?
-    - What specific breakfast, lunch, and dinner options would they enjoy?
-    
-    Return comprehensive preferences that will help generate a great meal plan.
-  `;
-
-    const response = await ai.models.generateContent({
-      model: config.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.2,  // Low temperature for consistent, focused extraction
-        thinkingConfig: { thinkingBudget: 2048 }  // Use thinking tokens for better analysis
-      }
-    });
+    const { prompt } = renderPrompt('parse-preferences', { text, region, month, season, availableProduce });
 
-    const result = JSON.parse(response.text || "{}");
-    return result;
+    return await generateStructuredContent<Partial<UserPreferences>>({
+      feature: 'parsePreferencesFromText',
+      task: 'analysis',
+      prompt,
+      schema,
+      temperature: 0.2,  // Low temperature for consistent, focused extraction
+      thinking: 2048  // Use thinking tokens for better analysis
+    }, config);
   } catch (error: any) {
     console.error("Parse preferences error:", error);
-    if (error?.message?.includes("API key") || error?.status === 401) {
-      throw new Error("Invalid API Key. Please check your settings.");
-    }
     throw error;
   }
 };
@@ -543,12 +706,11 @@ export const optimizePreferencesFromHistory = async (
   history: MealHistoryEntry[],
   config: AIConfig
 ): Promise<UserPreferences> => {
-  if (!config.apiKey) {
+  if (!isAIConfigured(config)) {
     throw new Error("API Key is missing. Please configure it in Settings.");
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
 
     // Filter for rated meals
     const liked = history.filter(h => h.rating === 'liked').map(h => h.mealName);
@@ -556,53 +718,39 @@ export const optimizePreferencesFromHistory = async (
 
     if (liked.length === 0 && disliked.length === 0) return currentPrefs;
 
-    const schema = {
-      type: Type.OBJECT,
+    const schema: ResponseSchema = {
+      type: 'object',
       properties: {
-        dietaryType: { type: Type.STRING },
-        allergies: { type: Type.ARRAY, items: { type: Type.STRING } },
-        dislikes: { type: Type.ARRAY, items: { type: Type.STRING } },
-        breakfastPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-        lunchPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-        dinnerPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-        specialInstructions: { type: Type.STRING },
-        pantryStaples: { type: Type.ARRAY, items: { type: Type.STRING } }
+        dietaryType: { type: 'string' },
+        allergies: { type: 'array', items: { type: 'string' } },
+        dislikes: { type: 'array', items: { type: 'string' } },
+        breakfastPreferences: { type: 'array', items: { type: 'string' } },
+        lunchPreferences: { type: 'array', items: { type: 'string' } },
+        dinnerPreferences: { type: 'array', items: { type: 'string' } },
+        specialInstructions: { type: 'string' },
+        pantryStaples: { type: 'array', items: { type: 'string' } }
       },
       required: ["dietaryType", "allergies", "dislikes", "breakfastPreferences", "lunchPreferences", "dinnerPreferences", "specialInstructions", "pantryStaples"]
     };
 
-    const prompt = `
-        Analyze the user's feedback to OPTIMIZE their preferences.
-        
-        Current Preferences: ${JSON.stringify(currentPrefs)}
-        
-        New Feedback:
-        Liked Meals: ${liked.join(", ")}
-        Disliked Meals: ${disliked.join(", ")}
-        
-        Task:
-        1. Add traits of liked meals to preferences (e.g. if they liked "Spicy Tacos", maybe add "Mexican" or "Spicy" to prefs).
-        2. Add traits of disliked meals to 'Dislikes' list.
-        3. Refine dietary type if needed.
-        
-        Return the complete updated preference profile JSON.
-     `;
-
-    const response = await ai.models.generateContent({
-      model: config.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.3,
-        thinkingConfig: { thinkingBudget: 1024 }
-      }
+    const { prompt } = renderPrompt('optimize-preferences', {
+      currentPrefs: JSON.stringify(currentPrefs),
+      liked: liked.join(", "),
+      disliked: disliked.join(", "),
     });
-    return JSON.parse(response.text || JSON.stringify(currentPrefs));
+
+    return await generateStructuredContent<UserPreferences>({
+      feature: 'optimizePreferencesFromHistory',
+      task: 'analysis',
+      prompt,
+      schema,
+      temperature: 0.3,
+      thinking: 1024
+    }, config);
   } catch (error: any) {
     console.error("Optimize preferences error:", error);
-    if (error?.message?.includes("API key") || error?.status === 401) {
-      throw new Error("Invalid API Key. Please check your settings.");
+    if (error instanceof AIInvalidKeyError) {
+      throw error;
     }
     return currentPrefs;
   }
@@ -627,7 +775,7 @@ export const getLearningSuggestions = async (
   history: MealHistoryEntry[],
   config: AIConfig
 ): Promise<LearningSuggestions> => {
-  if (!config.apiKey) {
+  if (!isAIConfigured(config)) {
     throw new Error("API Key is missing. Please configure it in Settings.");
   }
 
@@ -645,21 +793,20 @@ export const getLearningSuggestions = async (
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
 
-    const schema = {
-      type: Type.OBJECT,
+    const schema: ResponseSchema = {
+      type: 'object',
       properties: {
-        summary: { type: Type.STRING },
-        likedPatterns: { type: Type.ARRAY, items: { type: Type.STRING } },
-        dislikedPatterns: { type: Type.ARRAY, items: { type: Type.STRING } },
+        summary: { type: 'string' },
+        likedPatterns: { type: 'array', items: { type: 'string' } },
+        dislikedPatterns: { type: 'array', items: { type: 'string' } },
         suggestedAdditions: {
-          type: Type.OBJECT,
+          type: 'object',
           properties: {
-            breakfastPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-            lunchPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-            dinnerPreferences: { type: Type.ARRAY, items: { type: Type.STRING } },
-            dislikes: { type: Type.ARRAY, items: { type: Type.STRING } }
+            breakfastPreferences: { type: 'array', items: { type: 'string' } },
+            lunchPreferences: { type: 'array', items: { type: 'string' } },
+            dinnerPreferences: { type: 'array', items: { type: 'string' } },
+            dislikes: { type: 'array', items: { type: 'string' } }
           },
           required: ["breakfastPreferences", "lunchPreferences", "dinnerPreferences", "dislikes"]
         }
@@ -667,35 +814,20 @@ export const getLearningSuggestions = async (
       required: ["summary", "likedPatterns", "dislikedPatterns", "suggestedAdditions"]
     };
 
-    const prompt = `
-        Analyze this user's meal history feedback and provide learning suggestions.
-        
-        Liked Meals: ${liked.join(", ")}
-        Disliked Meals: ${disliked.join(", ")}
-        
-        Current Preferences: ${JSON.stringify(currentPrefs)}
-        
-        Task:
-        1. Identify patterns in liked meals (e.g., "South Indian", "Spicy", "Light", "Protein-rich")
-        2. Identify patterns in disliked meals (e.g., "Too heavy", "Bland", specific ingredients)
-        3. Suggest NEW items to add to preferences (don't repeat what's already there)
-        4. Write a friendly 1-2 sentence summary of what you learned
-        
-        Be concise but insightful. Focus on actionable patterns, not just listing the meals.
-     `;
-
-    const response = await ai.models.generateContent({
-      model: config.modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.4,
-        thinkingConfig: { thinkingBudget: 1024 }
-      }
+    const { prompt } = renderPrompt('learning-suggestions', {
+      liked: liked.join(", "),
+      disliked: disliked.join(", "),
+      currentPrefs: JSON.stringify(currentPrefs),
     });
 
-    const result = JSON.parse(response.text || "{}");
+    const result = await generateStructuredContent<Omit<LearningSuggestions, 'totalMealsAnalyzed'>>({
+      feature: 'getLearningSuggestions',
+      task: 'analysis',
+      prompt,
+      schema,
+      temperature: 0.4,
+      thinking: 1024
+    }, config);
     return {
       ...result,
       totalMealsAnalyzed: liked.length + disliked.length
@@ -706,157 +838,421 @@ export const getLearningSuggestions = async (
   }
 };
 
-// Translate content to Hindi using AI
-export interface TranslatedMealPlan {
-  days: {
-    day: string;
-    breakfast: string;
-    lunch: string;
-    dinner: string;
-  }[];
-}
+// Translate dish or grocery names to any registered language (see languages.ts) using AI.
+// Callers consult the translation glossary first and only send terms it lacks.
+export const translateTerms = async (
+  terms: string[],
+  kind: 'dish' | 'ingredient',
+  languageId: string,
+  config: AIConfig,
+  vocabulary: Record<string, string> = {} // User-approved translations to stay consistent with
+): Promise<Record<string, string>> => {
+  const language = getLanguage(languageId);
+  if (terms.length === 0 || language.code === 'en') return {};
+  if (!isAIConfigured(config)) {
+    throw new Error("API key required for translation. Please add it in Settings.");
+  }
 
-export interface TranslatedGroceryItem {
-  item: string;
-  quantity: string;
-  category: string;
-  checked: boolean;
-}
+  try {
+    const schema: ResponseSchema = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          source: { type: 'string', description: "The name exactly as given" },
+          translation: { type: 'string' },
+        },
+        required: ["source", "translation"],
+      },
+    };
 
-export const translateMealPlanToHindi = async (
-  plan: { days: { day: string; breakfast: string; lunch: string; dinner: string }[] },
-  config: AIConfig
-): Promise<TranslatedMealPlan> => {
-  if (!config.apiKey) {
-    throw new Error("API Key is missing for translation.");
+    const rules = kind === 'dish' ? `
+    1. Keep meal names SHORT and CONCISE (max 3-4 words in ${language.label})
+    2. Use authentic ${language.label} names: ${formatTermMap(language.dishes)}
+    3. Drop extras like "with..." - keep only main dish names
+    ` : `
+    1. Use the everyday market name a cook would say: ${formatTermMap(language.groceries)}
+    2. Translate only the item name; leave brand names as they are
+    `;
+    const spelling = language.promptNote ? `SPELLING: ${language.promptNote}` : '';
+    const vocabularyLines = Object.keys(vocabulary).length > 0 ? `
+    HOUSEHOLD VOCABULARY (reuse these exact words wherever they appear):
+    ${formatTermMap(vocabulary)}
+    ` : '';
+
+    const { prompt } = renderPrompt('translate-terms', {
+      subject: kind === 'dish' ? 'meal names for a shareable menu card' : 'grocery item names for a shopping list',
+      languageLabel: language.label,
+      script: language.script,
+      scriptRequirement: `${language.label.toUpperCase()} ${language.script.toUpperCase()}`,
+      rules,
+      spelling,
+      vocabulary: vocabularyLines,
+      terms: JSON.stringify(terms),
+    });
+
+    const result = await generateStructuredContent<{ source: string; translation: string }[]>({
+      feature: 'translateTerms',
+      task: 'translation',
+      prompt,
+      schema,
+      temperature: 0.3,
+      thinking: 512
+    }, config);
+    const translations: Record<string, string> = {};
+    result.forEach(({ source, translation }) => {
+      if (terms.includes(source) && translation?.trim()) translations[source] = translation.trim();
+    });
+    return translations;
+  } catch (error: any) {
+    console.error("Translation error:", error);
+    // Untranslated names stay in English
+    return {};
   }
+};
 
-  try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+// Generate a cookable recipe for a planned meal (stored via supabaseService)
+export type GeneratedRecipe = Omit<Recipe, 'id' | 'createdAt'>;
+
+export const generateRecipe = async (
+  mealName: string,
+  servings: number,
+  preferences: UserPreferences,
+  config: AIConfig,
+  signal?: AbortSignal
+): Promise<GeneratedRecipe> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
+  }
 
-    const schema = {
-      type: Type.OBJECT,
+  try {
+    const schema: ResponseSchema = {
+      type: 'object',
       properties: {
-        days: {
-          type: Type.ARRAY,
+        ingredients: {
+          type: 'array',
           items: {
-            type: Type.OBJECT,
+            type: 'object',
             properties: {
-              day: { type: Type.STRING },
-              breakfast: { type: Type.STRING },
-              lunch: { type: Type.STRING },
-              dinner: { type: Type.STRING },
+              name: { type: 'string' },
+              quantity: { type: 'string', description: "Amount with unit for the given servings, e.g. '200 g', '2 tbsp', 'to taste'" },
             },
-            required: ["day", "breakfast", "lunch", "dinner"],
+            required: ["name", "quantity"],
           },
         },
+        steps: { type: 'array', items: { type: 'string' } },
+        prepTimeMinutes: { type: 'integer' },
+        cookTimeMinutes: { type: 'integer' },
+        tips: { type: 'array', items: { type: 'string' } },
       },
-      required: ["days"],
+      required: ["ingredients", "steps", "prepTimeMinutes", "cookTimeMinutes", "tips"],
     };
 
-    const prompt = `
-    Translate this meal plan to Hindi (Devanagari script) for display on a shareable menu card.
-    
-    CRITICAL: The JSON structure must use ENGLISH keys (day, breakfast, lunch, dinner) but the VALUES must be in HINDI DEVANAGARI SCRIPT.
-    
-    FORMATTING RULES:
-    1. Keep meal names SHORT and CONCISE (max 3-4 words in Hindi Devanagari)
-    2. Use authentic Hindi names: "Poha" → "पोहा", "Dal Tadka" → "दाल तड़का"
-    3. Drop extras like "with..." - keep only main dish names
-    4. Example JSON output format:
-       {
-         "days": [
-           { "day": "सोमवार", "breakfast": "पोहा", "lunch": "दाल चावल", "dinner": "रोटी सब्जी" }
-         ]
-       }
-    
-    Day translations: Monday → सोमवार, Tuesday → मंगलवार, Wednesday → बुधवार, 
-    Thursday → गुरुवार, Friday → शुक्रवार, Saturday → शनिवार, Sunday → रविवार
-    
-    Meal Plan to translate:
-    ${JSON.stringify(plan.days)}
-    
-    Return JSON with SHORT Hindi Devanagari meal names that fit in a menu card.
-    `;
+    const language = getLanguage(preferences.language);
+
+    const { prompt } = renderPrompt('recipe', {
+      mealName,
+      servings,
+      dietaryType: preferences.dietaryType,
+      allergies: getHouseholdAllergies(preferences).join(", ") || "None",
+      dislikes: preferences.dislikes.join(", ") || "None",
+      specialInstructions: preferences.specialInstructions || "None",
+      pantryStaples: preferences.pantryStaples.join(", ") || "Standard Indian pantry",
+      householdContext: buildHouseholdPromptContext(preferences),
+      languageRule: language.code !== 'en' ? `6. Write ingredient names, steps and tips in ${language.label.toUpperCase()} (${language.script} script). ${language.promptNote || ''}` : '',
+    });
+
+    const result = await generateStructuredContent<Omit<GeneratedRecipe, 'mealName' | 'servings'>>({
+      feature: 'generateRecipe',
+      task: 'recipe',
+      prompt,
+      schema,
+      temperature: 0.4,
+      thinking: 1024,
+      signal
+    }, config, {
+      validate: (recipe) => [
+        ...(recipe.ingredients.length === 0 ? ['The recipe has no ingredients'] : []),
+        ...(recipe.steps.length === 0 ? ['The recipe has no steps'] : []),
+      ]
+    });
+    return {
+      mealName,
+      servings,
+      ingredients: result.ingredients || [],
+      steps: result.steps || [],
+      prepTimeMinutes: result.prepTimeMinutes || 0,
+      cookTimeMinutes: result.cookTimeMinutes || 0,
+      tips: result.tips || [],
+    };
+  } catch (error: any) {
+    console.error("Recipe generation error:", error);
+    throw error;
+  }
+};
+
+// Estimate nutrition for one adult serving of each dish (cached by nutritionService)
+export const estimateNutrition = async (
+  dishes: string[],
+  config: AIConfig
+): Promise<Record<string, NutritionInfo>> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
+  }
+  if (dishes.length === 0) return {};
+
+  try {
+    const schema: ResponseSchema = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          dish: { type: 'string', description: "The dish name exactly as given" },
+          calories: { type: 'number', description: "kcal" },
+          protein: { type: 'number', description: "grams" },
+          carbs: { type: 'number', description: "grams" },
+          fat: { type: 'number', description: "grams" },
+          fiber: { type: 'number', description: "grams" },
+        },
+        required: ["dish", "calories", "protein", "carbs", "fat", "fiber"],
+      },
+    };
+
+    const { prompt } = renderPrompt('nutrition-estimate', {
+      dishes: dishes.map(d => `- ${d}`).join('\n    '),
+    });
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.3,
-        thinkingConfig: { thinkingBudget: 512 }
+    const entries = await generateStructuredContent<({ dish: string } & NutritionInfo)[]>({
+      feature: 'estimateNutrition',
+      task: 'analysis',
+      prompt,
+      schema,
+      temperature: 0.1,
+      thinking: 512
+    }, config);
+    const result: Record<string, NutritionInfo> = {};
+    entries.forEach(({ dish, calories, protein, carbs, fat, fiber }, index) => {
+      // Match the echoed name loosely, falling back to list order
+      const name = dishes.find(d => d.trim().toLowerCase() === dish?.trim().toLowerCase())
+        || (entries.length === dishes.length ? dishes[index] : undefined);
+      if (name) {
+        result[name] = { calories, protein, carbs, fat, fiber };
       }
     });
+    return result;
+  } catch (error: any) {
+    console.error("Nutrition estimation error:", error);
+    throw error;
+  }
+};
 
-    return JSON.parse(response.text || JSON.stringify(plan));
+// Ingredients and rough quantities in a fridge or pantry photo, for the user to confirm
+export const detectIngredientsFromPhoto = async (
+  image: AIImageInput,
+  config: AIConfig,
+  signal?: AbortSignal
+): Promise<DetectedIngredient[]> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
+  }
+
+  try {
+    const schema: ResponseSchema = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: "Common grocery name" },
+          quantity: { type: 'number', description: "Approximate amount visible" },
+          unit: { type: 'string', enum: PANTRY_UNITS },
+          category: { type: 'string', enum: PANTRY_CATEGORIES },
+        },
+        required: ["name", "quantity", "unit", "category"],
+      },
+    };
+
+    const { prompt } = renderPrompt('pantry-photo', {
+      categories: PANTRY_CATEGORIES.join(", "),
+      units: PANTRY_UNITS.join(", "),
+    });
+
+    return await generateStructuredContent<DetectedIngredient[]>({
+      feature: 'detectIngredientsFromPhoto',
+      task: 'vision',
+      prompt,
+      images: [image],
+      schema,
+      temperature: 0.2,
+      timeoutMs: 60000,
+      signal
+    }, config, { validate: validateDetectedIngredientsResponse });
   } catch (error: any) {
-    console.error("Translation error:", error);
-    // Return original plan if translation fails
-    return plan as TranslatedMealPlan;
+    console.error("Photo ingredient detection error:", error);
+    throw error;
   }
 };
 
-export const translateGroceryListToHindi = async (
-  items: { item: string; quantity: string; category: string; checked: boolean }[],
+// Line items and prices from a photo or PDF of a grocery bill, matched to the items of a shopping list
+export const extractReceiptItems = async (
+  document: AIImageInput,
+  listItems: string[],
+  config: AIConfig,
+  signal?: AbortSignal
+): Promise<ScannedReceipt> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
+  }
+
+  try {
+    const schema: ResponseSchema = {
+      type: 'object',
+      properties: {
+        store: { type: 'string' },
+        purchasedOn: { type: 'string', description: "Bill date as YYYY-MM-DD, or empty" },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: "Common grocery name without brand or pack size" },
+              quantity: { type: 'number' },
+              unit: { type: 'string', enum: PANTRY_UNITS },
+              category: { type: 'string', enum: PANTRY_CATEGORIES },
+              price: { type: 'number', description: "Amount paid for the whole line" },
+              listItem: { type: 'string', description: "Matching shopping list item, copied exactly, or empty" },
+            },
+            required: ["name", "quantity", "unit", "category", "price", "listItem"],
+          },
+        },
+      },
+      required: ["store", "purchasedOn", "items"],
+    };
+
+    const { prompt } = renderPrompt('receipt', {
+      listItems: listItems.length > 0 ? listItems.map(item => `- ${item}`).join('\n    ') : '(none saved)',
+      categories: PANTRY_CATEGORIES.join(", "),
+      units: PANTRY_UNITS.join(", "),
+    });
+
+    const receipt = await generateStructuredContent<ScannedReceipt>({
+      feature: 'extractReceiptItems',
+      task: 'vision',
+      prompt,
+      images: [document],
+      schema,
+      temperature: 0.1,
+      timeoutMs: 90000,
+      signal
+    }, config, { validate: validateReceiptResponse(listItems) });
+
+    return {
+      store: receipt.store?.trim() || undefined,
+      purchasedOn: receipt.purchasedOn || undefined,
+      items: receipt.items.map(item => ({ ...item, name: item.name.trim(), listItem: item.listItem || undefined })),
+    };
+  } catch (error: any) {
+    console.error("Receipt extraction error:", error);
+    throw error;
+  }
+};
+
+// Estimate how much of each pantry item a day's meals consume
+export const estimatePantryUsage = async (
+  meals: string[],
+  pantry: PantryItem[],
+  preferences: UserPreferences,
   config: AIConfig
-): Promise<TranslatedGroceryItem[]> => {
-  if (!config.apiKey) {
-    throw new Error("API Key is missing for translation.");
+): Promise<PantryUsage[]> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
   }
+  const stock = formatPantryForPrompt(pantry);
+  if (meals.length === 0 || !stock) return [];
 
   try {
-    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+    const schema: ResponseSchema = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          itemId: { type: 'string', description: "The id in square brackets from the pantry list" },
+          quantityUsed: { type: 'number', description: "Amount consumed, in that item's unit" },
+        },
+        required: ["itemId", "quantityUsed"],
+      },
+    };
 
-    const schema = {
-      type: Type.ARRAY,
+    const portions = getHouseholdPortions(preferences);
+
+    const { prompt } = renderPrompt('pantry-usage', {
+      meals: meals.map(m => `- ${m}`).join('\n    '),
+      servings: portions ? `${portions} adult portions per meal` : 'a typical family of 4',
+      stock: stock.split('\n').join('\n    '),
+    });
+
+    const usage = await generateStructuredContent<PantryUsage[]>({
+      feature: 'estimatePantryUsage',
+      task: 'analysis',
+      prompt,
+      schema,
+      temperature: 0.1,
+      thinking: 512
+    }, config);
+    return usage.filter(u => pantry.some(item => item.id === u.itemId));
+  } catch (error: any) {
+    console.error("Pantry usage estimation error:", error);
+    throw error;
+  }
+};
+
+// Classify which ingredient groups each dish contains (used by mealValidator)
+export const classifyDishIngredients = async (
+  dishes: string[],
+  tags: readonly string[],
+  config: AIConfig
+): Promise<Record<string, string[]>> => {
+  if (!isAIConfigured(config)) {
+    throw new Error("API Key is missing. Please configure it in Settings.");
+  }
+  if (dishes.length === 0) return {};
+
+  try {
+    const schema: ResponseSchema = {
+      type: 'array',
       items: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-          item: { type: Type.STRING },
-          quantity: { type: Type.STRING },
-          category: { type: Type.STRING },
-          checked: { type: Type.BOOLEAN },
+          dish: { type: 'string', description: "The dish name exactly as given" },
+          contains: { type: 'array', items: { type: 'string', enum: [...tags] } },
         },
-        required: ["item", "quantity", "category", "checked"],
+        required: ["dish", "contains"],
       },
     };
 
-    const prompt = `
-    Translate this grocery list to Hindi (Devanagari script) for display.
-    
-    CRITICAL: Use ENGLISH keys (item, quantity, category, checked) but VALUES in HINDI DEVANAGARI SCRIPT.
-    
-    Translations:
-    - Items: "Tomatoes" → "टमाटर", "Onions" → "प्याज", "Rice" → "चावल"
-    - Categories: Vegetables → सब्जियां, Fruits → फल, Dairy → डेयरी, Proteins → प्रोटीन, Grains → अनाज, Spices → मसाले, Others → अन्य
-    - Quantities: "500g" → "500 ग्राम", "1 kg" → "1 किलो", "2 pieces" → "2 टुकड़े"
-    
-    Example output:
-    [{ "item": "टमाटर", "quantity": "500 ग्राम", "category": "सब्जियां", "checked": false }]
-    
-    Grocery List to translate:
-    ${JSON.stringify(items)}
-    
-    Return JSON array with Hindi Devanagari values.
-    `;
+    const { prompt } = renderPrompt('classify-dishes', {
+      tags: tags.join(', '),
+      dishes: dishes.map(d => `- ${d}`).join('\n    '),
+    });
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-        temperature: 0.3,
-        thinkingConfig: { thinkingBudget: 512 }
+    const entries = await generateStructuredContent<{ dish: string; contains: string[] }[]>({
+      feature: 'classifyDishIngredients',
+      task: 'analysis',
+      prompt,
+      schema,
+      temperature: 0.1,
+      thinking: 512
+    }, config);
+    const result: Record<string, string[]> = {};
+    entries.forEach(({ dish, contains }, index) => {
+      const name = dishes.find(d => d.trim().toLowerCase() === dish?.trim().toLowerCase())
+        || (entries.length === dishes.length ? dishes[index] : undefined);
+      if (name) {
+        result[name] = (contains || []).filter(tag => tags.includes(tag));
       }
     });
-
-    return JSON.parse(response.text || JSON.stringify(items));
+    return result;
   } catch (error: any) {
-    console.error("Translation error:", error);
-    // Return original items if translation fails
-    return items;
+    console.error("Dish classification error:", error);
+    throw error;
   }
 };
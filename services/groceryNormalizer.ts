@@ -0,0 +1,235 @@
+/**
+ * Grocery Normalizer
+ * The model writes quantities as free text ("500g", "0.5 kg", "2 bunches")
+ * and names the same ingredient differently from call to call ("Tamatar",
+ * "Tomatoes"). This module parses quantities into canonical units, merges
+ * duplicate items (including Hindi/English synonyms) and rounds totals up to
+ * sizes that can actually be bought. Every list goes through
+ * consolidateGroceryItems before it is shown, so merging two lists is just
+ * consolidating their concatenation.
+ */
+
+import { GroceryItem } from '../types';
+
+// Canonical families; mass is kept in grams and volume in millilitres
+export type QuantityUnit = 'g' | 'ml' | 'pcs' | 'bunch' | 'pack';
+
+export interface ParsedQuantity {
+  amount: number;
+  unit: QuantityUnit;
+}
+
+const UNIT_ALIASES: Record<string, { unit: QuantityUnit; factor: number }> = {
+  g: { unit: 'g', factor: 1 }, gm: { unit: 'g', factor: 1 }, gms: { unit: 'g', factor: 1 }, gram: { unit: 'g', factor: 1 }, grams: { unit: 'g', factor: 1 },
+  kg: { unit: 'g', factor: 1000 }, kgs: { unit: 'g', factor: 1000 }, kilo: { unit: 'g', factor: 1000 }, kilos: { unit: 'g', factor: 1000 }, kilogram: { unit: 'g', factor: 1000 }, kilograms: { unit: 'g', factor: 1000 },
+  ml: { unit: 'ml', factor: 1 }, millilitre: { unit: 'ml', factor: 1 }, millilitres: { unit: 'ml', factor: 1 }, milliliter: { unit: 'ml', factor: 1 }, milliliters: { unit: 'ml', factor: 1 },
+  l: { unit: 'ml', factor: 1000 }, ltr: { unit: 'ml', factor: 1000 }, ltrs: { unit: 'ml', factor: 1000 }, litre: { unit: 'ml', factor: 1000 }, litres: { unit: 'ml', factor: 1000 }, liter: { unit: 'ml', factor: 1000 }, liters: { unit: 'ml', factor: 1000 },
+  pc: { unit: 'pcs', factor: 1 }, pcs: { unit: 'pcs', factor: 1 }, piece: { unit: 'pcs', factor: 1 }, pieces: { unit: 'pcs', factor: 1 }, no: { unit: 'pcs', factor: 1 }, nos: { unit: 'pcs', factor: 1 },
+  dozen: { unit: 'pcs', factor: 12 }, dz: { unit: 'pcs', factor: 12 },
+  bunch: { unit: 'bunch', factor: 1 }, bunches: { unit: 'bunch', factor: 1 }, gaddi: { unit: 'bunch', factor: 1 },
+  pack: { unit: 'pack', factor: 1 }, packs: { unit: 'pack', factor: 1 }, packet: { unit: 'pack', factor: 1 }, packets: { unit: 'pack', factor: 1 }, pkt: { unit: 'pack', factor: 1 }, pkts: { unit: 'pack', factor: 1 },
+};
+
+// Size words that still mean a count, e.g. "6 medium"
+const COUNT_WORDS = ['small', 'medium', 'large', 'big', 'whole'];
+
+// Sizes sold in shops; larger amounts round up to the next 500 g / 500 ml
+const PACK_SIZES: Partial<Record<QuantityUnit, number[]>> = {
+  g: [50, 100, 200, 250, 500, 1000],
+  ml: [100, 200, 250, 500, 1000],
+};
+const LARGE_PACK_STEP = 500;
+
+const UNICODE_FRACTIONS: Record<string, string> = { '½': ' 1/2', '¼': ' 1/4', '¾': ' 3/4' };
+
+// Canonical English name, then Hindi/Hinglish names and common variants (singular, lowercase).
+// Bare names that also mean another ingredient, e.g. "chilli" (red, powder), "coriander"
+// (seeds, powder), "methi" (seeds), "gobi" (cabbage) or "sarson" (greens), are left out
+// so those stay separate items.
+const GROCERY_SYNONYMS: Record<string, string[]> = {
+  'Tomato': ['tamatar', 'टमाटर'],
+  'Onion': ['pyaz', 'pyaaz', 'kanda', 'प्याज'],
+  'Potato': ['aloo', 'alu', 'batata', 'आलू'],
+  'Ginger': ['adrak', 'अदरक'],
+  'Garlic': ['lehsun', 'lahsun', 'lasun', 'लहसुन'],
+  'Green Chilli': ['hari mirch', 'hari mirchi', 'green chili', 'green chilly', 'हरी मिर्च'],
+  'Coriander Leaves': ['dhania', 'dhaniya', 'hara dhania', 'coriander leaf', 'fresh coriander', 'cilantro', 'धनिया'],
+  'Mint Leaves': ['pudina', 'mint', 'पुदीना'],
+  'Curry Leaves': ['kadi patta', 'kadhi patta', 'curry patta', 'curry leave'],
+  'Spinach': ['palak', 'पालक'],
+  'Fenugreek Leaves': ['methi leaf', 'methi patta', 'fresh methi', 'मेथी पत्ता'],
+  'Cauliflower': ['phool gobhi', 'phool gobi', 'फूलगोभी'],
+  'Cabbage': ['patta gobhi', 'band gobhi', 'patta gobi', 'पत्ता गोभी'],
+  'Okra': ['bhindi', 'lady finger', 'ladyfinger', 'भिंडी'],
+  'Brinjal': ['baingan', 'eggplant', 'aubergine', 'बैंगन'],
+  'Bottle Gourd': ['lauki', 'doodhi', 'ghiya', 'लौकी'],
+  'Bitter Gourd': ['karela', 'करेला'],
+  'Cucumber': ['kheera', 'khira', 'खीरा'],
+  'Capsicum': ['shimla mirch', 'bell pepper', 'शिमला मिर्च'],
+  'Carrot': ['gajar', 'गाजर'],
+  'Green Peas': ['matar', 'mutter', 'pea', 'मटर'],
+  'Lemon': ['nimbu', 'neembu', 'नींबू'],
+  'Milk': ['doodh', 'दूध'],
+  'Curd': ['dahi', 'yogurt', 'yoghurt', 'दही'],
+  'Paneer': ['cottage cheese', 'पनीर'],
+  'Eggs': ['anda', 'ande', 'अंडा'],
+  'Rice': ['chawal', 'चावल'],
+  'Atta': ['wheat flour', 'whole wheat flour', 'gehun ka atta', 'आटा'],
+  'Besan': ['gram flour', 'chickpea flour', 'बेसन'],
+  'Toor Dal': ['arhar dal', 'tuvar dal', 'toor daal', 'arhar daal', 'pigeon pea', 'तूर दाल', 'अरहर दाल'],
+  'Moong Dal': ['moong daal', 'mung dal', 'मूंग दाल'],
+  'Chana': ['kabuli chana', 'chickpea', 'chole', 'garbanzo', 'छोले'],
+  'Rajma': ['kidney bean', 'red kidney bean', 'राजमा'],
+  'Turmeric Powder': ['haldi', 'turmeric', 'हल्दी'],
+  'Cumin Seeds': ['jeera', 'zeera', 'cumin', 'जीरा'],
+  'Mustard Seeds': ['rai', 'mustard seed', 'राई'],
+  'Cardamom': ['elaichi', 'ilaichi', 'इलायची'],
+  'Salt': ['namak', 'नमक'],
+  'Sugar': ['cheeni', 'chini', 'शक्कर', 'चीनी'],
+  'Ghee': ['घी'],
+  'Mustard Oil': ['sarson ka tel', 'sarson tel'],
+};
+
+// ============================================================================
+// NAMES
+// ============================================================================
+
+// Lowercase words without punctuation or notes in brackets; keeps Devanagari
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/\([^)]*\)/g, ' ').replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+
+const singularize = (word: string): string => {
+  if (/llies$/.test(word)) return word.replace(/llies$/, 'lli');
+  if (/oes$/.test(word)) return word.replace(/oes$/, 'o');
+  if (/ies$/.test(word)) return word.replace(/ies$/, 'y');
+  if (/(ch|sh|x)es$/.test(word)) return word.replace(/es$/, '');
+  if (/[^s]s$/.test(word) && word.length > 3) return word.slice(0, -1);
+  return word;
+};
+
+const SYNONYM_LOOKUP: Record<string, string> = Object.fromEntries(
+  Object.entries(GROCERY_SYNONYMS).flatMap(([canonical, aliases]) =>
+    [canonical, ...aliases].map(alias => [normalizeName(alias).split(' ').map(singularize).join(' '), canonical])
+  )
+);
+
+const toLookupKey = (name: string): string => normalizeName(name).split(' ').map(singularize).join(' ');
+
+// English display name for a known ingredient, e.g. "Tamatar" -> "Tomato"
+export const getCanonicalGroceryName = (name: string): string | undefined => SYNONYM_LOOKUP[toLookupKey(name)];
+
+// Equal for the same ingredient under any known name or plural, e.g. "Tomatoes", "tamatar", "Tomato (desi)"
+export const getGroceryKey = (name: string): string => {
+  const key = toLookupKey(name);
+  const canonical = SYNONYM_LOOKUP[key];
+  return canonical ? toLookupKey(canonical) : key;
+};
+
+// ============================================================================
+// QUANTITIES
+// ============================================================================
+
+const parseNumber = (text: string): number => {
+  const parts = text.trim().split(/\s+/);
+  return parts.reduce((sum, part) => {
+    const [num, den] = part.split('/');
+    return sum + (den ? Number(num) / Number(den) : Number(num));
+  }, 0);
+};
+
+const NUMBER = '\\d+(?:\\.\\d+)?(?:\\s+\\d+\\/\\d+)?|\\d+\\/\\d+';
+const QUANTITY_PATTERN = new RegExp(`^(${NUMBER})(?:\\s*(?:-|–|to)\\s*(${NUMBER}))?\\s*([\\p{L}]+)?\\.?$`, 'u');
+
+// One amount such as "500g", "1/2 kg", "2-3 bunches" or "6 medium"; null for "to taste" and the like.
+// Ranges use the upper bound so there is enough.
+const parseSingleQuantity = (text: string): ParsedQuantity | null => {
+  const match = text.trim().toLowerCase().match(QUANTITY_PATTERN);
+  if (!match) return null;
+  const amount = parseNumber(match[2] || match[1]);
+  if (!(amount > 0)) return null;
+
+  const word = match[3];
+  if (!word || COUNT_WORDS.includes(word)) return { amount, unit: 'pcs' };
+  const alias = UNIT_ALIASES[word];
+  return alias ? { amount: amount * alias.factor, unit: alias.unit } : null;
+};
+
+// Parses "1 kg + 500 g" style text into amounts per unit; `rest` keeps the parts that are not amounts
+export const parseQuantity = (text: string): { amounts: ParsedQuantity[]; rest: string[] } => {
+  let cleaned = text;
+  Object.entries(UNICODE_FRACTIONS).forEach(([symbol, fraction]) => { cleaned = cleaned.split(symbol).join(fraction); });
+  // Number commas before splitting on commas: "1,5 kg" is a decimal, "1,000 g" has a thousands separator
+  cleaned = cleaned.replace(/(\d),(\d{1,2})(?!\d)/g, '$1.$2').replace(/(\d),(?=\d{3}(?!\d))/g, '$1');
+  cleaned = cleaned.replace(/\([^)]*\)/g, ' ').replace(/^\s*(approx\.?|approximately|about|around|~)\s*/i, '');
+
+  const amounts: ParsedQuantity[] = [];
+  const rest: string[] = [];
+  cleaned.split(/\s*(?:\+|,|\band\b)\s*/).filter(part => part.trim()).forEach(part => {
+    const parsed = parseSingleQuantity(part.replace(/^\s*(approx\.?|approximately|about|around|~)\s*/i, ''));
+    if (parsed) amounts.push(parsed);
+    else rest.push(part.trim());
+  });
+  return { amounts, rest };
+};
+
+// Up to the next size sold in shops; counts round up to whole units
+export const roundToPackSize = ({ amount, unit }: ParsedQuantity): ParsedQuantity => {
+  const sizes = PACK_SIZES[unit];
+  if (!sizes) return { amount: Math.ceil(amount - 1e-9), unit };
+  const size = sizes.find(s => s >= amount - 1e-9);
+  return { amount: size ?? Math.ceil(amount / LARGE_PACK_STEP - 1e-9) * LARGE_PACK_STEP, unit };
+};
+
+// "1.5 kg", "250 g", "2 bunches"
+export const formatQuantity = ({ amount, unit }: ParsedQuantity): string => {
+  const round = (n: number) => Math.round(n * 100) / 100;
+  if (unit === 'g') return amount >= 1000 ? `${round(amount / 1000)} kg` : `${round(amount)} g`;
+  if (unit === 'ml') return amount >= 1000 ? `${round(amount / 1000)} L` : `${round(amount)} ml`;
+  if (unit === 'bunch') return `${round(amount)} ${amount === 1 ? 'bunch' : 'bunches'}`;
+  if (unit === 'pack') return `${round(amount)} ${amount === 1 ? 'pack' : 'packs'}`;
+  return `${round(amount)} pcs`;
+};
+
+// Adds up amounts per unit, rounds each to a pack size and keeps the unparsed notes
+export const combineQuantities = (quantities: string[]): string => {
+  const totals = new Map<QuantityUnit, number>();
+  const notes: string[] = [];
+  quantities.forEach(quantity => {
+    const { amounts, rest } = parseQuantity(quantity);
+    amounts.forEach(({ amount, unit }) => totals.set(unit, (totals.get(unit) || 0) + amount));
+    rest.forEach(note => {
+      if (!notes.some(n => n.toLowerCase() === note.toLowerCase())) notes.push(note);
+    });
+  });
+
+  return [
+    ...[...totals.entries()].map(([unit, amount]) => formatQuantity(roundToPackSize({ amount, unit }))),
+    ...notes,
+  ].join(' + ');
+};
+
+// ============================================================================
+// LISTS
+// ============================================================================
+
+// One entry per ingredient, in order of first appearance. A merged item is only
+// checked when every copy was, so nothing still needed is hidden as bought.
+export const consolidateGroceryItems = (items: GroceryItem[]): GroceryItem[] => {
+  const groups = new Map<string, GroceryItem[]>();
+  items.forEach(item => {
+    if (!item.item?.trim()) return;
+    const key = getGroceryKey(item.item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+
+  return [...groups.values()].map(group => ({
+    item: getCanonicalGroceryName(group[0].item) || group[0].item.trim(),
+    quantity: combineQuantities(group.map(i => i.quantity || '')),
+    category: group.find(i => i.category)?.category || 'Others',
+    checked: group.every(i => i.checked),
+  }));
+};
+
+// A saved list added to the current one
+export const mergeGroceryLists = (current: GroceryItem[], added: GroceryItem[]): GroceryItem[] =>
+  consolidateGroceryItems([...current, ...added]);
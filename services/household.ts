@@ -0,0 +1,71 @@
+/**
+ * Household
+ * Helpers for the household members attached to a preference profile:
+ * combined constraints, portion totals and the prompt section that asks the
+ * AI for meals everyone can eat (or per-member variants).
+ */
+
+import { HouseholdMember, UserPreferences, AgeGroup } from '../types';
+import { AGE_GROUP_OPTIONS, SPICE_TOLERANCE_OPTIONS } from '../constants';
+
+export const createHouseholdMember = (ageGroup: AgeGroup = 'adult'): HouseholdMember => ({
+  id: `member_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+  name: '',
+  ageGroup,
+  dietaryTypes: ['Vegetarian'],
+  allergies: [],
+  spiceTolerance: 'medium',
+  portionFactor: AGE_GROUP_OPTIONS.find(a => a.value === ageGroup)?.portionFactor ?? 1,
+});
+
+const getMembers = (preferences: Pick<UserPreferences, 'householdMembers'>): HouseholdMember[] =>
+  preferences.householdMembers || [];
+
+// Adult-equivalent portions per meal, or undefined when no members are set up
+export const getHouseholdPortions = (preferences: Pick<UserPreferences, 'householdMembers'>): number | undefined => {
+  const members = getMembers(preferences);
+  if (members.length === 0) return undefined;
+  return Math.round(members.reduce((sum, m) => sum + (m.portionFactor || 0), 0) * 10) / 10;
+};
+
+// Profile allergies plus every member's; a shared dish must avoid all of them
+export const getHouseholdAllergies = (preferences: UserPreferences): string[] => {
+  const all = [...preferences.allergies, ...getMembers(preferences).flatMap(m => m.allergies)];
+  const seen = new Set<string>();
+  return all.filter(a => {
+    const key = a.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const describeMember = (member: HouseholdMember): string => {
+  const age = AGE_GROUP_OPTIONS.find(a => a.value === member.ageGroup)?.label || member.ageGroup;
+  const spice = SPICE_TOLERANCE_OPTIONS.find(s => s.value === member.spiceTolerance)?.label || member.spiceTolerance;
+  return [
+    `${member.name || 'Unnamed'} (${age})`,
+    `diet: ${member.dietaryTypes.join(' / ') || 'Any'}`,
+    `allergies: ${member.allergies.join(', ') || 'None'}`,
+    `spice: ${spice}`,
+    `portion: ${member.portionFactor}x adult`,
+  ].join('; ');
+};
+
+// Prompt section for plan/meal generation; empty when no members are set up
+export const buildHouseholdPromptContext = (preferences: UserPreferences): string => {
+  const members = getMembers(preferences);
+  if (members.length === 0) return '';
+
+  return `
+    HOUSEHOLD (cook for all of these people):
+    ${members.map(m => `- ${describeMember(m)}`).join('\n    ')}
+
+    HOUSEHOLD RULES:
+    - Never use any member's allergen in a shared dish: ${getHouseholdAllergies(preferences).join(', ') || 'None'}.
+    - Prefer ONE dish that works for everyone (vegetarian base when diets differ, spice adjustable at the end).
+    - If one dish cannot suit everyone, keep a shared base and add short per-member variants in brackets,
+      e.g. "Dal Tadka with Rice [Aarav: + Chicken Curry; Baby: plain dal, no chilli]".
+    - Toddlers get soft, mild, low-salt food; respect each member's spice tolerance.
+    `;
+};
@@ -0,0 +1,66 @@
+/**
+ * Image Input
+ * Turns a photo from the camera or a file picker into the base64 payload the
+ * AI providers accept. Large photos are scaled down and re-encoded as JPEG
+ * first, which keeps uploads small and well within model image limits.
+ * PDFs (e.g. bills from online orders) are sent as they are.
+ */
+
+import { AIImageInput } from './aiProvider';
+
+// Longest side after scaling; enough to read labels on packets and jars
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+
+// Inline PDF payloads are limited by the providers; bills are far smaller
+const MAX_PDF_BYTES = 10 * 1024 * 1024;
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error('Could not read the photo.'));
+    reader.readAsDataURL(file);
+  });
+
+// "data:image/jpeg;base64,..." -> { mimeType, data }
+const fromDataUrl = (dataUrl: string): AIImageInput => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  if (!match) throw new Error('Could not read the photo.');
+  return { mimeType: match[1], data: match[2] };
+};
+
+export const readImageFile = async (file: File): Promise<AIImageInput> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose a photo (JPEG, PNG or WebP).');
+  }
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return fromDataUrl(canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+  } catch {
+    // The browser cannot decode this format (e.g. HEIC): send the original file
+    return fromDataUrl(await readAsDataUrl(file));
+  }
+};
+
+// A photo of a paper bill or the PDF of an online order
+export const readReceiptFile = async (file: File): Promise<AIImageInput> => {
+  if (file.type.startsWith('image/')) return readImageFile(file);
+  if (file.type !== 'application/pdf') {
+    throw new Error('Please choose a photo or a PDF of the bill.');
+  }
+  if (file.size > MAX_PDF_BYTES) {
+    throw new Error('This PDF is too large. Please choose a file under 10 MB.');
+  }
+  return fromDataUrl(await readAsDataUrl(file));
+};
+
+// For <img src>, e.g. a preview of the photo being analysed
+export const toImageSrc = (image: AIImageInput): string => `data:${image.mimeType};base64,${image.data}`;
@@ -0,0 +1,226 @@
+/**
+ * Languages
+ * Output languages for menus, grocery lists, recipes and share cards. Prompts,
+ * translations and card labels all read from this registry; add a language here
+ * to support it everywhere.
+ */
+
+export interface ShareCardLabels {
+  mealPlan: string;
+  groceryList: string;
+  dates: string;
+  breakfast: string;
+  lunch: string;
+  dinner: string;
+  footer: string;
+}
+
+export interface LanguageDefinition {
+  id: string; // Stored in UserPreferences.language, e.g. 'Hindi'
+  code: string; // BCP 47, e.g. 'hi' or 'hi-Latn' for romanized Hindi
+  label: string;
+  nativeName: string;
+  script: string; // Writing system the AI must use, e.g. 'Devanagari'
+  promptNote?: string; // Extra spelling guidance for AI output
+  dayNames: string[]; // Monday first
+  labels: ShareCardLabels;
+  categories: Record<string, string>; // Grocery categories (English -> native)
+  units: Record<string, string>; // Quantity units (English -> native)
+  dishes: Record<string, string>; // Example dish names for prompts (English -> native)
+  groceries: Record<string, string>; // Example grocery names for prompts (English -> native)
+}
+
+export const DEFAULT_LANGUAGE_ID = 'English';
+
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    id: 'English',
+    code: 'en',
+    label: 'English',
+    nativeName: 'English',
+    script: 'Latin',
+    dayNames: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+    labels: {
+      mealPlan: 'Weekly Meal Plan',
+      groceryList: 'Grocery Shopping List',
+      dates: 'Dates',
+      breakfast: 'Breakfast',
+      lunch: 'Lunch',
+      dinner: 'Dinner',
+      footer: 'Generated by AI',
+    },
+    categories: {},
+    units: {},
+    dishes: {},
+    groceries: {},
+  },
+  {
+    id: 'Hindi',
+    code: 'hi',
+    label: 'Hindi',
+    nativeName: 'हिंदी',
+    script: 'Devanagari',
+    dayNames: ['सोमवार', 'मंगलवार', 'बुधवार', 'गुरुवार', 'शुक्रवार', 'शनिवार', 'रविवार'],
+    labels: {
+      mealPlan: 'साप्ताहिक भोजन योजना',
+      groceryList: 'किराने की सूची',
+      dates: 'तारीख',
+      breakfast: 'नाश्ता',
+      lunch: 'दोपहर',
+      dinner: 'रात',
+      footer: 'AI द्वारा बनाया गया',
+    },
+    categories: {
+      Vegetables: 'सब्जियां', Fruits: 'फल', Dairy: 'डेयरी', Proteins: 'प्रोटीन',
+      Grains: 'अनाज', Spices: 'मसाले', Others: 'अन्य',
+    },
+    units: { g: 'ग्राम', kg: 'किलो', pieces: 'टुकड़े' },
+    dishes: {
+      'Poha': 'पोहा', 'Dal Tadka': 'दाल तड़का', 'Dal Rice': 'दाल चावल', 'Roti Sabzi': 'रोटी सब्जी',
+    },
+    groceries: { 'Tomatoes': 'टमाटर', 'Onions': 'प्याज', 'Rice': 'चावल' },
+  },
+  {
+    id: 'Hinglish',
+    code: 'hi-Latn',
+    label: 'Hinglish',
+    nativeName: 'Hinglish',
+    script: 'Latin',
+    promptNote: 'Write Hindi words in plain Roman letters without accents, spelled the way a cook says them (aloo, gobi, tamatar, pyaaz). Never switch to English words, and spell each dish and ingredient the same way every time.',
+    dayNames: ['Somvaar', 'Mangalvaar', 'Budhvaar', 'Guruvaar', 'Shukravaar', 'Shanivaar', 'Ravivaar'],
+    labels: {
+      mealPlan: 'Hafte ka Khana',
+      groceryList: 'Kirana List',
+      dates: 'Tareekh',
+      breakfast: 'Nashta',
+      lunch: 'Dopahar',
+      dinner: 'Raat',
+      footer: 'AI dwara banaya gaya',
+    },
+    categories: {
+      Vegetables: 'Sabziyan', Fruits: 'Phal', Dairy: 'Doodh aur Dahi', Proteins: 'Protein',
+      Grains: 'Anaaj', Spices: 'Masale', Others: 'Baaki',
+    },
+    units: { g: 'gram', kg: 'kilo', pieces: 'nag' },
+    dishes: {
+      'Potato Cauliflower Curry': 'Aloo Gobi', 'Dal Rice': 'Dal Chawal', 'Kidney Bean Curry with Rice': 'Rajma Chawal', 'Roti with Vegetables': 'Roti Sabzi',
+    },
+    groceries: { 'Tomatoes': 'tamatar', 'Onions': 'pyaaz', 'Rice': 'chawal' },
+  },
+  {
+    id: 'Marathi',
+    code: 'mr',
+    label: 'Marathi',
+    nativeName: 'मराठी',
+    script: 'Devanagari',
+    dayNames: ['सोमवार', 'मंगळवार', 'बुधवार', 'गुरुवार', 'शुक्रवार', 'शनिवार', 'रविवार'],
+    labels: {
+      mealPlan: 'साप्ताहिक जेवण योजना',
+      groceryList: 'किराणा यादी',
+      dates: 'तारीख',
+      breakfast: 'नाश्ता',
+      lunch: 'दुपार',
+      dinner: 'रात्र',
+      footer: 'AI ने तयार केले',
+    },
+    categories: {
+      Vegetables: 'भाज्या', Fruits: 'फळे', Dairy: 'दुग्धजन्य', Proteins: 'प्रथिने',
+      Grains: 'धान्य', Spices: 'मसाले', Others: 'इतर',
+    },
+    units: { g: 'ग्रॅम', kg: 'किलो', pieces: 'नग' },
+    dishes: {
+      'Poha': 'पोहे', 'Dal Tadka': 'डाळ तडका', 'Dal Rice': 'वरण भात', 'Roti Sabzi': 'पोळी भाजी',
+    },
+    groceries: { 'Tomatoes': 'टोमॅटो', 'Onions': 'कांदे', 'Rice': 'तांदूळ' },
+  },
+  {
+    id: 'Tamil',
+    code: 'ta',
+    label: 'Tamil',
+    nativeName: 'தமிழ்',
+    script: 'Tamil',
+    dayNames: ['திங்கள்', 'செவ்வாய்', 'புதன்', 'வியாழன்', 'வெள்ளி', 'சனி', 'ஞாயிறு'],
+    labels: {
+      mealPlan: 'வார உணவுத் திட்டம்',
+      groceryList: 'மளிகைப் பட்டியல்',
+      dates: 'தேதி',
+      breakfast: 'காலை',
+      lunch: 'மதியம்',
+      dinner: 'இரவு',
+      footer: 'AI மூலம் உருவாக்கப்பட்டது',
+    },
+    categories: {
+      Vegetables: 'காய்கறிகள்', Fruits: 'பழங்கள்', Dairy: 'பால் பொருட்கள்', Proteins: 'புரதம்',
+      Grains: 'தானியங்கள்', Spices: 'மசாலா', Others: 'மற்றவை',
+    },
+    units: { g: 'கிராம்', kg: 'கிலோ', pieces: 'துண்டுகள்' },
+    dishes: {
+      'Poha': 'அவல் உப்புமா', 'Dal Tadka': 'பருப்பு தட்கா', 'Dal Rice': 'பருப்பு சாதம்', 'Roti Sabzi': 'சப்பாத்தி குருமா',
+    },
+    groceries: { 'Tomatoes': 'தக்காளி', 'Onions': 'வெங்காயம்', 'Rice': 'அரிசி' },
+  },
+  {
+    id: 'Bengali',
+    code: 'bn',
+    label: 'Bengali',
+    nativeName: 'বাংলা',
+    script: 'Bengali',
+    dayNames: ['সোমবার', 'মঙ্গলবার', 'বুধবার', 'বৃহস্পতিবার', 'শুক্রবার', 'শনিবার', 'রবিবার'],
+    labels: {
+      mealPlan: 'সাপ্তাহিক খাবারের তালিকা',
+      groceryList: 'বাজারের তালিকা',
+      dates: 'তারিখ',
+      breakfast: 'জলখাবার',
+      lunch: 'দুপুর',
+      dinner: 'রাত',
+      footer: 'AI দ্বারা তৈরি',
+    },
+    categories: {
+      Vegetables: 'সবজি', Fruits: 'ফল', Dairy: 'দুগ্ধজাত', Proteins: 'প্রোটিন',
+      Grains: 'শস্য', Spices: 'মশলা', Others: 'অন্যান্য',
+    },
+    units: { g: 'গ্রাম', kg: 'কেজি', pieces: 'পিস' },
+    dishes: {
+      'Poha': 'চিঁড়ের পোলাও', 'Dal Tadka': 'ডাল তড়কা', 'Dal Rice': 'ডাল ভাত', 'Roti Sabzi': 'রুটি তরকারি',
+    },
+    groceries: { 'Tomatoes': 'টমেটো', 'Onions': 'পেঁয়াজ', 'Rice': 'চাল' },
+  },
+  {
+    id: 'Kannada',
+    code: 'kn',
+    label: 'Kannada',
+    nativeName: 'ಕನ್ನಡ',
+    script: 'Kannada',
+    dayNames: ['ಸೋಮವಾರ', 'ಮಂಗಳವಾರ', 'ಬುಧವಾರ', 'ಗುರುವಾರ', 'ಶುಕ್ರವಾರ', 'ಶನಿವಾರ', 'ಭಾನುವಾರ'],
+    labels: {
+      mealPlan: 'ವಾರದ ಊಟದ ಯೋಜನೆ',
+      groceryList: 'ದಿನಸಿ ಪಟ್ಟಿ',
+      dates: 'ದಿನಾಂಕ',
+      breakfast: 'ತಿಂಡಿ',
+      lunch: 'ಮಧ್ಯಾಹ್ನ',
+      dinner: 'ರಾತ್ರಿ',
+      footer: 'AI ಮೂಲಕ ರಚಿಸಲಾಗಿದೆ',
+    },
+    categories: {
+      Vegetables: 'ತರಕಾರಿಗಳು', Fruits: 'ಹಣ್ಣುಗಳು', Dairy: 'ಹಾಲಿನ ಉತ್ಪನ್ನಗಳು', Proteins: 'ಪ್ರೋಟೀನ್',
+      Grains: 'ಧಾನ್ಯಗಳು', Spices: 'ಮಸಾಲೆಗಳು', Others: 'ಇತರೆ',
+    },
+    units: { g: 'ಗ್ರಾಂ', kg: 'ಕೆಜಿ', pieces: 'ತುಂಡುಗಳು' },
+    dishes: {
+      'Poha': 'ಅವಲಕ್ಕಿ ಒಗ್ಗರಣೆ', 'Dal Tadka': 'ದಾಲ್ ತಡ್ಕಾ', 'Dal Rice': 'ಸಾರು ಅನ್ನ', 'Roti Sabzi': 'ಚಪಾತಿ ಪಲ್ಯ',
+    },
+    groceries: { 'Tomatoes': 'ಟೊಮೇಟೊ', 'Onions': 'ಈರುಳ್ಳಿ', 'Rice': 'ಅಕ್ಕಿ' },
+  },
+];
+
+// Unknown or missing ids fall back to English
+export const getLanguage = (id?: string): LanguageDefinition =>
+  LANGUAGES.find(l => l.id === id || l.code === id) || LANGUAGES[0];
+
+export const isEnglish = (id?: string): boolean => getLanguage(id).code === 'en';
+
+export const getDayNames = (id?: string): string[] => getLanguage(id).dayNames;
+
+// '"Tomatoes" → "टमाटर", "Onions" → "प्याज"' for translation prompts
+export const formatTermMap = (map: Record<string, string>): string =>
+  Object.entries(map).map(([en, native]) => `"${en}" → "${native}"`).join(', ');
@@ -0,0 +1,270 @@
+/**
+ * Local Store
+ * IndexedDB storage behind supabaseService. Every record is kept on this
+ * device first; services/syncQueue.ts copies changes to Supabase. Holds three
+ * object stores: the records themselves, the pending outbound mutations, and
+ * small bookkeeping values (when a collection was last pulled, legacy imports).
+ * Device caches, such as AI estimates per dish, are records too but are never
+ * synced: they are cheap to rebuild and belong to no account.
+ * Falls back to memory when IndexedDB is unavailable, in which case data only
+ * lasts for the session.
+ */
+
+const DB_NAME = 'qookcommander';
+const DB_VERSION = 1;
+
+const RECORDS_STORE = 'records';
+const MUTATIONS_STORE = 'mutations';
+const META_STORE = 'meta';
+
+// One app record, e.g. a pantry item or a calendar day
+export interface StoredRecord<T = any> {
+  key: string; // See recordKey
+  userId: string;
+  collection: string; // Collection name from syncQueue, e.g. 'pantry'
+  id: string; // Unique within the collection, e.g. the item id or a date
+  data: T;
+  createdAt: string; // ISO timestamp; collections are read in this order
+  updatedAt: string; // ISO timestamp, compared with the row's updated_at when syncing
+}
+
+// A change waiting to be sent to Supabase; one per record, the latest wins
+export interface Mutation {
+  key: string; // Key of the record it changes
+  userId: string;
+  collection: string;
+  id: string;
+  op: 'upsert' | 'delete';
+  data: any; // Record data; for deletes, the last copy, to find its row
+  updatedAt: string; // ISO timestamp of the change
+  seq: number; // Queue order; a newer change to the same record gets a higher seq
+  attempts: number;
+  nextAttemptAt: number; // Epoch ms, for retry backoff
+  lastError?: string;
+  failed?: boolean; // Given up on; kept out of the queue until retried or discarded
+}
+
+export const recordKey = (userId: string, collection: string, id: string): string =>
+  `${userId}|${collection}|${id}`;
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+const memory = {
+  [RECORDS_STORE]: new Map<string, any>(),
+  [MUTATIONS_STORE]: new Map<string, any>(),
+  [META_STORE]: new Map<string, any>(),
+};
+
+type StoreName = keyof typeof memory;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+        const records = db.createObjectStore(RECORDS_STORE, { keyPath: 'key' });
+        records.createIndex('scope', ['userId', 'collection']);
+      }
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        db.createObjectStore(MUTATIONS_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('Error opening local database, keeping data in memory:', request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// Copies on the way in and out, as IndexedDB does, so callers cannot change stored values
+const clone = <T>(value: T): T => (value === undefined ? value : structuredClone(value));
+
+const readAll = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  if (!db) return [...memory[storeName].values()].map(clone);
+  return requestResult(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+const readOne = async <T>(storeName: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return clone(memory[storeName].get(key));
+  return requestResult(db.transaction(storeName).objectStore(storeName).get(key));
+};
+
+// Writes and deletes in one transaction
+const writeMany = async (
+  storeName: StoreName,
+  puts: { key: string; value: any }[],
+  deletes: string[] = []
+): Promise<void> => {
+  if (puts.length === 0 && deletes.length === 0) return;
+  const db = await openDatabase();
+
+  if (!db) {
+    puts.forEach(({ key, value }) => memory[storeName].set(key, clone(value)));
+    deletes.forEach(key => memory[storeName].delete(key));
+    return;
+  }
+
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  // Stores with a keyPath take the key from the value
+  const inlineKey = storeName !== META_STORE;
+  puts.forEach(({ key, value }) => (inlineKey ? store.put(value) : store.put(value, key)));
+  deletes.forEach(key => store.delete(key));
+  await transactionDone(tx);
+};
+
+// ============================================================================
+// RECORDS
+// ============================================================================
+
+// Oldest first
+export const getRecords = async <T>(userId: string, collection: string): Promise<StoredRecord<T>[]> => {
+  const db = await openDatabase();
+  let records: StoredRecord<T>[];
+
+  if (db) {
+    const index = db.transaction(RECORDS_STORE).objectStore(RECORDS_STORE).index('scope');
+    records = await requestResult(index.getAll([userId, collection]));
+  } else {
+    records = [...memory[RECORDS_STORE].values()]
+      .filter(r => r.userId === userId && r.collection === collection)
+      .map(clone);
+  }
+
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const getRecord = <T>(userId: string, collection: string, id: string): Promise<StoredRecord<T> | undefined> =>
+  readOne(RECORDS_STORE, recordKey(userId, collection, id));
+
+export const putRecords = (records: StoredRecord[]): Promise<void> =>
+  writeMany(RECORDS_STORE, records.map(record => ({ key: record.key, value: record })));
+
+export const deleteRecords = (keys: string[]): Promise<void> => writeMany(RECORDS_STORE, [], keys);
+
+// ============================================================================
+// MUTATION QUEUE
+// ============================================================================
+
+// In queue order
+export const getMutations = async (): Promise<Mutation[]> =>
+  (await readAll<Mutation>(MUTATIONS_STORE)).sort((a, b) => a.seq - b.seq);
+
+export const getMutation = (key: string): Promise<Mutation | undefined> => readOne(MUTATIONS_STORE, key);
+
+// Replaces any pending mutation for the same record
+export const putMutations = (mutations: Mutation[]): Promise<void> =>
+  writeMany(MUTATIONS_STORE, mutations.map(mutation => ({ key: mutation.key, value: mutation })));
+
+// Applies a change to a mutation only if no newer change to its record was queued meanwhile
+const updateIfCurrent = async (mutation: Mutation, replacement: Mutation | null): Promise<void> => {
+  const db = await openDatabase();
+
+  if (!db) {
+    if (memory[MUTATIONS_STORE].get(mutation.key)?.seq !== mutation.seq) return;
+    if (replacement) memory[MUTATIONS_STORE].set(mutation.key, clone(replacement));
+    else memory[MUTATIONS_STORE].delete(mutation.key);
+    return;
+  }
+
+  const tx = db.transaction(MUTATIONS_STORE, 'readwrite');
+  const store = tx.objectStore(MUTATIONS_STORE);
+  const request = store.get(mutation.key);
+  request.onsuccess = () => {
+    if (request.result?.seq !== mutation.seq) return;
+    if (replacement) store.put(replacement);
+    else store.delete(mutation.key);
+  };
+  await transactionDone(tx);
+};
+
+// Once it has been sent, or a newer remote row won
+export const deleteMutation = (mutation: Mutation): Promise<void> => updateIfCurrent(mutation, null);
+
+// After a failed attempt, with the next retry time or marked as failed
+export const rescheduleMutation = (mutation: Mutation): Promise<void> => updateIfCurrent(mutation, mutation);
+
+// ============================================================================
+// DEVICE CACHES
+// ============================================================================
+
+const CACHE_USER_ID = 'device';
+
+// Entries by key. A cache kept in localStorage before this store is moved in on first read.
+export const getCacheEntries = async <T>(cache: string, legacyKey?: string): Promise<Record<string, T>> => {
+  const entries: Record<string, T> = Object.fromEntries(
+    (await getRecords<T>(CACHE_USER_ID, cache)).map(record => [record.id, record.data])
+  );
+
+  const legacy = legacyKey && typeof localStorage !== 'undefined' ? localStorage.getItem(legacyKey) : null;
+  if (legacy) {
+    try {
+      const imported = Object.fromEntries(
+        Object.entries(JSON.parse(legacy) as Record<string, T>).filter(([key]) => !(key in entries))
+      );
+      await putCacheEntries(cache, imported);
+      Object.assign(entries, imported);
+      localStorage.removeItem(legacyKey!);
+    } catch (err) {
+      console.error(`Error importing saved ${cache}:`, err);
+    }
+  }
+
+  return entries;
+};
+
+export const putCacheEntries = <T>(cache: string, entries: Record<string, T>): Promise<void> => {
+  const now = new Date().toISOString();
+  return putRecords(Object.entries(entries).map(([id, data]) => ({
+    key: recordKey(CACHE_USER_ID, cache, id),
+    userId: CACHE_USER_ID,
+    collection: cache,
+    id,
+    data,
+    createdAt: now,
+    updatedAt: now,
+  })));
+};
+
+// ============================================================================
+// METADATA
+// ============================================================================
+
+export const getMeta = <T>(key: string): Promise<T | undefined> => readOne(META_STORE, key);
+
+export const setMeta = (key: string, value: unknown): Promise<void> => writeMany(META_STORE, [{ key, value }]);
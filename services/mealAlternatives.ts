@@ -0,0 +1,57 @@
+/**
+ * Meal Alternatives
+ * Instead of swapping a meal blindly, the user can ask for a few ranked
+ * replacements, each with a short reason. Dishes they turn down are kept on
+ * this device for the rest of that week, so they are not offered again.
+ */
+
+import { format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import { AlternativeTag, DayPlan } from '../types';
+import { getPlanWeekStart } from './observances';
+
+const REJECTED_ALTERNATIVES_KEY = 'qookcommander_rejected_alternatives';
+
+// Suggestions per request
+export const ALTERNATIVES_COUNT = 4;
+
+// Rejections older than this many weeks are dropped
+const KEEP_WEEKS = 4;
+
+export const ALTERNATIVE_TAG_LABELS: Record<AlternativeTag, string> = {
+  seasonal: 'In season',
+  leftover: 'Uses leftovers',
+  quick: 'Quick',
+  variety: 'Something new',
+  favourite: 'Family favourite',
+};
+
+// Monday of the week a day belongs to; undated plans are for the upcoming plan week
+export const getAlternativesWeek = (day?: Pick<DayPlan, 'date'>): string =>
+  day?.date ? format(startOfWeek(parseISO(day.date), { weekStartsOn: 1 }), 'yyyy-MM-dd') : getPlanWeekStart();
+
+const getDishKey = (dish: string): string => dish.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Keyed by "<profileId>|<week>"
+const readRejected = (): Record<string, string[]> => {
+  const saved = localStorage.getItem(REJECTED_ALTERNATIVES_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+export const getRejectedAlternatives = (profileId: string, week: string): string[] =>
+  readRejected()[`${profileId}|${week}`] || [];
+
+export const rejectAlternatives = (profileId: string, week: string, meals: string[]): void => {
+  const oldest = format(subWeeks(new Date(), KEEP_WEEKS), 'yyyy-MM-dd');
+  const rejected = Object.fromEntries(
+    Object.entries(readRejected()).filter(([key]) => key.split('|')[1] >= oldest)
+  );
+  const key = `${profileId}|${week}`;
+  const current = rejected[key] || [];
+  const added = meals.filter(m => m.trim() && !current.some(r => getDishKey(r) === getDishKey(m)));
+  rejected[key] = [...current, ...added];
+  localStorage.setItem(REJECTED_ALTERNATIVES_KEY, JSON.stringify(rejected));
+};
+
+// True when a suggestion repeats one of `meals`, ignoring case and spacing
+export const isAlternativeExcluded = (meal: string, meals: string[]): boolean =>
+  meals.some(m => getDishKey(m) === getDishKey(meal));
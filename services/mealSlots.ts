@@ -0,0 +1,118 @@
+/**
+ * Meal Slots
+ * The meals a profile plans each day. Breakfast, lunch and dinner are the
+ * defaults; a household can add its own (an evening snack, a kids' tiffin
+ * box, bedtime milk), rename slots or stop preparing some. A slot's dish is
+ * stored on DayPlan under the slot id, next to breakfast, lunch and dinner.
+ */
+
+import { DayPlan, MealSlot, UserPreferences } from '../types';
+
+export type DefaultMealSlotId = 'breakfast' | 'lunch' | 'dinner';
+
+export const DEFAULT_MEAL_SLOTS: MealSlot[] = [
+  { id: 'breakfast', label: 'Breakfast' },
+  { id: 'lunch', label: 'Lunch' },
+  { id: 'dinner', label: 'Dinner' },
+];
+
+// One-tap additions in Preferences; the dish ideas let offline plans fill them too
+export const SUGGESTED_MEAL_SLOTS: MealSlot[] = [
+  {
+    id: 'evening_snack',
+    label: 'Evening Snack',
+    notes: 'Light tea-time snack',
+    preferences: ['Roasted Makhana', 'Poha Chivda', 'Sprouts Chaat', 'Khaman Dhokla', 'Fruit Chaat', 'Masala Corn', 'Vegetable Sandwich'],
+  },
+  {
+    id: 'tiffin',
+    label: "Kids' Tiffin",
+    notes: 'Packed for school: easy to eat cold, not messy, mildly spiced',
+    preferences: ['Paneer Paratha Roll', 'Mini Idli with Podi', 'Vegetable Pulao', 'Cheese Corn Sandwich', 'Mini Uttapam', 'Aloo Paratha with Curd', 'Vegetable Poha'],
+  },
+  {
+    id: 'bedtime_milk',
+    label: 'Bedtime Milk',
+    notes: 'A warm milk drink before bed',
+    preferences: ['Haldi Doodh', 'Badam Milk', 'Elaichi Milk', 'Kesar Milk', 'Dates Milk'],
+  },
+];
+
+// DayPlan fields that are not meals
+const NON_MEAL_KEYS = ['day', 'date', 'cookedAt'];
+
+export const isDefaultSlot = (slotId: string): slotId is DefaultMealSlotId =>
+  DEFAULT_MEAL_SLOTS.some(s => s.id === slotId);
+
+// Every slot of the profile, in display order
+export const getMealSlots = (preferences?: Pick<UserPreferences, 'mealSlots'>): MealSlot[] =>
+  preferences?.mealSlots?.length ? preferences.mealSlots : DEFAULT_MEAL_SLOTS;
+
+// Slots the cook prepares, i.e. the ones plans fill in
+export const getPlannedSlots = (preferences: Pick<UserPreferences, 'mealSlots' | 'mealsToPrepare'>): MealSlot[] => {
+  const slots = getMealSlots(preferences);
+  return preferences.mealsToPrepare?.length ? slots.filter(s => preferences.mealsToPrepare!.includes(s.id)) : slots;
+};
+
+// "evening_snack" -> "Evening snack", for dishes whose slot was removed from the profile
+const labelFromId = (slotId: string): string => {
+  const words = slotId.replace(/[_-]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const getMealSlotLabel = (slotId: string, slots: MealSlot[] = DEFAULT_MEAL_SLOTS): string =>
+  slots.find(s => s.id === slotId)?.label || DEFAULT_MEAL_SLOTS.find(s => s.id === slotId)?.label || labelFromId(slotId);
+
+// Dish ideas for a slot: the profile's lists for the defaults, the slot's own for added ones
+export const getSlotPreferences = (preferences: UserPreferences, slot: MealSlot): string[] =>
+  isDefaultSlot(slot.id) ? preferences[`${slot.id}Preferences`] : slot.preferences || [];
+
+export const setSlotPreferences = (preferences: UserPreferences, slotId: string, items: string[]): UserPreferences =>
+  isDefaultSlot(slotId)
+    ? { ...preferences, [`${slotId}Preferences`]: items }
+    : { ...preferences, mealSlots: getMealSlots(preferences).map(s => (s.id === slotId ? { ...s, preferences: items } : s)) };
+
+// New slot with an id derived from the label, unique among `existing`
+export const createMealSlot = (label: string, existing: MealSlot[]): MealSlot => {
+  const base = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'meal';
+  const taken = new Set([...existing.map(s => s.id), ...NON_MEAL_KEYS]);
+  const prefixed = /^[a-z]/.test(base) ? base : `meal_${base}`;
+  let id = prefixed;
+  for (let n = 2; taken.has(id); n++) id = `${prefixed}_${n}`;
+  return { id, label: label.trim(), preferences: [] };
+};
+
+// Slot ids a day holds a field for (including slots since removed from the profile)
+export const getMealKeys = (day: DayPlan): string[] =>
+  Object.keys(day).filter(key => !NON_MEAL_KEYS.includes(key) && typeof day[key] === 'string');
+
+// Every dish planned for the day, in field order
+export const getDayDishes = (day: DayPlan): string[] =>
+  getMealKeys(day).map(key => day[key]).filter(dish => dish && dish.trim());
+
+export const hasMeals = (day?: DayPlan): boolean => !!day && getDayDishes(day).length > 0;
+
+/**
+ * Slots to show for a day: the profile's slots, followed by any slot the day
+ * still holds a dish for after it was removed from the profile.
+ */
+export const getDaySlots = (day: DayPlan | undefined, slots: MealSlot[]): MealSlot[] => {
+  if (!day) return slots;
+  const extra = getMealKeys(day)
+    .filter(key => day[key]?.trim() && !slots.some(s => s.id === key))
+    .map(key => ({ id: key, label: getMealSlotLabel(key) }));
+  return [...slots, ...extra];
+};
+
+// "Breakfast: Poha, Lunch: Dal Rice, Evening Snack: None"
+export const formatDayMeals = (day: DayPlan, slots: MealSlot[]): string =>
+  getDaySlots(day, slots).map(s => `${s.label}: ${day[s.id] || 'None'}`).join(', ');
+
+// Slot list for the planning prompt; the ids are the JSON keys the model must fill
+export const buildMealSlotsPromptContext = (preferences: UserPreferences): string =>
+  getPlannedSlots(preferences)
+    .map(slot => {
+      const notes = slot.notes?.trim() ? `, ${slot.notes.trim()}` : '';
+      return `- "${slot.id}" (${slot.label}${notes}): ${getSlotPreferences(preferences, slot).join(", ") || "Any"}`;
+    })
+    .join('\n    ');
@@ -0,0 +1,335 @@
+/**
+ * Meal Validator
+ * Checks planned dishes against the profile's allergies, dislikes and dietary
+ * types after generation. A built-in ingredient knowledge base catches the
+ * common cases; when an AI provider is configured, a per-dish ingredient
+ * classification (cached on this device) fills the gaps. Offending slots can
+ * be regenerated without touching the rest of the plan. Festival and fasting
+ * day rules (see observances.ts) are checked here as well.
+ */
+
+import { format, addDays, parseISO } from 'date-fns';
+import { WeeklyPlan, UserPreferences, MealViolation, DayViolations, ObservanceRule } from '../types';
+import { AIConfig, isAIConfigured } from './aiProvider';
+import { classifyDishIngredients, regenerateSingleMeal } from './geminiService';
+import { getHouseholdAllergies } from './household';
+import { getCacheEntries, putCacheEntries } from './localStore';
+import { getActiveObservances, getObservancesOn, getObservanceRules } from './observances';
+import { getDayDishes, getMealKeys } from './mealSlots';
+
+export interface PlanSlot {
+  dayIndex: number;
+  mealType: string; // Meal slot id
+}
+
+export const INGREDIENT_TAGS = ['meat', 'fish', 'shellfish', 'egg', 'dairy', 'gluten', 'peanut', 'tree nut', 'soy', 'sesame'] as const;
+export type IngredientTag = typeof INGREDIENT_TAGS[number];
+
+const DISH_TAGS_CACHE = 'dish_tags';
+const LEGACY_DISH_TAGS_CACHE_KEY = 'qookcommander_dish_tags_cache';
+
+// Batch size for a single classification request
+const MAX_DISHES_PER_REQUEST = 25;
+// Replacement attempts per offending slot before giving up and leaving it flagged
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Ingredient knowledge base: dish-name keywords (English and common Hindi/regional names)
+const INGREDIENT_KEYWORDS: Record<IngredientTag, string[]> = {
+  meat: ['meat', 'chicken', 'murgh', 'mutton', 'gosht', 'lamb', 'goat', 'pork', 'beef', 'bacon', 'ham', 'sausage', 'salami', 'keema', 'kheema', 'turkey', 'duck', 'rogan josh', 'nihari', 'haleem'],
+  fish: ['fish', 'machli', 'macher', 'rohu', 'pomfret', 'surmai', 'bangda', 'mackerel', 'hilsa', 'ilish', 'sardine', 'salmon', 'tuna', 'basa'],
+  shellfish: ['prawn', 'shrimp', 'jhinga', 'kolambi', 'crab', 'lobster', 'squid', 'calamari', 'clam', 'mussel', 'oyster'],
+  egg: ['egg', 'anda', 'omelette', 'omelet', 'french toast', 'mayonnaise', 'mayo'],
+  dairy: ['milk', 'doodh', 'paneer', 'ghee', 'butter', 'curd', 'dahi', 'yogurt', 'yoghurt', 'raita', 'lassi', 'chaas', 'buttermilk', 'cheese', 'cream', 'malai', 'makhani', 'khoya', 'khoa', 'kheer', 'rabri', 'shrikhand'],
+  gluten: ['wheat', 'atta', 'maida', 'roti', 'chapati', 'phulka', 'paratha', 'thepla', 'naan', 'kulcha', 'bhatura', 'bhature', 'puri', 'poori', 'bread', 'toast', 'pav', 'sandwich', 'burger', 'pizza', 'pasta', 'noodles', 'semolina', 'suji', 'sooji', 'rava', 'upma', 'dalia', 'seviyan', 'vermicelli', 'barley'],
+  peanut: ['peanut', 'groundnut', 'moongfali', 'mungfali', 'shengdana'],
+  'tree nut': ['cashew', 'kaju', 'almond', 'badam', 'walnut', 'akhrot', 'pistachio', 'pista', 'hazelnut'],
+  soy: ['soy', 'soya', 'tofu', 'edamame'],
+  sesame: ['sesame', 'til', 'tahini'],
+};
+
+// Substitutes that mention a keyword without containing the group ("Soya Keema", "Coconut Milk")
+const SUBSTITUTE_PATTERNS: Partial<Record<IngredientTag, RegExp>> = {
+  meat: /\b(soya|soy|veg|vegetable|mock|jackfruit|paneer|mushroom)\s+(keema|kheema|meat|chicken)\b/g,
+  dairy: /\b(coconut|almond|soy|soya|oat|cashew)\s+(milk|cream|curd|yogurt)\b|\b(peanut|cocoa)\s+butter\b/g,
+  gluten: /\b(jowar|bajra|ragi|nachni|makki|makke|rice|millet)\s+(ki\s+)?(roti|bhakri|paratha|bread|noodles|upma)\b|\brice\s+(rava|sooji|suji)\b/g,
+};
+
+// Allergy and dislike wording that maps onto knowledge base groups
+const TERM_ALIASES: Record<string, IngredientTag[]> = {
+  meat: ['meat'],
+  'red meat': ['meat'],
+  fish: ['fish'],
+  seafood: ['fish', 'shellfish'],
+  shellfish: ['shellfish'],
+  egg: ['egg'],
+  dairy: ['dairy'],
+  milk: ['dairy'],
+  lactose: ['dairy'],
+  gluten: ['gluten'],
+  wheat: ['gluten'],
+  nut: ['peanut', 'tree nut'],
+  peanut: ['peanut'],
+  'tree nut': ['tree nut'],
+  soy: ['soy'],
+  soya: ['soy'],
+  sesame: ['sesame'],
+};
+
+// "Egg (mild)" -> "egg", "Peanuts" -> "peanut"
+const normalizeTerm = (term: string): string =>
+  term.replace(/\([^)]*\)/g, '').trim().toLowerCase().replace(/\s+/g, ' ').replace(/(?<=[a-z]{2}[^s])s$/, '');
+
+const matchesWord = (text: string, keyword: string): boolean =>
+  new RegExp(`\\b${keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(e?s)?\\b`).test(text);
+
+// Drops explicit exclusions such as "Eggless", "Gluten-free", "without onion"
+const stripNegations = (dish: string): string =>
+  dish
+    .toLowerCase()
+    .replace(/\b[a-z]+(less|[- ]free)\b/g, ' ')
+    .replace(/\b(without|no|minus|skip)\s+[a-z]+(\s+(or|and|&)\s+[a-z]+)?/g, ' ');
+
+// Per-member variants in brackets ("Dal Rice [Aarav: + Chicken Curry]") are not part of the shared dish
+const stripMemberVariants = (dish: string): string => dish.replace(/\[[^\]]*\]/g, ' ');
+
+// Knowledge base lookup of the ingredient groups a dish name implies
+export const detectIngredientTags = (dish: string): IngredientTag[] => {
+  const text = stripNegations(dish);
+  return INGREDIENT_TAGS.filter(tag => {
+    const substitutes = SUBSTITUTE_PATTERNS[tag];
+    const checked = substitutes ? text.replace(substitutes, ' ') : text;
+    return INGREDIENT_KEYWORDS[tag].some(keyword => matchesWord(checked, keyword));
+  });
+};
+
+// Groups the profile's dietary types rule out (the most permissive selected type wins)
+const getDietExclusions = (preferences: UserPreferences): IngredientTag[] => {
+  const types = preferences.dietaryTypes?.length ? preferences.dietaryTypes : [preferences.dietaryType];
+  if (types.some(t => /non-?veg/i.test(t)) || !types.some(t => /veg/i.test(t))) return [];
+  return types.some(t => /egg/i.test(t)) ? ['meat', 'fish', 'shellfish'] : ['meat', 'fish', 'shellfish', 'egg'];
+};
+
+// Returns what in the dish matches the term (a group or the term itself), or null
+const findTermMatch = (term: string, text: string, tags: Set<string>): string | null => {
+  const normalized = normalizeTerm(term);
+  if (!normalized) return null;
+  const group = (TERM_ALIASES[normalized] || []).find(tag => tags.has(tag));
+  if (group) return group;
+  return matchesWord(text, normalized) ? normalized : null;
+};
+
+/**
+ * Checks one dish. `aiTags` are ingredient groups from classifyDishIngredients,
+ * merged with the knowledge base so either source can flag a violation.
+ */
+export const validateDish = (dish: string, preferences: UserPreferences, aiTags: string[] = []): MealViolation[] => {
+  if (!dish?.trim()) return [];
+
+  const text = stripNegations(dish);
+  const tags = new Set<string>([...detectIngredientTags(dish), ...aiTags]);
+  const violations: MealViolation[] = [];
+
+  getHouseholdAllergies(preferences).forEach(term => {
+    const match = findTermMatch(term, text, tags);
+    if (match) violations.push({ kind: 'allergy', term, reason: `Contains ${match} (allergy: ${term})` });
+  });
+
+  preferences.dislikes.forEach(term => {
+    const match = findTermMatch(term, text, tags);
+    if (match) violations.push({ kind: 'dislike', term, reason: `Contains ${match} (disliked)` });
+  });
+
+  // AI tags cover the whole text, so they only count when there are no per-member variants
+  const sharedDish = stripMemberVariants(dish);
+  const sharedTags = new Set<string>(sharedDish === dish ? tags : detectIngredientTags(sharedDish));
+  const dietLabel = (preferences.dietaryTypes?.length ? preferences.dietaryTypes : [preferences.dietaryType]).join(' / ');
+  getDietExclusions(preferences)
+    .filter(tag => sharedTags.has(tag))
+    .forEach(tag => violations.push({ kind: 'diet', term: dietLabel, reason: `Contains ${tag} (not ${dietLabel})` }));
+
+  return violations;
+};
+
+// One entry per plan day; slots without violations are omitted
+export const validateWeeklyPlan = (
+  plan: WeeklyPlan,
+  preferences: UserPreferences,
+  dishTags: Record<string, string[]> = {}
+): DayViolations[] =>
+  plan.days.map(day => {
+    const result: DayViolations = {};
+    getMealKeys(day).forEach(slot => {
+      const dish = day[slot] || '';
+      const violations = validateDish(dish, preferences, dishTags[dish.trim()]);
+      if (violations.length > 0) result[slot] = violations;
+    });
+    return result;
+  });
+
+// ============================================
+// OBSERVANCE RULES (festival and fasting days)
+// ============================================
+
+const GRAIN_KEYWORDS = ['rice', 'chawal', 'pulao', 'biryani', 'khichdi', 'wheat', 'atta', 'maida', 'roti', 'chapati', 'phulka', 'paratha', 'puri', 'poori', 'naan', 'bread', 'pav', 'rava', 'suji', 'sooji', 'upma', 'poha', 'idli', 'dosa', 'dal', 'daal', 'rajma', 'chole', 'chana', 'besan', 'oats', 'dalia', 'noodles', 'pasta'];
+// Fasting flours and starches ("Kuttu Puri", "Samak Rice") are allowed on no-grain days
+const VRAT_FOOD_PATTERN = /\b(kuttu|singhara|rajgira|samak|sama|sanwa|barnyard|vrat|sabudana|makhana)(\s+(ka|ki|ke))?\s+[a-z]+/g;
+const ONION_GARLIC_KEYWORDS = ['onion', 'pyaz', 'pyaaz', 'kanda', 'garlic', 'lahsun', 'lehsun'];
+const FAST_FOOD_PATTERN = /\b(fast|fasting|fruit|fruits|milk|water|vrat|upvas|nirjala|sargi)\b/;
+
+// Vrat-friendly replacements: no grains, onion, garlic, meat or eggs
+const VRAT_DISHES: Record<string, string[]> = {
+  breakfast: ['Sabudana Khichdi', 'Makhana Kheer', 'Rajgira Sheera', 'Fruit Chaat with Curd'],
+  lunch: ['Kuttu Puri with Aloo Sabzi', 'Samak Rice Khichdi with Curd', 'Singhara Roti with Lauki Sabzi', 'Sama Rice with Kaddu Sabzi'],
+  dinner: ['Sabudana Vada with Curd', 'Rajgira Roti with Aloo Tamatar Sabzi', 'Samak Rice Pulao with Kheera Raita', 'Kuttu Cheela with Aloo Sabzi'],
+};
+// For added slots (snacks, tiffin, bedtime milk)
+const VRAT_SNACKS = ['Roasted Makhana', 'Fruit Chaat', 'Sabudana Kheer', 'Banana Milkshake'];
+const DAY_FAST_MEAL = 'Fast (fruits and water)';
+
+// Reasons the dish breaks the given observance rules, if any
+export const validateObservanceRules = (dish: string, rules: ObservanceRule[], slot: string): string[] => {
+  if (!dish?.trim()) return [];
+  const text = stripNegations(dish);
+  const tags = detectIngredientTags(dish);
+  const reasons: string[] = [];
+
+  if (rules.includes('day-fast') && slot !== 'dinner' && !FAST_FOOD_PATTERN.test(text)) {
+    reasons.push('Fasting until evening');
+  }
+  if (rules.includes('no-grains') && GRAIN_KEYWORDS.some(k => matchesWord(text.replace(VRAT_FOOD_PATTERN, ' '), k))) {
+    reasons.push('Contains grains (fasting day)');
+  }
+  if ((rules.includes('no-onion-garlic') || rules.includes('sattvic')) && ONION_GARLIC_KEYWORDS.some(k => matchesWord(text, k))) {
+    reasons.push('Contains onion or garlic');
+  }
+  if ((rules.includes('vegetarian') || rules.includes('sattvic')) && tags.some(t => ['meat', 'fish', 'shellfish', 'egg'].includes(t))) {
+    reasons.push('Not vegetarian');
+  }
+  if (rules.includes('sattvic') && matchesWord(text, 'mushroom')) {
+    reasons.push('Mushrooms are not sattvic');
+  }
+  return reasons;
+};
+
+/**
+ * Adapts a plan to the observances on the dates it will be cooked (day 1 =
+ * startDate): meals that break a day's rules are swapped for vrat-friendly
+ * dishes that also respect the profile. Returns the adapted plan and how many
+ * meals were replaced.
+ */
+export const adaptPlanToObservances = (
+  plan: WeeklyPlan,
+  startDate: string,
+  preferences: UserPreferences
+): { plan: WeeklyPlan; replaced: number } => {
+  const observances = getActiveObservances(preferences);
+  if (observances.length === 0) return { plan, replaced: 0 };
+
+  let replaced = 0;
+  const used = new Set(plan.days.flatMap(getDayDishes));
+  const days = plan.days.map((day, idx) => {
+    const dateKey = format(addDays(parseISO(startDate), idx), 'yyyy-MM-dd');
+    const rules = getObservanceRules(getObservancesOn(dateKey, observances));
+    if (rules.length === 0) return day;
+
+    const adapted = { ...day };
+    getMealKeys(day).forEach(slot => {
+      if (validateObservanceRules(day[slot], rules, slot).length === 0) return;
+      const candidates = rules.includes('day-fast') && slot !== 'dinner' ? [DAY_FAST_MEAL] : VRAT_DISHES[slot] || VRAT_SNACKS;
+      const fits = (dish: string) => validateObservanceRules(dish, rules, slot).length === 0 && validateDish(dish, preferences).length === 0;
+      const replacement = candidates.find(d => fits(d) && !used.has(d)) || candidates.find(fits);
+      if (replacement) {
+        adapted[slot] = replacement;
+        used.add(replacement);
+        replaced++;
+      }
+    });
+    return adapted;
+  });
+
+  return { plan: { ...plan, days }, replaced };
+};
+
+// ============================================
+// AI CLASSIFICATION (cached per dish)
+// ============================================
+
+const getDishKey = (dish: string): string => dish.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Returns AI ingredient groups for every dish, asking only for dishes not cached yet
+export const getDishTags = async (
+  dishes: string[],
+  config: AIConfig
+): Promise<Record<string, string[]>> => {
+  const cache = await getCacheEntries<string[]>(DISH_TAGS_CACHE, LEGACY_DISH_TAGS_CACHE_KEY);
+  const unique = [...new Set(dishes.map(d => d.trim()).filter(Boolean))];
+  const missing = unique.filter(d => !cache[getDishKey(d)]);
+
+  for (let i = 0; i < missing.length; i += MAX_DISHES_PER_REQUEST) {
+    const classified = await classifyDishIngredients(missing.slice(i, i + MAX_DISHES_PER_REQUEST), INGREDIENT_TAGS, config);
+    const entries = Object.fromEntries(Object.entries(classified).map(([dish, tags]) => [getDishKey(dish), tags]));
+    Object.assign(cache, entries);
+    await putCacheEntries(DISH_TAGS_CACHE, entries);
+  }
+
+  const result: Record<string, string[]> = {};
+  unique.forEach(dish => {
+    const tags = cache[getDishKey(dish)];
+    if (tags) result[dish] = tags;
+  });
+  return result;
+};
+
+// Classification is a second opinion; fall back to the knowledge base alone if it fails
+const tryGetDishTags = async (dishes: string[], config: AIConfig): Promise<Record<string, string[]>> => {
+  try {
+    return await getDishTags(dishes, config);
+  } catch (error) {
+    console.warn('Dish classification failed, using the ingredient knowledge base only:', error);
+    return {};
+  }
+};
+
+/**
+ * Regenerates only the slots that break a constraint (optionally limited to
+ * `slots`), telling the AI why each rejected dish failed and re-checking every
+ * replacement. Slots still failing after MAX_REPAIR_ATTEMPTS stay flagged.
+ * Rejects with an AbortError once `signal` fires, without starting another request.
+ */
+export const repairPlanViolations = async (
+  plan: WeeklyPlan,
+  preferences: UserPreferences,
+  config: AIConfig,
+  slots?: PlanSlot[],
+  signal?: AbortSignal
+): Promise<{ plan: WeeklyPlan; violations: DayViolations[]; repaired: number }> => {
+  const current: WeeklyPlan = { ...plan, days: plan.days.map(day => ({ ...day })) };
+  if (!isAIConfigured(config)) {
+    return { plan: current, violations: validateWeeklyPlan(current, preferences), repaired: 0 };
+  }
+
+  const dishTags = await tryGetDishTags(current.days.flatMap(getDayDishes), config);
+  const violations = validateWeeklyPlan(current, preferences, dishTags);
+  const targets = (slots || current.days.flatMap((day, dayIndex) => getMealKeys(day).map(mealType => ({ dayIndex, mealType }))))
+    .filter(({ dayIndex, mealType }) => violations[dayIndex]?.[mealType]?.length);
+
+  let repaired = 0;
+  for (const { dayIndex, mealType } of targets) {
+    let reasons = violations[dayIndex][mealType]!.map(v => v.reason);
+    for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+      const meal = await regenerateSingleMeal(current, dayIndex, mealType, preferences, config, reasons, signal);
+      current.days[dayIndex] = { ...current.days[dayIndex], [mealType]: meal };
+      Object.assign(dishTags, await tryGetDishTags([meal], config));
+
+      const remaining = validateDish(meal, preferences, dishTags[meal.trim()]);
+      if (remaining.length === 0) {
+        repaired++;
+        break;
+      }
+      reasons = [...new Set([...reasons, ...remaining.map(v => v.reason)])];
+    }
+  }
+
+  return { plan: current, violations: validateWeeklyPlan(current, preferences, dishTags), repaired };
+};
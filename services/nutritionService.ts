@@ -0,0 +1,85 @@
+/**
+ * Nutrition Service
+ * Per-dish nutrition estimates cached on this device (see localStore.ts), plus
+ * helpers to total meals into day and week figures and compare them with
+ * profile targets.
+ */
+
+import { DayPlan, NutritionInfo } from '../types';
+import { AIConfig } from './aiProvider';
+import { estimateNutrition } from './geminiService';
+import { getCacheEntries, putCacheEntries } from './localStore';
+import { getDayDishes } from './mealSlots';
+
+const NUTRITION_CACHE = 'nutrition';
+const LEGACY_NUTRITION_CACHE_KEY = 'qookcommander_nutrition_cache';
+
+// Batch size for a single estimation request
+const MAX_DISHES_PER_REQUEST = 25;
+
+export const NUTRIENTS: { key: keyof NutritionInfo; label: string; unit: string; limit: 'max' | 'min' }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal', limit: 'max' },
+  { key: 'protein', label: 'Protein', unit: 'g', limit: 'min' },
+  { key: 'carbs', label: 'Carbs', unit: 'g', limit: 'max' },
+  { key: 'fat', label: 'Fat', unit: 'g', limit: 'max' },
+  { key: 'fiber', label: 'Fibre', unit: 'g', limit: 'min' },
+];
+
+export const EMPTY_NUTRITION: NutritionInfo = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+const getDishKey = (dish: string): string => dish.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Returns estimates for every dish, asking the AI only for dishes not cached yet
+export const getNutritionForDishes = async (
+  dishes: string[],
+  config: AIConfig
+): Promise<Record<string, NutritionInfo>> => {
+  const cache = await getCacheEntries<NutritionInfo>(NUTRITION_CACHE, LEGACY_NUTRITION_CACHE_KEY);
+  const unique = [...new Set(dishes.map(d => d.trim()).filter(Boolean))];
+  const missing = unique.filter(d => !cache[getDishKey(d)]);
+
+  for (let i = 0; i < missing.length; i += MAX_DISHES_PER_REQUEST) {
+    const estimates = await estimateNutrition(missing.slice(i, i + MAX_DISHES_PER_REQUEST), config);
+    const entries = Object.fromEntries(Object.entries(estimates).map(([dish, info]) => [getDishKey(dish), info]));
+    Object.assign(cache, entries);
+    await putCacheEntries(NUTRITION_CACHE, entries);
+  }
+
+  const result: Record<string, NutritionInfo> = {};
+  unique.forEach(dish => {
+    const info = cache[getDishKey(dish)];
+    if (info) result[dish] = info;
+  });
+  return result;
+};
+
+export const sumNutrition = (items: (NutritionInfo | undefined)[]): NutritionInfo =>
+  items.reduce<NutritionInfo>((total, item) => {
+    if (!item) return total;
+    return {
+      calories: total.calories + item.calories,
+      protein: total.protein + item.protein,
+      carbs: total.carbs + item.carbs,
+      fat: total.fat + item.fat,
+      fiber: total.fiber + item.fiber,
+    };
+  }, EMPTY_NUTRITION);
+
+// Looks meals up in a dish -> nutrition map (as returned by getNutritionForDishes)
+export const getDayNutrition = (day: DayPlan, nutrition: Record<string, NutritionInfo>): NutritionInfo =>
+  sumNutrition(getDayDishes(day).map(meal => nutrition[meal.trim()]));
+
+// Every slot's dish, including added slots such as an evening snack
+export const getDayMeals = (day: DayPlan): string[] => getDayDishes(day);
+
+// Daily targets scaled to a number of days (for weekly totals)
+export const scaleTargets = (targets: Partial<NutritionInfo> | undefined, days: number): Partial<NutritionInfo> =>
+  Object.fromEntries(
+    Object.entries(targets || {}).filter(([, value]) => !!value).map(([key, value]) => [key, (value as number) * days])
+  );
+
+export const isOffTarget = (key: keyof NutritionInfo, value: number, target?: number): boolean => {
+  if (!target) return false;
+  const nutrient = NUTRIENTS.find(n => n.key === key);
+  return nutrient?.limit === 'max' ? value > target * 1.1 : value < target * 0.9;
+};
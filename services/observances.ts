@@ -0,0 +1,209 @@
+/**
+ * Observances
+ * Built-in festival and fasting calendar (Navratri, Ekadashi, Shravan Mondays,
+ * Karva Chauth...) plus the user's own observances, with the food rules each
+ * one brings. Festival dates follow the North Indian (purnimanta) calendar and
+ * are listed up to BUILT_IN_CALENDAR_END; Ekadashi is computed from the moon's
+ * position for any date, so it needs no yearly update.
+ */
+
+import { format, addDays, parseISO, eachDayOfInterval, isMonday, startOfWeek } from 'date-fns';
+import { Observance, ObservanceRule, UserPreferences } from '../types';
+import { OBSERVANCE_RULE_OPTIONS } from '../constants';
+
+// Last date the festival table below has dates for; later years need adding
+export const BUILT_IN_CALENDAR_END = '2027-12-31';
+
+const dateRange = (start: string, end: string): string[] =>
+  eachDayOfInterval({ start: parseISO(start), end: parseISO(end) }).map(d => format(d, 'yyyy-MM-dd'));
+
+const mondaysBetween = (start: string, end: string): string[] =>
+  dateRange(start, end).filter(d => isMonday(parseISO(d)));
+
+// ============================================
+// EKADASHI (11th lunar day of each fortnight)
+// ============================================
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Moon-sun elongation in degrees (low-precision lunar theory, well under a degree off)
+const getLunarElongation = (date: Date): number => {
+  const t = (date.getTime() / 86400000 + 2440587.5 - 2451545) / 36525; // Julian centuries since J2000
+  const sunAnomaly = toRadians(357.52911 + 35999.05029 * t);
+  const sunLongitude = 280.46646 + 36000.76983 * t + 1.914602 * Math.sin(sunAnomaly) + 0.019993 * Math.sin(2 * sunAnomaly);
+
+  const elongation = toRadians(297.8501921 + 445267.1114034 * t);
+  const moonAnomaly = toRadians(134.9633964 + 477198.8675055 * t);
+  const latitudeArgument = toRadians(93.272095 + 483202.0175233 * t);
+  const moonLongitude = 218.3164477 + 481267.88123421 * t
+    + 6.289 * Math.sin(moonAnomaly)
+    + 1.274 * Math.sin(2 * elongation - moonAnomaly)
+    + 0.658 * Math.sin(2 * elongation)
+    + 0.214 * Math.sin(2 * moonAnomaly)
+    - 0.186 * Math.sin(sunAnomaly)
+    - 0.114 * Math.sin(2 * latitudeArgument);
+
+  return (((moonLongitude - sunLongitude) % 360) + 360) % 360;
+};
+
+// Tithi (1-30) prevailing at sunrise in India (~06:00 IST = 00:30 UTC)
+const getTithiAtSunrise = (dateKey: string): number =>
+  Math.floor(getLunarElongation(new Date(`${dateKey}T00:30:00Z`)) / 12) + 1;
+
+// Ekadashi is tithi 11 (Shukla) or 26 (Krishna) at sunrise. When it starts and ends
+// between two sunrises (kshaya), the fast is kept on the following day.
+const isEkadashi = (dateKey: string): boolean => {
+  const tithi = getTithiAtSunrise(dateKey);
+  const previous = getTithiAtSunrise(format(addDays(parseISO(dateKey), -1), 'yyyy-MM-dd'));
+  const isEkadashiTithi = tithi === 11 || tithi === 26;
+  const skippedEkadashi = (tithi === 12 && previous === 10) || (tithi === 27 && previous === 25);
+  return (isEkadashiTithi && previous !== tithi) || skippedEkadashi;
+};
+
+// Built-ins worked out per date instead of listed in `dates`, so they never run out
+const COMPUTED_OBSERVANCES: Record<string, (dateKey: string) => boolean> = {
+  ekadashi: isEkadashi,
+};
+
+const fallsOn = (observance: Observance, dateKey: string): boolean =>
+  COMPUTED_OBSERVANCES[observance.id]?.(dateKey) ?? observance.dates.includes(dateKey);
+
+// ============================================
+// BUILT-IN CALENDAR
+// ============================================
+
+let builtInCache: Observance[] | null = null;
+
+export const getBuiltInObservances = (): Observance[] => {
+  if (builtInCache) return builtInCache;
+
+  builtInCache = [
+    {
+      id: 'ekadashi',
+      name: 'Ekadashi',
+      dates: [], // Computed, see COMPUTED_OBSERVANCES
+      rules: ['no-grains', 'no-onion-garlic'],
+      notes: 'Twice a month; rice and grains are avoided.',
+    },
+    {
+      id: 'maha-shivratri',
+      name: 'Maha Shivratri',
+      dates: ['2026-02-15', '2027-03-06'],
+      rules: ['no-grains', 'sattvic'],
+    },
+    {
+      id: 'chaitra-navratri',
+      name: 'Chaitra Navratri',
+      dates: [...dateRange('2026-03-19', '2026-03-27'), ...dateRange('2027-04-07', '2027-04-15')],
+      rules: ['no-grains', 'sattvic'],
+      notes: 'Some families fast all nine days, others only the first and last.',
+    },
+    {
+      id: 'shravan',
+      name: 'Shravan Month',
+      dates: [...dateRange('2026-07-30', '2026-08-28'), ...dateRange('2027-07-19', '2027-08-17')],
+      rules: ['vegetarian', 'no-onion-garlic'],
+    },
+    {
+      id: 'shravan-monday',
+      name: 'Shravan Monday',
+      dates: [...mondaysBetween('2026-07-30', '2026-08-28'), ...mondaysBetween('2027-07-19', '2027-08-17')],
+      rules: ['no-grains', 'sattvic'],
+    },
+    {
+      id: 'janmashtami',
+      name: 'Janmashtami',
+      dates: ['2026-09-04', '2027-08-25'],
+      rules: ['no-grains', 'sattvic', 'day-fast'],
+      notes: 'Fast is broken at midnight.',
+    },
+    {
+      id: 'sharad-navratri',
+      name: 'Sharad Navratri',
+      dates: [...dateRange('2026-10-11', '2026-10-19'), ...dateRange('2027-09-30', '2027-10-08')],
+      rules: ['no-grains', 'sattvic'],
+      notes: 'Some families fast all nine days, others only the first and last.',
+    },
+    {
+      id: 'karva-chauth',
+      name: 'Karva Chauth',
+      dates: ['2026-10-29', '2027-10-18'],
+      rules: ['day-fast'],
+      notes: 'Nirjala fast until moonrise; sargi before dawn.',
+    },
+  ];
+  return builtInCache;
+};
+
+export const createObservance = (): Observance => ({
+  id: `custom_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+  name: '',
+  dates: [],
+  rules: ['vegetarian'],
+});
+
+// Observances this household keeps: followed built-ins plus every custom one
+export const getActiveObservances = (
+  preferences: Pick<UserPreferences, 'followedObservances' | 'customObservances'>
+): Observance[] => {
+  const followed = new Set(preferences.followedObservances || []);
+  return [
+    ...getBuiltInObservances().filter(o => followed.has(o.id)),
+    ...(preferences.customObservances || []).filter(o => o.name.trim() && o.dates.length > 0),
+  ];
+};
+
+export const getObservancesOn = (dateKey: string, observances: Observance[]): Observance[] =>
+  observances.filter(o => fallsOn(o, dateKey));
+
+// Followed built-ins whose listed dates stop before `dateKey`, so the calendar can say
+// their days are missing rather than showing none
+export const getUncoveredObservances = (dateKey: string, observances: Observance[]): Observance[] => {
+  if (dateKey <= BUILT_IN_CALENDAR_END) return [];
+  const builtInIds = new Set(getBuiltInObservances().map(o => o.id));
+  return observances.filter(o => builtInIds.has(o.id) && !COMPUTED_OBSERVANCES[o.id]);
+};
+
+export const getObservanceRules = (observances: Observance[]): ObservanceRule[] =>
+  [...new Set(observances.flatMap(o => o.rules))];
+
+export const describeObservanceRules = (rules: ObservanceRule[]): string =>
+  rules.map(rule => OBSERVANCE_RULE_OPTIONS.find(o => o.value === rule)?.label || rule).join(', ');
+
+// Next date on or after `from` (YYYY-MM-DD), if any; computed ones are searched a year ahead
+export const getNextObservanceDate = (observance: Observance, from: string = format(new Date(), 'yyyy-MM-dd')): string | undefined => {
+  const computed = COMPUTED_OBSERVANCES[observance.id];
+  if (computed) return dateRange(from, format(addDays(parseISO(from), 365), 'yyyy-MM-dd')).find(computed);
+  return [...observance.dates].sort().find(d => d >= from);
+};
+
+// Plans run Monday to Sunday: this week's Monday if today is Monday, otherwise next Monday
+export const getPlanWeekStart = (today: Date = new Date()): string => {
+  const monday = startOfWeek(today, { weekStartsOn: 1 });
+  return format(isMonday(today) ? monday : addDays(monday, 7), 'yyyy-MM-dd');
+};
+
+// Prompt section listing the observance days in a plan; empty when none fall in range
+export const buildObservancePromptContext = (
+  startDate: string,
+  days: number,
+  preferences: UserPreferences
+): string => {
+  const observances = getActiveObservances(preferences);
+  const lines = Array.from({ length: days }, (_, i) => format(addDays(parseISO(startDate), i), 'yyyy-MM-dd'))
+    .map((dateKey, i) => {
+      const today = getObservancesOn(dateKey, observances);
+      if (today.length === 0) return '';
+      const rules = getObservanceRules(today)
+        .map(rule => OBSERVANCE_RULE_OPTIONS.find(o => o.value === rule)?.prompt || rule);
+      return `- Day ${i + 1} (${format(parseISO(dateKey), 'EEEE, MMM d')}): ${today.map(o => o.name).join(' + ')} -> ${rules.join('; ')}`;
+    })
+    .filter(Boolean);
+
+  if (lines.length === 0) return '';
+
+  return `
+    FESTIVALS AND FASTS (apply these food rules to the listed days only):
+    ${lines.join('\n    ')}
+    `;
+};
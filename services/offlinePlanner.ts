@@ -0,0 +1,335 @@
+/**
+ * Offline Planner
+ * Deterministic, rule-based weekly plan generator used when no AI provider is
+ * configured (guest/offline users). Builds meals from the profile's meal
+ * preferences, honours dislikes, allergies, dietary type and the quick cook
+ * guidelines, and favours dishes made with vegetables that are in season.
+ */
+
+import { AlternativeTag, DayPlan, MealAlternative, MealSlot, PantryItem, UserPreferences, WeeklyPlan } from '../types';
+import { DEFAULT_PROFILE_TEMPLATES } from '../constants';
+import { getSeasonalContext, getSeasonalKeywords } from './seasonalContext';
+import { validateDish } from './mealValidator';
+import { getDayNames } from './languages';
+import { DEFAULT_PLAN_DAYS, assignPlanDates, getPlanDates } from './planHorizon';
+import { SUGGESTED_MEAL_SLOTS, getDayDishes, getMealSlots, getPlannedSlots, isDefaultSlot } from './mealSlots';
+import { ALTERNATIVES_COUNT, isAlternativeExcluded } from './mealAlternatives';
+
+interface MealPool {
+  dishes: string[];
+  staples: string[]; // Served with a dish, e.g. "Roti", "Jeera Rice", "Raita"
+  salads: string[];
+  saladMandatory: boolean; // Salad line marked "(Mandatory ...)"
+}
+
+export interface OfflinePlanOptions {
+  seed?: string; // Same seed + preferences => same plan. Defaults to the current week.
+  date?: Date; // Drives the seasonal vegetable list. Defaults to today, or startDate when set.
+  startDate?: string; // YYYY-MM-DD of the first day; without it days are labelled from Monday
+  dayCount?: number; // Defaults to a week
+  useFirst?: string[]; // Ingredients on hand; dishes using them are picked first, once each
+}
+
+// Preference lines labelled with these are accompaniments, not main dishes
+const STAPLE_LABELS = ['staples', 'staple', 'sides', 'side', 'raita'];
+const SALAD_LABELS = ['salad', 'salads'];
+const EXTRA_LABELS = ['fruits', 'fruit'];
+
+// Parenthetical notes that qualify a dish rather than describe it
+const QUALIFIER_PATTERN = /\s*\((?:mandatory|sundays?|winter|summer|monsoon|limit|only)[^)]*\)/i;
+// Unlabelled lines that are category headings, e.g. "Lighter/Special Meals"
+const HEADING_PATTERN = /\b(meals|options)\b/i;
+
+const FRIED_KEYWORDS = ['fried', 'pakora', 'pakoda', 'bhature', 'puri', 'poori', 'vada', 'samosa', 'kachori', 'bread pakora'];
+const LIGHT_KEYWORDS = ['khichdi', 'soup', 'dalia', 'idli', 'dosa', 'salad', 'upma', 'rasam', 'curd rice', 'moong', 'steamed'];
+const HEAVY_LUNCH_KEYWORDS = ['chole', 'rajma'];
+// Dishes that already include a grain/bread, so no rice or roti is added
+const COMPLETE_MEAL_KEYWORDS = ['rice', 'pulao', 'biryani', 'khichdi', 'noodles', 'pav', 'paratha', 'roti', 'naan', 'wrap', 'dosa', 'idli'];
+const GRAIN_KEYWORDS = ['rice', 'roti', 'paratha', 'naan', 'chawal', 'phulka'];
+
+// Quick cook guideline strings (see QUICK_COOK_INSTRUCTION_OPTIONS)
+const RULE_LIGHTER_DINNER = 'If Lunch is Chole/Rajma, Dinner should be lighter';
+const RULE_NO_FRIED_WEEKDAYS = 'Avoid deep fried items on weekdays';
+const RULE_NO_REPEATS = 'No repeat meals within a week';
+const RULE_SALAD_AT_LUNCH = 'Include salad with every lunch';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Small seeded PRNG (mulberry32) so the same seed always yields the same plan
+const createRandom = (seed: string) => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  let state = h >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const getWeekSeed = (date: Date): string => {
+  const monday = new Date(date);
+  monday.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return monday.toISOString().split('T')[0];
+};
+
+// Split on commas that are not inside parentheses
+const splitItems = (text: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map(i => i.trim()).filter(Boolean);
+};
+
+// "Dal: Methi Toor Dal, Rajma" -> dishes; "Staples: Roti, Rice" -> staples;
+// unlabelled lines are a single dish ("Stuffed Paratha (Gobi, Palak) with Curd")
+const buildPool = (lines: string[]): MealPool => {
+  const pool: MealPool = { dishes: [], staples: [], salads: [], saladMandatory: false };
+  lines.forEach(line => {
+    const match = line.match(/^([^:()]+):\s*(.+)$/);
+    if (!match) {
+      if (!HEADING_PATTERN.test(line)) pool.dishes.push(line.replace(QUALIFIER_PATTERN, '').trim());
+      return;
+    }
+    const label = match[1].trim().toLowerCase();
+    const items = splitItems(match[2]).map(i => i.replace(QUALIFIER_PATTERN, '').trim()).filter(Boolean);
+    if (STAPLE_LABELS.includes(label)) {
+      pool.staples.push(...items);
+    } else if (SALAD_LABELS.includes(label)) {
+      pool.salads.push(...items);
+      if (/mandatory/i.test(match[2])) pool.saladMandatory = true;
+    } else if (!EXTRA_LABELS.includes(label)) {
+      pool.dishes.push(...items);
+    }
+  });
+  return pool;
+};
+
+const containsAny = (dish: string, keywords: string[]): boolean => {
+  const lower = dish.toLowerCase();
+  return keywords.some(k => new RegExp(`\\b${k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(lower));
+};
+
+// Same checks that flag generated plans: allergies, dislikes and dietary types
+const isAllowed = (dish: string, preferences: UserPreferences): boolean => validateDish(dish, preferences).length === 0;
+
+const getPreferenceLines = (preferences: UserPreferences, slot: MealSlot): string[] => {
+  if (!isDefaultSlot(slot.id)) {
+    if (slot.preferences?.length) return slot.preferences;
+    // No ideas for an added slot: use the matching suggestion, or snack ideas
+    return (SUGGESTED_MEAL_SLOTS.find(s => s.id === slot.id) || SUGGESTED_MEAL_SLOTS[0]).preferences!;
+  }
+  const key = `${slot.id}Preferences` as const;
+  if (preferences[key].length > 0) return preferences[key];
+  // Empty list: borrow from the first built-in template so the slot is not blank
+  return DEFAULT_PROFILE_TEMPLATES[0][key];
+};
+
+// Lunch and dinner get staples and salads added; other slots are served as picked
+const isComposedSlot = (slotId: string): boolean => slotId === 'lunch' || slotId === 'dinner';
+
+const buildSlotPool = (preferences: UserPreferences, slot: MealSlot): MealPool => {
+  const pool = buildPool(getPreferenceLines(preferences, slot));
+  const allowed = (items: string[]) => [...new Set(items.filter(i => isAllowed(i, preferences)))];
+  return {
+    ...pool,
+    dishes: allowed(pool.dishes),
+    staples: allowed(pool.staples),
+    salads: allowed(pool.salads),
+  };
+};
+
+interface PickContext {
+  random: () => number;
+  seasonalKeywords: string[];
+  used: Set<string>;
+  previous?: string;
+  strictNoRepeats: boolean;
+  exclude?: string[]; // Keywords to avoid for this pick
+  prefer?: string[]; // Keywords to favour for this pick
+}
+
+// Weighted random pick: in-season and preferred dishes are more likely
+const pickDish = (dishes: string[], ctx: PickContext): string => {
+  let candidates = dishes.filter(d => !(ctx.exclude && containsAny(d, ctx.exclude)));
+  if (candidates.length === 0) candidates = dishes;
+
+  const fresh = candidates.filter(d => ctx.strictNoRepeats ? !ctx.used.has(d) : d !== ctx.previous);
+  if (fresh.length > 0) candidates = fresh;
+
+  if (ctx.prefer) {
+    const preferred = candidates.filter(d => containsAny(d, ctx.prefer!));
+    if (preferred.length > 0) candidates = preferred;
+  }
+
+  const weights = candidates.map(d => containsAny(d, ctx.seasonalKeywords) ? 3 : 1);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let roll = ctx.random() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1] || '';
+};
+
+const pickOne = (items: string[], random: () => number): string => items[Math.floor(random() * items.length)];
+
+// "Aloo Gobi" -> "Aloo Gobi with Roti + Cucumber & Carrot Salad"
+const composeMeal = (dish: string, pool: MealPool, random: () => number, withSalad: boolean): string => {
+  if (!dish) return dish;
+  let meal = dish;
+  const staples = containsAny(dish, COMPLETE_MEAL_KEYWORDS)
+    ? pool.staples.filter(s => !containsAny(s, GRAIN_KEYWORDS))
+    : pool.staples;
+  if (staples.length > 0 && !/ with /i.test(dish)) {
+    meal = `${meal} with ${pickOne(staples, random)}`;
+  }
+  if ((withSalad || pool.saladMandatory) && !/salad/i.test(meal)) {
+    const first = pool.salads.length > 0 ? pickOne(pool.salads, random) : 'Green';
+    const rest = pool.salads.filter(s => s !== first);
+    const salad = rest.length > 0 ? `${first} & ${pickOne(rest, random)}` : first;
+    meal = `${meal} + ${salad} Salad`;
+  }
+  return meal;
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export const generateOfflineWeeklyPlan = (
+  preferences: UserPreferences,
+  options: OfflinePlanOptions = {}
+): WeeklyPlan => {
+  const date = options.date || (options.startDate ? new Date(`${options.startDate}T00:00:00`) : new Date());
+  const random = createRandom(`${options.seed || getWeekSeed(date)}|${preferences.dietaryType}`);
+  const seasonalKeywords = getSeasonalKeywords(getSeasonalContext(date));
+  const rules = preferences.quickCookInstructions || [];
+  const slots = getPlannedSlots(preferences);
+  const dayNames = getDayNames(preferences.language);
+  const dayCount = options.dayCount || DEFAULT_PLAN_DAYS;
+  // Monday-first weekday index of each day, for the weekday-only rules
+  const weekdayIndexes = options.startDate
+    ? getPlanDates(options.startDate, dayCount).map(d => (new Date(`${d}T00:00:00`).getDay() + 6) % 7)
+    : Array.from({ length: dayCount }, (_, i) => i % 7);
+
+  const pools: Record<string, MealPool> = Object.fromEntries(slots.map(slot => [slot.id, buildSlotPool(preferences, slot)]));
+  const used = new Set<string>();
+  const previous: Record<string, string> = {};
+  // "Tomato (about 0.5 kg)" -> "tomato"; dropped once a dish uses it
+  let useFirst = (options.useFirst || []).map(i => i.replace(/\s*\(.*\)\s*$/, '').trim().toLowerCase()).filter(Boolean);
+
+  const days: DayPlan[] = weekdayIndexes.map(weekdayIndex => {
+    const isWeekday = weekdayIndex < 5;
+    const day: DayPlan = { day: dayNames[weekdayIndex], breakfast: '', lunch: '', dinner: '' };
+
+    slots.forEach(({ id: slot }) => {
+      const exclude = rules.includes(RULE_NO_FRIED_WEEKDAYS) && isWeekday ? FRIED_KEYWORDS : undefined;
+      const prefer = slot === 'dinner' && rules.includes(RULE_LIGHTER_DINNER) && containsAny(day.lunch, HEAVY_LUNCH_KEYWORDS)
+        ? LIGHT_KEYWORDS
+        : useFirst.length > 0 ? useFirst : undefined;
+
+      const dish = pickDish(pools[slot].dishes, {
+        random,
+        seasonalKeywords,
+        used,
+        previous: previous[slot],
+        strictNoRepeats: rules.includes(RULE_NO_REPEATS),
+        exclude,
+        prefer,
+      });
+      used.add(dish);
+      previous[slot] = dish;
+      useFirst = useFirst.filter(ingredient => !containsAny(dish, [ingredient]));
+
+      day[slot] = isComposedSlot(slot)
+        ? composeMeal(dish, pools[slot], random, slot === 'lunch' && rules.includes(RULE_SALAD_AT_LUNCH))
+        : dish;
+    });
+
+    return day;
+  });
+
+  return options.startDate ? assignPlanDates({ days }, options.startDate, preferences.language) : { days };
+};
+
+// Offline counterpart of regenerateSingleMeal: picks a dish not already in the plan
+export const regenerateOfflineMeal = (
+  currentPlan: WeeklyPlan,
+  dayIndex: number,
+  mealType: string, // Meal slot id
+  preferences: UserPreferences
+): string => {
+  const slot = getMealSlots(preferences).find(s => s.id === mealType) || { id: mealType, label: mealType };
+  const pool = buildSlotPool(preferences, slot);
+  const planned = currentPlan.days.flatMap(getDayDishes);
+  const seed = `${planned.join('|')}|${dayIndex}|${mealType}`;
+  const random = createRandom(seed);
+
+  const dish = pickDish(pool.dishes.filter(d => !planned.some(p => p.includes(d))), {
+    random,
+    seasonalKeywords: getSeasonalKeywords(getSeasonalContext()),
+    used: new Set(),
+    strictNoRepeats: false,
+  }) || pickDish(pool.dishes, { random, seasonalKeywords: [], used: new Set(), strictNoRepeats: false });
+
+  const withSalad = mealType === 'lunch' && (preferences.quickCookInstructions || []).includes(RULE_SALAD_AT_LUNCH);
+  return isComposedSlot(mealType) ? composeMeal(dish, pool, random, withSalad) : dish;
+};
+
+// Offline counterpart of suggestMealAlternatives: unplanned dishes from the
+// profile's list, ranked pantry first, then in-season, then light and quick
+export const suggestOfflineAlternatives = (
+  currentPlan: WeeklyPlan,
+  dayIndex: number,
+  mealType: string, // Meal slot id
+  preferences: UserPreferences,
+  excluded: string[] = [],
+  pantry: PantryItem[] = []
+): MealAlternative[] => {
+  const slot = getMealSlots(preferences).find(s => s.id === mealType) || { id: mealType, label: mealType };
+  const pool = buildSlotPool(preferences, slot);
+  const planned = currentPlan.days.flatMap(getDayDishes);
+  const random = createRandom(`${planned.join('|')}|${excluded.join('|')}|${dayIndex}|${mealType}`);
+  const seasonalKeywords = getSeasonalKeywords(getSeasonalContext());
+  const stock = pantry.filter(item => item.quantity > 0).map(item => item.name);
+  const withSalad = mealType === 'lunch' && (preferences.quickCookInstructions || []).includes(RULE_SALAD_AT_LUNCH);
+
+  const rank = (dish: string): { tag: AlternativeTag; reason: string; score: number } => {
+    const stocked = stock.find(name => containsAny(dish, [name.toLowerCase()]));
+    if (stocked) return { tag: 'leftover', reason: `Uses the ${stocked.toLowerCase()} in your pantry`, score: 3 };
+    if (containsAny(dish, seasonalKeywords)) return { tag: 'seasonal', reason: 'Made with in-season produce', score: 2 };
+    if (containsAny(dish, LIGHT_KEYWORDS)) return { tag: 'quick', reason: 'Light and quick to make', score: 1 };
+    return { tag: 'favourite', reason: `From your ${slot.label.toLowerCase()} list, not planned yet`, score: 0 };
+  };
+
+  return pool.dishes
+    .filter(dish => !planned.some(p => p.includes(dish)) && !excluded.some(e => e.includes(dish)))
+    .map(dish => ({ dish, ...rank(dish), order: random() }))
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ dish, tag, reason }) => ({
+      meal: isComposedSlot(mealType) ? composeMeal(dish, pool, random, withSalad) : dish,
+      reason,
+      tag,
+    }))
+    .filter(alt => !isAlternativeExcluded(alt.meal, excluded))
+    .slice(0, ALTERNATIVES_COUNT);
+};
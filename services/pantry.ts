@@ -0,0 +1,81 @@
+/**
+ * Pantry
+ * Helpers for the pantry inventory: stock summaries for prompts, applying
+ * ingredient usage when a day is cooked, and expiry status.
+ */
+
+import { PantryItem, Recipe } from '../types';
+import { QuantityUnit, getGroceryKey, parseQuantity } from './groceryNormalizer';
+
+export const PANTRY_CATEGORIES = ['Vegetables', 'Fruits', 'Dairy', 'Proteins', 'Grains', 'Spices', 'Others'];
+export const PANTRY_UNITS = ['kg', 'g', 'L', 'ml', 'pcs', 'pack', 'dozen'];
+
+// Days before expiry at which an item is flagged as expiring soon
+const EXPIRING_SOON_DAYS = 3;
+
+// How much of each pantry unit one parsed recipe unit makes
+const UNIT_CONVERSIONS: Record<string, Partial<Record<QuantityUnit, number>>> = {
+  kg: { g: 1 / 1000 },
+  g: { g: 1 },
+  L: { ml: 1 / 1000 },
+  ml: { ml: 1 },
+  pcs: { pcs: 1 },
+  dozen: { pcs: 1 / 12 },
+  pack: { pack: 1 },
+};
+
+export interface PantryUsage {
+  itemId: string;
+  quantityUsed: number; // In the item's own unit
+}
+
+// "- [id] Atta: 4.5 kg (expires 2026-11-02)" lines for prompts
+export const formatPantryForPrompt = (items: PantryItem[]): string =>
+  items
+    .filter(item => item.quantity > 0)
+    .map(item => `- [${item.id}] ${item.name}: ${item.quantity} ${item.unit}${item.expiresOn ? ` (expires ${item.expiresOn})` : ''}`)
+    .join('\n');
+
+// Returns only the items whose quantity changed; stock never goes below zero
+export const applyPantryUsage = (items: PantryItem[], usage: PantryUsage[]): PantryItem[] =>
+  usage
+    .map(({ itemId, quantityUsed }) => {
+      const item = items.find(i => i.id === itemId);
+      if (!item || !(quantityUsed > 0)) return null;
+      const quantity = Math.max(0, Math.round((item.quantity - quantityUsed) * 100) / 100);
+      return { ...item, quantity };
+    })
+    .filter((item): item is PantryItem => !!item);
+
+// Usage taken from saved recipes, for when no AI provider can estimate it. `recipesByMeal`
+// holds each cooked dish's saved recipes; the one for `servings` is preferred, otherwise
+// another is scaled. Only ingredients naming a pantry item with a measurable quantity count.
+export const getRecipePantryUsage = (recipesByMeal: Recipe[][], items: PantryItem[], servings?: number): PantryUsage[] => {
+  const used = new Map<string, number>();
+
+  recipesByMeal.forEach(recipes => {
+    const recipe = recipes.find(r => servings && r.servings === Math.round(servings)) || recipes[0];
+    if (!recipe) return;
+    const scale = servings && recipe.servings > 0 ? servings / recipe.servings : 1;
+
+    recipe.ingredients.forEach(ingredient => {
+      const key = getGroceryKey(ingredient.name);
+      const item = items.find(i => i.quantity > 0 && getGroceryKey(i.name) === key);
+      if (!item) return;
+      parseQuantity(ingredient.quantity).amounts.forEach(({ amount, unit }) => {
+        const factor = UNIT_CONVERSIONS[item.unit]?.[unit];
+        if (factor) used.set(item.id, (used.get(item.id) || 0) + amount * factor * scale);
+      });
+    });
+  });
+
+  return [...used.entries()].map(([itemId, quantityUsed]) => ({ itemId, quantityUsed }));
+};
+
+export const getExpiryStatus = (item: PantryItem, today: Date = new Date()): 'expired' | 'soon' | 'ok' => {
+  if (!item.expiresOn) return 'ok';
+  const expiry = new Date(`${item.expiresOn}T23:59:59`);
+  const daysLeft = (expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24);
+  if (daysLeft < 0) return 'expired';
+  return daysLeft <= EXPIRING_SOON_DAYS ? 'soon' : 'ok';
+};
@@ -0,0 +1,52 @@
+/**
+ * Plan Horizon
+ * A plan covers `dayCount` consecutive days from any start date (a 3-day trip,
+ * a 10-day holiday). Helpers here give each day its real date and weekday name
+ * and split long ranges into chunks small enough for one AI call.
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { WeeklyPlan } from '../types';
+import { getDayNames } from './languages';
+
+export const DEFAULT_PLAN_DAYS = 7;
+export const MIN_PLAN_DAYS = 1;
+export const MAX_PLAN_DAYS = 28;
+
+// Longest run of days requested from the AI in one call
+export const MAX_DAYS_PER_CALL = 7;
+
+export const clampPlanDays = (days: number): number =>
+  Math.min(MAX_PLAN_DAYS, Math.max(MIN_PLAN_DAYS, Math.round(days) || DEFAULT_PLAN_DAYS));
+
+// ["2026-10-23", "2026-10-24", ...]
+export const getPlanDates = (startDate: string, dayCount: number): string[] =>
+  Array.from({ length: dayCount }, (_, i) => format(addDays(parseISO(startDate), i), 'yyyy-MM-dd'));
+
+// Weekday name of a date in the plan language (day name lists start on Monday)
+export const getDayNameForDate = (date: string, languageId?: string): string =>
+  getDayNames(languageId)[(parseISO(date).getDay() + 6) % 7];
+
+// { start: 0, count: 7 }, { start: 7, count: 3 } for 10 days
+export const splitPlanIntoChunks = (dayCount: number, chunkSize: number = MAX_DAYS_PER_CALL): { start: number; count: number }[] =>
+  Array.from({ length: Math.ceil(dayCount / chunkSize) }, (_, i) => ({
+    start: i * chunkSize,
+    count: Math.min(chunkSize, dayCount - i * chunkSize),
+  }));
+
+// "Oct 23 - Nov 1, 2026"
+export const formatPlanRange = (startDate: string, dayCount: number): string => {
+  const start = parseISO(startDate);
+  const end = addDays(start, Math.max(dayCount, 1) - 1);
+  return `${format(start, 'MMM d')} - ${format(end, 'MMM d, yyyy')}`;
+};
+
+// Labels each day with its date and weekday; day names follow the plan language
+export const assignPlanDates = (plan: WeeklyPlan, startDate: string, languageId?: string): WeeklyPlan => {
+  const dates = getPlanDates(startDate, plan.days.length);
+  return {
+    ...plan,
+    startDate,
+    days: plan.days.map((day, i) => ({ ...day, day: getDayNameForDate(dates[i], languageId), date: dates[i] })),
+  };
+};
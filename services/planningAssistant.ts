@@ -0,0 +1,170 @@
+/**
+ * Planning Assistant
+ * A chat where the user describes changes in their own words ("guests on
+ * Saturday", "out of paneer till Thursday") and the assistant proposes meal
+ * edits across the draft plan and the calendar. Each day is given a short
+ * reference in the prompt; proposals come back against those references and
+ * are shown as a diff before anything is saved. The conversation is kept on
+ * this device per profile.
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { AssistantMessage, DayPlan, MealSlot, PlanEdit, Schedule, WeeklyPlan } from '../types';
+import { getDaySlots } from './mealSlots';
+
+const ASSISTANT_CHAT_KEY = 'qookcommander_assistant_chat';
+
+// Messages kept per profile, and how many recent ones are sent as context
+const MAX_STORED_MESSAGES = 60;
+export const ASSISTANT_HISTORY_MESSAGES = 12;
+
+// Calendar days from today the assistant can see and change
+export const ASSISTANT_SCHEDULE_DAYS = 14;
+
+// A day the assistant may edit, with its reference in the prompt
+export interface AssistantDay {
+  ref: string; // "P1".. for the draft plan, YYYY-MM-DD for the calendar
+  label: string; // e.g. "Draft plan, Day 1 (Monday)" or "Calendar, Sat 24 Oct"
+  target: PlanEdit['target'];
+  dayIndex?: number;
+  date?: string;
+  day?: DayPlan; // Undefined for calendar days with nothing scheduled
+  slots: MealSlot[];
+}
+
+// Raw model response; edits refer to days by AssistantDay.ref
+export interface AssistantResponse {
+  reply: string;
+  edits: { day: string; mealType: string; meal: string; reason?: string }[];
+}
+
+// ============================================================================
+// CONVERSATION STORAGE
+// ============================================================================
+
+// Keyed by profile id
+const readChats = (): Record<string, AssistantMessage[]> => {
+  const saved = localStorage.getItem(ASSISTANT_CHAT_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+export const getAssistantChat = (profileId: string): AssistantMessage[] => readChats()[profileId] || [];
+
+export const saveAssistantChat = (profileId: string, messages: AssistantMessage[]): void => {
+  const chats = readChats();
+  chats[profileId] = messages.slice(-MAX_STORED_MESSAGES);
+  localStorage.setItem(ASSISTANT_CHAT_KEY, JSON.stringify(chats));
+};
+
+export const clearAssistantChat = (profileId: string): void => {
+  const chats = readChats();
+  delete chats[profileId];
+  localStorage.setItem(ASSISTANT_CHAT_KEY, JSON.stringify(chats));
+};
+
+export const createAssistantMessage = (role: AssistantMessage['role'], text: string, edits?: PlanEdit[]): AssistantMessage => ({
+  id: `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  role,
+  text,
+  ...(edits && edits.length > 0 && { edits, editsStatus: 'pending' as const }),
+  createdAt: new Date().toISOString(),
+});
+
+// ============================================================================
+// DAYS IN SCOPE
+// ============================================================================
+
+// Every draft plan day, then the calendar from today for ASSISTANT_SCHEDULE_DAYS days
+export const getAssistantDays = (
+  plan: WeeklyPlan | null,
+  schedule: Schedule,
+  slots: MealSlot[],
+  today: Date = new Date()
+): AssistantDay[] => {
+  const planDays: AssistantDay[] = (plan?.days || []).map((day, index) => ({
+    ref: `P${index + 1}`,
+    label: `Draft plan, Day ${index + 1} (${day.day}${day.date ? `, ${format(parseISO(day.date), 'd MMM')}` : ''})`,
+    target: 'plan',
+    dayIndex: index,
+    day,
+    slots: getDaySlots(day, slots),
+  }));
+
+  const scheduleDays: AssistantDay[] = Array.from({ length: ASSISTANT_SCHEDULE_DAYS }, (_, i) => {
+    const date = format(addDays(today, i), 'yyyy-MM-dd');
+    const day = schedule[date];
+    return {
+      ref: date,
+      label: `Calendar, ${format(parseISO(date), 'EEE d MMM')}${i === 0 ? ' (today)' : ''}`,
+      target: 'schedule',
+      date,
+      day,
+      slots: getDaySlots(day, slots),
+    };
+  });
+
+  return [...planDays, ...scheduleDays];
+};
+
+// "[P1] Draft plan, Day 1 (Monday): breakfast=Poha; lunch=Dal Rice; dinner=(empty)"
+export const formatAssistantDays = (days: AssistantDay[]): string =>
+  days
+    .map(d => `[${d.ref}] ${d.label}: ${d.slots.map(s => `${s.id}=${d.day?.[s.id]?.trim() || '(empty)'}`).join('; ')}`)
+    .join('\n');
+
+// Turns a proposal against a day reference into an edit; null when it changes nothing
+export const toPlanEdit = (day: AssistantDay, mealType: string, meal: string, reason?: string): PlanEdit | null => {
+  const before = day.day?.[mealType]?.trim() || '';
+  const after = meal.trim();
+  if (!after || after === before) return null;
+  return {
+    target: day.target,
+    ...(day.target === 'plan' ? { dayIndex: day.dayIndex } : { date: day.date }),
+    mealType,
+    before,
+    after,
+    ...(reason?.trim() && { reason: reason.trim() }),
+  };
+};
+
+// ============================================================================
+// APPLYING EDITS
+// ============================================================================
+
+// Copy of the plan with the draft plan edits applied
+export const applyEditsToPlan = (plan: WeeklyPlan, edits: PlanEdit[]): WeeklyPlan => ({
+  ...plan,
+  days: plan.days.map((day, index) => {
+    const dayEdits = edits.filter(e => e.target === 'plan' && e.dayIndex === index);
+    if (dayEdits.length === 0) return day;
+    const updated = { ...day };
+    dayEdits.forEach(e => { updated[e.mealType] = e.after; });
+    return updated;
+  }),
+});
+
+// Calendar days changed by the edits, keyed by date; days with nothing scheduled yet are created
+export const applyEditsToSchedule = (schedule: Schedule, edits: PlanEdit[]): Schedule => {
+  const changed: Schedule = {};
+  edits
+    .filter(e => e.target === 'schedule' && e.date)
+    .forEach(e => {
+      const base = changed[e.date!] || schedule[e.date!] || { day: e.date!, breakfast: '', lunch: '', dinner: '' };
+      changed[e.date!] = { ...base, [e.mealType]: e.after };
+    });
+  return changed;
+};
+
+// Edits whose slot changed since they were proposed, e.g. edited by hand in the meantime
+export const isEditStale = (edit: PlanEdit, plan: WeeklyPlan | null, schedule: Schedule): boolean => {
+  const day = edit.target === 'plan' ? plan?.days[edit.dayIndex ?? -1] : schedule[edit.date || ''];
+  if (edit.target === 'plan' && !day) return true;
+  return (day?.[edit.mealType]?.trim() || '') !== edit.before;
+};
+
+// "Day 1 (Monday)" or "Sat 24 Oct", for the diff view
+export const describeEditDay = (edit: PlanEdit, plan: WeeklyPlan | null): string => {
+  if (edit.target === 'schedule') return format(parseISO(edit.date!), 'EEE d MMM');
+  const day = plan?.days[edit.dayIndex ?? -1];
+  return `Day ${(edit.dayIndex ?? 0) + 1}${day ? ` (${day.day})` : ''}`;
+};
@@ -0,0 +1,369 @@
+/**
+ * Produce Data
+ * In-season vegetables and fruits by region and month, grouped by typical
+ * market price band. Used by seasonalContext; add a region here to support it.
+ */
+
+export type PriceBand = 'low' | 'medium' | 'high';
+export type ProduceByPrice = Partial<Record<PriceBand, string[]>>;
+
+export interface ProduceSeason {
+  months: number[]; // 0 = January
+  season: string;
+  vegetables: ProduceByPrice;
+  fruits: ProduceByPrice;
+}
+
+export interface ProduceRegion {
+  id: string;
+  label: string;
+  seasons: ProduceSeason[]; // Together they cover all twelve months
+}
+
+export const DEFAULT_REGION_ID = 'north-india';
+
+export const PRODUCE_REGIONS: ProduceRegion[] = [
+  {
+    id: 'north-india',
+    label: 'North India (Delhi, Punjab, UP)',
+    seasons: [
+      {
+        months: [2, 3, 4],
+        season: 'Spring/Summer (March-May)',
+        vegetables: {
+          low: ['bottle gourd (lauki)', 'ridge gourd (tori)', 'cucumber', 'pumpkin (kaddu)', 'tomatoes'],
+          medium: ['okra (bhindi)', 'bitter gourd (karela)', 'brinjal', 'green beans', 'round gourd (tinda)'],
+          high: ['capsicum', 'raw jackfruit'],
+        },
+        fruits: {
+          low: ['watermelon', 'muskmelon'],
+          medium: ['mango', 'banana'],
+          high: ['litchi'],
+        },
+      },
+      {
+        months: [5, 6, 7, 8],
+        season: 'Monsoon/Rainy (June-September)',
+        vegetables: {
+          low: ['bottle gourd (lauki)', 'ridge gourd (tori)', 'colocasia (arbi)', 'pointed gourd (parwal)', 'pumpkin (kaddu)'],
+          medium: ['corn (bhutta)', 'bitter gourd (karela)', 'okra (bhindi)', 'spine gourd (kantola)', 'drumstick'],
+          high: ['mushrooms', 'leafy greens (spinach, fenugreek)'],
+        },
+        fruits: {
+          low: ['banana'],
+          medium: ['mango', 'jamun', 'plum', 'pear', 'peach'],
+        },
+      },
+      {
+        months: [9, 10],
+        season: 'Autumn/Post-Monsoon (October-November)',
+        vegetables: {
+          low: ['pumpkin', 'sweet potato', 'radish (mooli)', 'cabbage'],
+          medium: ['cauliflower', 'beans', 'carrots', 'beetroot', 'turnip'],
+          high: ['peas', 'broccoli'],
+        },
+        fruits: {
+          low: ['guava', 'papaya', 'banana'],
+          medium: ['pomegranate', 'apple', 'custard apple (sitaphal)', 'pear'],
+        },
+      },
+      {
+        months: [11, 0, 1],
+        season: 'Winter (December-February)',
+        vegetables: {
+          low: ['cauliflower', 'cabbage', 'peas', 'carrots', 'radish (mooli)', 'spinach (palak)', 'mustard greens (sarson)', 'fenugreek (methi)', 'bathua', 'turnip'],
+          medium: ['beetroot', 'green garlic', 'broccoli', 'sweet potato'],
+        },
+        fruits: {
+          low: ['oranges (kinnow)', 'guava'],
+          medium: ['apple', 'amla', 'strawberries'],
+        },
+      },
+    ],
+  },
+  {
+    id: 'west-india',
+    label: 'West India (Mumbai, Pune, Gujarat)',
+    seasons: [
+      {
+        months: [2, 3, 4],
+        season: 'Summer (March-May)',
+        vegetables: {
+          low: ['bottle gourd (dudhi)', 'ridge gourd (turai)', 'cucumber', 'pumpkin'],
+          medium: ['cluster beans (gavar)', 'drumstick', 'raw mango', 'okra (bhindi)'],
+          high: ['capsicum', 'green peas'],
+        },
+        fruits: {
+          low: ['watermelon', 'kokum'],
+          medium: ['jackfruit', 'pineapple'],
+          high: ['alphonso mango'],
+        },
+      },
+      {
+        months: [5, 6, 7, 8],
+        season: 'Monsoon (June-September)',
+        vegetables: {
+          low: ['colocasia leaves (alu)', 'bottle gourd (dudhi)', 'ridge gourd (turai)', 'ivy gourd (tondli)', 'spine gourd (kantola)'],
+          medium: ['corn (bhutta)', 'monsoon greens (ranbhaji)', 'drumstick', 'bitter gourd (karela)'],
+          high: ['tomatoes', 'fenugreek (methi)'],
+        },
+        fruits: {
+          low: ['banana'],
+          medium: ['jamun', 'pear', 'custard apple (sitaphal)'],
+        },
+      },
+      {
+        months: [9, 10],
+        season: 'Post-Monsoon (October-November)',
+        vegetables: {
+          low: ['brinjal', 'cabbage', 'pumpkin', 'raw papaya'],
+          medium: ['broad beans (papdi)', 'hyacinth beans (valor)', 'cauliflower', 'carrots'],
+          high: ['green peas'],
+        },
+        fruits: {
+          low: ['guava', 'banana', 'papaya'],
+          medium: ['custard apple (sitaphal)', 'pomegranate'],
+        },
+      },
+      {
+        months: [11, 0, 1],
+        season: 'Winter (December-February)',
+        vegetables: {
+          low: ['surti papdi', 'pigeon peas (tuvar lilva)', 'green garlic', 'fenugreek (methi)', 'spinach (palak)', 'carrots', 'brinjal', 'cabbage'],
+          medium: ['green peas', 'cauliflower', 'purple yam (kand)', 'sweet potato'],
+        },
+        fruits: {
+          low: ['guava', 'sapota (chikoo)', 'oranges'],
+          medium: ['strawberries', 'grapes'],
+        },
+      },
+    ],
+  },
+  {
+    id: 'south-india',
+    label: 'South India (Chennai, Bangalore, Hyderabad)',
+    seasons: [
+      {
+        months: [2, 3, 4],
+        season: 'Summer (March-May)',
+        vegetables: {
+          low: ['ash gourd', 'snake gourd', 'bottle gourd', 'cucumber', 'drumstick', 'raw mango'],
+          medium: ['beans', 'okra (vendakkai)', 'brinjal', 'raw banana'],
+          high: ['carrots', 'beetroot', 'cabbage'],
+        },
+        fruits: {
+          low: ['watermelon', 'mango', 'jackfruit', 'tender coconut'],
+          medium: ['banana', 'sapota'],
+        },
+      },
+      {
+        months: [5, 6, 7, 8],
+        season: 'Southwest Monsoon (June-September)',
+        vegetables: {
+          low: ['raw banana', 'elephant foot yam (senai)', 'colocasia (arbi)', 'ash gourd', 'pumpkin'],
+          medium: ['beans', 'cabbage', 'carrots', 'chayote (chow chow)', 'okra (vendakkai)'],
+          high: ['tomatoes', 'drumstick'],
+        },
+        fruits: {
+          low: ['banana', 'tender coconut'],
+          medium: ['guava', 'jamun', 'pineapple'],
+        },
+      },
+      {
+        months: [9, 10, 11],
+        season: 'Northeast Monsoon (October-December)',
+        vegetables: {
+          low: ['chayote (chow chow)', 'raw banana', 'pumpkin', 'elephant foot yam (senai)', 'cluster beans', 'broad beans (avarakkai)'],
+          medium: ['carrots', 'beans', 'radish', 'drumstick'],
+          high: ['tomatoes', 'shallots'],
+        },
+        fruits: {
+          low: ['guava', 'banana', 'papaya'],
+          medium: ['pomegranate', 'custard apple', 'oranges (Coorg)'],
+        },
+      },
+      {
+        months: [0, 1],
+        season: 'Cool Season (January-February)',
+        vegetables: {
+          low: ['carrots', 'beans', 'cabbage', 'cauliflower', 'radish', 'broad beans (avarakkai)', 'green peas'],
+          medium: ['beetroot', 'knol khol', 'drumstick'],
+        },
+        fruits: {
+          low: ['guava', 'papaya', 'tender coconut'],
+          medium: ['grapes', 'strawberries'],
+        },
+      },
+    ],
+  },
+  {
+    id: 'east-india',
+    label: 'East India (Kolkata, Odisha)',
+    seasons: [
+      {
+        months: [2, 3, 4],
+        season: 'Summer (March-May)',
+        vegetables: {
+          low: ['pointed gourd (potol)', 'bottle gourd (lau)', 'ridge gourd (jhinge)', 'bitter gourd (uchhe)', 'drumstick (sajne data)', 'pumpkin'],
+          medium: ['raw mango', 'okra (dherosh)', 'brinjal'],
+        },
+        fruits: {
+          low: ['watermelon', 'jackfruit'],
+          medium: ['mango', 'litchi'],
+        },
+      },
+      {
+        months: [5, 6, 7, 8],
+        season: 'Monsoon (June-September)',
+        vegetables: {
+          low: ['pointed gourd (potol)', 'pumpkin', 'colocasia (kochu)', 'teasel gourd (kakrol)', 'banana flower (mocha)', 'raw banana'],
+          medium: ['okra (dherosh)', 'ridge gourd (jhinge)'],
+          high: ['tomatoes'],
+        },
+        fruits: {
+          low: ['banana'],
+          medium: ['mango', 'jamun', 'pineapple'],
+        },
+      },
+      {
+        months: [9, 10],
+        season: 'Autumn (October-November)',
+        vegetables: {
+          low: ['pumpkin', 'raw papaya', 'sweet potato'],
+          medium: ['cauliflower', 'beans', 'radish'],
+          high: ['green peas'],
+        },
+        fruits: {
+          low: ['guava', 'papaya'],
+          medium: ['custard apple', 'pomegranate'],
+        },
+      },
+      {
+        months: [11, 0, 1],
+        season: 'Winter (December-February)',
+        vegetables: {
+          low: ['cauliflower (phulkopi)', 'cabbage', 'green peas (koraishuti)', 'radish', 'spinach (palong)', 'carrots', 'tomatoes', 'beetroot', 'new potatoes'],
+          medium: ['broccoli', 'flat beans (sheem)'],
+        },
+        fruits: {
+          low: ['oranges', 'guava'],
+          medium: ['jujube (kul)', 'strawberries'],
+        },
+      },
+    ],
+  },
+  {
+    id: 'northern-temperate',
+    label: 'UK, Europe & North America',
+    seasons: [
+      {
+        months: [11, 0, 1],
+        season: 'Winter (December-February)',
+        vegetables: {
+          low: ['cabbage', 'carrots', 'cauliflower', 'potatoes', 'leeks', 'parsnips', 'swede'],
+          medium: ['spinach', 'kale', 'brussels sprouts'],
+          high: ['okra', 'bitter gourd', 'fresh tomatoes'],
+        },
+        fruits: {
+          low: ['apples', 'pears', 'oranges', 'clementines'],
+          medium: ['bananas'],
+        },
+      },
+      {
+        months: [2, 3, 4],
+        season: 'Spring (March-May)',
+        vegetables: {
+          low: ['spinach', 'spring greens', 'cauliflower', 'carrots'],
+          medium: ['peas', 'asparagus', 'radishes'],
+          high: ['okra', 'bottle gourd'],
+        },
+        fruits: {
+          low: ['bananas', 'apples'],
+          medium: ['rhubarb'],
+        },
+      },
+      {
+        months: [5, 6, 7],
+        season: 'Summer (June-August)',
+        vegetables: {
+          low: ['courgette (zucchini)', 'tomatoes', 'cucumber', 'green beans', 'peas', 'sweetcorn'],
+          medium: ['aubergine', 'peppers'],
+          high: ['okra'],
+        },
+        fruits: {
+          low: ['strawberries', 'raspberries', 'plums'],
+          medium: ['cherries', 'peaches'],
+        },
+      },
+      {
+        months: [8, 9, 10],
+        season: 'Autumn (September-November)',
+        vegetables: {
+          low: ['pumpkin', 'squash', 'cauliflower', 'cabbage', 'carrots', 'beetroot'],
+          medium: ['kale', 'mushrooms', 'leeks'],
+          high: ['okra', 'fenugreek (methi)'],
+        },
+        fruits: {
+          low: ['apples', 'pears'],
+          medium: ['plums', 'grapes'],
+        },
+      },
+    ],
+  },
+  {
+    id: 'southern-temperate',
+    label: 'Australia, NZ & South Africa',
+    seasons: [
+      {
+        months: [11, 0, 1],
+        season: 'Summer (December-February)',
+        vegetables: {
+          low: ['zucchini', 'tomatoes', 'cucumber', 'capsicum', 'corn', 'green beans', 'eggplant'],
+          medium: ['okra', 'bitter melon'],
+        },
+        fruits: {
+          low: ['watermelon', 'peaches', 'plums', 'nectarines'],
+          medium: ['mango', 'berries'],
+          high: ['cherries'],
+        },
+      },
+      {
+        months: [2, 3, 4],
+        season: 'Autumn (March-May)',
+        vegetables: {
+          low: ['pumpkin', 'sweet potato', 'eggplant', 'capsicum', 'spinach'],
+          medium: ['cauliflower', 'broccoli', 'mushrooms'],
+        },
+        fruits: {
+          low: ['apples', 'pears'],
+          medium: ['figs', 'grapes'],
+        },
+      },
+      {
+        months: [5, 6, 7],
+        season: 'Winter (June-August)',
+        vegetables: {
+          low: ['cauliflower', 'cabbage', 'carrots', 'broccoli', 'pumpkin', 'spinach', 'potatoes'],
+          medium: ['leeks', 'fennel', 'brussels sprouts'],
+          high: ['tomatoes', 'zucchini', 'okra'],
+        },
+        fruits: {
+          low: ['oranges', 'mandarins', 'kiwifruit', 'apples'],
+        },
+      },
+      {
+        months: [8, 9, 10],
+        season: 'Spring (September-November)',
+        vegetables: {
+          low: ['peas', 'spinach', 'broccoli', 'cabbage'],
+          medium: ['asparagus', 'broad beans'],
+          high: ['tomatoes', 'capsicum'],
+        },
+        fruits: {
+          low: ['oranges', 'bananas'],
+          medium: ['strawberries'],
+        },
+      },
+    ],
+  },
+];
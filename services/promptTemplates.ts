@@ -0,0 +1,674 @@
+/**
+ * Prompt Templates
+ * Named, versioned prompt templates for every AI call in geminiService.
+ * Placeholders are written as {{variableName}}. To change a prompt, add a new
+ * entry with the same id and a higher version; saved plans record the id and
+ * version that produced them.
+ */
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  description: string;
+  variables: string[]; // Every {{placeholder}} the template uses
+  template: string;
+}
+
+export interface RenderedPrompt {
+  templateId: string;
+  version: number;
+  prompt: string;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'weekly-plan',
+    version: 1,
+    description: 'Seven-day meal plan from a preference profile',
+    variables: [
+      'firstDay', 'lastDay', 'dietaryType', 'allergies', 'dislikes', 'breakfastPrefs', 'lunchPrefs', 'dinnerPrefs',
+      'specialInstructions', 'pantryStaples', 'languageInstruction', 'region', 'month', 'season', 'availableProduce',
+      'nutritionContext', 'householdContext', 'observanceContext', 'learningContext', 'historyRule',
+    ],
+    template: `
+    You are a professional meal planner. Generate a weekly meal plan (7 days: {{firstDay}} to {{lastDay}}) based on these preferences:
+
+    Dietary Type: {{dietaryType}}
+    Allergies: {{allergies}}
+    Dislikes: {{dislikes}}
+    Breakfast Prefs: {{breakfastPrefs}}
+    Lunch Prefs: {{lunchPrefs}}
+    Dinner Prefs: {{dinnerPrefs}}
+    Special Instructions: {{specialInstructions}}
+    Pantry Staples: {{pantryStaples}}
+    {{languageInstruction}}
+    SEASONAL CONTEXT:
+    - Region: {{region}}
+    - Current Month: {{month}}
+    - Season: {{season}}
+    - In-season produce in local markets now: {{availableProduce}}
+    {{nutritionContext}}{{householdContext}}{{observanceContext}}{{learningContext}}
+    IMPORTANT:
+    1. Prioritize seasonal produce that is fresh and cheap in this region now.
+    2. Ensure variety - don't repeat the same dish within the week.
+    3. Balance nutrition across meals.
+    4. Make meals practical and achievable.
+    {{historyRule}}
+
+    Think step by step about what makes a balanced, seasonal meal plan.
+  `,
+  },
+  {
+    id: 'weekly-plan',
+    version: 2,
+    description: 'Meal plan for any run of consecutive days (one chunk of a longer plan)',
+    variables: [
+      'dayCount', 'dayList', 'dietaryType', 'allergies', 'dislikes', 'breakfastPrefs', 'lunchPrefs', 'dinnerPrefs',
+      'specialInstructions', 'pantryStaples', 'languageInstruction', 'region', 'month', 'season', 'availableProduce',
+      'nutritionContext', 'householdContext', 'observanceContext', 'learningContext', 'earlierMealsContext', 'historyRule',
+    ],
+    template: `
+    You are a professional meal planner. Generate a meal plan for exactly {{dayCount}} day(s), in this order:
+    {{dayList}}
+
+    Base it on these preferences:
+
+    Dietary Type: {{dietaryType}}
+    Allergies: {{allergies}}
+    Dislikes: {{dislikes}}
+    Breakfast Prefs: {{breakfastPrefs}}
+    Lunch Prefs: {{lunchPrefs}}
+    Dinner Prefs: {{dinnerPrefs}}
+    Special Instructions: {{specialInstructions}}
+    Pantry Staples: {{pantryStaples}}
+    {{languageInstruction}}
+    SEASONAL CONTEXT:
+    - Region: {{region}}
+    - Current Month: {{month}}
+    - Season: {{season}}
+    - In-season produce in local markets now: {{availableProduce}}
+    {{nutritionContext}}{{householdContext}}{{observanceContext}}{{learningContext}}{{earlierMealsContext}}
+    IMPORTANT:
+    1. Prioritize seasonal produce that is fresh and cheap in this region now.
+    2. Ensure variety - don't repeat the same dish anywhere in the plan.
+    3. Balance nutrition across meals.
+    4. Make meals practical and achievable.
+    {{historyRule}}
+    Return exactly {{dayCount}} day(s), in the order listed, with the day labels exactly as written above.
+
+    Think step by step about what makes a balanced, seasonal meal plan.
+  `,
+  },
+  {
+    id: 'weekly-plan',
+    version: 3,
+    description: "Meal plan for any run of consecutive days, filling the profile's own meal slots",
+    variables: [
+      'dayCount', 'dayList', 'mealSlots', 'dietaryType', 'allergies', 'dislikes',
+      'specialInstructions', 'pantryStaples', 'languageInstruction', 'region', 'month', 'season', 'availableProduce',
+      'nutritionContext', 'householdContext', 'observanceContext', 'learningContext', 'earlierMealsContext', 'historyRule',
+    ],
+    template: `
+    You are a professional meal planner. Generate a meal plan for exactly {{dayCount}} day(s), in this order:
+    {{dayList}}
+
+    MEALS TO PLAN EACH DAY (JSON key, name and notes: preferred dishes):
+    {{mealSlots}}
+
+    Base it on these preferences:
+
+    Dietary Type: {{dietaryType}}
+    Allergies: {{allergies}}
+    Dislikes: {{dislikes}}
+    Special Instructions: {{specialInstructions}}
+    Pantry Staples: {{pantryStaples}}
+    {{languageInstruction}}
+    SEASONAL CONTEXT:
+    - Region: {{region}}
+    - Current Month: {{month}}
+    - Season: {{season}}
+    - In-season produce in local markets now: {{availableProduce}}
+    {{nutritionContext}}{{householdContext}}{{observanceContext}}{{learningContext}}{{earlierMealsContext}}
+    IMPORTANT:
+    1. Prioritize seasonal produce that is fresh and cheap in this region now.
+    2. Ensure variety - don't repeat the same dish anywhere in the plan.
+    3. Balance nutrition across meals.
+    4. Make meals practical and achievable, and suit each meal to its notes.
+    {{historyRule}}
+    Return exactly {{dayCount}} day(s), in the order listed, with the day labels exactly as written above.
+    Fill every meal listed above under its JSON key.
+
+    Think step by step about what makes a balanced, seasonal meal plan.
+  `,
+  },
+  {
+    id: 'weekly-plan',
+    version: 4,
+    description: "Meal plan for any run of consecutive days, using up the given ingredients first",
+    variables: [
+      'dayCount', 'dayList', 'mealSlots', 'dietaryType', 'allergies', 'dislikes',
+      'specialInstructions', 'pantryStaples', 'languageInstruction', 'region', 'month', 'season', 'availableProduce',
+      'nutritionContext', 'householdContext', 'observanceContext', 'learningContext', 'earlierMealsContext', 'useFirstContext', 'historyRule',
+    ],
+    template: `
+    You are a professional meal planner. Generate a meal plan for exactly {{dayCount}} day(s), in this order:
+    {{dayList}}
+
+    MEALS TO PLAN EACH DAY (JSON key, name and notes: preferred dishes):
+    {{mealSlots}}
+
+    Base it on these preferences:
+
+    Dietary Type: {{dietaryType}}
+    Allergies: {{allergies}}
+    Dislikes: {{dislikes}}
+    Special Instructions: {{specialInstructions}}
+    Pantry Staples: {{pantryStaples}}
+    {{languageInstruction}}
+    SEASONAL CONTEXT:
+    - Region: {{region}}
+    - Current Month: {{month}}
+    - Season: {{season}}
+    - In-season produce in local markets now: {{availableProduce}}
+    {{nutritionContext}}{{householdContext}}{{observanceContext}}{{learningContext}}{{earlierMealsContext}}{{useFirstContext}}
+    IMPORTANT:
+    1. Prioritize seasonal produce that is fresh and cheap in this region now.
+    2. Ensure variety - don't repeat the same dish anywhere in the plan.
+    3. Balance nutrition across meals.
+    4. Make meals practical and achievable, and suit each meal to its notes.
+    {{historyRule}}
+    Return exactly {{dayCount}} day(s), in the order listed, with the day labels exactly as written above.
+    Fill every meal listed above under its JSON key.
+
+    Think step by step about what makes a balanced, seasonal meal plan.
+  `,
+  },
+  {
+    id: 'regenerate-meal',
+    version: 1,
+    description: 'Replace one meal in a plan',
+    variables: [
+      'mealType', 'dayNumber', 'breakfast', 'lunch', 'dinner', 'dietaryType', 'allergies', 'dislikes',
+      'householdContext', 'region', 'season', 'availableProduce', 'existingMeals', 'rejectedSection',
+    ],
+    template: `
+    Regenerate the {{mealType}} for Day {{dayNumber}}.
+    Current Plan for this day:
+    Breakfast: {{breakfast}}
+    Lunch: {{lunch}}
+    Dinner: {{dinner}}
+
+    The user wants to CHANGE the {{mealType}} only.
+    Preferences:
+    Dietary: {{dietaryType}}
+    Allergies: {{allergies}}
+    Dislikes: {{dislikes}}
+    {{householdContext}}
+    Region: {{region}}
+    Current Season: {{season}}
+    In-season produce: {{availableProduce}}
+
+    IMPORTANT: Do NOT suggest any of these already planned meals (avoid duplicates):
+    {{existingMeals}}
+    {{rejectedSection}}
+    Output ONLY the name/description of the new meal as a plain string. Make it completely different from all existing options.
+  `,
+  },
+  {
+    id: 'regenerate-meal',
+    version: 2,
+    description: "Replace one meal in a plan, for any of the profile's meal slots",
+    variables: [
+      'mealType', 'slotNotes', 'dayNumber', 'currentMeals', 'dietaryType', 'allergies', 'dislikes',
+      'householdContext', 'region', 'season', 'availableProduce', 'existingMeals', 'rejectedSection',
+    ],
+    template: `
+    Regenerate the {{mealType}} for Day {{dayNumber}}.{{slotNotes}}
+    Current Plan for this day:
+    {{currentMeals}}
+
+    The user wants to CHANGE the {{mealType}} only.
+    Preferences:
+    Dietary: {{dietaryType}}
+    Allergies: {{allergies}}
+    Dislikes: {{dislikes}}
+    {{householdContext}}
+    Region: {{region}}
+    Current Season: {{season}}
+    In-season produce: {{availableProduce}}
+
+    IMPORTANT: Do NOT suggest any of these already planned meals (avoid duplicates):
+    {{existingMeals}}
+    {{rejectedSection}}
+    Output ONLY the name/description of the new meal as a plain string. Make it completely different from all existing options.
+  `,
+  },
+  {
+    id: 'meal-alternatives',
+    version: 1,
+    description: 'Suggest ranked replacements for one meal, each with a reason',
+    variables: [
+      'count', 'mealType', 'slotNotes', 'dayNumber', 'currentMeals', 'dietaryType', 'allergies', 'dislikes',
+      'householdContext', 'region', 'season', 'availableProduce', 'pantrySection', 'existingMeals', 'rejectedSection',
+    ],
+    template: `
+    Suggest {{count}} different replacements for the {{mealType}} on Day {{dayNumber}}.{{slotNotes}}
+    Current Plan for this day:
+    {{currentMeals}}
+
+    Preferences:
+    Dietary: {{dietaryType}}
+    Allergies: {{allergies}}
+    Dislikes: {{dislikes}}
+    {{householdContext}}
+    Region: {{region}}
+    Current Season: {{season}}
+    In-season produce: {{availableProduce}}
+    {{pantrySection}}
+    Do NOT suggest any of these already planned meals:
+    {{existingMeals}}
+    {{rejectedSection}}
+    Rank the suggestions best first. For each give:
+    - "meal": the dish name/description, as it would appear in the plan
+    - "reason": why it is a good pick, in under 10 words (e.g., "Uses the leftover paneer", "Ready in 20 minutes")
+    - "tag": "seasonal" (in-season produce), "leftover" (uses what is in stock), "quick" (fast to cook), "favourite" (from the preferred dishes) or "variety" (something not eaten recently)
+    Make the suggestions clearly different from each other.
+  `,
+  },
+  {
+    id: 'smart-edit',
+    version: 1,
+    description: "Edit a day's meals from a free-text instruction",
+    variables: ['dayNumber', 'instruction', 'mealTypes', 'breakfast', 'lunch', 'dinner', 'dietaryType', 'dislikes'],
+    template: `
+    Edit the meal plan for Day {{dayNumber}} based on this instruction: "{{instruction}}"
+
+    Target Meals: {{mealTypes}}
+
+    Current Meals:
+    Breakfast: {{breakfast}}
+    Lunch: {{lunch}}
+    Dinner: {{dinner}}
+
+    User Preferences context: {{dietaryType}}, avoid {{dislikes}}.
+
+    Return a JSON object with keys for only the meals that changed.
+    Example: { "lunch": "New Lunch Name" }
+  `,
+  },
+  {
+    id: 'smart-edit',
+    version: 2,
+    description: "Edit a day's meals from a free-text instruction, for any of the profile's meal slots",
+    variables: ['dayNumber', 'instruction', 'mealTypes', 'currentMeals', 'dietaryType', 'dislikes'],
+    template: `
+    Edit the meal plan for Day {{dayNumber}} based on this instruction: "{{instruction}}"
+
+    Target Meals (JSON key: name): {{mealTypes}}
+
+    Current Meals:
+    {{currentMeals}}
+
+    User Preferences context: {{dietaryType}}, avoid {{dislikes}}.
+
+    Return a JSON object with keys for only the target meals that changed, using the JSON keys above.
+    Example: { "lunch": "New Lunch Name" }
+  `,
+  },
+  {
+    id: 'planning-assistant',
+    version: 1,
+    description: 'Chat turn that proposes meal edits across the draft plan and the calendar',
+    variables: [
+      'today', 'slots', 'days', 'dietaryType', 'allergies', 'dislikes', 'householdContext', 'pantrySection', 'history', 'message',
+    ],
+    template: `
+    You are the meal planning assistant of an Indian household. Today is {{today}}.
+    The user talks to you about their week and you propose concrete changes to their meals.
+
+    Meal slots (JSON id: label):
+    {{slots}}
+
+    Days you can change (reference in square brackets, then slot id=dish):
+    {{days}}
+
+    Preferences:
+    Dietary: {{dietaryType}}
+    Allergies: {{allergies}}
+    Dislikes: {{dislikes}}
+    {{householdContext}}
+    {{pantrySection}}
+    Conversation so far:
+    {{history}}
+
+    User: "{{message}}"
+
+    Reply with:
+    - "reply": a short, friendly answer in plain text (2-3 sentences) saying what you propose and why, or asking a question if the request is unclear.
+    - "edits": the meal changes, each with "day" (a reference from the list above, copied exactly), "mealType" (a slot id), "meal" (the new dish) and "reason" (under 10 words).
+
+    Rules:
+    - Only change what the request needs; leave every other meal as it is.
+    - A request about a weekday or date applies to every listed day it matches (both the draft plan and the calendar).
+    - Constraints from earlier in the conversation (e.g. an ingredient that is out of stock until a date) still apply.
+    - Never break the dietary type, allergies or dislikes.
+    - Return an empty "edits" list when nothing should change.
+  `,
+  },
+  {
+    id: 'grocery-list',
+    version: 1,
+    description: 'Grocery list for the current weekly plan',
+    variables: ['planDays', 'pantryStaples', 'region', 'season', 'availableProduce', 'portionsLine'],
+    template: `
+    Generate a consolidated grocery list for this weekly meal plan.
+    Combine items where possible and organize by category.
+
+    Plan:
+    {{planDays}}
+
+    Pantry Staples (Assume user has these, DO NOT include unless specified otherwise):
+    {{pantryStaples}}
+
+    Region: {{region}}
+    Current Season: {{season}}
+    In-season produce: {{availableProduce}}
+
+    Categories to use: Vegetables, Fruits, Dairy, Proteins, Grains, Spices, Others
+    {{portionsLine}}
+    Return JSON array of items with realistic quantities.
+  `,
+  },
+  {
+    id: 'grocery-list-schedule',
+    version: 1,
+    description: 'Grocery list for scheduled calendar days, net of pantry stock',
+    variables: ['mealsList', 'pantryStaples', 'pantryStock', 'region', 'season', 'availableProduce', 'portionsLine'],
+    template: `
+    Generate a consolidated grocery list for these scheduled meals.
+    Combine items where possible and organize by category.
+
+    Scheduled Meals:
+    {{mealsList}}
+
+    Pantry Staples (Assume user has these, DO NOT include):
+    {{pantryStaples}}
+    {{pantryStock}}
+
+    Region: {{region}}
+    Current Season: {{season}}
+    In-season produce: {{availableProduce}}
+
+    Categories to use: Vegetables, Fruits, Dairy, Proteins, Grains, Spices, Others
+    {{portionsLine}}
+    Return JSON array of items with realistic quantities.
+  `,
+  },
+  {
+    id: 'parse-preferences',
+    version: 1,
+    description: 'Extract a preference profile from free text',
+    variables: ['text', 'region', 'month', 'season', 'availableProduce'],
+    template: `
+    You are an expert meal planning assistant. Analyze the user's input and extract detailed culinary preferences.
+
+    User Input: "{{text}}"
+
+    CONTEXT:
+    - Region: {{region}}
+    - Current Month: {{month}}
+    - Season: {{season}}
+    - In-season produce now: {{availableProduce}}
+
+    TASK:
+    1. Extract ALL preferences mentioned or implied in the text.
+    2. For meal preferences (breakfast, lunch, dinner), suggest specific dish ideas based on:
+       - What the user mentioned
+       - Seasonal ingredients available now
+       - Common complementary dishes
+    3. If the user mentions general preferences (e.g., "healthy", "quick meals"), translate these into specific dish suggestions for EACH meal category.
+    4. Add relevant pantry staples based on the cuisine/dietary preferences mentioned.
+    5. Include any special dietary instructions or cooking preferences.
+
+    Think carefully about:
+    - What type of cuisine does the user prefer?
+    - What seasonal dishes would complement their preferences?
+    - What specific breakfast, lunch, and dinner options would they enjoy?
+
+    Return comprehensive preferences that will help generate a great meal plan.
+  `,
+  },
+  {
+    id: 'optimize-preferences',
+    version: 1,
+    description: 'Update a profile from liked and disliked meals',
+    variables: ['currentPrefs', 'liked', 'disliked'],
+    template: `
+        Analyze the user's feedback to OPTIMIZE their preferences.
+
+        Current Preferences: {{currentPrefs}}
+
+        New Feedback:
+        Liked Meals: {{liked}}
+        Disliked Meals: {{disliked}}
+
+        Task:
+        1. Add traits of liked meals to preferences (e.g. if they liked "Spicy Tacos", maybe add "Mexican" or "Spicy" to prefs).
+        2. Add traits of disliked meals to 'Dislikes' list.
+        3. Refine dietary type if needed.
+
+        Return the complete updated preference profile JSON.
+     `,
+  },
+  {
+    id: 'learning-suggestions',
+    version: 1,
+    description: 'Patterns and suggested additions from rated meals',
+    variables: ['liked', 'disliked', 'currentPrefs'],
+    template: `
+        Analyze this user's meal history feedback and provide learning suggestions.
+
+        Liked Meals: {{liked}}
+        Disliked Meals: {{disliked}}
+
+        Current Preferences: {{currentPrefs}}
+
+        Task:
+        1. Identify patterns in liked meals (e.g., "South Indian", "Spicy", "Light", "Protein-rich")
+        2. Identify patterns in disliked meals (e.g., "Too heavy", "Bland", specific ingredients)
+        3. Suggest NEW items to add to preferences (don't repeat what's already there)
+        4. Write a friendly 1-2 sentence summary of what you learned
+
+        Be concise but insightful. Focus on actionable patterns, not just listing the meals.
+     `,
+  },
+  {
+    id: 'translate-terms',
+    version: 1,
+    description: 'Translate dish or grocery names for share cards',
+    variables: ['subject', 'languageLabel', 'script', 'scriptRequirement', 'rules', 'spelling', 'vocabulary', 'terms'],
+    template: `
+    Translate these {{subject}} to {{languageLabel}} ({{script}} script).
+    The "translation" values must be in {{scriptRequirement}} SCRIPT; "source" must repeat the input exactly.
+
+    FORMATTING RULES:
+    {{rules}}
+    {{spelling}}
+    {{vocabulary}}
+    Names to translate:
+    {{terms}}
+
+    Return one JSON entry per name.
+    `,
+  },
+  {
+    id: 'recipe',
+    version: 1,
+    description: 'Cookable recipe for one planned meal',
+    variables: [
+      'mealName', 'servings', 'dietaryType', 'allergies', 'dislikes', 'specialInstructions', 'pantryStaples',
+      'householdContext', 'languageRule',
+    ],
+    template: `
+    You are an experienced home cook writing instructions for a household cook.
+    Write a recipe for: "{{mealName}}"
+    Servings: {{servings}}
+
+    HOUSEHOLD CONTEXT:
+    - Dietary Type: {{dietaryType}}
+    - Allergies (never use): {{allergies}}
+    - Dislikes (avoid): {{dislikes}}
+    - Special Instructions: {{specialInstructions}}
+    - Pantry Staples (already at home): {{pantryStaples}}
+    {{householdContext}}
+
+    RULES:
+    1. If the meal has several components (e.g. "Palak Paneer with Roti"), cover all of them.
+    2. Scale every ingredient quantity for {{servings}} servings, using g/kg/ml/tsp/tbsp/cups/pieces.
+    3. Prefer pantry staples over extra purchases and follow the special instructions (oil, spice level, methods).
+    4. Steps must be short, numbered-in-order actions a cook can follow without questions. Do not prefix them with numbers.
+    5. Tips: 2-4 practical notes (make-ahead, substitutions, how to tell it is done).
+    {{languageRule}}
+    `,
+  },
+  {
+    id: 'nutrition-estimate',
+    version: 1,
+    description: 'Nutrition per adult serving for a list of dishes',
+    variables: ['dishes'],
+    template: `
+    You are a nutritionist familiar with Indian home cooking.
+    Estimate the nutrition of ONE typical adult serving of each meal below, as cooked at home.
+    If a meal lists several components (e.g. "Dal with Rice + Salad"), include all of them in one estimate.
+
+    Meals:
+    {{dishes}}
+
+    Return one entry per meal, with "dish" copied exactly from the list. Round to whole numbers.
+    `,
+  },
+  {
+    id: 'pantry-usage',
+    version: 1,
+    description: "Pantry stock used by a day's cooked meals",
+    variables: ['meals', 'servings', 'stock'],
+    template: `
+    A household cook prepared these meals today:
+    {{meals}}
+
+    Servings: {{servings}}
+
+    Pantry stock (id, name, quantity, unit):
+    {{stock}}
+
+    Estimate how much of each pantry item was used to cook these meals.
+    - Only include items that were actually used; skip everything else.
+    - Use the item's own unit (e.g. 0.4 for 400 g when the unit is kg).
+    - Never exceed the available quantity.
+    `,
+  },
+  {
+    id: 'pantry-photo',
+    version: 1,
+    description: 'Ingredients and rough quantities seen in a fridge or pantry photo',
+    variables: ['categories', 'units'],
+    template: `
+    The attached photo shows the inside of a household fridge, pantry shelf or kitchen counter.
+    List the food ingredients you can see, with an approximate quantity for each.
+
+    Rules:
+    - Only list what is actually visible; do not guess items hidden behind others.
+    - Use short, common grocery names (e.g. "Tomato", "Paneer", "Toor Dal"), one entry per ingredient.
+    - Estimate the quantity from what you see (e.g. 6 tomatoes -> 6 pcs or about 0.5 kg; a half-full 1 L milk packet -> 0.5 L).
+    - Skip packaged snacks, drinks other than milk, and non-food items.
+    - Category must be one of: {{categories}}
+    - Unit must be one of: {{units}}
+    `,
+  },
+  {
+    id: 'receipt',
+    version: 1,
+    description: 'Line items and prices from a grocery bill, matched to the shopping list',
+    variables: ['listItems', 'categories', 'units'],
+    template: `
+    The attached photo or PDF is a grocery bill from an Indian kirana store, supermarket or online order.
+    Read every purchased line item with its quantity and the price paid.
+
+    Shopping list the household was buying for:
+    {{listItems}}
+
+    Rules:
+    - One entry per bill line; skip totals, taxes, delivery fees, discounts shown as separate lines and non-food items.
+    - "name" is a short, common grocery name without brand or pack size (e.g. "TATA SAMPANN TOOR DAL 1KG" -> "Toor Dal").
+    - Quantity is the total bought on that line in the given unit (e.g. 2 x 500 g packets -> 1 kg, or 2 pack).
+    - "price" is the amount paid for the whole line, as a plain number without currency symbols.
+    - "listItem" is the shopping list item this line was bought for, copied exactly from the list; use "" when nothing on the list matches.
+    - "store" is the store name and "purchasedOn" the bill date as YYYY-MM-DD; use "" when not printed.
+    - Category must be one of: {{categories}}
+    - Unit must be one of: {{units}}
+    `,
+  },
+  {
+    id: 'classify-dishes',
+    version: 1,
+    description: 'Ingredient groups per dish, for diet and allergy checks',
+    variables: ['tags', 'dishes'],
+    template: `
+    You are checking an Indian home-cooking meal plan for dietary compliance.
+    For each meal below, list which of these ingredient groups it contains when cooked the usual way:
+    {{tags}}
+
+    Meals:
+    {{dishes}}
+
+    Rules:
+    - Include a group only if a typical home recipe uses it (e.g. ghee or curd counts as dairy, roti counts as gluten).
+    - Explicit wording wins: "Eggless Cake" has no egg, "Soya Keema" has no meat.
+    - Return one entry per meal, with "dish" copied exactly from the list.
+    `,
+  },
+  {
+    id: 'repair-response',
+    version: 1,
+    description: 'Re-asks for a structured response that failed validation',
+    variables: ['originalPrompt', 'errors', 'previousResponse'],
+    template: `
+    {{originalPrompt}}
+
+    IMPORTANT: Your previous response to this request was rejected because it did not match the required format:
+    {{errors}}
+
+    Previous response:
+    {{previousResponse}}
+
+    Return the complete response again, fixing every problem listed above. Keep all correct parts unchanged.
+    `,
+  },
+];
+
+// Latest version unless a specific one is requested
+export const getPromptTemplate = (id: string, version?: number): PromptTemplate | undefined =>
+  PROMPT_TEMPLATES
+    .filter(t => t.id === id && (version === undefined || t.version === version))
+    .sort((a, b) => b.version - a.version)[0];
+
+export const getPromptTemplateVersions = (id: string): number[] =>
+  PROMPT_TEMPLATES.filter(t => t.id === id).map(t => t.version).sort((a, b) => b - a);
+
+export const renderPrompt = (id: string, variables: PromptVariables, version?: number): RenderedPrompt => {
+  const template = getPromptTemplate(id, version);
+  if (!template) {
+    throw new Error(`Unknown prompt template "${id}"${version ? ` v${version}` : ''}.`);
+  }
+
+  const prompt = template.template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Prompt template "${id}" v${template.version} is missing variable "${name}".`);
+    }
+    return String(variables[name]);
+  });
+
+  return { templateId: template.id, version: template.version, prompt };
+};
@@ -0,0 +1,106 @@
+/**
+ * Receipts
+ * Applies a scanned grocery bill: ticks off the shopping list items it
+ * covers, adds what was bought to the pantry and turns the lines into price
+ * records for cost estimates.
+ */
+
+import { format } from 'date-fns';
+import { GroceryItem, GroceryPrice, PantryItem, ReceiptLineItem, ScannedReceipt } from '../types';
+import { getGroceryKey } from './groceryNormalizer';
+
+// Conversions to a base unit; units outside a group cannot be converted
+const UNIT_FACTORS: Record<string, { base: string; factor: number }> = {
+  kg: { base: 'g', factor: 1000 },
+  g: { base: 'g', factor: 1 },
+  L: { base: 'ml', factor: 1000 },
+  ml: { base: 'ml', factor: 1 },
+  dozen: { base: 'pcs', factor: 12 },
+  pcs: { base: 'pcs', factor: 1 },
+};
+
+// Returns null when the units measure different things (e.g. kg and pack)
+export const convertQuantity = (quantity: number, from: string, to: string): number | null => {
+  if (from === to) return quantity;
+  const source = UNIT_FACTORS[from];
+  const target = UNIT_FACTORS[to];
+  if (!source || !target || source.base !== target.base) return null;
+  return Math.round((quantity * source.factor / target.factor) * 1000) / 1000;
+};
+
+// Same grocery under a slightly different name, e.g. "Tomatoes", "Tamatar" and "Tomato (desi)"
+export const isSameGrocery = (a: string, b: string): boolean => {
+  const key = getGroceryKey(a);
+  return !!key && key === getGroceryKey(b);
+};
+
+// The list item a bill line was bought for: the chosen match, else a name match.
+// An empty listItem means the user marked the line as not on the list.
+export const findListItem = (line: ReceiptLineItem, items: GroceryItem[]): GroceryItem | undefined =>
+  line.listItem !== undefined
+    ? items.find(i => i.item === line.listItem)
+    : items.find(i => isSameGrocery(i.item, line.name));
+
+// Copy of the list with every item covered by the bill ticked off
+export const markReceiptItemsBought = (items: GroceryItem[], lines: ReceiptLineItem[]): GroceryItem[] => {
+  const bought = new Set(lines.map(line => findListItem(line, items)).filter(Boolean));
+  return items.map(item => (bought.has(item) ? { ...item, checked: true } : item));
+};
+
+// Pantry items to save: existing stock topped up, or new items with a "new_" id.
+// Lines whose unit cannot be converted to the stocked item's unit are returned in `skipped`.
+export const restockPantry = (pantry: PantryItem[], lines: ReceiptLineItem[]): { items: PantryItem[]; skipped: string[] } => {
+  const changed = new Map<string, PantryItem>();
+  const skipped: string[] = [];
+
+  lines.forEach((line, idx) => {
+    const existing = [...changed.values(), ...pantry].find(p =>
+      isSameGrocery(p.name, line.name) || (!!line.listItem && isSameGrocery(p.name, line.listItem)));
+    if (!existing) {
+      const id = `new_${Date.now()}_${idx}`;
+      changed.set(id, {
+        id,
+        name: line.name,
+        quantity: line.quantity,
+        unit: line.unit,
+        category: line.category,
+        updatedAt: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const added = convertQuantity(line.quantity, line.unit, existing.unit);
+    if (added === null) {
+      skipped.push(line.name);
+      return;
+    }
+    changed.set(existing.id, { ...existing, quantity: Math.round((existing.quantity + added) * 100) / 100 });
+  });
+
+  return { items: [...changed.values()], skipped };
+};
+
+// Price records for the bill lines, named after the list item when one matched
+export const toGroceryPrices = (receipt: ScannedReceipt, lines: ReceiptLineItem[], listItems: GroceryItem[]): Omit<GroceryPrice, 'id' | 'createdAt'>[] => {
+  const purchasedOn = receipt.purchasedOn || format(new Date(), 'yyyy-MM-dd');
+  return lines
+    .filter(line => line.price > 0)
+    .map(line => ({
+      item: findListItem(line, listItems)?.item || line.name,
+      quantity: line.quantity,
+      unit: line.unit,
+      price: line.price,
+      store: receipt.store,
+      purchasedOn,
+    }));
+};
+
+// Most recent price paid for a grocery, if any (prices are newest first)
+export const getLatestPrice = (item: string, prices: GroceryPrice[]): GroceryPrice | undefined =>
+  prices.find(p => isSameGrocery(p.item, item));
+
+// e.g. "₹60 / kg"
+export const formatUnitPrice = (price: GroceryPrice): string => {
+  const perUnit = price.quantity > 0 ? price.price / price.quantity : price.price;
+  return `₹${Math.round(perUnit * 100) / 100} / ${price.unit}`;
+};
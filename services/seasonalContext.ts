@@ -0,0 +1,70 @@
+/**
+ * Seasonal Context
+ * Month-to-season and in-season produce for the user's region, shared by the
+ * AI prompts and the offline planner. The region is a user setting, kept on
+ * this device and synced through user settings.
+ */
+
+import { PRODUCE_REGIONS, DEFAULT_REGION_ID, PriceBand, ProduceByPrice, ProduceRegion } from './produceData';
+
+export const REGION_STORAGE_KEY = 'qookcommander_region';
+
+export interface SeasonalContext {
+  region: string; // Region label, e.g. "South India (Chennai, Bangalore, Hyderabad)"
+  season: string;
+  month: string;
+  vegetables: string[];
+  fruits: string[];
+  availableVegetables: string; // Comma-separated, for prompts
+  availableProduce: string; // Vegetables and fruits with price bands, for prompts
+}
+
+const PRICE_BANDS: PriceBand[] = ['low', 'medium', 'high'];
+const PRICE_LABELS: Record<PriceBand, string> = { low: 'cheap now', medium: 'moderate', high: 'pricey' };
+
+export const getSavedRegionId = (): string => localStorage.getItem(REGION_STORAGE_KEY) || DEFAULT_REGION_ID;
+
+export const saveRegionId = (regionId: string): void => {
+  localStorage.setItem(REGION_STORAGE_KEY, regionId);
+};
+
+export const getProduceRegion = (regionId: string): ProduceRegion =>
+  PRODUCE_REGIONS.find(r => r.id === regionId) || PRODUCE_REGIONS.find(r => r.id === DEFAULT_REGION_ID)!;
+
+// Cheapest first, so prompts and keyword matching lead with the best buys
+const flattenProduce = (produce: ProduceByPrice): string[] => PRICE_BANDS.flatMap(band => produce[band] || []);
+
+// "cheap now: lauki, tori; moderate: bhindi"
+const describeProduce = (produce: ProduceByPrice): string =>
+  PRICE_BANDS
+    .filter(band => produce[band]?.length)
+    .map(band => `${PRICE_LABELS[band]}: ${produce[band]!.join(', ')}`)
+    .join('; ');
+
+// Get current season and in-season produce for a date and region (defaults to the saved region)
+export const getSeasonalContext = (date: Date = new Date(), regionId: string = getSavedRegionId()): SeasonalContext => {
+  const region = getProduceRegion(regionId);
+  const month = date.toLocaleString('default', { month: 'long' });
+  const current = region.seasons.find(s => s.months.includes(date.getMonth())) || region.seasons[0];
+  const vegetables = flattenProduce(current.vegetables);
+  const fruits = flattenProduce(current.fruits);
+
+  return {
+    region: region.label,
+    season: current.season,
+    month,
+    vegetables,
+    fruits,
+    availableVegetables: vegetables.join(", "),
+    availableProduce: `Vegetables (${describeProduce(current.vegetables)}). Fruits (${describeProduce(current.fruits)}).`
+  };
+};
+
+// Individual words usable for matching dish names, e.g. "spinach (palak)" -> ["spinach", "palak"]
+export const getSeasonalKeywords = (context: SeasonalContext): string[] => {
+  const words = context.vegetables
+    .flatMap(v => v.toLowerCase().split(/[\s(),]+/))
+    .map(w => w.replace(/(es|s)$/, ''))
+    .filter(w => w.length > 2 && !['leafy', 'green', 'leav', 'sweet', 'bitter', 'raw', 'new', 'fresh', 'spring', 'monsoon', 'flat', 'broad', 'purple', 'round', 'pointed'].includes(w));
+  return [...new Set(words)];
+};
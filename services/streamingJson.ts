@@ -0,0 +1,49 @@
+/**
+ * Streaming JSON
+ * Pulls fully-received array elements out of a JSON document that is still
+ * being streamed, e.g. the finished days of `{"days": [{...}, {...}, {` .
+ */
+
+// Returns every complete object in the array stored under `key`, in order.
+// Incomplete trailing objects are ignored until more text arrives.
+export const extractCompleteArrayItems = <T>(text: string, key: string): T[] => {
+  const keyMatch = new RegExp(`"${key}"\\s*:\\s*\\[`).exec(text);
+  if (!keyMatch) return [];
+
+  const items: T[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let start = -1;
+
+  for (let i = keyMatch.index + keyMatch[0].length; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) break; // End of the array itself
+      depth--;
+      if (depth === 0 && start !== -1) {
+        try {
+          items.push(JSON.parse(text.slice(start, i + 1)) as T);
+        } catch {
+          // Malformed element, skip it; the final full parse will surface the error
+        }
+        start = -1;
+      }
+    }
+  }
+
+  return items;
+};
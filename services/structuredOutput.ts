@@ -0,0 +1,251 @@
+/**
+ * Structured Output
+ * Runtime validation of JSON responses against their ResponseSchema, plus
+ * per-call checks such as "a plan has exactly seven days". Invalid responses
+ * are sent back to the model with the errors a bounded number of times before
+ * an AIResponseValidationError is thrown.
+ */
+
+import { DetectedIngredient, GroceryItem, MealAlternative, ScannedReceipt, UserPreferences, WeeklyPlan } from '../types';
+import { AIConfig, AIGenerateRequest, AIGenerateResult, AITask, ResponseSchema, generateAIContent } from './aiProvider';
+import { renderPrompt } from './promptTemplates';
+import { getPlannedSlots } from './mealSlots';
+import { isAlternativeExcluded } from './mealAlternatives';
+import { AssistantDay, AssistantResponse } from './planningAssistant';
+
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_ERRORS_IN_PROMPT = 15;
+const MAX_PREVIOUS_RESPONSE_CHARS = 4000;
+
+// Extra checks beyond the schema; returns human-readable errors (empty when valid)
+export type ResponseValidator<T> = (value: T) => string[];
+
+export class AIResponseValidationError extends Error {
+  task: AITask;
+  errors: string[];
+  attempts: number;
+
+  constructor(task: AITask, errors: string[], attempts: number) {
+    super(`The AI returned an invalid response after ${attempts} attempt${attempts > 1 ? 's' : ''}: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'AIResponseValidationError';
+    this.task = task;
+    this.errors = errors;
+    this.attempts = attempts;
+  }
+}
+
+// ============================================================================
+// SCHEMA VALIDATION
+// ============================================================================
+
+const describeType = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+export const validateSchema = (value: unknown, schema: ResponseSchema, path = '$'): string[] => {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is missing`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (describeType(value) !== 'object') return [`${path} must be an object, got ${describeType(value)}`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || [])
+        .filter(key => record[key] === undefined || record[key] === null)
+        .map(key => `${path}.${key} is required`);
+      const nested = Object.entries(schema.properties || {})
+        .filter(([key]) => record[key] !== undefined)
+        .flatMap(([key, propSchema]) => validateSchema(record[key], propSchema, `${path}.${key}`));
+      return [...missing, ...nested];
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array, got ${describeType(value)}`];
+      return [
+        ...(schema.minItems !== undefined && value.length < schema.minItems ? [`${path} must have at least ${schema.minItems} items, got ${value.length}`] : []),
+        ...(schema.maxItems !== undefined && value.length > schema.maxItems ? [`${path} must have at most ${schema.maxItems} items, got ${value.length}`] : []),
+        ...(schema.items ? value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`)) : []),
+      ];
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string, got ${describeType(value)}`];
+      return schema.enum && !schema.enum.includes(value)
+        ? [`${path} must be one of ${schema.enum.join(', ')}, got "${value}"`]
+        : [];
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? [] : [`${path} must be a number, got ${describeType(value)}`];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} must be a whole number, got ${JSON.stringify(value)}`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be true or false, got ${describeType(value)}`];
+  }
+};
+
+// ============================================================================
+// RESPONSE VALIDATORS
+// ============================================================================
+
+// Exactly `dayCount` days, each with the meals the household prepares filled in
+export const validateWeeklyPlanResponse = (
+  dayCount: number,
+  preferences: Pick<UserPreferences, 'mealSlots' | 'mealsToPrepare'>
+): ResponseValidator<WeeklyPlan> => (plan) => {
+  const meals = getPlannedSlots(preferences).map(s => s.id);
+  const errors: string[] = [];
+  if (plan.days.length !== dayCount) {
+    errors.push(`Expected exactly ${dayCount} days, got ${plan.days.length}`);
+  }
+  plan.days.forEach((day, i) => {
+    if (!day.day?.trim()) errors.push(`$.days[${i}].day is empty`);
+    meals.forEach(meal => {
+      if (!day[meal]?.trim()) errors.push(`$.days[${i}].${meal} is empty`);
+    });
+  });
+  return errors;
+};
+
+export const validateGroceryItemsResponse: ResponseValidator<GroceryItem[]> = (items) => {
+  const errors: string[] = [];
+  if (items.length === 0) errors.push('The grocery list is empty');
+  items.forEach((item, i) => {
+    if (!item.item?.trim()) errors.push(`$[${i}].item is empty`);
+    if (!item.quantity?.trim()) errors.push(`$[${i}].quantity is empty`);
+  });
+  return errors;
+};
+
+// An empty list is valid: the photo may show nothing usable
+export const validateDetectedIngredientsResponse: ResponseValidator<DetectedIngredient[]> = (items) => {
+  const errors: string[] = [];
+  items.forEach((item, i) => {
+    if (!item.name?.trim()) errors.push(`$[${i}].name is empty`);
+    if (!(item.quantity > 0)) errors.push(`$[${i}].quantity must be more than 0`);
+  });
+  return errors;
+};
+
+// Matches must name an item on the shopping list exactly; prices cannot be negative
+export const validateReceiptResponse = (listItems: string[]): ResponseValidator<ScannedReceipt> => (receipt) => {
+  const errors: string[] = [];
+  if (receipt.purchasedOn && !/^\d{4}-\d{2}-\d{2}$/.test(receipt.purchasedOn)) {
+    errors.push(`$.purchasedOn "${receipt.purchasedOn}" is not YYYY-MM-DD`);
+  }
+  receipt.items.forEach((item, i) => {
+    if (!item.name?.trim()) errors.push(`$.items[${i}].name is empty`);
+    if (!(item.quantity > 0)) errors.push(`$.items[${i}].quantity must be more than 0`);
+    if (!(item.price >= 0)) errors.push(`$.items[${i}].price must not be negative`);
+    if (item.listItem && !listItems.includes(item.listItem)) {
+      errors.push(`$.items[${i}].listItem "${item.listItem}" is not on the shopping list`);
+    }
+  });
+  return errors;
+};
+
+// Only the targeted meals may change, each change must name a dish, and at least one must change
+export const validateSmartEditResponse = (mealTypes: string[]): ResponseValidator<Record<string, string | null>> => (updates) => {
+  const errors: string[] = [];
+  if (!mealTypes.some(meal => updates[meal]?.trim())) {
+    errors.push(`No new dish was given for ${mealTypes.join(', ')}`);
+  }
+  Object.entries(updates).forEach(([meal, value]) => {
+    if (value === null || value === undefined) return;
+    if (!mealTypes.includes(meal)) {
+      errors.push(`"${meal}" was not requested; only ${mealTypes.join(', ')} may change`);
+    } else if (!value.trim()) {
+      errors.push(`$.${meal} is empty`);
+    }
+  });
+  return errors;
+};
+
+// Every suggestion names a new dish, once, and none was already turned down
+export const validateMealAlternativesResponse = (excluded: string[]): ResponseValidator<MealAlternative[]> => (alternatives) => {
+  const errors: string[] = [];
+  if (alternatives.length === 0) errors.push('No alternatives were suggested');
+  alternatives.forEach((alt, i) => {
+    if (!alt.meal?.trim()) {
+      errors.push(`$[${i}].meal is empty`);
+    } else if (isAlternativeExcluded(alt.meal, excluded)) {
+      errors.push(`$[${i}].meal "${alt.meal}" is already planned or was rejected`);
+    } else if (isAlternativeExcluded(alt.meal, alternatives.slice(0, i).map(a => a.meal || ''))) {
+      errors.push(`$[${i}].meal "${alt.meal}" repeats an earlier suggestion`);
+    }
+    if (!alt.reason?.trim()) errors.push(`$[${i}].reason is empty`);
+  });
+  return errors;
+};
+
+// Edits must target a listed day and one of that day's slots, each slot at most once
+export const validateAssistantResponse = (days: AssistantDay[]): ResponseValidator<AssistantResponse> => (response) => {
+  const errors: string[] = [];
+  if (!response.reply?.trim()) errors.push('$.reply is empty');
+  response.edits.forEach((edit, i) => {
+    const day = days.find(d => d.ref === edit.day);
+    if (!day) {
+      errors.push(`$.edits[${i}].day "${edit.day}" is not one of the listed day references`);
+    } else if (!day.slots.some(s => s.id === edit.mealType)) {
+      errors.push(`$.edits[${i}].mealType "${edit.mealType}" must be one of: ${day.slots.map(s => s.id).join(', ')}`);
+    }
+    if (!edit.meal?.trim()) errors.push(`$.edits[${i}].meal is empty`);
+    if (response.edits.slice(0, i).some(e => e.day === edit.day && e.mealType === edit.mealType)) {
+      errors.push(`$.edits[${i}] changes ${edit.day} ${edit.mealType} a second time`);
+    }
+  });
+  return errors;
+};
+
+// ============================================================================
+// GENERATE + REPAIR LOOP
+// ============================================================================
+
+export interface StructuredRequestOptions<T> {
+  validate?: ResponseValidator<T>;
+  maxRepairs?: number; // Re-prompts after the first attempt (default 2)
+  firstAttempt?: (request: AIGenerateRequest) => Promise<AIGenerateResult>; // e.g. a streamed request
+  onRepair?: (errors: string[]) => void; // Before each re-prompt, e.g. to drop a streamed preview
+}
+
+const parseAndValidate = <T>(text: string, schema: ResponseSchema, validate?: ResponseValidator<T>): { value?: T; errors: string[] } => {
+  let value: T;
+  try {
+    value = JSON.parse(text);
+  } catch (error: any) {
+    return { errors: [`Response is not valid JSON (${error?.message || 'parse error'})`] };
+  }
+  const schemaErrors = validateSchema(value, schema);
+  if (schemaErrors.length > 0) return { errors: schemaErrors };
+  return { value, errors: validate ? validate(value) : [] };
+};
+
+// Generates JSON for `request.schema`, re-prompting with the validation errors until it passes
+export const generateStructuredContent = async <T>(
+  request: AIGenerateRequest & { schema: ResponseSchema },
+  config: AIConfig,
+  options: StructuredRequestOptions<T> = {}
+): Promise<T> => {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  let attemptRequest = request;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const response = attempt === 0 && options.firstAttempt
+      ? await options.firstAttempt(attemptRequest)
+      : await generateAIContent(attemptRequest, config);
+
+    const result = parseAndValidate<T>(response.text || '', request.schema, options.validate);
+    if (result.errors.length === 0) return result.value as T;
+
+    errors = result.errors;
+    console.warn(`Invalid ${request.task} response (attempt ${attempt + 1}):`, errors);
+    if (attempt < maxRepairs) options.onRepair?.(errors);
+
+    attemptRequest = {
+      ...request,
+      prompt: renderPrompt('repair-response', {
+        originalPrompt: request.prompt,
+        errors: errors.slice(0, MAX_ERRORS_IN_PROMPT).map(e => `- ${e}`).join('\n    '),
+        previousResponse: (response.text || '(empty)').slice(0, MAX_PREVIOUS_RESPONSE_CHARS),
+      }).prompt,
+    };
+  }
+
+  throw new AIResponseValidationError(request.task, errors, maxRepairs + 1);
+};
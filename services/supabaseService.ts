@@ -1,7 +1,8 @@
 /**
  * Supabase Data Service
- * Handles all CRUD operations for QookCommander with Supabase backend.
- * Falls back gracefully to localStorage when Supabase is not configured or user is in offline mode.
+ * Handles all CRUD operations for QookCommander.
+ * Every read and write goes to the local store on this device first (services/localStore.ts);
+ * for signed-in users, changes are queued and synced to Supabase in the background (services/syncQueue.ts).
  */
 
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
@@ -13,15 +14,44 @@ import {
     GroceryItem,
     MealHistoryEntry,
     MealType,
-    SavedGroceryList
+    SavedGroceryList,
+    Recipe,
+    NutritionInfo,
+    HouseholdMember,
+    PantryItem,
+    UserPreferences,
+    Observance,
+    GlossaryEntry,
+    AIUsageEntry,
+    GroceryPrice,
+    MealSlot
 } from '../types';
-
-// Helper to check if we should use localStorage instead of Supabase
+import { adaptPlanToObservances } from './mealValidator';
+import { getMealKeys, getMealSlotLabel, isDefaultSlot } from './mealSlots';
+import { REGION_STORAGE_KEY } from './seasonalContext';
+import { getGlossaryKey } from './translationGlossary';
+import {
+    isSyncEnabled,
+    pullCollection,
+    readRecord,
+    readRecords,
+    registerCollection,
+    removeRecords,
+    writeRecords
+} from './syncQueue';
+
+// For the calls that need Supabase itself (realtime updates, feedback)
 // Returns true if Supabase is not configured OR if user is in "local/offline" mode
 const isOfflineMode = (userId: string): boolean => {
     return !isSupabaseConfigured || !supabase || userId === 'local';
 };
 
+// Reads a list kept in localStorage before the local store, for the one-time import
+const readLegacyList = <T>(key: string): T[] => {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : [];
+};
+
 // ============================================================================
 // USER SETTINGS (Cross-device sync for API key, Cook contact)
 // ============================================================================
@@ -31,41 +61,68 @@ export interface UserSettings {
     cookName: string;
     cookWhatsappNumber: string;
     currentProfileId?: string;
-    preferredLanguage?: 'English' | 'Hindi';
+    preferredLanguage?: string;
+    region?: string; // Produce region id (see produceData)
 }
 
-export const getUserSettings = async (userId: string): Promise<UserSettings | null> => {
-    if (isOfflineMode(userId)) {
-        // Fallback to localStorage
-        return {
-            geminiApiKey: localStorage.getItem('gemini_api_key') || '',
-            cookName: localStorage.getItem('cook_name') || '',
-            cookWhatsappNumber: localStorage.getItem('cook_number') || '',
-            currentProfileId: localStorage.getItem('cookcommander_current_profile_id') || undefined,
-            preferredLanguage: (localStorage.getItem('cookcommander_preferred_language') as 'English' | 'Hindi') || 'English'
-        };
-    }
-
-    try {
-        const { data, error } = await supabase
-            .from('user_settings')
-            .select('*')
-            .eq('user_id', userId)
-            .single();
+const SETTINGS_ID = 'settings';
+
+// Where users who are not signed in keep their settings. Other screens read and
+// write these keys directly, so they are read fresh each time rather than imported.
+const LEGACY_SETTINGS_KEYS: Record<keyof UserSettings, string> = {
+    geminiApiKey: 'gemini_api_key',
+    cookName: 'cook_name',
+    cookWhatsappNumber: 'cook_number',
+    currentProfileId: 'cookcommander_current_profile_id',
+    preferredLanguage: 'cookcommander_preferred_language',
+    region: REGION_STORAGE_KEY
+};
 
-        if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
-            console.error('Error fetching user settings:', error);
-            return null;
+registerCollection<Partial<UserSettings>>('settings', {
+    table: 'user_settings',
+    onConflict: 'user_id',
+    match: () => ({}),
+    // Only fields that were set, so a partial save does not clear the others
+    toRow: settings => Object.fromEntries(Object.entries({
+        gemini_api_key: settings.geminiApiKey,
+        cook_name: settings.cookName,
+        cook_whatsapp_number: settings.cookWhatsappNumber,
+        current_profile_id: settings.currentProfileId,
+        preferred_language: settings.preferredLanguage,
+        region: settings.region
+    }).filter(([, value]) => value !== undefined)),
+    fromRow: (row: any) => ({
+        id: SETTINGS_ID,
+        data: {
+            geminiApiKey: row.gemini_api_key || '',
+            cookName: row.cook_name || '',
+            cookWhatsappNumber: row.cook_whatsapp_number || '',
+            currentProfileId: row.current_profile_id || undefined,
+            preferredLanguage: row.preferred_language || 'English',
+            region: row.region || undefined
         }
+    })
+});
 
-        if (!data) return null;
+const readLocalSettings = (): Partial<UserSettings> => Object.fromEntries(
+    Object.entries(LEGACY_SETTINGS_KEYS)
+        .map(([field, key]) => [field, localStorage.getItem(key) || undefined])
+        .filter(([, value]) => value !== undefined)
+);
+
+export const getUserSettings = async (userId: string): Promise<UserSettings | null> => {
+    try {
+        const settings = isSyncEnabled(userId)
+            ? await readRecord<Partial<UserSettings>>('settings', userId, SETTINGS_ID)
+            : readLocalSettings();
+        if (!settings) return null;
 
         return {
-            geminiApiKey: data.gemini_api_key || '',
-            cookName: data.cook_name || '',
-            cookWhatsappNumber: data.cook_whatsapp_number || '',
-            currentProfileId: data.current_profile_id || undefined,
-            preferredLanguage: (data.preferred_language as 'English' | 'Hindi') || 'English'
+            geminiApiKey: '',
+            cookName: '',
+            cookWhatsappNumber: '',
+            preferredLanguage: 'English',
+            ...settings
         };
     } catch (err) {
         console.error('Error in getUserSettings:', err);
@@ -74,32 +131,17 @@ export const getUserSettings = async (userId: string): Promise<UserSettings | nu
 };
 
 export const saveUserSettings = async (userId: string, settings: Partial<UserSettings>): Promise<void> => {
-    if (isOfflineMode(userId)) {
-        // Fallback to localStorage
-        if (settings.geminiApiKey !== undefined) localStorage.setItem('gemini_api_key', settings.geminiApiKey);
-        if (settings.cookName !== undefined) localStorage.setItem('cook_name', settings.cookName);
-        if (settings.cookWhatsappNumber !== undefined) localStorage.setItem('cook_number', settings.cookWhatsappNumber);
-        if (settings.currentProfileId !== undefined) localStorage.setItem('cookcommander_current_profile_id', settings.currentProfileId);
-        if (settings.preferredLanguage !== undefined) localStorage.setItem('cookcommander_preferred_language', settings.preferredLanguage);
+    if (!isSyncEnabled(userId)) {
+        Object.entries(settings).forEach(([field, value]) => {
+            if (value !== undefined) localStorage.setItem(LEGACY_SETTINGS_KEYS[field as keyof UserSettings], value);
+        });
         return;
     }
 
     try {
-        const updateData: any = { user_id: userId, updated_at: new Date().toISOString() };
-        if (settings.geminiApiKey !== undefined) updateData.gemini_api_key = settings.geminiApiKey;
-        if (settings.cookName !== undefined) updateData.cook_name = settings.cookName;
-        if (settings.cookWhatsappNumber !== undefined) updateData.cook_whatsapp_number = settings.cookWhatsappNumber;
-        if (settings.currentProfileId !== undefined) updateData.current_profile_id = settings.currentProfileId;
-        if (settings.preferredLanguage !== undefined) updateData.preferred_language = settings.preferredLanguage;
-
-        const { error } = await supabase
-            .from('user_settings')
-            .upsert(updateData, { onConflict: 'user_id' });
-
-        if (error) {
-            console.error('Error saving user settings:', error);
-            throw error;
-        }
+        const existing = await readRecord<Partial<UserSettings>>('settings', userId, SETTINGS_ID);
+        const updated = { ...existing, ...Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)) };
+        await writeRecords('settings', userId, [{ id: SETTINGS_ID, data: updated }]);
     } catch (err) {
         console.error('Error in saveUserSettings:', err);
         throw err;
@@ -128,6 +170,11 @@ interface PreferenceProfileRow {
     non_veg_preferences: string[] | null;
     language: string | null;
     quick_cook_instructions: string[] | null;
+    nutrition_targets: Partial<NutritionInfo> | null;
+    household_members: HouseholdMember[] | null;
+    followed_observances: string[] | null;
+    custom_observances: Observance[] | null;
+    meal_slots: MealSlot[] | null;
     is_default: boolean;
     created_at: string;
     updated_at: string;
@@ -140,6 +187,8 @@ interface ScheduledMealRow {
     breakfast: string | null;
     lunch: string | null;
     dinner: string | null;
+    extra_meals: Record<string, string> | null; // Dishes for added meal slots, keyed by slot id
+    cooked_at: string | null;
     created_at: string;
     updated_at: string;
 }
@@ -157,10 +206,15 @@ const profileRowToApp = (row: PreferenceProfileRow): PreferenceProfile => ({
     dinnerPreferences: row.dinner_preferences || [],
     specialInstructions: row.special_instructions || '',
     pantryStaples: row.pantry_staples || [],
-    mealsToPrepare: (row.meals_to_prepare || ['breakfast', 'lunch', 'dinner']) as ('breakfast' | 'lunch' | 'dinner')[],
+    mealsToPrepare: row.meals_to_prepare || ['breakfast', 'lunch', 'dinner'],
     nonVegPreferences: row.non_veg_preferences || [],
-    language: (row.language || 'English') as 'English' | 'Hindi',
+    language: row.language || 'English',
     quickCookInstructions: row.quick_cook_instructions || [],
+    nutritionTargets: row.nutrition_targets || undefined,
+    householdMembers: row.household_members || [],
+    followedObservances: row.followed_observances || [],
+    customObservances: row.custom_observances || [],
+    ...(row.meal_slots?.length && { mealSlots: row.meal_slots }),
 });
 
 const profileAppToRow = (profile: PreferenceProfile, userId: string) => ({
@@ -181,6 +235,11 @@ const profileAppToRow = (profile: PreferenceProfile, userId: string) => ({
     non_veg_preferences: profile.nonVegPreferences || [],
     language: profile.language || 'English',
     quick_cook_instructions: profile.quickCookInstructions || [],
+    nutrition_targets: profile.nutritionTargets || null,
+    household_members: profile.householdMembers || [],
+    followed_observances: profile.followedObservances || [],
+    custom_observances: profile.customObservances || [],
+    meal_slots: profile.mealSlots?.length ? profile.mealSlots : null,
 });
 
 const scheduledMealRowToDay = (row: ScheduledMealRow): DayPlan => ({
@@ -188,201 +247,177 @@ const scheduledMealRowToDay = (row: ScheduledMealRow): DayPlan => ({
     breakfast: row.breakfast || '',
     lunch: row.lunch || '',
     dinner: row.dinner || '',
+    ...(row.extra_meals || {}),
+    ...(row.cooked_at && { cookedAt: row.cooked_at }),
+});
+
+// Breakfast, lunch and dinner have their own columns; other slots go to extra_meals
+const dayToScheduledMealColumns = (day: DayPlan) => ({
+    breakfast: day.breakfast || null,
+    lunch: day.lunch || null,
+    dinner: day.dinner || null,
+    extra_meals: Object.fromEntries(
+        getMealKeys(day).filter(slot => !isDefaultSlot(slot) && day[slot]).map(slot => [slot, day[slot]])
+    ),
 });
 
 // ============================================================================
 // PREFERENCE PROFILES
 // ============================================================================
 
-export const getPreferenceProfiles = async (userId: string): Promise<PreferenceProfile[]> => {
-    if (isOfflineMode(userId)) {
-        const saved = localStorage.getItem('qookcommander_profiles');
-        return saved ? JSON.parse(saved) : [];
-    }
-
-    const { data, error } = await supabase
-        .from('preference_profiles')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: true });
-
-    if (error) {
-        console.error('Error fetching profiles:', error);
-        throw error;
-    }
+registerCollection<PreferenceProfile>('profiles', {
+    table: 'preference_profiles',
+    match: profile => ({ id: profile.id }),
+    toRow: (profile, _id, userId) => profileAppToRow(profile, userId),
+    fromRow: (row: PreferenceProfileRow) => ({ id: row.id, data: profileRowToApp(row) }),
+    importLegacy: () => readLegacyList<PreferenceProfile>('qookcommander_profiles').map(p => ({ id: p.id, data: p }))
+});
 
-    return (data || []).map((row: any) => profileRowToApp(row as PreferenceProfileRow));
+// In the order they were created
+export const getPreferenceProfiles = async (userId: string): Promise<PreferenceProfile[]> => {
+    return readRecords<PreferenceProfile>('profiles', userId);
 };
 
 export const savePreferenceProfile = async (
     profile: PreferenceProfile,
     userId: string
 ): Promise<PreferenceProfile> => {
-    if (isOfflineMode(userId)) {
-        // Fallback to localStorage
-        const saved = localStorage.getItem('qookcommander_profiles');
-        const profiles: PreferenceProfile[] = saved ? JSON.parse(saved) : [];
-        const existingIdx = profiles.findIndex(p => p.id === profile.id);
-
-        if (existingIdx >= 0) {
-            profiles[existingIdx] = profile;
-        } else {
-            profiles.push(profile);
-        }
-
-        localStorage.setItem('qookcommander_profiles', JSON.stringify(profiles));
-        return profile;
-    }
-
-    const rowData = profileAppToRow(profile, userId);
-
-    const { data, error } = await supabase
-        .from('preference_profiles')
-        .upsert(rowData as any)
-        .select()
-        .single();
-
-    if (error) {
-        console.error('Error saving profile:', error);
-        throw error;
-    }
-
-    return profileRowToApp(data as PreferenceProfileRow);
+    await writeRecords('profiles', userId, [{ id: profile.id, data: profile }]);
+    return profile;
 };
 
 export const deletePreferenceProfile = async (profileId: string, userId: string = 'local'): Promise<void> => {
-    if (isOfflineMode(userId)) {
-        const saved = localStorage.getItem('qookcommander_profiles');
-        const profiles: PreferenceProfile[] = saved ? JSON.parse(saved) : [];
-        const filtered = profiles.filter(p => p.id !== profileId);
-        localStorage.setItem('qookcommander_profiles', JSON.stringify(filtered));
-        return;
-    }
-
-    const { error } = await supabase
-        .from('preference_profiles')
-        .delete()
-        .eq('id', profileId);
-
-    if (error) {
-        console.error('Error deleting profile:', error);
-        throw error;
-    }
+    await removeRecords('profiles', userId, [profileId]);
 };
 
 // ============================================================================
 // WEEKLY PLANS
 // ============================================================================
 
-export const getCurrentPlan = async (userId: string): Promise<WeeklyPlan | null> => {
-    if (isOfflineMode(userId)) {
+// The current plan with the id of its row and the profile it was made for
+type StoredPlan = WeeklyPlan & { id: string; profileId?: string };
+
+const CURRENT_PLAN_ID = 'current';
+
+const planToRow = (plan: StoredPlan, isCurrent: boolean) => ({
+    id: plan.id,
+    profile_id: plan.profileId || null,
+    days: plan.days,
+    is_current: isCurrent,
+    prompt_template_id: plan.promptTemplate?.id || null,
+    prompt_template_version: plan.promptTemplate?.version || null,
+    start_date: plan.startDate || null,
+});
+
+registerCollection<StoredPlan>('plan', {
+    table: 'weekly_plans',
+    // Compared with whichever plan is current remotely, which may come from another device
+    match: () => ({ is_current: true }),
+    toRow: plan => planToRow(plan, true),
+    fromRow: (row: any) => ({
+        id: CURRENT_PLAN_ID,
+        data: {
+            id: row.id,
+            profileId: row.profile_id || undefined,
+            days: row.days as DayPlan[],
+            promptTemplate: row.prompt_template_id
+                ? { id: row.prompt_template_id, version: row.prompt_template_version }
+                : undefined,
+            startDate: row.start_date || undefined
+        }
+    }),
+    pull: { filter: { is_current: true } },
+    // Earlier plans are kept, just no longer current
+    softDelete: { is_current: false },
+    afterUpsert: async (plan, userId) => {
+        const { error } = await supabase!
+            .from('weekly_plans')
+            .update({ is_current: false })
+            .eq('user_id', userId)
+            .eq('is_current', true)
+            .neq('id', plan.id);
+
+        if (error) {
+            console.error('Error marking earlier plans not current:', error);
+            throw error;
+        }
+    },
+    importLegacy: () => {
         const saved = localStorage.getItem('qookcommander_plan');
-        return saved ? JSON.parse(saved) : null;
+        return saved ? [{ id: CURRENT_PLAN_ID, data: { ...JSON.parse(saved), id: crypto.randomUUID() } }] : [];
     }
+});
 
-    const { data, error } = await supabase
-        .from('weekly_plans')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_current', true)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
+// Plans that are no longer current, keyed by row id. Sent so a plan cleared before
+// its own upsert went out (e.g. archived while offline) still reaches weekly_plans.
+registerCollection<StoredPlan>('past_plans', {
+    table: 'weekly_plans',
+    match: (_plan, id) => ({ id }),
+    toRow: plan => planToRow(plan, false),
+    fromRow: (row: any) => ({ id: row.id, data: { id: row.id, days: row.days as DayPlan[] } }),
+    pushOnly: true
+});
 
-    if (error) {
-        // PGRST116 = no rows returned for single(), 406 = Not Acceptable (often means no/multiple rows)
-        if (error.code === 'PGRST116' || error.message?.includes('406')) return null;
-        console.error('Error fetching plan:', error);
-        throw error;
-    }
+export const getCurrentPlan = async (userId: string): Promise<WeeklyPlan | null> => {
+    const stored = await readRecord<StoredPlan>('plan', userId, CURRENT_PLAN_ID);
+    if (!stored) return null;
 
-    return { days: data.days as DayPlan[] };
+    const { id, profileId, ...plan } = stored;
+    return plan;
 };
 
+// Each save becomes a new current plan; returns its id
 export const savePlan = async (
     plan: WeeklyPlan,
     userId: string,
     profileId?: string
 ): Promise<string> => {
-    if (isOfflineMode(userId)) {
-        localStorage.setItem('qookcommander_plan', JSON.stringify(plan));
-        return 'local';
-    }
-
-    // Mark all existing as not current
-    await supabase
-        .from('weekly_plans')
-        .update({ is_current: false })
-        .eq('user_id', userId);
-
-    const { data, error } = await supabase
-        .from('weekly_plans')
-        .insert({
-            user_id: userId,
-            profile_id: profileId,
-            days: plan.days as any,
-            is_current: true,
-        })
-        .select('id')
-        .single();
-
-    if (error) {
-        console.error('Error saving plan:', error);
-        throw error;
-    }
-
-    return data.id;
+    const id = crypto.randomUUID();
+    await writeRecords<StoredPlan>('plan', userId, [{ id: CURRENT_PLAN_ID, data: { ...plan, id, profileId } }]);
+    return id;
 };
 
 export const clearCurrentPlan = async (userId: string): Promise<void> => {
-    if (isOfflineMode(userId)) {
-        localStorage.removeItem('qookcommander_plan');
-        return;
-    }
-
-    await supabase
-        .from('weekly_plans')
-        .update({ is_current: false })
-        .eq('user_id', userId)
-        .eq('is_current', true);
+    // Queued ahead of the delete, which replaces any upsert of the plan still waiting to go out
+    const current = await readRecord<StoredPlan>('plan', userId, CURRENT_PLAN_ID);
+    if (current) await writeRecords('past_plans', userId, [{ id: current.id, data: current }]);
+    await removeRecords('plan', userId, [CURRENT_PLAN_ID]);
 };
 
 // ============================================================================
 // SCHEDULED MEALS (Calendar)
 // ============================================================================
 
+// Keyed by date; each day also carries its date
+registerCollection<DayPlan>('schedule', {
+    table: 'scheduled_meals',
+    onConflict: 'user_id,date',
+    match: (_day, date) => ({ date }),
+    toRow: (day, date) => ({
+        date,
+        ...dayToScheduledMealColumns(day),
+        cooked_at: day.cookedAt || null,
+    }),
+    fromRow: (row: ScheduledMealRow) => ({ id: row.date, data: { ...scheduledMealRowToDay(row), date: row.date } }),
+    importLegacy: () => {
+        const saved = localStorage.getItem('qookcommander_schedule');
+        const schedule: Schedule = saved ? JSON.parse(saved) : {};
+        return Object.entries(schedule).map(([date, day]) => ({ id: date, data: { ...day, date } }));
+    }
+});
+
 export const getSchedule = async (
     userId: string,
     startDate?: string,
     endDate?: string
 ): Promise<Schedule> => {
-    if (isOfflineMode(userId)) {
-        const saved = localStorage.getItem('qookcommander_schedule');
-        return saved ? JSON.parse(saved) : {};
-    }
-
-    let query = supabase
-        .from('scheduled_meals')
-        .select('*')
-        .eq('user_id', userId);
-
-    if (startDate) {
-        query = query.gte('date', startDate);
-    }
-    if (endDate) {
-        query = query.lte('date', endDate);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-        console.error('Error fetching schedule:', error);
-        throw error;
-    }
-
+    const days = await readRecords<DayPlan>('schedule', userId);
     const schedule: Schedule = {};
-    (data || []).forEach((row: any) => {
-        schedule[row.date] = scheduledMealRowToDay(row as ScheduledMealRow);
+
+    days.forEach(day => {
+        if (startDate && day.date! < startDate) return;
+        if (endDate && day.date! > endDate) return;
+        schedule[day.date!] = day;
     });
 
     return schedule;
@@ -393,71 +428,28 @@ export const saveScheduledMeal = async (
     dayPlan: DayPlan,
     userId: string
 ): Promise<void> => {
-    if (isOfflineMode(userId)) {
-        const saved = localStorage.getItem('qookcommander_schedule');
-        const schedule: Schedule = saved ? JSON.parse(saved) : {};
-        schedule[date] = dayPlan;
-        localStorage.setItem('qookcommander_schedule', JSON.stringify(schedule));
-        return;
-    }
-
-    const { error } = await supabase
-        .from('scheduled_meals')
-        .upsert({
-            user_id: userId,
-            date: date,
-            breakfast: dayPlan.breakfast || null,
-            lunch: dayPlan.lunch || null,
-            dinner: dayPlan.dinner || null,
-        } as any);
-
-    if (error) {
-        console.error('Error saving scheduled meal:', error);
-        throw error;
-    }
+    await writeRecords('schedule', userId, [{ id: date, data: { ...dayPlan, date } }]);
 };
 
 export const archivePlanToSchedule = async (
     plan: WeeklyPlan,
     startDate: string,
-    userId: string
-): Promise<void> => {
-    if (isOfflineMode(userId)) {
-        const saved = localStorage.getItem('qookcommander_schedule');
-        const schedule: Schedule = saved ? JSON.parse(saved) : {};
-
-        plan.days.forEach((day, idx) => {
-            const date = addDays(startDate, idx);
-            schedule[date] = { ...day, day: date };
-        });
-
-        localStorage.setItem('qookcommander_schedule', JSON.stringify(schedule));
-        localStorage.removeItem('qookcommander_plan');
-        return;
+    userId: string,
+    preferences?: UserPreferences
+): Promise<WeeklyPlan> => {
+    // Swap meals that break a festival or fasting day's rules on the dates they land on
+    if (preferences) {
+        plan = adaptPlanToObservances(plan, startDate, preferences).plan;
     }
 
-    const rows = plan.days.map((day, idx) => ({
-        user_id: userId,
-        date: addDays(startDate, idx),
-        breakfast: day.breakfast || null,
-        lunch: day.lunch || null,
-        dinner: day.dinner || null,
+    await writeRecords('schedule', userId, plan.days.map((day, idx) => {
+        const date = addDays(startDate, idx);
+        return { id: date, data: { ...day, day: date, date } };
     }));
 
-    const { error } = await supabase
-        .from('scheduled_meals')
-        .upsert(rows as any, {
-            onConflict: 'user_id,date',
-            ignoreDuplicates: false
-        });
-
-    if (error) {
-        console.error('Error archiving plan:', error);
-        throw error;
-    }
-
     // Clear current plan
     await clearCurrentPlan(userId);
+    return plan;
 };
 
 // Helper to add days to a date string
@@ -471,98 +463,84 @@ const addDays = (dateStr: string, days: number): string => {
 // GROCERY LISTS
 // ============================================================================
 
+// Sent to Supabase only; the app keeps the current list in memory
+registerCollection<{ items: GroceryItem[]; planId?: string }>('grocery_lists', {
+    table: 'grocery_lists',
+    match: (_list, id) => ({ id }),
+    toRow: (list, id) => ({ id, plan_id: list.planId || null, items: list.items }),
+    fromRow: (row: any) => ({ id: row.id, data: { items: row.items, planId: row.plan_id || undefined } }),
+    pushOnly: true
+});
+
 export const saveGroceryList = async (
     items: GroceryItem[],
     userId: string,
     planId?: string
 ): Promise<void> => {
-    if (isOfflineMode(userId)) {
-        // Grocery list is ephemeral in the app, not saved to localStorage currently
-        return;
-    }
-
-    const { error } = await supabase
-        .from('grocery_lists')
-        .insert({
-            user_id: userId,
-            plan_id: planId,
-            items: items as any,
-        });
-
-    if (error) {
-        console.error('Error saving grocery list:', error);
-        throw error;
-    }
+    await writeRecords('grocery_lists', userId, [{ id: crypto.randomUUID(), data: { items, planId } }]);
 };
 
 // ============================================================================
 // MEAL HISTORY (for AI learning)
 // ============================================================================
 
+const MAX_LOCAL_HISTORY = 500;
+
+registerCollection<MealHistoryEntry>('meal_history', {
+    table: 'meal_history',
+    match: (_entry, id) => ({ id }),
+    toRow: (entry, id) => ({
+        id,
+        date: entry.date,
+        meal_type: entry.type,
+        meal_name: entry.mealName,
+        rating: entry.rating || null,
+    }),
+    fromRow: (row: any) => ({
+        id: row.id,
+        data: {
+            date: row.date,
+            type: row.meal_type as MealType,
+            mealName: row.meal_name,
+            rating: row.rating as 'liked' | 'disliked' | undefined,
+        }
+    }),
+    pull: { orderBy: 'date', limit: MAX_LOCAL_HISTORY },
+    maxRecords: MAX_LOCAL_HISTORY
+});
+
+// Newest first
 export const getMealHistory = async (
     userId: string,
     limit: number = 100
 ): Promise<MealHistoryEntry[]> => {
-    if (isOfflineMode(userId)) {
+    if (!isSyncEnabled(userId)) {
         // Derive from schedule in offline mode
-        const saved = localStorage.getItem('qookcommander_schedule');
-        const schedule: Schedule = saved ? JSON.parse(saved) : {};
+        const schedule = await getSchedule(userId);
 
         const history: MealHistoryEntry[] = [];
-        Object.entries(schedule).forEach(([date, plan]) => {
-            const dayPlan = plan as DayPlan;
-            if (dayPlan.breakfast) history.push({ date, type: 'Breakfast', mealName: dayPlan.breakfast });
-            if (dayPlan.lunch) history.push({ date, type: 'Lunch', mealName: dayPlan.lunch });
-            if (dayPlan.dinner) history.push({ date, type: 'Dinner', mealName: dayPlan.dinner });
+        Object.entries(schedule).forEach(([date, dayPlan]) => {
+            getMealKeys(dayPlan).forEach(slot => {
+                if (dayPlan[slot]) history.push({ date, type: getMealSlotLabel(slot), mealName: dayPlan[slot] });
+            });
         });
 
         return history.slice(-limit);
     }
 
-    const { data, error } = await supabase
-        .from('meal_history')
-        .select('*')
-        .eq('user_id', userId)
-        .order('date', { ascending: false })
-        .limit(limit);
-
-    if (error) {
-        console.error('Error fetching meal history:', error);
-        throw error;
-    }
-
-    return (data || []).map((row: any) => ({
-        date: row.date,
-        type: row.meal_type as MealType,
-        mealName: row.meal_name,
-        rating: row.rating as 'liked' | 'disliked' | undefined,
-    }));
+    const history = await readRecords<MealHistoryEntry>('meal_history', userId);
+    return history.sort((a, b) => b.date.localeCompare(a.date)).slice(0, limit);
 };
 
 export const saveMealHistory = async (
     entries: MealHistoryEntry[],
     userId: string
 ): Promise<void> => {
-    if (isOfflineMode(userId)) {
+    if (!isSyncEnabled(userId)) {
         return; // History is derived from schedule in offline mode
     }
 
-    const rows = entries.map(entry => ({
-        user_id: userId,
-        date: entry.date,
-        meal_type: entry.type,
-        meal_name: entry.mealName,
-        rating: entry.rating || null,
-    }));
-
-    const { error } = await supabase
-        .from('meal_history')
-        .insert(rows as any);
-
-    if (error) {
-        console.error('Error saving meal history:', error);
-        throw error;
-    }
+    await writeRecords('meal_history', userId, entries.map(entry => ({ id: crypto.randomUUID(), data: entry })));
 };
 
 // ============================================================================
@@ -588,7 +566,12 @@ export const subscribeToScheduleChanges = (
                 filter: `user_id=eq.${userId}`,
             },
             async () => {
-                // Refetch schedule on any change
+                // Pull the change into the local store, then reload the schedule from it
+                try {
+                    await pullCollection('schedule', userId);
+                } catch (err) {
+                    console.error('Error pulling schedule:', err);
+                }
                 const schedule = await getSchedule(userId);
                 callback(schedule);
             }
@@ -630,60 +613,18 @@ export const getMealLearningSummary = async (
         newestDate: null,
     };
 
-    if (isOfflineMode(userId)) {
-        // For local mode, use localStorage schedule
-        const saved = localStorage.getItem('qookcommander_schedule');
-        if (!saved) return emptySummary;
-
-        const schedule: Schedule = JSON.parse(saved);
-        const cutoffDate = new Date();
-        cutoffDate.setMonth(cutoffDate.getMonth() - monthsBack);
-
-        const breakfasts: string[] = [];
-        const lunches: string[] = [];
-        const dinners: string[] = [];
-        const allMeals: string[] = [];
-
-        Object.entries(schedule).forEach(([dateKey, dayPlan]) => {
-            const date = new Date(dateKey);
-            if (date >= cutoffDate) {
-                if (dayPlan.breakfast) breakfasts.push(dayPlan.breakfast);
-                if (dayPlan.lunch) lunches.push(dayPlan.lunch);
-                if (dayPlan.dinner) dinners.push(dayPlan.dinner);
-                allMeals.push(dayPlan.breakfast, dayPlan.lunch, dayPlan.dinner);
-            }
-        });
-
-        return {
-            acceptedBreakfasts: [...new Set(breakfasts.filter(Boolean))],
-            acceptedLunches: [...new Set(lunches.filter(Boolean))],
-            acceptedDinners: [...new Set(dinners.filter(Boolean))],
-            recentMeals: allMeals.filter(Boolean).slice(-21), // Last 3 weeks
-            totalMealCount: allMeals.filter(Boolean).length,
-            oldestDate: null,
-            newestDate: null,
-        };
-    }
-
     try {
         const cutoffDate = new Date();
         cutoffDate.setMonth(cutoffDate.getMonth() - monthsBack);
         const cutoffStr = cutoffDate.toISOString().split('T')[0];
 
-        // Fetch scheduled meals from last N months
-        const { data: scheduledMeals, error } = await supabase
-            .from('scheduled_meals')
-            .select('date, breakfast, lunch, dinner')
-            .eq('user_id', userId)
-            .gte('date', cutoffStr)
-            .order('date', { ascending: false });
-
-        if (error) {
-            console.error('Error fetching learning summary:', error);
-            return emptySummary;
-        }
+        // Scheduled meals from the last N months, newest first
+        const schedule = await getSchedule(userId, cutoffStr);
+        const scheduledMeals = Object.entries(schedule)
+            .map(([date, day]) => ({ ...day, date }))
+            .sort((a, b) => b.date.localeCompare(a.date));
 
-        if (!scheduledMeals || scheduledMeals.length === 0) {
+        if (scheduledMeals.length === 0) {
             return emptySummary;
         }
 
@@ -728,113 +669,367 @@ export const getMealLearningSummary = async (
 
 const GROCERY_HISTORY_KEY = 'qookcommander_grocery_history';
 
+registerCollection<SavedGroceryList>('grocery_history', {
+    table: 'grocery_list_history',
+    match: list => ({ id: list.id }),
+    toRow: list => ({
+        id: list.id,
+        name: list.name,
+        items: list.items,
+        date_range: list.dateRange,
+        created_at: list.createdAt
+    }),
+    fromRow: (d: any) => ({
+        id: d.id,
+        data: {
+            id: d.id,
+            name: d.name,
+            items: d.items,
+            dateRange: d.date_range,
+            createdAt: d.created_at
+        }
+    }),
+    // Stored newest first
+    importLegacy: () => readLegacyList<SavedGroceryList>(GROCERY_HISTORY_KEY).reverse().map(list => ({ id: list.id, data: list }))
+});
+
 export const saveGroceryListToHistory = async (
     items: GroceryItem[],
     dateRange: string,
     userId: string,
     customName?: string
 ): Promise<SavedGroceryList> => {
-    // 1. Supabase Storage
-    if (!isOfflineMode(userId)) {
-        const { data, error } = await supabase
-            .from('grocery_list_history')
-            .insert({
-                user_id: userId,
-                name: customName || `Grocery List - ${dateRange}`,
-                items: items,
-                date_range: dateRange
-            })
-            .select()
-            .single();
-
-        if (error) {
-            console.error('Error saving grocery list to Supabase:', error);
-            throw error;
-        }
-
-        return {
-            id: data.id,
-            name: data.name,
-            items: data.items,
-            dateRange: data.date_range,
-            createdAt: data.created_at
-        };
-    }
-
-    // 2. Offline Fallback
     const newList: SavedGroceryList = {
-        id: `local_${Date.now()}`,
+        id: crypto.randomUUID(),
         name: customName || `Grocery List - ${dateRange}`,
         items,
         dateRange,
         createdAt: new Date().toISOString()
     };
 
-    const saved = localStorage.getItem(GROCERY_HISTORY_KEY);
-    const history: SavedGroceryList[] = saved ? JSON.parse(saved) : [];
+    await writeRecords('grocery_history', userId, [{ id: newList.id, data: newList }]);
+    return newList;
+};
 
-    // Add new list at the beginning
-    history.unshift(newList);
+// Newest first
+export const getGroceryListHistory = async (userId: string): Promise<SavedGroceryList[]> => {
+    const history = await readRecords<SavedGroceryList>('grocery_history', userId);
+    return history.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
 
-    // Keep only last N lists
-    const trimmed = history.slice(0, 10);
+// Saves changed items (e.g. ticked off from a receipt) back to a saved list
+export const updateGroceryListItems = async (listId: string, items: GroceryItem[], userId: string): Promise<void> => {
+    const list = await readRecord<SavedGroceryList>('grocery_history', userId, listId);
+    if (!list) return;
 
-    localStorage.setItem(GROCERY_HISTORY_KEY, JSON.stringify(trimmed));
+    await writeRecords('grocery_history', userId, [{ id: listId, data: { ...list, items } }]);
+};
 
-    return newList;
+export const deleteGroceryList = async (listId: string, userId: string): Promise<void> => {
+    await removeRecords('grocery_history', userId, [listId]);
 };
 
-export const getGroceryListHistory = async (userId: string): Promise<SavedGroceryList[]> => {
-    // 1. Supabase Storage
-    if (!isOfflineMode(userId)) {
-        const { data, error } = await supabase
-            .from('grocery_list_history')
-            .select('*')
-            .eq('user_id', userId)
-            .order('created_at', { ascending: false });
+// ============================================================================
+// RECIPES
+// ============================================================================
 
-        if (error) {
-            console.error('Error fetching grocery history:', error);
-            return [];
-        }
+const RECIPES_KEY = 'qookcommander_recipes';
 
-        return data.map((d: any) => ({
-            id: d.id,
-            name: d.name,
-            items: d.items,
-            dateRange: d.date_range,
-            createdAt: d.created_at
-        }));
-    }
+// Recipes are cached per meal name and serving count
+const getMealKey = (mealName: string): string => mealName.trim().toLowerCase().replace(/\s+/g, ' ');
 
-    // 2. Offline Fallback
-    const saved = localStorage.getItem(GROCERY_HISTORY_KEY);
-    return saved ? JSON.parse(saved) : [];
+const getRecipeId = (mealName: string, servings: number): string => `${getMealKey(mealName)}|${servings}`;
+
+const recipeRowToApp = (row: any): Recipe => ({
+    id: row.id,
+    mealName: row.meal_name,
+    servings: row.servings,
+    ingredients: row.ingredients || [],
+    steps: row.steps || [],
+    prepTimeMinutes: row.prep_time_minutes || 0,
+    cookTimeMinutes: row.cook_time_minutes || 0,
+    tips: row.tips || [],
+    createdAt: row.created_at
+});
+
+// One per meal and serving count; the upsert replaces any earlier recipe for them
+registerCollection<Recipe>('recipes', {
+    table: 'recipes',
+    onConflict: 'user_id,meal_key,servings',
+    match: recipe => ({ meal_key: getMealKey(recipe.mealName), servings: recipe.servings }),
+    toRow: recipe => ({
+        meal_key: getMealKey(recipe.mealName),
+        meal_name: recipe.mealName,
+        servings: recipe.servings,
+        ingredients: recipe.ingredients,
+        steps: recipe.steps,
+        prep_time_minutes: recipe.prepTimeMinutes,
+        cook_time_minutes: recipe.cookTimeMinutes,
+        tips: recipe.tips
+    }),
+    fromRow: (row: any) => ({ id: `${row.meal_key}|${row.servings}`, data: recipeRowToApp(row) }),
+    importLegacy: () => readLegacyList<Recipe>(RECIPES_KEY).reverse().map(r => ({ id: getRecipeId(r.mealName, r.servings), data: r }))
+});
+
+export const getRecipe = async (mealName: string, servings: number, userId: string): Promise<Recipe | null> => {
+    return (await readRecord<Recipe>('recipes', userId, getRecipeId(mealName, servings))) || null;
 };
 
-export const deleteGroceryList = async (listId: string, userId: string): Promise<void> => {
-    // 1. Supabase Storage
-    if (!isOfflineMode(userId) && !listId.startsWith('local_')) {
-        const { error } = await supabase
-            .from('grocery_list_history')
-            .delete()
-            .eq('id', listId)
-            .eq('user_id', userId);
+// Every saved serving count of a meal's recipe
+export const getRecipesForMeal = async (mealName: string, userId: string): Promise<Recipe[]> => {
+    const mealKey = getMealKey(mealName);
+    return (await readRecords<Recipe>('recipes', userId)).filter(recipe => getMealKey(recipe.mealName) === mealKey);
+};
 
-        if (error) {
-            console.error('Error deleting grocery list:', error);
-            throw error;
-        }
-        return;
-    }
+export const saveRecipe = async (recipe: Omit<Recipe, 'id' | 'createdAt'>, userId: string): Promise<Recipe> => {
+    const id = getRecipeId(recipe.mealName, recipe.servings);
+    const existing = await readRecord<Recipe>('recipes', userId, id);
+
+    const newRecipe: Recipe = {
+        ...recipe,
+        id: existing?.id || crypto.randomUUID(),
+        createdAt: new Date().toISOString()
+    };
+
+    await writeRecords('recipes', userId, [{ id, data: newRecipe }]);
+    return newRecipe;
+};
+
+// ============================================================================
+// GROCERY PRICES
+// ============================================================================
+
+const GROCERY_PRICES_KEY = 'qookcommander_grocery_prices';
+const MAX_LOCAL_PRICES = 1000;
+
+const groceryPriceRowToApp = (row: any): GroceryPrice => ({
+    id: row.id,
+    item: row.item,
+    quantity: Number(row.quantity) || 0,
+    unit: row.unit || '',
+    price: Number(row.price) || 0,
+    store: row.store || undefined,
+    purchasedOn: row.purchased_on,
+    createdAt: row.created_at
+});
+
+registerCollection<GroceryPrice>('grocery_prices', {
+    table: 'grocery_prices',
+    match: price => ({ id: price.id }),
+    toRow: price => ({
+        id: price.id,
+        item: price.item,
+        quantity: price.quantity,
+        unit: price.unit,
+        price: price.price,
+        store: price.store || null,
+        purchased_on: price.purchasedOn,
+        created_at: price.createdAt
+    }),
+    fromRow: (row: any) => ({ id: row.id, data: groceryPriceRowToApp(row) }),
+    pull: { orderBy: 'purchased_on', limit: MAX_LOCAL_PRICES },
+    maxRecords: MAX_LOCAL_PRICES,
+    // Stored newest first
+    importLegacy: () => readLegacyList<GroceryPrice>(GROCERY_PRICES_KEY).reverse().map(price => ({ id: price.id, data: price }))
+});
+
+export const saveGroceryPrices = async (
+    prices: Omit<GroceryPrice, 'id' | 'createdAt'>[],
+    userId: string
+): Promise<GroceryPrice[]> => {
+    if (prices.length === 0) return [];
+    const createdAt = new Date().toISOString();
+    const added = prices.map(price => ({ ...price, id: crypto.randomUUID(), createdAt }));
+
+    await writeRecords('grocery_prices', userId, added.map(price => ({ id: price.id, data: price })));
+    return added;
+};
+
+// Newest purchase first
+export const getGroceryPrices = async (userId: string): Promise<GroceryPrice[]> => {
+    const prices = await readRecords<GroceryPrice>('grocery_prices', userId);
+    return prices.sort((a, b) => b.purchasedOn.localeCompare(a.purchasedOn) || b.createdAt.localeCompare(a.createdAt));
+};
+
+// ============================================================================
+// PANTRY INVENTORY
+// ============================================================================
+
+const PANTRY_KEY = 'qookcommander_pantry';
+
+const pantryRowToApp = (row: any): PantryItem => ({
+    id: row.id,
+    name: row.name,
+    quantity: Number(row.quantity) || 0,
+    unit: row.unit || '',
+    category: row.category || undefined,
+    expiresOn: row.expires_on || undefined,
+    updatedAt: row.updated_at
+});
+
+registerCollection<PantryItem>('pantry', {
+    table: 'pantry_items',
+    match: item => ({ id: item.id }),
+    toRow: item => ({
+        id: item.id,
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit,
+        category: item.category || null,
+        expires_on: item.expiresOn || null
+    }),
+    fromRow: (row: any) => ({ id: row.id, data: pantryRowToApp(row) }),
+    importLegacy: () => readLegacyList<PantryItem>(PANTRY_KEY).map(item => ({ id: item.id, data: item }))
+});
+
+// Sorted by name
+export const getPantryItems = async (userId: string): Promise<PantryItem[]> => {
+    const pantry = await readRecords<PantryItem>('pantry', userId);
+    return pantry.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Inserts new items (id starting with "new_") and updates existing ones
+export const savePantryItems = async (items: PantryItem[], userId: string): Promise<PantryItem[]> => {
+    const now = new Date().toISOString();
+    const updated = items.map(item => ({
+        ...item,
+        id: item.id.startsWith('new_') ? crypto.randomUUID() : item.id,
+        updatedAt: now
+    }));
+
+    await writeRecords('pantry', userId, updated.map(item => ({ id: item.id, data: item })));
+    return updated;
+};
+
+export const deletePantryItem = async (itemId: string, userId: string): Promise<void> => {
+    await removeRecords('pantry', userId, [itemId]);
+};
+
+// ============================================================================
+// TRANSLATION GLOSSARY
+// ============================================================================
+
+const GLOSSARY_KEY = 'qookcommander_translation_glossary';
+
+// One translation per language and name
+const getEntryId = (entry: Pick<GlossaryEntry, 'languageId' | 'source'>): string =>
+    `${entry.languageId}|${getGlossaryKey(entry.source)}`;
+
+const glossaryRowToApp = (row: any): GlossaryEntry => ({
+    id: row.id,
+    source: row.source,
+    languageId: row.language_id,
+    translation: row.translation,
+    kind: row.kind === 'ingredient' ? 'ingredient' : 'dish',
+    corrected: row.corrected || false,
+    updatedAt: row.updated_at
+});
+
+registerCollection<GlossaryEntry>('glossary', {
+    table: 'translation_glossary',
+    onConflict: 'user_id,language_id,source_key',
+    match: entry => ({ language_id: entry.languageId, source_key: getGlossaryKey(entry.source) }),
+    toRow: entry => ({
+        language_id: entry.languageId,
+        source: entry.source,
+        source_key: getGlossaryKey(entry.source),
+        translation: entry.translation,
+        kind: entry.kind,
+        corrected: entry.corrected || false
+    }),
+    fromRow: (row: any) => {
+        const entry = glossaryRowToApp(row);
+        return { id: getEntryId(entry), data: entry };
+    },
+    importLegacy: () => readLegacyList<GlossaryEntry>(GLOSSARY_KEY).map(entry => ({ id: getEntryId(entry), data: entry }))
+});
+
+export const getGlossaryEntries = async (userId: string): Promise<GlossaryEntry[]> => {
+    return readRecords<GlossaryEntry>('glossary', userId);
+};
+
+// Upserts by language and name, so a name has one translation per language
+export const saveGlossaryEntries = async (entries: GlossaryEntry[], userId: string): Promise<GlossaryEntry[]> => {
+    if (entries.length === 0) return [];
+    const now = new Date().toISOString();
 
-    // 2. Offline Fallback
-    const saved = localStorage.getItem(GROCERY_HISTORY_KEY);
-    if (!saved) return;
+    const updated = await Promise.all(entries.map(async entry => {
+        const existing = await readRecord<GlossaryEntry>('glossary', userId, getEntryId(entry));
+        return {
+            ...entry,
+            id: existing?.id || (entry.id.startsWith('new_') ? crypto.randomUUID() : entry.id),
+            updatedAt: now
+        };
+    }));
+
+    await writeRecords('glossary', userId, updated.map(entry => ({ id: getEntryId(entry), data: entry })));
+    return updated;
+};
+
+export const deleteGlossaryEntry = async (entryId: string, userId: string): Promise<void> => {
+    const glossary = await readRecords<GlossaryEntry>('glossary', userId);
+    const entry = glossary.find(e => e.id === entryId);
+    if (!entry) return;
+
+    await removeRecords('glossary', userId, [getEntryId(entry)]);
+};
+
+// ============================================================================
+// AI USAGE LEDGER
+// ============================================================================
+
+const AI_USAGE_KEY = 'qookcommander_ai_usage';
+const MAX_LOCAL_USAGE_ENTRIES = 2000;
+
+const aiUsageRowToApp = (row: any): AIUsageEntry => ({
+    id: row.id,
+    feature: row.feature,
+    task: row.task,
+    provider: row.provider,
+    model: row.model,
+    promptTokens: row.prompt_tokens || 0,
+    responseTokens: row.response_tokens || 0,
+    latencyMs: row.latency_ms || 0,
+    success: row.success,
+    error: row.error || undefined,
+    createdAt: row.created_at
+});
 
-    const history: SavedGroceryList[] = JSON.parse(saved);
-    const filtered = history.filter(list => list.id !== listId);
-    localStorage.setItem(GROCERY_HISTORY_KEY, JSON.stringify(filtered));
+registerCollection<AIUsageEntry>('ai_usage', {
+    table: 'ai_usage',
+    match: entry => ({ id: entry.id }),
+    toRow: entry => ({
+        id: entry.id,
+        feature: entry.feature,
+        task: entry.task,
+        provider: entry.provider,
+        model: entry.model,
+        prompt_tokens: entry.promptTokens,
+        response_tokens: entry.responseTokens,
+        latency_ms: entry.latencyMs,
+        success: entry.success,
+        error: entry.error || null,
+        created_at: entry.createdAt
+    }),
+    fromRow: (row: any) => ({ id: row.id, data: aiUsageRowToApp(row) }),
+    // The local ledger keeps the most recent entries so it cannot grow without bound
+    pull: { orderBy: 'created_at', limit: MAX_LOCAL_USAGE_ENTRIES },
+    maxRecords: MAX_LOCAL_USAGE_ENTRIES,
+    importLegacy: () => readLegacyList<AIUsageEntry>(AI_USAGE_KEY).map(entry => ({ id: entry.id, data: entry }))
+});
+
+export const logAIUsage = async (entry: Omit<AIUsageEntry, 'id' | 'createdAt'>, userId: string): Promise<void> => {
+    const id = crypto.randomUUID();
+    await writeRecords('ai_usage', userId, [{ id, data: { ...entry, id, createdAt: new Date().toISOString() } }]);
+};
+
+// Calls since the given date, newest first
+export const getAIUsage = async (userId: string, since: Date): Promise<AIUsageEntry[]> => {
+    const sinceIso = since.toISOString();
+    const entries = await readRecords<AIUsageEntry>('ai_usage', userId);
+    return entries
+        .filter(entry => entry.createdAt >= sinceIso)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
 };
 
 // ============================================================================
@@ -869,4 +1064,3 @@ export const submitFeedback = async (data: FeedbackData, userId: string = 'anon'
         throw error;
     }
 };
-
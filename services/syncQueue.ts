@@ -0,0 +1,545 @@
+/**
+ * Sync Queue
+ * Keeps the local store (services/localStore.ts) and Supabase in step for
+ * signed-in users. Writes land on this device immediately and queue an
+ * outbound mutation; the queue is sent whenever the browser is online and
+ * retried with backoff when a request fails, so edits made on a flaky
+ * connection are not lost. Changes Supabase rejects outright, or that keep
+ * failing, are set aside and reported so the user can retry or discard them.
+ * Conflicts are settled per record on updated_at:
+ * the newer of the local change and the remote row wins. Remote rows are
+ * pulled in the background and listeners are told which collections changed.
+ */
+
+import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import {
+  Mutation,
+  StoredRecord,
+  deleteMutation,
+  deleteRecords,
+  getMeta,
+  getMutation,
+  getMutations,
+  getRecord,
+  getRecords,
+  putMutations,
+  putRecords,
+  recordKey,
+  rescheduleMutation,
+  setMeta,
+} from './localStore';
+
+// How a collection maps onto its Supabase table
+export interface SyncedCollection<T = any> {
+  table: string;
+  onConflict?: string; // Unique columns the upsert targets; defaults to 'id'
+  match: (data: T, id: string) => Record<string, unknown>; // Columns besides user_id that find the record's row
+  toRow: (data: T, id: string, userId: string) => Record<string, unknown>;
+  fromRow: (row: any) => { id: string; data: T };
+  pull?: {
+    filter?: Record<string, unknown>; // e.g. only the current plan
+    orderBy?: string; // With limit, the newest rows by this column are pulled
+    limit?: number; // Rows past the limit stay on this device
+  };
+  pushOnly?: boolean; // Never read back, e.g. grocery lists kept for analytics
+  softDelete?: Record<string, unknown>; // Columns updated instead of deleting the row
+  afterUpsert?: (data: T, userId: string) => Promise<void>;
+  maxRecords?: number; // Oldest records beyond this are dropped from this device
+  importLegacy?: () => { id: string; data: T }[]; // Data kept in localStorage before this store
+}
+
+export interface NewRecord<T> {
+  id: string;
+  data: T;
+}
+
+const collections: Record<string, SyncedCollection> = {};
+
+// Checked every interval; mutations only go out once their backoff has passed
+const FLUSH_INTERVAL_MS = 30 * 1000;
+const PULL_INTERVAL_MS = 5 * 60 * 1000;
+const RETRY_BASE_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+// About an hour of retries at the longest delay
+const MAX_ATTEMPTS = 16;
+// Lets a burst of writes go out together
+const FLUSH_DELAY_MS = 500;
+
+export const registerCollection = <T>(name: string, collection: SyncedCollection<T>): void => {
+  collections[name] = collection;
+};
+
+const getCollection = (name: string): SyncedCollection => {
+  const collection = collections[name];
+  if (!collection) throw new Error(`Unknown collection: ${name}`);
+  return collection;
+};
+
+// Signed-in users with Supabase configured; everyone else keeps data on this device only
+export const isSyncEnabled = (userId: string): boolean =>
+  isSupabaseConfigured && !!supabase && userId !== 'local';
+
+const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// Compares ISO timestamps from the browser and from Postgres, which format them differently
+const isNewer = (a: string | null | undefined, b: string | null | undefined): boolean =>
+  !!a && (!b || Date.parse(a) > Date.parse(b));
+
+let lastSeq = 0;
+const nextSeq = (): number => (lastSeq = Math.max(lastSeq + 1, Date.now()));
+
+// ============================================================================
+// CHANGE LISTENERS
+// ============================================================================
+
+type SyncListener = (changed: string[]) => void;
+const listeners = new Set<SyncListener>();
+
+// Called with the collections that changed because of remote rows
+export const subscribeToSync = (listener: SyncListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = (changed: string[]) => {
+  if (changed.length === 0) return;
+  listeners.forEach(listener => {
+    try {
+      listener(changed);
+    } catch (err) {
+      console.error('Error in sync listener:', err);
+    }
+  });
+};
+
+// A change that could not be sent and is no longer retried
+export interface SyncFailure {
+  collection: string;
+  id: string;
+  op: Mutation['op'];
+  error: string;
+}
+
+type FailureListener = (failures: SyncFailure[]) => void;
+const failureListeners = new Set<FailureListener>();
+
+// Called with the user's failed changes whenever they change, and once on subscribing
+export const subscribeToSyncFailures = (userId: string, listener: FailureListener): (() => void) => {
+  failureListeners.add(listener);
+  getSyncFailures(userId).then(listener).catch(err => console.error('Error reading sync failures:', err));
+  return () => {
+    failureListeners.delete(listener);
+  };
+};
+
+export const getSyncFailures = async (userId: string): Promise<SyncFailure[]> =>
+  (await getMutations())
+    .filter(m => m.userId === userId && m.failed)
+    .map(m => ({ collection: m.collection, id: m.id, op: m.op, error: m.lastError || 'Unknown error' }));
+
+const notifyFailures = async (userId: string) => {
+  if (failureListeners.size === 0) return;
+  const failures = await getSyncFailures(userId);
+  failureListeners.forEach(listener => {
+    try {
+      listener(failures);
+    } catch (err) {
+      console.error('Error in sync failure listener:', err);
+    }
+  });
+};
+
+// ============================================================================
+// LOCAL READS AND WRITES
+// ============================================================================
+
+const prepared = new Map<string, Promise<void>>();
+
+// Once per session and collection: a first pull for synced users, so a new device
+// starts with their data, or the import of older localStorage data for everyone else
+const prepare = (name: string, userId: string): Promise<void> => {
+  const prepareKey = `${userId}|${name}`;
+  if (!prepared.has(prepareKey)) {
+    prepared.set(prepareKey, (async () => {
+      if (isSyncEnabled(userId)) {
+        if (!(await getMeta(`pulled|${prepareKey}`)) && isOnline()) {
+          await pullCollection(name, userId).catch(err => console.error(`Error pulling ${name}:`, err));
+        }
+        return;
+      }
+      await importLegacy(name, userId);
+    })());
+  }
+  return prepared.get(prepareKey)!;
+};
+
+const importLegacy = async (name: string, userId: string): Promise<void> => {
+  const collection = getCollection(name);
+  const metaKey = `imported|${userId}|${name}`;
+  if (!collection.importLegacy || await getMeta(metaKey)) return;
+
+  try {
+    const base = Date.now();
+    const now = new Date(base).toISOString();
+    // Spaced a millisecond apart so the old order is kept
+    await putRecords(collection.importLegacy().map((entry, idx) => ({
+      key: recordKey(userId, name, entry.id),
+      userId,
+      collection: name,
+      id: entry.id,
+      data: entry.data,
+      createdAt: new Date(base + idx).toISOString(),
+      updatedAt: now,
+    })));
+    await setMeta(metaKey, now);
+  } catch (err) {
+    console.error(`Error importing saved ${name}:`, err);
+  }
+};
+
+// Oldest first
+export const readRecords = async <T>(name: string, userId: string): Promise<T[]> => {
+  await prepare(name, userId);
+  return (await getRecords<T>(userId, name)).map(record => record.data);
+};
+
+export const readRecord = async <T>(name: string, userId: string, id: string): Promise<T | undefined> => {
+  await prepare(name, userId);
+  return (await getRecord<T>(userId, name, id))?.data;
+};
+
+// Saves on this device and queues the change for Supabase
+export const writeRecords = async <T>(name: string, userId: string, entries: NewRecord<T>[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const collection = getCollection(name);
+  await prepare(name, userId);
+
+  const now = new Date().toISOString();
+  const existing = await Promise.all(entries.map(entry => getRecord(userId, name, entry.id)));
+  const records: StoredRecord<T>[] = entries.map((entry, idx) => ({
+    key: recordKey(userId, name, entry.id),
+    userId,
+    collection: name,
+    id: entry.id,
+    data: entry.data,
+    createdAt: existing[idx]?.createdAt || now,
+    updatedAt: now,
+  }));
+
+  if (!collection.pushOnly) {
+    await putRecords(records);
+    if (collection.maxRecords) await pruneRecords(name, userId, collection.maxRecords);
+  }
+  await enqueue(records.map(record => ({ ...record, op: 'upsert' as const })));
+};
+
+// Deletes on this device and queues the delete for Supabase
+export const removeRecords = async (name: string, userId: string, ids: string[]): Promise<void> => {
+  await prepare(name, userId);
+  const records = (await Promise.all(ids.map(id => getRecord(userId, name, id)))).filter(Boolean) as StoredRecord[];
+  if (records.length === 0) return;
+
+  const now = new Date().toISOString();
+  await deleteRecords(records.map(record => record.key));
+  await enqueue(records.map(record => ({ ...record, updatedAt: now, op: 'delete' as const })));
+};
+
+// Drops the oldest records that have nothing waiting to be sent
+const pruneRecords = async (name: string, userId: string, maxRecords: number): Promise<void> => {
+  const records = await getRecords(userId, name);
+  if (records.length <= maxRecords) return;
+
+  const pending = new Set((await getMutations()).map(m => m.key));
+  const excess = records
+    .slice(0, records.length - maxRecords)
+    .filter(record => !pending.has(record.key));
+  await deleteRecords(excess.map(record => record.key));
+};
+
+// ============================================================================
+// OUTBOUND QUEUE
+// ============================================================================
+
+type QueuedChange = Pick<StoredRecord, 'key' | 'userId' | 'collection' | 'id' | 'data' | 'updatedAt'> & {
+  op: Mutation['op'];
+};
+
+const enqueue = async (changes: QueuedChange[]): Promise<void> => {
+  const toSync = changes.filter(change => isSyncEnabled(change.userId));
+  if (toSync.length === 0) return;
+
+  await putMutations(toSync.map(change => ({
+    key: change.key,
+    userId: change.userId,
+    collection: change.collection,
+    id: change.id,
+    op: change.op,
+    data: change.data,
+    updatedAt: change.updatedAt,
+    seq: nextSeq(),
+    attempts: 0,
+    nextAttemptAt: 0,
+  })));
+  scheduleFlush();
+};
+
+let activeUserId: string | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+
+const scheduleFlush = () => {
+  if (!activeUserId || flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushQueue().catch(err => console.error('Error syncing changes:', err));
+  }, FLUSH_DELAY_MS);
+};
+
+// Errors a retry cannot fix: Postgres data, constraint and permission errors (row
+// level security included), PostgREST request errors and other 4xx responses.
+// Network errors, timeouts, rate limits and expired sessions are retried.
+const isPermanentError = (err: any): boolean => {
+  if (typeof err?.code === 'string' && /^(22|23|42|PGRST[12])/.test(err.code)) return true;
+  const status = Number(err?.status);
+  return status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+};
+
+// Sends the active user's due mutations in the order they were made.
+// With force, mutations waiting out a retry backoff are sent too.
+export const flushQueue = (force: boolean = false): Promise<void> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    const userId = activeUserId;
+    if (!userId || !isOnline()) return;
+
+    const now = Date.now();
+    const due = (await getMutations()).filter(m =>
+      m.userId === userId && !m.failed && (force || m.nextAttemptAt <= now)
+    );
+    const changed = new Set<string>();
+    let setAside = false;
+
+    for (const mutation of due) {
+      try {
+        if (await pushMutation(mutation)) changed.add(mutation.collection);
+        await deleteMutation(mutation);
+      } catch (err: any) {
+        const attempts = mutation.attempts + 1;
+        const failed = attempts >= MAX_ATTEMPTS || isPermanentError(err);
+        console.error(`Error syncing ${mutation.collection} (attempt ${attempts}${failed ? ', giving up' : ''}):`, err);
+        await rescheduleMutation({
+          ...mutation,
+          attempts,
+          nextAttemptAt: Date.now() + Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS),
+          lastError: err?.message || String(err),
+          failed,
+        });
+        if (failed) setAside = true;
+      }
+    }
+
+    notify([...changed]);
+    if (setAside) await notifyFailures(userId);
+  })().finally(() => {
+    flushing = null;
+  });
+
+  return flushing;
+};
+
+// Puts the user's failed changes back in the queue and sends them now
+export const retryFailedChanges = async (userId: string): Promise<void> => {
+  const failed = (await getMutations()).filter(m => m.userId === userId && m.failed);
+  await Promise.all(failed.map(m => rescheduleMutation({ ...m, attempts: 0, nextAttemptAt: 0, failed: false })));
+  await notifyFailures(userId);
+  await flushQueue();
+};
+
+// Drops the user's failed changes and restores the affected collections from Supabase
+export const discardFailedChanges = async (userId: string): Promise<void> => {
+  const failed = (await getMutations()).filter(m => m.userId === userId && m.failed);
+  await Promise.all(failed.map(m => deleteMutation(m)));
+  await notifyFailures(userId);
+
+  const changed: string[] = [];
+  for (const name of new Set(failed.map(m => m.collection))) {
+    try {
+      if (await pullCollection(name, userId)) changed.push(name);
+    } catch (err) {
+      console.error(`Error pulling ${name}:`, err);
+    }
+  }
+  notify(changed);
+};
+
+// Sends one change. Returns true when a newer remote row won and was saved locally instead.
+const pushMutation = async (mutation: Mutation): Promise<boolean> => {
+  const collection = getCollection(mutation.collection);
+  const match = { user_id: mutation.userId, ...collection.match(mutation.data, mutation.id) };
+
+  const { data: remote, error } = await supabase!
+    .from(collection.table)
+    .select('*')
+    .match(match)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  // Last write wins: a row changed on another device after this change replaces it
+  if (remote && isNewer(remote.updated_at, mutation.updatedAt)) {
+    if (collection.pushOnly) return false;
+    return acceptRemoteRow(mutation, remote);
+  }
+
+  if (mutation.op === 'delete') {
+    if (!remote) return false;
+    const query = collection.softDelete
+      ? supabase!.from(collection.table).update({ ...collection.softDelete, updated_at: mutation.updatedAt })
+      : supabase!.from(collection.table).delete();
+    const { error: deleteError } = await query.match(match);
+    if (deleteError) throw deleteError;
+    return false;
+  }
+
+  const { error: upsertError } = await supabase!
+    .from(collection.table)
+    .upsert(
+      { ...collection.toRow(mutation.data, mutation.id, mutation.userId), user_id: mutation.userId, updated_at: mutation.updatedAt },
+      { onConflict: collection.onConflict || 'id' }
+    );
+
+  if (upsertError) throw upsertError;
+  await collection.afterUpsert?.(mutation.data, mutation.userId);
+  return false;
+};
+
+// Saves the winning remote row unless the record was changed again locally meanwhile
+const acceptRemoteRow = async (mutation: Mutation, row: any): Promise<boolean> => {
+  const current = await getMutation(mutation.key);
+  if (current && current.seq !== mutation.seq) return false;
+
+  const { id, data } = getCollection(mutation.collection).fromRow(row);
+  const existing = await getRecord(mutation.userId, mutation.collection, id);
+  await putRecords([{
+    key: recordKey(mutation.userId, mutation.collection, id),
+    userId: mutation.userId,
+    collection: mutation.collection,
+    id,
+    data,
+    createdAt: existing?.createdAt || row.created_at || row.updated_at,
+    updatedAt: row.updated_at,
+  }]);
+  return true;
+};
+
+// ============================================================================
+// PULLING REMOTE CHANGES
+// ============================================================================
+
+// Merges the collection's remote rows into the local store. Records with a
+// queued change are left alone; the push compares them with the remote row.
+// Returns true when anything local changed.
+export const pullCollection = async (name: string, userId: string): Promise<boolean> => {
+  const collection = getCollection(name);
+  if (!isSyncEnabled(userId) || collection.pushOnly) return false;
+
+  let query = supabase!.from(collection.table).select('*').match({ user_id: userId, ...collection.pull?.filter });
+  if (collection.pull?.orderBy) query = query.order(collection.pull.orderBy, { ascending: false });
+  if (collection.pull?.limit) query = query.limit(collection.pull.limit);
+
+  const { data: rows, error } = await query;
+  if (error) throw error;
+
+  const pending = new Set((await getMutations()).map(m => m.key));
+  const local = new Map((await getRecords(userId, name)).map(record => [record.key, record]));
+  const seen = new Set<string>();
+  const updates = new Map<string, StoredRecord>();
+
+  (rows || []).forEach(row => {
+    const { id, data } = collection.fromRow(row);
+    const key = recordKey(userId, name, id);
+    seen.add(key);
+    if (pending.has(key)) return;
+
+    // Several rows can map to one record, e.g. older duplicate current plans
+    const existing = updates.get(key) || local.get(key);
+    const updatedAt = row.updated_at || row.created_at;
+    if (existing && !isNewer(updatedAt, existing.updatedAt)) return;
+
+    updates.set(key, {
+      key,
+      userId,
+      collection: name,
+      id,
+      data,
+      createdAt: existing?.createdAt || row.created_at || updatedAt,
+      updatedAt,
+    });
+  });
+
+  // Deleted on another device; with a limit, older rows were simply not fetched
+  const removed = collection.pull?.limit
+    ? []
+    : [...local.keys()].filter(key => !seen.has(key) && !pending.has(key));
+
+  await putRecords([...updates.values()]);
+  await deleteRecords(removed);
+  await setMeta(`pulled|${userId}|${name}`, new Date().toISOString());
+
+  return updates.size > 0 || removed.length > 0;
+};
+
+// Sends queued changes, then pulls every collection
+export const syncNow = async (userId: string, force: boolean = false): Promise<void> => {
+  if (!isSyncEnabled(userId) || !isOnline()) return;
+  await flushQueue(force);
+
+  const changed: string[] = [];
+  for (const name of Object.keys(collections)) {
+    try {
+      if (await pullCollection(name, userId)) changed.push(name);
+    } catch (err) {
+      console.error(`Error pulling ${name}:`, err);
+    }
+  }
+  notify(changed);
+};
+
+// Syncs the user's data until the returned function is called: now, whenever the
+// browser comes back online or the tab is shown again, and on an interval
+export const startSync = (userId: string): (() => void) => {
+  if (!isSyncEnabled(userId)) return () => { };
+  activeUserId = userId;
+
+  const sync = (force: boolean = false) => {
+    syncNow(userId, force).catch(err => console.error('Error syncing:', err));
+  };
+  // Retry everything straight away rather than waiting out the backoff
+  const handleOnline = () => sync(true);
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') sync();
+  };
+
+  window.addEventListener('online', handleOnline);
+  document.addEventListener('visibilitychange', handleVisibility);
+  const flushInterval = setInterval(() => {
+    flushQueue().catch(err => console.error('Error syncing changes:', err));
+  }, FLUSH_INTERVAL_MS);
+  const pullInterval = setInterval(() => sync(), PULL_INTERVAL_MS);
+  sync();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    document.removeEventListener('visibilitychange', handleVisibility);
+    clearInterval(flushInterval);
+    clearInterval(pullInterval);
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    if (activeUserId === userId) activeUserId = null;
+  };
+};
@@ -0,0 +1,139 @@
+/**
+ * Translation Glossary
+ * The household's saved translations of dish and grocery names, one per
+ * language. Share cards are localized from the glossary; only names it lacks
+ * go to the AI, and user corrections are kept for good.
+ */
+
+import { GlossaryEntry, GroceryItem, WeeklyPlan } from '../types';
+import { AIConfig } from './aiProvider';
+import { translateTerms } from './geminiService';
+import { LANGUAGES, getLanguage } from './languages';
+import { getDayDishes, getMealKeys } from './mealSlots';
+import { getDayNameForDate } from './planHorizon';
+
+// Cap on corrected entries sent as vocabulary with each translation request
+const MAX_VOCABULARY = 30;
+
+// "  Rajma  Chawal " -> "rajma chawal"
+export const getGlossaryKey = (source: string): string =>
+  source.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const entryKey = (entry: Pick<GlossaryEntry, 'languageId' | 'source'>): string =>
+  `${entry.languageId}|${getGlossaryKey(entry.source)}`;
+
+// Replaces entries for the same language and name, keeps the rest
+export const mergeGlossary = (entries: GlossaryEntry[], updates: GlossaryEntry[]): GlossaryEntry[] => {
+  const merged = new Map(entries.map(e => [entryKey(e), e]));
+  updates.forEach(e => merged.set(entryKey(e), e));
+  return [...merged.values()];
+};
+
+const buildLookup = (entries: GlossaryEntry[], languageId: string): Map<string, string> =>
+  new Map(entries.filter(e => e.languageId === languageId).map(e => [getGlossaryKey(e.source), e.translation]));
+
+// Entries for the given names, in the order the names appear
+export const getGlossaryEntriesFor = (terms: string[], languageId: string, entries: GlossaryEntry[]): GlossaryEntry[] => {
+  const byKey = new Map(entries.filter(e => e.languageId === languageId).map(e => [getGlossaryKey(e.source), e]));
+  return [...new Set(terms.map(getGlossaryKey))].map(key => byKey.get(key)).filter((e): e is GlossaryEntry => !!e);
+};
+
+export const getPlanTerms = (plan: WeeklyPlan): string[] =>
+  [...new Set(plan.days.flatMap(getDayDishes))];
+
+export const getGroceryTerms = (items: GroceryItem[]): string[] =>
+  [...new Set(items.map(i => i.item).filter(Boolean))];
+
+// Names with no entry for the language yet
+export const getMissingTerms = (terms: string[], languageId: string, entries: GlossaryEntry[]): string[] => {
+  const lookup = buildLookup(entries, languageId);
+  return terms.filter(t => !lookup.has(getGlossaryKey(t)));
+};
+
+// Asks the AI only for names the glossary lacks; returns the new entries (not yet saved)
+export const translateMissingTerms = async (
+  terms: string[],
+  kind: GlossaryEntry['kind'],
+  languageId: string,
+  entries: GlossaryEntry[],
+  config: AIConfig
+): Promise<GlossaryEntry[]> => {
+  const language = getLanguage(languageId);
+  if (language.code === 'en') return [];
+
+  const missing = getMissingTerms(terms, language.id, entries);
+  if (missing.length === 0) return [];
+
+  const vocabulary = Object.fromEntries(
+    entries
+      .filter(e => e.languageId === language.id && e.corrected)
+      .slice(0, MAX_VOCABULARY)
+      .map(e => [e.source, e.translation])
+  );
+  const translations = await translateTerms(missing, kind, language.id, config, vocabulary);
+  const now = new Date().toISOString();
+
+  return missing
+    .filter(term => translations[term])
+    .map((term, idx) => ({
+      id: `new_${Date.now()}_${idx}`,
+      source: term,
+      languageId: language.id,
+      translation: translations[term],
+      kind,
+      updatedAt: now
+    }));
+};
+
+// Plan with day names from the language registry and meal names from the glossary.
+// Day names come from the day's date, or failing that are recognised in any language,
+// since a plan is labelled in the language it was made in. Names without an entry stay.
+export const localizePlan = (plan: WeeklyPlan, languageId: string, entries: GlossaryEntry[]): WeeklyPlan => {
+  const language = getLanguage(languageId);
+  const lookup = buildLookup(entries, language.id);
+  const translate = (name: string) => (name ? lookup.get(getGlossaryKey(name)) || name : name);
+
+  const getDayName = (day: WeeklyPlan['days'][number]): string => {
+    if (day.date) return getDayNameForDate(day.date, language.id);
+    const name = day.day.trim().toLowerCase();
+    const known = LANGUAGES.find(l => l.dayNames.some(d => d.toLowerCase() === name));
+    return known ? language.dayNames[known.dayNames.findIndex(d => d.toLowerCase() === name)] : day.day;
+  };
+
+  return {
+    ...plan,
+    days: plan.days.map(day => {
+      const localized = { ...day, day: getDayName(day) };
+      // Meal names are kept in English, so an English plan needs no lookup
+      if (language.code !== 'en') {
+        getMealKeys(day).forEach(slot => {
+          localized[slot] = translate(day[slot]);
+        });
+      }
+      return localized;
+    })
+  };
+};
+
+const UNIT_ALIASES: Record<string, string> = { g: 'g', gm: 'g', gms: 'g', grams: 'g', kg: 'kg', kgs: 'kg', pcs: 'pieces', piece: 'pieces', pieces: 'pieces' };
+
+// "500g" -> "500 ग्राम"; units the language does not list are left alone
+const localizeQuantity = (quantity: string, units: Record<string, string>): string =>
+  quantity.replace(/(\d)\s*([a-z]+)\b/gi, (match, digit, unit) => {
+    const native = units[UNIT_ALIASES[unit.toLowerCase()]];
+    return native ? `${digit} ${native}` : match;
+  });
+
+// Grocery list with item names from the glossary and categories/units from the language registry
+export const localizeGroceryList = (items: GroceryItem[], languageId: string, entries: GlossaryEntry[]): GroceryItem[] => {
+  const language = getLanguage(languageId);
+  if (language.code === 'en') return items;
+
+  const lookup = buildLookup(entries, language.id);
+  return items.map(item => ({
+    ...item,
+    item: lookup.get(getGlossaryKey(item.item)) || item.item,
+    quantity: localizeQuantity(item.quantity || '', language.units),
+    category: language.categories[item.category] || item.category
+  }));
+};
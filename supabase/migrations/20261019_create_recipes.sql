@@ -0,0 +1,29 @@
+-- Migration: Create recipes table for generated meal recipes
+-- Run this in Supabase SQL Editor
+
+-- One recipe per meal name and serving count per user
+CREATE TABLE IF NOT EXISTS recipes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    meal_key TEXT NOT NULL, -- Lowercased, whitespace-normalized meal name
+    meal_name TEXT NOT NULL,
+    servings INTEGER NOT NULL DEFAULT 4,
+    ingredients JSONB NOT NULL DEFAULT '[]', -- Array of { name, quantity }
+    steps TEXT[] DEFAULT '{}',
+    prep_time_minutes INTEGER,
+    cook_time_minutes INTEGER,
+    tips TEXT[] DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(user_id, meal_key, servings)
+);
+
+-- Enable RLS
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own recipes
+CREATE POLICY "Users can manage own recipes" ON recipes
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Create index for faster lookups
+CREATE INDEX idx_recipes_user_meal ON recipes(user_id, meal_key);
@@ -0,0 +1,6 @@
+-- Migration: Add per-profile daily nutrition targets
+-- Run this in Supabase SQL Editor
+
+-- { calories, protein, carbs, fat, fiber } per person per day; NULL = no targets
+ALTER TABLE public.preference_profiles
+    ADD COLUMN IF NOT EXISTS nutrition_targets JSONB;
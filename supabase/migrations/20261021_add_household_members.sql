@@ -0,0 +1,6 @@
+-- Migration: Add household members to preference profiles
+-- Run this in Supabase SQL Editor
+
+-- Array of { id, name, ageGroup, dietaryTypes, allergies, spiceTolerance, portionFactor }
+ALTER TABLE public.preference_profiles
+    ADD COLUMN IF NOT EXISTS household_members JSONB DEFAULT '[]';
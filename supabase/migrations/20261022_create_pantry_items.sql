@@ -0,0 +1,29 @@
+-- Migration: Pantry inventory and cooked-day tracking
+-- Run this in Supabase SQL Editor
+
+-- Pantry stock per user
+CREATE TABLE IF NOT EXISTS pantry_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    quantity NUMERIC NOT NULL DEFAULT 0,
+    unit TEXT NOT NULL DEFAULT '',
+    category TEXT,
+    expires_on DATE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE pantry_items ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own pantry
+CREATE POLICY "Users can manage own pantry" ON pantry_items
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Create index for faster lookups
+CREATE INDEX idx_pantry_items_user_id ON pantry_items(user_id);
+
+-- When a scheduled day was cooked (its ingredients deducted from the pantry)
+ALTER TABLE public.scheduled_meals
+    ADD COLUMN IF NOT EXISTS cooked_at TIMESTAMPTZ;
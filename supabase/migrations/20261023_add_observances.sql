@@ -0,0 +1,10 @@
+-- Migration: Add festival and fasting observances to preference profiles
+-- Run this in Supabase SQL Editor
+
+-- Ids of built-in observances the household keeps, e.g. {ekadashi, sharad-navratri}
+ALTER TABLE public.preference_profiles
+    ADD COLUMN IF NOT EXISTS followed_observances TEXT[] DEFAULT '{}';
+
+-- Array of { id, name, dates, rules, notes }
+ALTER TABLE public.preference_profiles
+    ADD COLUMN IF NOT EXISTS custom_observances JSONB DEFAULT '[]';
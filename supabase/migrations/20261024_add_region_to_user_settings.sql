@@ -0,0 +1,6 @@
+-- Migration: Add produce region to user settings
+-- Run this in Supabase SQL Editor
+
+-- Region id used for seasonal produce, e.g. 'north-india', 'south-india', 'southern-temperate'
+ALTER TABLE user_settings
+    ADD COLUMN IF NOT EXISTS region TEXT DEFAULT 'north-india';
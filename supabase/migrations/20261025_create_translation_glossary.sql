@@ -0,0 +1,27 @@
+-- Migration: Translation glossary for share cards
+-- Run this in Supabase SQL Editor
+
+-- One translation per dish/grocery name and language, per user
+CREATE TABLE IF NOT EXISTS translation_glossary (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    language_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    source_key TEXT NOT NULL, -- Lowercased, whitespace-collapsed source
+    translation TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'dish', -- 'dish' | 'ingredient'
+    corrected BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, language_id, source_key)
+);
+
+-- Enable RLS
+ALTER TABLE translation_glossary ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own glossary
+CREATE POLICY "Users can manage own glossary" ON translation_glossary
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Create index for faster lookups
+CREATE INDEX idx_translation_glossary_user_id ON translation_glossary(user_id);
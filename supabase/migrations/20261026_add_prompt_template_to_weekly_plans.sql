@@ -0,0 +1,7 @@
+-- Migration: Record which prompt template generated each weekly plan
+-- Run this in Supabase SQL Editor
+
+-- Template id and version from services/promptTemplates.ts (NULL for offline plans)
+ALTER TABLE public.weekly_plans
+    ADD COLUMN IF NOT EXISTS prompt_template_id TEXT,
+    ADD COLUMN IF NOT EXISTS prompt_template_version INTEGER;
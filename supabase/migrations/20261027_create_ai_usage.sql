@@ -0,0 +1,28 @@
+-- Migration: AI usage ledger
+-- Run this in Supabase SQL Editor
+
+-- One row per AI provider call, for the usage and cost view in Settings
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    feature TEXT NOT NULL, -- Calling function, e.g. 'smartEditMeals'
+    task TEXT NOT NULL, -- 'planning' | 'quickEdit' | 'grocery' | 'analysis' | 'translation' | 'recipe'
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    response_tokens INTEGER NOT NULL DEFAULT 0, -- Includes thinking tokens
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    success BOOLEAN NOT NULL DEFAULT TRUE,
+    error TEXT, -- Error class name for failed calls
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own usage
+CREATE POLICY "Users can manage own AI usage" ON ai_usage
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Create index for the per-day usage view
+CREATE INDEX idx_ai_usage_user_created ON ai_usage(user_id, created_at);
@@ -0,0 +1,6 @@
+-- Migration: Plans for any date range instead of a fixed week
+-- Run this in Supabase SQL Editor
+
+-- First day of the plan; the number of days is the length of the days array
+ALTER TABLE public.weekly_plans
+    ADD COLUMN IF NOT EXISTS start_date DATE;
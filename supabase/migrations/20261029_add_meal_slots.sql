@@ -0,0 +1,14 @@
+-- Migration: Configurable meal slots (evening snack, kids' tiffin, bedtime milk...)
+-- Run this in Supabase SQL Editor
+
+-- Ordered array of { id, label, notes, preferences }; NULL = breakfast, lunch, dinner
+ALTER TABLE public.preference_profiles
+    ADD COLUMN IF NOT EXISTS meal_slots JSONB;
+
+-- Dishes for slots beyond breakfast, lunch and dinner, e.g. {"evening_snack": "Roasted Makhana"}
+ALTER TABLE public.scheduled_meals
+    ADD COLUMN IF NOT EXISTS extra_meals JSONB DEFAULT '{}';
+
+-- History entries can belong to any slot, so meal_type is no longer limited to three values
+ALTER TABLE public.meal_history
+    DROP CONSTRAINT IF EXISTS meal_history_meal_type_check;
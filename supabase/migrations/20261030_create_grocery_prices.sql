@@ -0,0 +1,25 @@
+-- Migration: Grocery prices from scanned receipts
+-- Run this in Supabase SQL Editor
+
+-- One row per receipt line, for cost estimates
+CREATE TABLE IF NOT EXISTS grocery_prices (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    item TEXT NOT NULL, -- Grocery list item name when the line matched one
+    quantity NUMERIC NOT NULL DEFAULT 0,
+    unit TEXT NOT NULL DEFAULT '',
+    price NUMERIC NOT NULL DEFAULT 0, -- Total paid for this quantity
+    store TEXT,
+    purchased_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE grocery_prices ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can only access their own prices
+CREATE POLICY "Users can manage own grocery prices" ON grocery_prices
+    FOR ALL USING (auth.uid() = user_id);
+
+-- Create index for the latest-price lookup
+CREATE INDEX idx_grocery_prices_user_purchased ON grocery_prices(user_id, purchased_on);
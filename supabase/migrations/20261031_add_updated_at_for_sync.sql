@@ -0,0 +1,27 @@
+-- Migration: updated_at on every synced table
+-- Run this in Supabase SQL Editor
+
+-- Changes are saved on the device first and synced in the background; when the
+-- same record was changed on two devices, the later updated_at wins
+ALTER TABLE public.weekly_plans
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE public.grocery_lists
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE public.meal_history
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE IF EXISTS public.grocery_list_history
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE public.grocery_prices
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE public.ai_usage
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing rows were last changed when they were created
+UPDATE public.weekly_plans SET updated_at = created_at WHERE created_at IS NOT NULL;
+UPDATE public.grocery_lists SET updated_at = created_at WHERE created_at IS NOT NULL;
+UPDATE public.meal_history SET updated_at = created_at WHERE created_at IS NOT NULL;
+UPDATE public.grocery_prices SET updated_at = created_at WHERE created_at IS NOT NULL;
+UPDATE public.ai_usage SET updated_at = created_at WHERE created_at IS NOT NULL;
+
+-- Each sync looks up the current plan
+CREATE INDEX IF NOT EXISTS idx_weekly_plans_user_current ON public.weekly_plans(user_id, is_current);
@@ -31,6 +31,11 @@ CREATE TABLE IF NOT EXISTS public.preference_profiles (
   non_veg_preferences TEXT[] DEFAULT '{}',
   language TEXT DEFAULT 'English',
   quick_cook_instructions TEXT[] DEFAULT '{}',
+  nutrition_targets JSONB,  -- Daily targets: { calories, protein, carbs, fat, fiber }
+  household_members JSONB DEFAULT '[]',  -- Array of HouseholdMember objects
+  followed_observances TEXT[] DEFAULT '{}',  -- Built-in observance ids (Navratri, Ekadashi...)
+  custom_observances JSONB DEFAULT '[]',  -- Array of user-defined Observance objects
+  meal_slots JSONB,  -- Ordered array of MealSlot objects (NULL = breakfast, lunch, dinner)
   is_default BOOLEAN DEFAULT FALSE,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -43,7 +48,11 @@ CREATE TABLE IF NOT EXISTS public.weekly_plans (
   profile_id UUID REFERENCES public.preference_profiles(id) ON DELETE SET NULL,
   days JSONB NOT NULL,  -- Array of DayPlan objects
   created_at TIMESTAMPTZ DEFAULT NOW(),
-  is_current BOOLEAN DEFAULT TRUE
+  is_current BOOLEAN DEFAULT TRUE,
+  prompt_template_id TEXT,  -- Prompt template that generated the plan (services/promptTemplates.ts)
+  prompt_template_version INTEGER,
+  start_date DATE,  -- First day of the plan when generated for a date range (NULL for older plans)
+  updated_at TIMESTAMPTZ DEFAULT NOW()  -- Compared when syncing changes from several devices
 );
 
 -- Scheduled Meals (Calendar Archive)
@@ -54,6 +63,8 @@ CREATE TABLE IF NOT EXISTS public.scheduled_meals (
   breakfast TEXT,
   lunch TEXT,
   dinner TEXT,
+  extra_meals JSONB DEFAULT '{}',  -- Dishes for added meal slots, keyed by slot id
+  cooked_at TIMESTAMPTZ,  -- Set when the day is marked cooked
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
   UNIQUE(user_id, date)
@@ -65,7 +76,8 @@ CREATE TABLE IF NOT EXISTS public.grocery_lists (
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
   plan_id UUID REFERENCES public.weekly_plans(id) ON DELETE CASCADE,
   items JSONB NOT NULL,  -- Array of GroceryItem objects
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Meal History (for AI learning)
@@ -73,10 +85,11 @@ CREATE TABLE IF NOT EXISTS public.meal_history (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
   date DATE NOT NULL,
-  meal_type TEXT NOT NULL CHECK (meal_type IN ('Breakfast', 'Lunch', 'Dinner')),
+  meal_type TEXT NOT NULL,  -- Meal slot label, e.g. 'Breakfast' or 'Evening Snack'
   meal_name TEXT NOT NULL,
   rating TEXT CHECK (rating IN ('liked', 'disliked') OR rating IS NULL),
-  created_at TIMESTAMPTZ DEFAULT NOW()
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Indexes for performance
@@ -84,6 +97,7 @@ CREATE INDEX IF NOT EXISTS idx_preference_profiles_user ON public.preference_pro
 CREATE INDEX IF NOT EXISTS idx_scheduled_meals_user_date ON public.scheduled_meals(user_id, date);
 CREATE INDEX IF NOT EXISTS idx_meal_history_user ON public.meal_history(user_id);
 CREATE INDEX IF NOT EXISTS idx_weekly_plans_user ON public.weekly_plans(user_id);
+CREATE INDEX IF NOT EXISTS idx_weekly_plans_user_current ON public.weekly_plans(user_id, is_current);
 
 -- Enable Row Level Security on all tables
 ALTER TABLE public.user_profiles ENABLE ROW LEVEL SECURITY;
@@ -1,15 +1,36 @@
-export type MealType = 'Breakfast' | 'Lunch' | 'Dinner';
+// Label of the meal slot a history entry belongs to, e.g. 'Breakfast' or 'Evening Snack'
+export type MealType = string;
+
+// A meal the profile plans each day (see services/mealSlots.ts)
+export interface MealSlot {
+  id: string; // Key of the slot's dish on DayPlan, e.g. 'breakfast' or 'evening_snack'
+  label: string; // e.g. "Kids' Tiffin"
+  notes?: string; // Guidance for the planner, e.g. "packed for school, eaten cold"
+  preferences?: string[]; // Dish ideas for added slots; breakfast, lunch and dinner use the profile's lists
+}
 
 export interface DayPlan {
   day: string;
   breakfast: string;
   lunch: string;
   dinner: string;
+  // Added meal slots store their dish under the slot id, e.g. day.evening_snack
+  cookedAt?: string; // ISO timestamp, set when the day is marked cooked (pantry deducted)
+  date?: string; // YYYY-MM-DD, for plans generated for a specific date range
   [key: string]: string; // Index signature for dynamic access
 }
 
+// Despite the name, covers any number of consecutive days (see services/planHorizon.ts)
 export interface WeeklyPlan {
   days: DayPlan[];
+  startDate?: string; // YYYY-MM-DD of the first day, when the plan was made for specific dates
+  promptTemplate?: PromptTemplateRef; // Prompt that generated the plan (absent for offline plans)
+}
+
+// A template from services/promptTemplates.ts
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
 }
 
 export interface GroceryItem {
@@ -30,10 +51,47 @@ export interface UserPreferences {
   dinnerPreferences: string[];
   specialInstructions: string;
   pantryStaples: string[];
-  mealsToPrepare?: ('breakfast' | 'lunch' | 'dinner')[];
+  mealsToPrepare?: string[]; // Slot ids the cook prepares; empty = every slot
+  mealSlots?: MealSlot[]; // Ordered meal slots; empty = breakfast, lunch and dinner
   nonVegPreferences?: string[];
-  language?: 'English' | 'Hindi';
+  language?: string; // Language id from services/languages.ts, e.g. 'Hindi'
   quickCookInstructions?: string[]; // Quick default toggles
+  nutritionTargets?: Partial<NutritionInfo>; // Daily targets per person
+  householdMembers?: HouseholdMember[]; // Who the meals are cooked for; empty = one eater
+  followedObservances?: string[]; // Built-in observance ids this household keeps
+  customObservances?: Observance[]; // User-added observances (always followed)
+}
+
+export type ObservanceRule = 'no-grains' | 'no-onion-garlic' | 'sattvic' | 'vegetarian' | 'day-fast';
+
+export interface Observance {
+  id: string;
+  name: string;
+  dates: string[]; // YYYY-MM-DD
+  rules: ObservanceRule[];
+  notes?: string;
+}
+
+export type AgeGroup = 'toddler' | 'child' | 'teen' | 'adult' | 'senior';
+export type SpiceTolerance = 'none' | 'mild' | 'medium' | 'hot';
+
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  ageGroup: AgeGroup;
+  dietaryTypes: string[]; // Same values as UserPreferences.dietaryTypes
+  allergies: string[];
+  spiceTolerance: SpiceTolerance;
+  portionFactor: number; // 1 = one adult portion
+}
+
+// Estimated nutrition for one adult serving (or a sum of servings)
+export interface NutritionInfo {
+  calories: number; // kcal
+  protein: number; // grams
+  carbs: number; // grams
+  fat: number; // grams
+  fiber: number; // grams
 }
 
 export interface PreferenceProfile extends UserPreferences {
@@ -51,9 +109,12 @@ export interface MealHistoryEntry {
 // Map 'YYYY-MM-DD' to DayPlan
 export type Schedule = Record<string, DayPlan>;
 
+// A schedule day with its date, e.g. one of the days a calendar grocery list covers
+export type ScheduledDay = DayPlan & { date: string };
+
 export interface MealTransfer {
   sourceDate: string;
-  sourceMealType: string;
+  sourceMealType: string; // Slot id, e.g. 'lunch'
   sourceMealName: string;
 }
 
@@ -63,4 +124,132 @@ export interface SavedGroceryList {
   items: GroceryItem[];
   dateRange: string; // e.g., "Jan 6 - Jan 12, 2026"
   createdAt: string; // ISO timestamp
-}
\ No newline at end of file
+}
+
+export interface RecipeIngredient {
+  name: string;
+  quantity: string; // e.g., "200 g", "2 tbsp", "to taste"
+}
+
+export interface Recipe {
+  id: string;
+  mealName: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  steps: string[];
+  prepTimeMinutes: number;
+  cookTimeMinutes: number;
+  tips: string[];
+  createdAt: string; // ISO timestamp
+}
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string; // e.g., "kg", "g", "L", "pcs"
+  category?: string; // Same categories as GroceryItem
+  expiresOn?: string; // YYYY-MM-DD
+  updatedAt: string; // ISO timestamp
+}
+
+export type AlternativeTag = 'seasonal' | 'leftover' | 'quick' | 'variety' | 'favourite';
+
+// One ranked suggestion for replacing a planned meal (see services/mealAlternatives.ts)
+export interface MealAlternative {
+  meal: string;
+  reason: string; // Short, e.g. "Uses the paneer in your pantry"
+  tag: AlternativeTag;
+}
+
+// An ingredient recognised in a fridge or pantry photo, before the user confirms it
+export interface DetectedIngredient {
+  name: string;
+  quantity: number; // Approximate
+  unit: string; // Same units as PantryItem
+  category: string; // Same categories as GroceryItem
+}
+
+// One line of a scanned grocery bill
+export interface ReceiptLineItem {
+  name: string; // Cleaned up, e.g. "Toor Dal" for "TATA SMPN TOOR DAL 1KG"
+  quantity: number;
+  unit: string; // Same units as PantryItem
+  category: string; // Same categories as GroceryItem
+  price: number; // Line total as printed, after discounts
+  listItem?: string; // GroceryItem.item it was bought for in the latest saved list; '' when not on it
+}
+
+export interface ScannedReceipt {
+  store?: string;
+  purchasedOn?: string; // YYYY-MM-DD, when printed on the bill
+  items: ReceiptLineItem[];
+}
+
+// A price paid for a grocery item, kept for cost estimates
+export interface GroceryPrice {
+  id: string;
+  item: string;
+  quantity: number;
+  unit: string;
+  price: number; // Total paid for this quantity
+  store?: string;
+  purchasedOn: string; // YYYY-MM-DD
+  createdAt: string; // ISO timestamp
+}
+
+// A meal change proposed by the planning assistant, reviewed as a diff before it is applied
+export interface PlanEdit {
+  target: 'plan' | 'schedule';
+  dayIndex?: number; // WeeklyPlan day, when target is 'plan'
+  date?: string; // YYYY-MM-DD, when target is 'schedule'
+  mealType: string; // Slot id
+  before: string; // Dish when the edit was proposed; '' for an empty slot
+  after: string;
+  reason?: string;
+}
+
+export interface AssistantMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  edits?: PlanEdit[]; // Proposed by an assistant reply
+  editsStatus?: 'pending' | 'applied' | 'dismissed';
+  createdAt: string; // ISO timestamp
+}
+
+// A user's stable translation of a dish or grocery name
+export interface GlossaryEntry {
+  id: string;
+  source: string; // English name as it appears in plans and grocery lists
+  languageId: string; // Language id from services/languages.ts
+  translation: string;
+  kind: 'dish' | 'ingredient';
+  corrected?: boolean; // Edited by the user; used as vocabulary for new translations
+  updatedAt: string; // ISO timestamp
+}
+
+// One provider call, for the usage and cost view in Settings
+export interface AIUsageEntry {
+  id: string;
+  feature: string; // geminiService function that made the call, e.g. 'smartEditMeals'
+  task: string; // AITask the model was chosen for
+  provider: string;
+  model: string;
+  promptTokens: number;
+  responseTokens: number; // Includes thinking tokens, which are billed as output
+  latencyMs: number;
+  success: boolean;
+  error?: string; // Error class name when the call failed
+  createdAt: string; // ISO timestamp
+}
+
+// A planned dish that breaks one of the profile's constraints
+export interface MealViolation {
+  kind: 'allergy' | 'dislike' | 'diet';
+  term: string; // The allergy, dislike or dietary type that was broken
+  reason: string; // e.g., "contains egg"
+}
+
+// Keyed by meal slot id
+export type DayViolations = Partial<Record<string, MealViolation[]>>;